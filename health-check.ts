@@ -8,7 +8,7 @@ console.log('🔍 LCPlatform Dependency Management - Health Check\n');
 
 // Test User Story 1: Application Registration
 const platform = new LCPlatform({ provider: 'mock' });
-const app = platform.registerApplication({
+const app = await platform.registerApplication({
   name: 'Test App',
   team: 'platform',
   moniker: 'testapp',
@@ -128,8 +128,8 @@ const accountId = app.getAccountId();
 console.log('\n✅ Additional Features - WORKING');
 console.log(`  - Resource tags generation: ${Object.keys(tags).length} tags`);
 console.log(`  - Account ID getter: ${accountId}`);
-console.log(`  - List applications: ${platform.listApplications().length} apps`);
-console.log(`  - Get application: ${platform.getApplication(app.id)?.name}`);
+console.log(`  - List applications: ${(await platform.listApplications()).length} apps`);
+console.log(`  - Get application: ${(await platform.getApplication(app.id))?.name}`);
 
 // Test dependency removal
 const removeResult = app.removeDependency('secrets');
@@ -34,7 +34,8 @@
  * ```
  */
 
-import type { RuntimeConfig } from './core/types/runtime';
+import type { RuntimeConfig, MessageHandler, QueueConsumerOptions } from './core/types/runtime';
+import type { TypedChannelOptions, TypedQueueOptions } from './core/types/codec';
 import type { ProviderConfig } from './core/types/common';
 import type { QueueClient } from './core/clients/QueueClient';
 import type { ObjectClient } from './core/clients/ObjectClient';
@@ -59,6 +60,16 @@ import { DataClientFactory } from './factory/clients/DataClientFactory';
 import { AuthClientFactory } from './factory/clients/AuthClientFactory';
 import { CacheClientFactory } from './factory/clients/CacheClientFactory';
 import { ContainerRepoClientFactory } from './factory/clients/ContainerRepoClientFactory';
+import { QueueConsumer } from './utils/queueConsumer';
+import { TypedEventPublisher, TypedQueue } from './utils/typedChannels';
+import { getLogger } from './utils/observability';
+import {
+  LargePayloadEventPublisher,
+  LargePayloadNotificationClient,
+  LargePayloadQueueClient,
+  LargePayloadStore,
+  getLargePayloadOptions,
+} from './utils/largePayloads';
 
 export class LCAppRuntime {
   private readonly config: RuntimeConfig;
@@ -89,6 +100,7 @@ export class LCAppRuntime {
   private authClient?: AuthClient;
   private cacheClient?: CacheClient;
   private containerRepoClient?: ContainerRepoClient;
+  private largePayloadStore?: LargePayloadStore | null;
 
   constructor(config: RuntimeConfig) {
     this.config = config;
@@ -129,14 +141,43 @@ export class LCAppRuntime {
   /**
    * Get a QueueClient for queue operations
    * Queue operations: send, sendBatch, receive, acknowledge, acknowledgeBatch, changeVisibility
+   *
+   * With `options.largePayloads`, large messages are offloaded to object storage.
    */
   public getQueueClient(): QueueClient {
     if (this.queueClient === undefined) {
-      this.queueClient = this.queueClientFactory.create(this.providerConfig);
+      const client = this.queueClientFactory.create(this.providerConfig);
+      const store = this.getLargePayloadStore();
+      this.queueClient = store !== undefined ? new LargePayloadQueueClient(client, store) : client;
     }
     return this.queueClient;
   }
 
+  /**
+   * Create a QueueConsumer that runs a handler for each message on a queue
+   * Call start() to begin polling and stop() to drain on shutdown
+   */
+  public createQueueConsumer(
+    queueName: string,
+    handler: MessageHandler,
+    options?: QueueConsumerOptions
+  ): QueueConsumer {
+    return new QueueConsumer(
+      this.getQueueClient(),
+      queueName,
+      handler,
+      options,
+      getLogger(this.providerConfig)
+    );
+  }
+
+  /**
+   * Create a TypedQueue that validates and encodes messages for one queue
+   */
+  public createTypedQueue<T>(queueName: string, options?: TypedQueueOptions): TypedQueue<T> {
+    return new TypedQueue<T>(this.getQueueClient(), queueName, options);
+  }
+
   /**
    * Get an ObjectClient for object storage operations
    * Object operations: get, put, delete, deleteBatch, list, exists, getMetadata, getSignedUrl
@@ -176,22 +217,61 @@ export class LCAppRuntime {
    */
   public getEventPublisher(): EventPublisher {
     if (this.eventPublisher === undefined) {
-      this.eventPublisher = this.eventPublisherFactory.create(this.providerConfig);
+      const publisher = this.eventPublisherFactory.create(this.providerConfig);
+      const store = this.getLargePayloadStore();
+      this.eventPublisher =
+        store !== undefined ? new LargePayloadEventPublisher(publisher, store) : publisher;
     }
     return this.eventPublisher;
   }
 
+  /**
+   * Create a TypedEventPublisher that validates and encodes the data of one event type
+   */
+  public createTypedEventPublisher<T>(
+    eventBusName: string,
+    source: string,
+    type: string,
+    options?: TypedChannelOptions
+  ): TypedEventPublisher<T> {
+    return new TypedEventPublisher<T>(
+      this.getEventPublisher(),
+      eventBusName,
+      source,
+      type,
+      options
+    );
+  }
+
   /**
    * Get a NotificationClient for publishing notifications
    * Notification operations: publish, publishBatch
    */
   public getNotificationClient(): NotificationClient {
     if (this.notificationClient === undefined) {
-      this.notificationClient = this.notificationClientFactory.create(this.providerConfig);
+      const client = this.notificationClientFactory.create(this.providerConfig);
+      const store = this.getLargePayloadStore();
+      this.notificationClient =
+        store !== undefined ? new LargePayloadNotificationClient(client, store) : client;
     }
     return this.notificationClient;
   }
 
+  /**
+   * Get the store for payloads offloaded by the queue, event and notification clients
+   * Subscribers use resolve() to read offloaded event data and notification bodies
+   *
+   * @returns undefined when `options.largePayloads` is not configured
+   */
+  public getLargePayloadStore(): LargePayloadStore | undefined {
+    if (this.largePayloadStore === undefined) {
+      const options = getLargePayloadOptions(this.providerConfig);
+      this.largePayloadStore =
+        options !== undefined ? new LargePayloadStore(this.getObjectClient(), options) : null;
+    }
+    return this.largePayloadStore ?? undefined;
+  }
+
   /**
    * Get a DocumentClient for document store operations
    * Document operations: get, put, update, delete, query, batchGet, batchPut
@@ -44,6 +44,20 @@ import type { ContainerRepoService } from './core/services/ContainerRepoService'
 
 // Application dependency management types
 import { LCPlatformApp, type LCPlatformAppData } from './core/types/application';
+import type { ApplicationRegistry } from './utils/applicationRegistry';
+import { InMemoryApplicationRegistry } from './utils/applicationRegistry';
+import { DependencyProvisioner } from './utils/dependencyProvisioner';
+import { DependencyPlanner } from './utils/dependencyPlanner';
+
+/**
+ * Optional LCPlatform settings that are not provider configuration
+ */
+export interface LCPlatformOptions {
+  /**
+   * Backend for registered applications (defaults to an in-memory registry)
+   */
+  applicationRegistry?: ApplicationRegistry;
+}
 
 /**
  * Main LCPlatform class
@@ -73,11 +87,12 @@ export class LCPlatform {
   private readonly containerRepoFactory = new ContainerRepoServiceFactory();
 
   // Application registry for dependency management
-  private readonly applications = new Map<string, LCPlatformApp>();
+  private readonly applications: ApplicationRegistry;
 
-  constructor(config: ProviderConfig) {
+  constructor(config: ProviderConfig, options: LCPlatformOptions = {}) {
     validateProviderConfig(config);
     this.config = config;
+    this.applications = options.applicationRegistry ?? new InMemoryApplicationRegistry();
   }
 
   /**
@@ -208,20 +223,30 @@ export class LCPlatform {
    *
    * @param data - Application registration data
    * @returns Registered LCPlatformApp instance
+   * @throws ValidationError if the team already has an application with this moniker
    */
-  public registerApplication(data: LCPlatformAppData): LCPlatformApp {
+  public async registerApplication(data: LCPlatformAppData): Promise<LCPlatformApp> {
     const app = new LCPlatformApp(data);
-    this.applications.set(app.id, app);
+    await this.applications.save(app);
     return app;
   }
 
+  /**
+   * Save changes to a registered application (e.g. added dependencies)
+   *
+   * @param app - Application to save
+   */
+  public async saveApplication(app: LCPlatformApp): Promise<void> {
+    await this.applications.save(app);
+  }
+
   /**
    * Get an application by ID
    *
    * @param id - Application ID
    * @returns LCPlatformApp instance or undefined if not found
    */
-  public getApplication(id: string): LCPlatformApp | undefined {
+  public async getApplication(id: string): Promise<LCPlatformApp | undefined> {
     return this.applications.get(id);
   }
 
@@ -230,7 +255,67 @@ export class LCPlatform {
    *
    * @returns Array of all registered LCPlatformApp instances
    */
-  public listApplications(): LCPlatformApp[] {
-    return Array.from(this.applications.values());
+  public async listApplications(): Promise<LCPlatformApp[]> {
+    return this.applications.list();
+  }
+
+  /**
+   * Find all applications owned by a team
+   *
+   * @param team - Team name
+   * @returns Applications registered for the team
+   */
+  public async findApplicationsByTeam(team: string): Promise<LCPlatformApp[]> {
+    return this.applications.findByTeam(team);
+  }
+
+  /**
+   * Find an application by team and moniker
+   *
+   * @param team - Team name
+   * @param moniker - Application moniker
+   * @returns LCPlatformApp instance or undefined if not found
+   */
+  public async findApplicationByMoniker(
+    team: string,
+    moniker: string
+  ): Promise<LCPlatformApp | undefined> {
+    return this.applications.findByMoniker(team, moniker);
+  }
+
+  /**
+   * Remove an application from the registry
+   *
+   * @param id - Application ID
+   * @returns True if the application was registered
+   */
+  public async unregisterApplication(id: string): Promise<boolean> {
+    return this.applications.delete(id);
+  }
+
+  /**
+   * Get a DependencyProvisioner that creates application dependencies
+   * through this platform's object store, queue, secrets and data store services
+   */
+  public getDependencyProvisioner(): DependencyProvisioner {
+    return new DependencyProvisioner({
+      objectStore: this.getObjectStore(),
+      queue: this.getQueue(),
+      secrets: this.getSecrets(),
+      dataStore: this.getDataStore(),
+    });
+  }
+
+  /**
+   * Get a DependencyPlanner that plans and applies dependency changes
+   * against this platform's object store, queue, secrets and data store services
+   */
+  public getDependencyPlanner(): DependencyPlanner {
+    return new DependencyPlanner({
+      objectStore: this.getObjectStore(),
+      queue: this.getQueue(),
+      secrets: this.getSecrets(),
+      dataStore: this.getDataStore(),
+    });
   }
 }
@@ -7,41 +7,110 @@
  * Constitution Principle I: Provider Independence
  */
 
-import type { ConfigurationData } from '../types/configuration';
+import type {
+  ConfigChangeListener,
+  ConfigSubscription,
+  ConfigurationData,
+  ConfigWatchOptions,
+  FeatureFlagContext,
+} from '../types/configuration';
+import type { CacheReadOptions, CacheStats } from '../types/runtime';
 
 export interface ConfigClient {
   /**
    * Get full configuration data
    * @param configName - Name of the configuration
    * @param environment - Optional environment/profile
+   * @param options - Optional cache TTL override or forced refresh
    * @returns Configuration data as key-value object
    */
-  get(configName: string, environment?: string): Promise<ConfigurationData>;
+  get(
+    configName: string,
+    environment?: string,
+    options?: CacheReadOptions
+  ): Promise<ConfigurationData>;
 
   /**
    * Get a string configuration value
    * @param configName - Name of the configuration
    * @param key - Configuration key
    * @param defaultValue - Default value if key not found
+   * @param options - Optional cache TTL override or forced refresh
    * @returns String value
    */
-  getString(configName: string, key: string, defaultValue?: string): Promise<string>;
+  getString(
+    configName: string,
+    key: string,
+    defaultValue?: string,
+    options?: CacheReadOptions
+  ): Promise<string>;
 
   /**
    * Get a number configuration value
    * @param configName - Name of the configuration
    * @param key - Configuration key
    * @param defaultValue - Default value if key not found
+   * @param options - Optional cache TTL override or forced refresh
    * @returns Number value
    */
-  getNumber(configName: string, key: string, defaultValue?: number): Promise<number>;
+  getNumber(
+    configName: string,
+    key: string,
+    defaultValue?: number,
+    options?: CacheReadOptions
+  ): Promise<number>;
 
   /**
    * Get a boolean configuration value
    * @param configName - Name of the configuration
    * @param key - Configuration key
    * @param defaultValue - Default value if key not found
+   * @param options - Optional cache TTL override or forced refresh
    * @returns Boolean value
    */
-  getBoolean(configName: string, key: string, defaultValue?: boolean): Promise<boolean>;
+  getBoolean(
+    configName: string,
+    key: string,
+    defaultValue?: boolean,
+    options?: CacheReadOptions
+  ): Promise<boolean>;
+
+  /**
+   * Evaluate a feature flag stored in a configuration
+   * @param configName - Name of the configuration
+   * @param flagName - Flag key (dot-separated paths reach nested values)
+   * @param context - Optional targeting context for rollouts
+   * @param defaultValue - Result if the flag or configuration is not found
+   * @returns Whether the flag is on for the context
+   */
+  getFeatureFlag(
+    configName: string,
+    flagName: string,
+    context?: FeatureFlagContext,
+    defaultValue?: boolean
+  ): Promise<boolean>;
+
+  /**
+   * Watch a configuration for changes
+   * @param configName - Name of the configuration
+   * @param listener - Called with the old and new data after each change
+   * @param options - Environment, polling interval and error handler
+   * @returns Subscription that stops the watch
+   */
+  watch<T extends ConfigurationData = ConfigurationData>(
+    configName: string,
+    listener: ConfigChangeListener<T>,
+    options?: ConfigWatchOptions
+  ): Promise<ConfigSubscription>;
+
+  /**
+   * Get read cache statistics (all zero when caching is disabled)
+   */
+  getCacheStats(): CacheStats;
+
+  /**
+   * Drop cached values
+   * @param configName - Configuration to invalidate (all environments); omit to clear the cache
+   */
+  invalidateCache(configName?: string): void;
 }
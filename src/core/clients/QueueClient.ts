@@ -24,9 +24,15 @@ export interface QueueClient {
    * Send multiple messages to a queue
    * @param queueName - Name of the queue
    * @param messages - Array of messages to send
+   * @param options - Send options of each message by index, e.g. the messageGroupId of
+   * FIFO queue messages
    * @returns Result with successful and failed entries
    */
-  sendBatch(queueName: string, messages: unknown[]): Promise<BatchSendResult>;
+  sendBatch(
+    queueName: string,
+    messages: unknown[],
+    options?: SendOptions[]
+  ): Promise<BatchSendResult>;
 
   /**
    * Receive messages from a queue
@@ -8,21 +8,39 @@
  */
 
 import type { SecretValue } from '../types/secret';
+import type { CacheReadOptions, CacheStats } from '../types/runtime';
 
 export interface SecretsClient {
   /**
    * Get a secret value
    * @param secretName - Name of the secret
    * @param version - Optional version ID or stage
+   * @param options - Optional cache TTL override or forced refresh
    * @returns Secret value (string or object)
    */
-  get(secretName: string, version?: string): Promise<SecretValue>;
+  get(secretName: string, version?: string, options?: CacheReadOptions): Promise<SecretValue>;
 
   /**
    * Get a secret value as parsed JSON
    * @param secretName - Name of the secret
    * @param version - Optional version ID or stage
+   * @param options - Optional cache TTL override or forced refresh
    * @returns Parsed JSON object
    */
-  getJson<T = unknown>(secretName: string, version?: string): Promise<T>;
+  getJson<T = unknown>(
+    secretName: string,
+    version?: string,
+    options?: CacheReadOptions
+  ): Promise<T>;
+
+  /**
+   * Get read cache statistics (all zero when caching is disabled)
+   */
+  getCacheStats(): CacheStats;
+
+  /**
+   * Drop cached values
+   * @param secretName - Secret to invalidate (all versions); omit to clear the cache
+   */
+  invalidateCache(secretName?: string): void;
 }
@@ -7,8 +7,11 @@ import type {
   Message,
   Queue,
   QueueOptions,
+  QueueUpdateOptions,
   SendMessageParams,
   ReceiveMessageParams,
+  RedriveParams,
+  RedriveResult,
 } from '../types/queue';
 
 export interface QueueService {
@@ -27,6 +30,14 @@ export interface QueueService {
    */
   getQueue(queueUrl: string): Promise<Queue>;
 
+  /**
+   * Change the settings of an existing queue; settings that are not given are kept
+   * @param queueUrl URL or identifier of the queue
+   * @param options Settings to change; enableDeadLetter adds a dead-letter queue if missing
+   * @returns The updated queue details
+   */
+  updateQueue(queueUrl: string, options: QueueUpdateOptions): Promise<Queue>;
+
   /**
    * Delete a queue and all its messages
    * @param queueUrl URL or identifier of the queue
@@ -67,4 +78,30 @@ export interface QueueService {
    * @param queueUrl URL or identifier of the queue
    */
   purgeQueue(queueUrl: string): Promise<void>;
+
+  /**
+   * Read messages in a queue's dead-letter queue without removing them
+   * @param queueUrl URL or identifier of the source queue
+   * @param maxMessages Largest number of messages to return (default 10)
+   * @returns Messages in the dead-letter queue
+   * @throws ValidationError if the queue has no dead-letter queue
+   */
+  peekDeadLetterMessages(queueUrl: string, maxMessages?: number): Promise<Message[]>;
+
+  /**
+   * Move messages from a queue's dead-letter queue back to the queue
+   * @param queueUrl URL or identifier of the source queue
+   * @param params Optional limit and filter
+   * @returns Counts of moved and skipped messages
+   * @throws ValidationError if the queue has no dead-letter queue
+   */
+  redriveDeadLetterMessages(queueUrl: string, params?: RedriveParams): Promise<RedriveResult>;
+
+  /**
+   * Count the messages in a queue's dead-letter queue
+   * @param queueUrl URL or identifier of the source queue
+   * @returns Approximate number of messages
+   * @throws ValidationError if the queue has no dead-letter queue
+   */
+  getDeadLetterQueueDepth(queueUrl: string): Promise<number>;
 }
@@ -7,15 +7,30 @@
 
 import { generateAppId, generateDependencyId } from '../../utils/idGenerator';
 import { generateDependencyResourceName } from '../../utils/nameGenerator';
+import { assertTransition } from '../../utils/dependencyStatus';
+import { sortByReferences } from '../../utils/dependencyGraph';
 import type {
   ApplicationDependency,
   DependencyType,
   DependencyConfiguration,
   DependencyStatus,
+  DependencyStatusChange,
   PolicyDocument,
 } from './dependency';
 import { DependencyStatus as StatusEnum } from './dependency';
 
+/**
+ * Copy a dependency and its status history, so callers cannot rewrite recorded history
+ */
+function copyDependency(dependency: ApplicationDependency): ApplicationDependency {
+  return {
+    ...dependency,
+    ...(dependency.statusHistory !== undefined && {
+      statusHistory: dependency.statusHistory.map((change) => ({ ...change })),
+    }),
+  };
+}
+
 /**
  * Platform deployment type
  */
@@ -57,7 +72,10 @@ export interface LCPlatformAppData {
 export interface ApplicationVersion {
   version: string;
   appId: string;
-  appConfig: LCPlatformAppData;
+  /**
+   * Undefined for snapshots written before the app config was stored with each version
+   */
+  appConfig?: LCPlatformAppData;
   dependencies: ApplicationDependency[];
   storagePath: string;
   createdAt: Date;
@@ -65,6 +83,18 @@ export interface ApplicationVersion {
   changeLog: string;
 }
 
+/**
+ * Full persisted state of an application, used to rehydrate an LCPlatformApp
+ */
+export interface LCPlatformAppSnapshot extends LCPlatformAppData {
+  id: string;
+  accountId?: string;
+  dependencies: ApplicationDependency[];
+  createdAt: Date;
+  updatedAt: Date;
+  currentVersion?: string;
+}
+
 /**
  * Registered application with dependency management
  */
@@ -86,12 +116,12 @@ export class LCPlatformApp {
   // Account ID for resource naming (set from platform config)
   private accountId?: string;
 
-  constructor(data: LCPlatformAppData) {
+  constructor(data: LCPlatformAppData, snapshot?: LCPlatformAppSnapshot) {
     // Validate input
     this.validateInput(data);
 
     // Initialize fields
-    this.id = generateAppId();
+    this.id = snapshot?.id ?? generateAppId();
     this.name = data.name;
     this.team = data.team;
     this.moniker = data.moniker;
@@ -100,9 +130,57 @@ export class LCPlatformApp {
     this.environment = data.environment;
     this.supportEmail = data.supportEmail;
     this.ownerEmail = data.ownerEmail;
-    this.dependencies = [];
-    this.createdAt = new Date();
-    this.updatedAt = new Date();
+    this.dependencies = snapshot !== undefined ? snapshot.dependencies.map(copyDependency) : [];
+    this.createdAt = snapshot?.createdAt ?? new Date();
+    this.updatedAt = snapshot?.updatedAt ?? new Date();
+
+    if (snapshot?.currentVersion !== undefined) {
+      this.currentVersion = snapshot.currentVersion;
+    }
+    if (snapshot?.accountId !== undefined) {
+      this.accountId = snapshot.accountId;
+    }
+  }
+
+  /**
+   * Rehydrate a previously persisted application, preserving its ID and timestamps
+   */
+  static fromSnapshot(snapshot: LCPlatformAppSnapshot): LCPlatformApp {
+    return new LCPlatformApp(
+      {
+        name: snapshot.name,
+        team: snapshot.team,
+        moniker: snapshot.moniker,
+        ciAppId: snapshot.ciAppId,
+        platformType: snapshot.platformType,
+        environment: snapshot.environment,
+        supportEmail: snapshot.supportEmail,
+        ownerEmail: snapshot.ownerEmail,
+      },
+      snapshot
+    );
+  }
+
+  /**
+   * Capture the full application state for persistence
+   */
+  toSnapshot(): LCPlatformAppSnapshot {
+    return {
+      id: this.id,
+      name: this.name,
+      team: this.team,
+      moniker: this.moniker,
+      ciAppId: this.ciAppId,
+      platformType: this.platformType,
+      environment: this.environment,
+      supportEmail: this.supportEmail,
+      ownerEmail: this.ownerEmail,
+      ...(this.accountId !== undefined && { accountId: this.accountId }),
+      dependencies: this.listDependencies(),
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      ...(this.currentVersion !== undefined && { currentVersion: this.currentVersion }),
+    };
   }
 
   /**
@@ -207,14 +285,15 @@ export class LCPlatformApp {
     this.dependencies.push(dependency);
     this.updatedAt = new Date();
 
-    return dependency;
+    return copyDependency(dependency);
   }
 
   /**
    * Get a dependency by name
    */
   getDependency(name: string): ApplicationDependency | undefined {
-    return this.dependencies.find((dep) => dep.name === name);
+    const dependency = this.findDependency(name);
+    return dependency !== undefined ? copyDependency(dependency) : undefined;
   }
 
   /**
@@ -235,11 +314,77 @@ export class LCPlatformApp {
    * List all dependencies
    */
   listDependencies(): ApplicationDependency[] {
-    return [...this.dependencies];
+    return this.dependencies.map(copyDependency);
+  }
+
+  /**
+   * List dependencies in creation order, with referenced dependencies first
+   *
+   * @throws ValidationError if dependency references contain a cycle
+   */
+  getCreationOrder(): ApplicationDependency[] {
+    return sortByReferences(this.dependencies).map(copyDependency);
+  }
+
+  /**
+   * List dependencies in teardown order, the reverse of creation order
+   *
+   * @throws ValidationError if dependency references contain a cycle
+   */
+  getTeardownOrder(): ApplicationDependency[] {
+    return this.getCreationOrder().reverse();
+  }
+
+  /**
+   * Get the status transitions recorded for a dependency, oldest first
+   */
+  getDependencyStatusHistory(name: string): readonly DependencyStatusChange[] {
+    return this.getDependency(name)?.statusHistory ?? [];
+  }
+
+  /**
+   * Replace all dependencies, e.g. when rolling back to a persisted version
+   *
+   * Restored statuses are not checked against the transition table. A dependency that
+   * exists now keeps its status history, and a status that differs from its current
+   * one is appended to it with the given actor, reason and time (default now).
+   */
+  replaceDependencies(
+    dependencies: ApplicationDependency[],
+    change: { actor?: string; reason?: string; changedAt?: Date } = {}
+  ): void {
+    const changedAt = change.changedAt ?? new Date();
+    this.dependencies = dependencies.map((dep) => {
+      const current = this.findDependency(dep.name);
+      if (current === undefined) {
+        return copyDependency(dep);
+      }
+
+      const statusHistory = [...(current.statusHistory ?? [])];
+      if (current.status !== dep.status) {
+        statusHistory.push({
+          from: current.status,
+          to: dep.status,
+          changedAt,
+          ...(change.actor !== undefined && { actor: change.actor }),
+          ...(change.reason !== undefined && { reason: change.reason }),
+        });
+      }
+      return copyDependency({
+        ...dep,
+        ...(statusHistory.length > 0 && { statusHistory }),
+      });
+    });
+    this.updatedAt = changedAt;
   }
 
   /**
    * Update a dependency
+   *
+   * Status changes must follow the dependency status transition table and are
+   * appended to the dependency's status history along with the actor and reason.
+   *
+   * @throws InvalidStateTransitionError if the status change is not allowed
    */
   updateDependency(
     name: string,
@@ -247,27 +392,62 @@ export class LCPlatformApp {
       configuration?: DependencyConfiguration;
       policy?: PolicyDocument;
       status?: DependencyStatus;
+      actor?: string;
+      reason?: string;
+      /**
+       * Record a completed deployment; sets deployedAt and clears deploymentError
+       */
+      deployedBy?: string;
+      /**
+       * Record a failed deployment
+       */
+      deploymentError?: string;
     }
   ): ApplicationDependency | undefined {
-    const dependency = this.getDependency(name);
+    const dependency = this.findDependency(name);
     if (dependency === undefined) {
       return undefined;
     }
 
+    if (updates.status !== undefined && updates.status !== dependency.status) {
+      assertTransition(dependency.status, updates.status, {
+        appId: this.id,
+        dependencyName: name,
+      });
+
+      const change: DependencyStatusChange = {
+        from: dependency.status,
+        to: updates.status,
+        changedAt: new Date(),
+        ...(updates.actor !== undefined && { actor: updates.actor }),
+        ...(updates.reason !== undefined && { reason: updates.reason }),
+      };
+      dependency.statusHistory = [...(dependency.statusHistory ?? []), change];
+      dependency.status = updates.status;
+    }
     if (updates.configuration !== undefined) {
       dependency.configuration = updates.configuration;
     }
     if (updates.policy !== undefined) {
       dependency.policy = updates.policy;
     }
-    if (updates.status !== undefined) {
-      dependency.status = updates.status;
+    if (updates.deployedBy !== undefined) {
+      dependency.deployedAt = new Date();
+      dependency.deployedBy = updates.deployedBy;
+      delete dependency.deploymentError;
+    }
+    if (updates.deploymentError !== undefined) {
+      dependency.deploymentError = updates.deploymentError;
     }
 
     dependency.updatedAt = new Date();
     this.updatedAt = new Date();
 
-    return dependency;
+    return copyDependency(dependency);
+  }
+
+  private findDependency(name: string): ApplicationDependency | undefined {
+    return this.dependencies.find((dep) => dep.name === name);
   }
 
   /**
@@ -0,0 +1,49 @@
+/**
+ * Codec Types
+ *
+ * Typed, schema-bound message channels on top of QueueClient and EventPublisher.
+ */
+
+import type { ReceivedMessage } from './queue';
+
+/**
+ * Converts message values to and from the text sent to a queue or event bus
+ */
+export interface MessageCodec {
+  /** Sent in the contentType attribute so receivers pick the matching codec */
+  contentType: string;
+  encode(value: unknown): string;
+  /** Throw to reject a body that does not decode */
+  decode(text: string): unknown;
+}
+
+/**
+ * Options for a typed queue or event channel
+ */
+export interface TypedChannelOptions {
+  /** JSON Schema that sent and received values must match */
+  schema?: object;
+  /** Codec for sent messages (default jsonCodec) */
+  codec?: MessageCodec;
+  /** Additional codecs accepted on receive, besides the built-in ones */
+  codecs?: MessageCodec[];
+}
+
+/**
+ * Options for a typed queue
+ */
+export interface TypedQueueOptions extends TypedChannelOptions {
+  /**
+   * Called for received messages that fail to decode or validate. They are not returned
+   * by receive and become visible again, so they reach the dead-letter queue after
+   * their retries.
+   */
+  onInvalid?: (message: ReceivedMessage, error: Error) => void;
+}
+
+/**
+ * A received queue message whose body was decoded and validated
+ */
+export interface TypedReceivedMessage<T> extends Omit<ReceivedMessage, 'body'> {
+  body: T;
+}
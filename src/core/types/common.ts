@@ -90,3 +90,27 @@ export class AuthenticationError extends LCPlatformError {
     Object.setPrototypeOf(this, AuthenticationError.prototype);
   }
 }
+
+export class OperationTimeoutError extends LCPlatformError {
+  constructor(operation: string, timeoutMs: number, details?: Record<string, unknown>) {
+    super(`Operation ${operation} timed out after ${timeoutMs}ms`, 'OPERATION_TIMEOUT', true, {
+      operation,
+      timeoutMs,
+      ...details,
+    });
+    this.name = 'OperationTimeoutError';
+    Object.setPrototypeOf(this, OperationTimeoutError.prototype);
+  }
+}
+
+export class CircuitOpenError extends LCPlatformError {
+  constructor(circuit: string, retryAfterMs: number, details?: Record<string, unknown>) {
+    super(`Circuit ${circuit} is open; failing fast`, 'CIRCUIT_OPEN', false, {
+      circuit,
+      retryAfterMs,
+      ...details,
+    });
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
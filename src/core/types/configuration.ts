@@ -69,3 +69,55 @@ export interface ConfigurationProfile {
   retrievalRole?: string;
   created: Date;
 }
+
+/**
+ * Change to a watched configuration
+ */
+export interface ConfigChangeEvent<T extends ConfigurationData = ConfigurationData> {
+  configName: string;
+  environment?: string;
+  previous: T;
+  current: T;
+  /** Dot-separated paths of the keys that were added, removed or changed */
+  changedKeys: string[];
+  timestamp: Date;
+}
+
+export type ConfigChangeListener<T extends ConfigurationData = ConfigurationData> = (
+  event: ConfigChangeEvent<T>
+) => void | Promise<void>;
+
+export interface ConfigWatchOptions {
+  environment?: string;
+  /** Polling interval in milliseconds (default: 30000) */
+  pollIntervalMs?: number;
+  /** Called when a poll or a listener fails; the watch keeps running */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Active configuration watch
+ */
+export interface ConfigSubscription {
+  readonly configName: string;
+  /** Stop watching; no events are delivered afterwards */
+  unsubscribe(): void;
+}
+
+/**
+ * Feature flag stored as a configuration value
+ *
+ * A flag may also be stored as a plain boolean (or "true"/"false").
+ */
+export interface FeatureFlagDefinition {
+  enabled: boolean;
+  /** Percentage of targets (0-100) that get the flag, bucketed by targetId */
+  rolloutPercentage?: number;
+  /** Targets that always get the flag while it is enabled */
+  targets?: string[];
+}
+
+export interface FeatureFlagContext {
+  /** Stable identifier (user, tenant, ...) used for targeting and rollout bucketing */
+  targetId?: string;
+}
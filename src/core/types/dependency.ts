@@ -38,6 +38,20 @@ export enum DependencyStatus {
   DELETING = 'deleting',
 }
 
+/**
+ * Recorded change of a dependency's lifecycle status
+ */
+export interface DependencyStatusChange {
+  from: DependencyStatus;
+  to: DependencyStatus;
+  changedAt: Date;
+  /**
+   * User or pipeline that made the change
+   */
+  actor?: string;
+  reason?: string;
+}
+
 /**
  * Error codes for dependency operations
  */
@@ -53,6 +67,8 @@ export enum DependencyErrorCode {
   NOT_FOUND = 'not_found',
   ALREADY_EXISTS = 'already_exists',
   INVALID_STATE_TRANSITION = 'invalid_state_transition',
+  INVALID_REFERENCE = 'invalid_reference',
+  CIRCULAR_REFERENCE = 'circular_reference',
 }
 
 /**
@@ -86,6 +102,20 @@ export interface LifecycleRule {
   transitionToArchiveDays?: number;
 }
 
+/**
+ * Reference to another dependency of the same application
+ */
+export interface DependencyReference {
+  /**
+   * Name of the referenced dependency
+   */
+  ref: string;
+  /**
+   * Expected type of the referenced dependency, checked during validation
+   */
+  type?: DependencyType;
+}
+
 /**
  * Object Store configuration
  */
@@ -109,7 +139,10 @@ export interface QueueConfiguration {
   visibilityTimeout: number;
   messageRetention: number;
   maxReceiveCount?: number;
-  deadLetterQueue?: string;
+  /**
+   * Existing queue name, or a reference to a queue dependency of the same app
+   */
+  deadLetterQueue?: string | DependencyReference;
   encryption: boolean;
 }
 
@@ -138,6 +171,175 @@ export interface DataStoreConfiguration {
   encrypted?: boolean;
 }
 
+/**
+ * Configuration (application settings) store configuration
+ */
+export interface ConfigurationStoreConfiguration {
+  type: 'configuration';
+  configurationName?: string;
+  contentType: 'application/json' | 'application/x-yaml' | 'text/plain';
+  description?: string;
+  deploymentStrategy?: string;
+}
+
+/**
+ * Index definition for document store collections
+ */
+export interface DocumentIndexConfiguration {
+  field: string;
+  unique?: boolean;
+  sparse?: boolean;
+}
+
+/**
+ * Document Store (NoSQL) configuration
+ */
+export interface DocumentStoreConfiguration {
+  type: 'document-store';
+  collectionName?: string;
+  indexes?: DocumentIndexConfiguration[];
+  ttl?: number;
+  encryption: boolean;
+}
+
+/**
+ * Event routing rule declared with an event bus
+ */
+export interface EventRuleConfiguration {
+  name: string;
+  source?: string[];
+  eventType?: string[];
+  description?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Event Bus configuration
+ */
+export interface EventBusConfiguration {
+  type: 'event-bus';
+  busName?: string;
+  rules?: EventRuleConfiguration[];
+  archiveRetentionDays?: number;
+}
+
+/**
+ * Subscription declared with a notification topic
+ */
+export interface NotificationSubscriptionConfiguration {
+  protocol: 'email' | 'sms' | 'http' | 'https' | 'webhook' | 'sqs' | 'lambda';
+  endpoint: string;
+}
+
+/**
+ * Notification (pub/sub topic) configuration
+ */
+export interface NotificationConfiguration {
+  type: 'notification';
+  topicName?: string;
+  fifo: boolean;
+  encryption: boolean;
+  subscriptions?: NotificationSubscriptionConfiguration[];
+}
+
+/**
+ * Cache cluster configuration
+ */
+export interface CacheConfiguration {
+  type: 'cache';
+  clusterId?: string;
+  engine: 'redis' | 'memcached';
+  engineVersion?: string;
+  nodeType: string;
+  numCacheNodes?: number;
+  port?: number;
+  encryption?: boolean;
+  authTokenEnabled?: boolean;
+}
+
+/**
+ * Web Hosting (containerized application) configuration
+ */
+export interface WebHostingConfiguration {
+  type: 'web-hosting';
+  serviceName?: string;
+  image: string;
+  port?: number;
+  cpu: number;
+  memory: number;
+  minInstances?: number;
+  maxInstances?: number;
+  environment?: Record<string, string>;
+  dependsOn?: DependencyReference[];
+}
+
+/**
+ * Dependency that triggers a hosted function
+ */
+export interface FunctionEventSourceConfiguration {
+  source: DependencyReference;
+  batchSize?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Function Hosting (serverless function) configuration
+ */
+export interface FunctionHostingConfiguration {
+  type: 'function-hosting';
+  functionName?: string;
+  runtime: string;
+  handler: string;
+  memorySize?: number;
+  timeout?: number;
+  environment?: Record<string, string>;
+  eventSources?: FunctionEventSourceConfiguration[];
+  dependsOn?: DependencyReference[];
+}
+
+/**
+ * Batch job configuration
+ */
+export interface BatchConfiguration {
+  type: 'batch';
+  jobName?: string;
+  image: string;
+  command?: string[];
+  cpu: number;
+  memory: number;
+  timeout?: number;
+  retryCount?: number;
+  schedule?: string;
+  environment?: Record<string, string>;
+  dependsOn?: DependencyReference[];
+}
+
+/**
+ * Authentication (OAuth2/OIDC identity provider) configuration
+ *
+ * Client secrets are not part of the configuration; declare them as a secrets dependency.
+ */
+export interface AuthenticationConfiguration {
+  type: 'authentication';
+  provider: 'okta' | 'auth0' | 'azure-ad';
+  domain: string;
+  clientId: string;
+  scopes?: string[];
+  redirectUri?: string;
+}
+
+/**
+ * Container image repository configuration
+ */
+export interface ContainerRepoConfiguration {
+  type: 'container-repo';
+  repositoryName?: string;
+  imageScanOnPush: boolean;
+  encryption?: EncryptionType.AES256 | EncryptionType.KMS;
+  imageTagMutability?: 'mutable' | 'immutable';
+  maxImageCount?: number;
+}
+
 /**
  * Union type for all dependency configurations
  */
@@ -145,7 +347,17 @@ export type DependencyConfiguration =
   | ObjectStoreConfiguration
   | QueueConfiguration
   | SecretsConfiguration
-  | DataStoreConfiguration;
+  | DataStoreConfiguration
+  | ConfigurationStoreConfiguration
+  | DocumentStoreConfiguration
+  | EventBusConfiguration
+  | NotificationConfiguration
+  | CacheConfiguration
+  | WebHostingConfiguration
+  | FunctionHostingConfiguration
+  | BatchConfiguration
+  | AuthenticationConfiguration
+  | ContainerRepoConfiguration;
 
 /**
  * Policy document (cloud-agnostic wrapper)
@@ -172,6 +384,10 @@ export interface ApplicationDependency {
   deployedAt?: Date;
   deployedBy?: string;
   deploymentError?: string;
+  /**
+   * Append-only log of status transitions, oldest first
+   */
+  statusHistory?: DependencyStatusChange[];
   readonly createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,45 @@
+/**
+ * Interceptor Types
+ *
+ * Cross-cutting hooks around service and client calls.
+ */
+
+import type { ProviderType } from './common';
+
+/**
+ * A single service or client call passing through the interceptor chain
+ */
+export interface InvocationContext {
+  /** Interface the instance implements, e.g. QueueClient or SecretsService */
+  serviceType: string;
+  /** Provider implementation of the service type, e.g. AwsQueueClient */
+  service: string;
+  operation: string;
+  provider: ProviderType;
+  /** Call arguments; interceptors may replace or modify them before calling next */
+  args: unknown[];
+  /** Values shared between interceptors for this call (request IDs, timings, ...) */
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Continue with the next interceptor, or the call itself after the last one
+ */
+export type InterceptorNext = () => Promise<unknown>;
+
+/**
+ * Interceptor applied to service and client calls
+ *
+ * Configured through `ProviderConfig.options.interceptors`. Interceptors run
+ * outside-in by `order`: each can change `context.args`, then inspect or
+ * replace the result (or catch and map the error) of `next()`.
+ */
+export interface Interceptor {
+  /** Service types to intercept (default: all) */
+  services?: string[];
+  /** Operation names to intercept (default: all) */
+  operations?: string[];
+  /** Lower values run first (default: 0); equal values keep configuration order */
+  order?: number;
+  intercept(context: InvocationContext, next: InterceptorNext): Promise<unknown>;
+}
@@ -0,0 +1,64 @@
+/**
+ * Observability Types
+ *
+ * Provider-agnostic hooks for logging, tracing and metrics.
+ */
+
+import type { ProviderType } from './common';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured logger used for library messages in place of console output
+ */
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+export enum OperationOutcome {
+  SUCCESS = 'success',
+  ERROR = 'error',
+}
+
+/**
+ * Service or client call being instrumented
+ */
+export interface OperationContext {
+  /** Provider implementation of the service type, e.g. AwsQueueClient */
+  service: string;
+  /** Method name, e.g. send */
+  operation: string;
+  provider: ProviderType;
+  /**
+   * Queue, bucket, secret or other resource name the call acts on; never set for
+   * auth operations or SQL statements
+   */
+  resource?: string;
+}
+
+export interface OperationResult {
+  outcome: OperationOutcome;
+  durationMs: number;
+  /** Retries made by the resilience policy or the implementation */
+  retryCount: number;
+  error?: Error;
+}
+
+/**
+ * Handle for an operation in progress
+ */
+export interface OperationSpan {
+  end(result: OperationResult): void;
+}
+
+/**
+ * Receives every service and client call made through the factories
+ *
+ * Configured through `ProviderConfig.options.instrumentation`.
+ */
+export interface Instrumentation {
+  startOperation(context: OperationContext): OperationSpan;
+}
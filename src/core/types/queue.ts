@@ -3,6 +3,14 @@
  */
 
 export interface Message {
+  /**
+   * Set on received messages
+   */
+  id?: string;
+  /**
+   * Set on received messages; pass to deleteMessage to remove the message
+   */
+  receiptHandle?: string;
   body: string | object;
   attributes?: Record<string, string>;
   delaySeconds?: number;
@@ -24,6 +32,17 @@ export interface Queue {
   url: string;
   messageCount: number;
   created: Date;
+  visibilityTimeout?: number;
+  messageRetention?: number;
+  fifo?: boolean;
+  /**
+   * Set when the queue was created with enableDeadLetter or deadLetterQueueUrl
+   */
+  deadLetterQueueUrl?: string;
+  /**
+   * Receives before a message moves to the dead-letter queue
+   */
+  maxReceiveCount?: number;
 }
 
 export interface QueueOptions {
@@ -32,7 +51,46 @@ export interface QueueOptions {
   maxMessageSize?: number;
   enableDeadLetter?: boolean;
   deadLetterAfterRetries?: number;
+  /**
+   * Existing queue to use as the dead-letter queue instead of creating one (implies
+   * enableDeadLetter); it is not deleted with the queue
+   */
+  deadLetterQueueUrl?: string;
   fifo?: boolean;
+  /**
+   * FIFO queues only: deduplicate by a hash of the message body when no deduplication ID is sent
+   */
+  contentBasedDeduplication?: boolean;
+}
+
+/**
+ * Queue settings that can change after creation; the FIFO type of a queue cannot
+ */
+export type QueueUpdateOptions = Omit<QueueOptions, 'fifo'>;
+
+/**
+ * Options for moving messages from a dead-letter queue back to its source queue
+ */
+export interface RedriveParams {
+  /**
+   * Largest number of messages to move (default: all)
+   */
+  maxMessages?: number;
+  /**
+   * Only move messages for which this returns true; others stay in the dead-letter queue
+   */
+  filter?: (message: Message) => boolean;
+}
+
+export interface RedriveResult {
+  /**
+   * Messages moved back to the source queue
+   */
+  moved: number;
+  /**
+   * Messages left in the dead-letter queue because the filter rejected them
+   */
+  skipped: number;
 }
 
 export interface QueueAttributes {
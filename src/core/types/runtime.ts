@@ -8,6 +8,7 @@
  */
 
 import type { ProviderType } from './common';
+import type { ReceivedMessage } from './queue';
 
 /**
  * Configuration for LCAppRuntime
@@ -64,6 +65,96 @@ export interface BatchSendResult {
   }>;
 }
 
+/**
+ * Processes one message for a QueueConsumer; throw to have the message retried
+ */
+export type MessageHandler = (message: ReceivedMessage) => Promise<void> | void;
+
+/**
+ * Options for a QueueConsumer
+ */
+export interface QueueConsumerOptions {
+  /** Handlers run at the same time (default 1) */
+  concurrency?: number;
+  /** Long-poll wait per receive in seconds (default 20) */
+  waitTimeSeconds?: number;
+  /** Visibility timeout for received messages in seconds (default 30) */
+  visibilityTimeout?: number;
+  /**
+   * Extend the visibility of messages whose handler is still running, every half
+   * visibility timeout (default true)
+   */
+  extendVisibility?: boolean;
+  /** Acknowledgements sent per acknowledgeBatch call (default 10) */
+  acknowledgeBatchSize?: number;
+  /** Longest wait before a partial acknowledgement batch is sent (default 1000) */
+  acknowledgeIntervalMs?: number;
+  /** Delay before the first retry of a failed message in seconds (default 1) */
+  retryDelaySeconds?: number;
+  /** Upper bound for the retry delay, which doubles with each receive (default 300) */
+  maxRetryDelaySeconds?: number;
+  /** Pause after a receive that returned no messages (default 1000) */
+  idleDelayMs?: number;
+  /** Called for handler failures and for receive, visibility and acknowledgement errors */
+  onError?: (error: Error, message?: ReceivedMessage) => void;
+}
+
+/**
+ * Options for stopping a QueueConsumer
+ */
+export interface QueueConsumerStopOptions {
+  /**
+   * Longest wait for running handlers in milliseconds (default 30000). Messages still
+   * being handled afterwards are not acknowledged and will be delivered again.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Counters for a QueueConsumer
+ */
+export interface QueueConsumerStats {
+  /** Messages handed to the handler */
+  received: number;
+  /** Handler calls that completed */
+  succeeded: number;
+  /** Handler calls that threw */
+  failed: number;
+  /** Messages acknowledged */
+  acknowledged: number;
+  /** Handlers currently running */
+  inFlight: number;
+}
+
+/**
+ * Claim-check settings for payloads too large for queues, event buses and topics
+ *
+ * Configured through `RuntimeConfig.options.largePayloads`.
+ */
+export interface LargePayloadOptions {
+  /** Bucket that holds offloaded payloads */
+  bucket: string;
+  /**
+   * Messages larger than this are offloaded, counting body, subject and attributes
+   * (default 262144, the SQS, EventBridge and SNS limit)
+   */
+  thresholdBytes?: number;
+  /** Prefix for the keys of offloaded payloads (default 'large-payloads/') */
+  keyPrefix?: string;
+}
+
+/**
+ * Location of an offloaded payload, sent in place of the message body
+ */
+export interface PayloadPointer {
+  bucket: string;
+  key: string;
+  /** Payload size in bytes */
+  size: number;
+  /** application/json for object bodies, text/plain for string bodies */
+  contentType: string;
+}
+
 /**
  * Options for object list operations
  */
@@ -100,6 +191,34 @@ export interface CacheSetOptions {
   onlyIfExists?: boolean;
 }
 
+/**
+ * Per-call options for clients that cache reads (secrets, configuration)
+ */
+export interface CacheReadOptions {
+  /** Time to live for the cached value in milliseconds, overriding the client default */
+  ttlMs?: number;
+  /** Skip the cached value and fetch a fresh one (the result is still cached) */
+  refresh?: boolean;
+}
+
+/**
+ * Counters for a client-side read cache
+ */
+export interface CacheStats {
+  /** Reads served from a fresh cached value */
+  hits: number;
+  /** Reads that had to fetch from the provider */
+  misses: number;
+  /** Reads served from an expired value while it was refreshed in the background */
+  staleHits: number;
+  /** Background refreshes started */
+  refreshes: number;
+  /** Background refreshes that failed (the stale value was kept) */
+  refreshFailures: number;
+  /** Entries currently cached */
+  size: number;
+}
+
 /**
  * Result of cache get operations
  */
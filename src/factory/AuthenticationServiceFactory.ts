@@ -10,6 +10,8 @@ import { MockAuthenticationService } from '../providers/mock/MockAuthenticationS
 import { AwsCognitoAuthenticationService } from '../providers/aws/AwsCognitoAuthenticationService';
 
 export class AuthenticationServiceFactory extends BaseProviderFactory<AuthenticationService> {
+  protected readonly serviceType = 'AuthenticationService';
+
   protected createAwsService(config: ProviderConfig): AuthenticationService {
     return new AwsCognitoAuthenticationService(config);
   }
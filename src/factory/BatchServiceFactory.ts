@@ -10,6 +10,8 @@ import { MockBatchService } from '../providers/mock/MockBatchService';
 import { AwsBatchService } from '../providers/aws/AwsBatchService';
 
 export class BatchServiceFactory extends BaseProviderFactory<BatchService> {
+  protected readonly serviceType = 'BatchService';
+
   protected createAwsService(config: ProviderConfig): BatchService {
     return new AwsBatchService(config);
   }
@@ -5,12 +5,68 @@
 
 import type { CacheService } from '../core/services/CacheService';
 import type { ProviderConfig } from '../core/types/common';
+import { ValidationError } from '../core/types/common';
 import { BaseProviderFactory } from './ProviderFactory';
 import { MockCacheService } from '../providers/mock/MockCacheService';
+import { AwsCacheService, type AwsCacheConfig } from '../providers/aws/AwsCacheService';
+
+/**
+ * Read cache auth tokens by cluster ID from a provider configuration
+ *
+ * @returns undefined when `options.cacheAuthTokens` is not set
+ * @throws ValidationError if `options.cacheAuthTokens` is not an object of non-empty strings
+ */
+export function getCacheAuthTokens(config: ProviderConfig): Record<string, string> | undefined {
+  const value = config.options?.cacheAuthTokens;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('options.cacheAuthTokens must be an object', {
+      cacheAuthTokens: typeof value,
+    });
+  }
+
+  const invalid = Object.entries(value).filter(
+    ([, token]) => typeof token !== 'string' || token === ''
+  );
+  if (invalid.length > 0) {
+    // Only cluster IDs are reported; tokens stay out of error details
+    throw new ValidationError('options.cacheAuthTokens values must be non-empty strings', {
+      clusterIds: invalid.map(([clusterId]) => clusterId),
+    });
+  }
+  return value as Record<string, string>;
+}
 
 export class CacheServiceFactory extends BaseProviderFactory<CacheService> {
-  protected createAwsService(_config: ProviderConfig): CacheService {
-    throw new Error('AWS CacheService not yet implemented');
+  protected readonly serviceType = 'CacheService';
+
+  protected createAwsService(config: ProviderConfig): CacheService {
+    const awsConfig: AwsCacheConfig = {};
+
+    if (config.region !== undefined) {
+      awsConfig.region = config.region;
+    }
+
+    if (config.credentials !== undefined) {
+      const { accessKeyId, secretAccessKey } = config.credentials;
+      if (accessKeyId !== undefined && secretAccessKey !== undefined) {
+        awsConfig.credentials = { accessKeyId, secretAccessKey };
+      }
+    }
+
+    const endpoint = config.endpoint ?? config.options?.endpoint;
+    if (endpoint !== undefined && endpoint !== null) {
+      awsConfig.endpoint = String(endpoint);
+    }
+
+    const authTokens = getCacheAuthTokens(config);
+    if (authTokens !== undefined) {
+      awsConfig.authTokens = authTokens;
+    }
+
+    return new AwsCacheService(awsConfig);
   }
 
   protected createAzureService(_config: ProviderConfig): CacheService {
@@ -10,6 +10,8 @@ import { MockConfigurationService } from '../providers/mock/MockConfigurationSer
 import { AwsConfigurationService } from '../providers/aws/AwsConfigurationService';
 
 export class ConfigurationServiceFactory extends BaseProviderFactory<ConfigurationService> {
+  protected readonly serviceType = 'ConfigurationService';
+
   protected createAwsService(config: ProviderConfig): ConfigurationService {
     return new AwsConfigurationService(config);
   }
@@ -7,10 +7,34 @@ import type { ContainerRepoService } from '../core/services/ContainerRepoService
 import type { ProviderConfig } from '../core/types/common';
 import { BaseProviderFactory } from './ProviderFactory';
 import { MockContainerRepoService } from '../providers/mock/MockContainerRepoService';
+import {
+  AwsContainerRepoService,
+  type AwsContainerRepoConfig,
+} from '../providers/aws/AwsContainerRepoService';
 
 export class ContainerRepoServiceFactory extends BaseProviderFactory<ContainerRepoService> {
-  protected createAwsService(_config: ProviderConfig): ContainerRepoService {
-    throw new Error('AWS ContainerRepoService not yet implemented');
+  protected readonly serviceType = 'ContainerRepoService';
+
+  protected createAwsService(config: ProviderConfig): ContainerRepoService {
+    const awsConfig: AwsContainerRepoConfig = {};
+
+    if (config.region !== undefined) {
+      awsConfig.region = config.region;
+    }
+
+    if (config.credentials !== undefined) {
+      const { accessKeyId, secretAccessKey } = config.credentials;
+      if (accessKeyId !== undefined && secretAccessKey !== undefined) {
+        awsConfig.credentials = { accessKeyId, secretAccessKey };
+      }
+    }
+
+    const endpoint = config.endpoint ?? config.options?.endpoint;
+    if (endpoint !== undefined && endpoint !== null) {
+      awsConfig.endpoint = String(endpoint);
+    }
+
+    return new AwsContainerRepoService(awsConfig);
   }
 
   protected createAzureService(_config: ProviderConfig): ContainerRepoService {
@@ -5,10 +5,13 @@
 import type { ProviderConfig } from '../core/types/common';
 import type { DataStoreService } from '../core/services/DataStoreService';
 import { BaseProviderFactory } from './ProviderFactory';
+import { getLogger } from '../utils/observability';
 import { MockDataStoreService } from '../providers/mock/MockDataStoreService';
 import { AwsDataStoreService, type AwsDataStoreConfig } from '../providers/aws/AwsDataStoreService';
 
 export class DataStoreServiceFactory extends BaseProviderFactory<DataStoreService> {
+  protected readonly serviceType = 'DataStoreService';
+
   protected createAwsService(config: ProviderConfig): DataStoreService {
     const dbConfig = config.options ?? {};
     const awsConfig: AwsDataStoreConfig = {};
@@ -33,6 +36,8 @@ export class DataStoreServiceFactory extends BaseProviderFactory<DataStoreServic
       awsConfig.password = String(dbConfig.dbPassword);
     }
 
+    awsConfig.logger = getLogger(config);
+
     return new AwsDataStoreService(awsConfig);
   }
 
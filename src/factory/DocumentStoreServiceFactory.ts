@@ -10,6 +10,8 @@ import { MockDocumentStoreService } from '../providers/mock/MockDocumentStoreSer
 import { AwsDocumentStoreService } from '../providers/aws/AwsDocumentStoreService';
 
 export class DocumentStoreServiceFactory extends BaseProviderFactory<DocumentStoreService> {
+  protected readonly serviceType = 'DocumentStoreService';
+
   protected createAwsService(config: ProviderConfig): DocumentStoreService {
     return new AwsDocumentStoreService(config);
   }
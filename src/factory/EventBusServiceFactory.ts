@@ -10,6 +10,8 @@ import { MockEventBusService } from '../providers/mock/MockEventBusService';
 import { AwsEventBusService } from '../providers/aws/AwsEventBusService';
 
 export class EventBusServiceFactory extends BaseProviderFactory<EventBusService> {
+  protected readonly serviceType = 'EventBusService';
+
   protected createAwsService(config: ProviderConfig): EventBusService {
     return new AwsEventBusService(config);
   }
@@ -15,6 +15,8 @@ import {
 } from '../providers/aws/AwsFunctionHostingService';
 
 export class FunctionHostingServiceFactory extends BaseProviderFactory<FunctionHostingService> {
+  protected readonly serviceType = 'FunctionHostingService';
+
   protected createAwsService(config: ProviderConfig): FunctionHostingService {
     const awsConfig: AwsFunctionHostingConfig = {};
 
@@ -10,6 +10,8 @@ import { MockNotificationService } from '../providers/mock/MockNotificationServi
 import { AwsNotificationService } from '../providers/aws/AwsNotificationService';
 
 export class NotificationServiceFactory extends BaseProviderFactory<NotificationService> {
+  protected readonly serviceType = 'NotificationService';
+
   protected createAwsService(config: ProviderConfig): NotificationService {
     return new AwsNotificationService(config);
   }
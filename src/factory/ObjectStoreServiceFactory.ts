@@ -10,8 +10,11 @@ import {
   AwsObjectStoreService,
   type AwsObjectStoreConfig,
 } from '../providers/aws/AwsObjectStoreService';
+import { AzureObjectStoreService } from '../providers/azure/AzureObjectStoreService';
 
 export class ObjectStoreServiceFactory extends BaseProviderFactory<ObjectStoreService> {
+  protected readonly serviceType = 'ObjectStoreService';
+
   protected createAwsService(config: ProviderConfig): ObjectStoreService {
     const awsConfig: AwsObjectStoreConfig = {};
 
@@ -37,8 +40,8 @@ export class ObjectStoreServiceFactory extends BaseProviderFactory<ObjectStoreSe
     return new AwsObjectStoreService(awsConfig);
   }
 
-  protected createAzureService(_config: ProviderConfig): ObjectStoreService {
-    throw new Error('Azure ObjectStoreService not yet implemented');
+  protected createAzureService(config: ProviderConfig): ObjectStoreService {
+    return new AzureObjectStoreService(config);
   }
 
   protected createMockService(_config: ProviderConfig): ObjectStoreService {
@@ -11,6 +11,9 @@
 
 import type { ProviderConfig } from '../core/types/common';
 import { ProviderType, ValidationError } from '../core/types/common';
+import { withResilience } from '../utils/resilience';
+import { getLogger, withInstrumentation } from '../utils/observability';
+import { withInterceptors } from '../utils/interceptors';
 
 export interface ServiceFactory<T> {
   create(config: ProviderConfig): T;
@@ -19,13 +22,34 @@ export interface ServiceFactory<T> {
 /**
  * Base provider factory
  * Each service will extend this to provide provider-specific implementations
+ *
+ * Created instances are wrapped with the resilience policy from
+ * `config.options.resilience` (see utils/resilience), reported to
+ * `config.options.instrumentation` (see utils/observability) and run through
+ * `config.options.interceptors` (see utils/interceptors).
  */
-export abstract class BaseProviderFactory<T> implements ServiceFactory<T> {
+export abstract class BaseProviderFactory<T extends object> implements ServiceFactory<T> {
   protected abstract createAwsService(config: ProviderConfig): T;
   protected abstract createAzureService(config: ProviderConfig): T;
   protected abstract createMockService(config: ProviderConfig): T;
 
+  /**
+   * Interface name of created instances, e.g. QueueClient; scopes interceptors,
+   * instrumentation and circuit breakers. Declared explicitly because class
+   * names do not survive minification.
+   */
+  protected abstract readonly serviceType: string;
+
   public create(config: ProviderConfig): T {
+    const service = withInstrumentation(
+      withResilience(this.createService(config), config, this.serviceType),
+      config,
+      this.serviceType
+    );
+    return withInterceptors(service, this.serviceType, config);
+  }
+
+  private createService(config: ProviderConfig): T {
     switch (config.provider) {
       case ProviderType.AWS:
         return this.createAwsService(config);
@@ -61,8 +85,9 @@ export function validateProviderConfig(config: ProviderConfig): void {
     (config.provider === ProviderType.AWS || config.provider === ProviderType.AZURE) &&
     (config.region === undefined || config.region === null || config.region === '')
   ) {
-    console.warn(
-      `Warning: No region specified for provider ${config.provider}. Using provider defaults.`
+    getLogger(config).warn(
+      `No region specified for provider ${config.provider}. Using provider defaults.`,
+      { provider: config.provider }
     );
   }
 }
@@ -8,14 +8,17 @@ import type { ProviderConfig } from '../core/types/common';
 import { BaseProviderFactory } from './ProviderFactory';
 import { MockQueueService } from '../providers/mock/MockQueueService';
 import { AwsQueueService } from '../providers/aws/AwsQueueService';
+import { AzureQueueService } from '../providers/azure/AzureQueueService';
 
 export class QueueServiceFactory extends BaseProviderFactory<QueueService> {
+  protected readonly serviceType = 'QueueService';
+
   protected createAwsService(config: ProviderConfig): QueueService {
     return new AwsQueueService(config);
   }
 
-  protected createAzureService(_config: ProviderConfig): QueueService {
-    throw new Error('Azure QueueService not yet implemented');
+  protected createAzureService(config: ProviderConfig): QueueService {
+    return new AzureQueueService(config);
   }
 
   protected createMockService(_config: ProviderConfig): QueueService {
@@ -10,6 +10,8 @@ import { MockSecretsService } from '../providers/mock/MockSecretsService';
 import { AwsSecretsService } from '../providers/aws/AwsSecretsService';
 
 export class SecretsServiceFactory extends BaseProviderFactory<SecretsService> {
+  protected readonly serviceType = 'SecretsService';
+
   protected createAwsService(config: ProviderConfig): SecretsService {
     return new AwsSecretsService(config);
   }
@@ -14,6 +14,8 @@ import {
 } from '../providers/aws/AwsWebHostingService';
 
 export class WebHostingServiceFactory extends BaseProviderFactory<WebHostingService> {
+  protected readonly serviceType = 'WebHostingService';
+
   protected createAwsService(config: ProviderConfig): WebHostingService {
     const awsConfig: AwsWebHostingConfig = {};
 
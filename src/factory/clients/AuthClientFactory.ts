@@ -10,6 +10,8 @@ import { MockAuthClient } from '../../providers/mock/clients/MockAuthClient';
 import { AwsAuthClient } from '../../providers/aws/clients/AwsAuthClient';
 
 export class AuthClientFactory extends BaseProviderFactory<AuthClient> {
+  protected readonly serviceType = 'AuthClient';
+
   protected createAwsService(config: ProviderConfig): AuthClient {
     return new AwsAuthClient(config);
   }
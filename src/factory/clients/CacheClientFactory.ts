@@ -6,11 +6,14 @@
 import type { CacheClient } from '../../core/clients/CacheClient';
 import type { ProviderConfig } from '../../core/types/common';
 import { BaseProviderFactory } from '../ProviderFactory';
+import { AwsCacheClient } from '../../providers/aws/clients/AwsCacheClient';
 import { MockCacheClient } from '../../providers/mock/clients/MockCacheClient';
 
 export class CacheClientFactory extends BaseProviderFactory<CacheClient> {
-  protected createAwsService(_config: ProviderConfig): CacheClient {
-    throw new Error('AWS CacheClient not yet implemented');
+  protected readonly serviceType = 'CacheClient';
+
+  protected createAwsService(config: ProviderConfig): CacheClient {
+    return new AwsCacheClient(config);
   }
 
   protected createAzureService(_config: ProviderConfig): CacheClient {
@@ -10,6 +10,8 @@ import { MockConfigClient } from '../../providers/mock/clients/MockConfigClient'
 import { AwsConfigClient } from '../../providers/aws/clients/AwsConfigClient';
 
 export class ConfigClientFactory extends BaseProviderFactory<ConfigClient> {
+  protected readonly serviceType = 'ConfigClient';
+
   protected createAwsService(config: ProviderConfig): ConfigClient {
     return new AwsConfigClient(config);
   }
@@ -6,11 +6,14 @@
 import type { ContainerRepoClient } from '../../core/clients/ContainerRepoClient';
 import type { ProviderConfig } from '../../core/types/common';
 import { BaseProviderFactory } from '../ProviderFactory';
+import { AwsContainerRepoClient } from '../../providers/aws/clients/AwsContainerRepoClient';
 import { MockContainerRepoClient } from '../../providers/mock/clients/MockContainerRepoClient';
 
 export class ContainerRepoClientFactory extends BaseProviderFactory<ContainerRepoClient> {
-  protected createAwsService(_config: ProviderConfig): ContainerRepoClient {
-    throw new Error('AWS ContainerRepoClient not yet implemented');
+  protected readonly serviceType = 'ContainerRepoClient';
+
+  protected createAwsService(config: ProviderConfig): ContainerRepoClient {
+    return new AwsContainerRepoClient(config);
   }
 
   protected createAzureService(_config: ProviderConfig): ContainerRepoClient {
@@ -10,6 +10,8 @@ import { MockDataClient } from '../../providers/mock/clients/MockDataClient';
 import { AwsDataClient } from '../../providers/aws/clients/AwsDataClient';
 
 export class DataClientFactory extends BaseProviderFactory<DataClient> {
+  protected readonly serviceType = 'DataClient';
+
   protected createAwsService(config: ProviderConfig): DataClient {
     return new AwsDataClient(config);
   }
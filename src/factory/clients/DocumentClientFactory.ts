@@ -10,6 +10,8 @@ import { MockDocumentClient } from '../../providers/mock/clients/MockDocumentCli
 import { AwsDocumentClient } from '../../providers/aws/clients/AwsDocumentClient';
 
 export class DocumentClientFactory extends BaseProviderFactory<DocumentClient> {
+  protected readonly serviceType = 'DocumentClient';
+
   protected createAwsService(config: ProviderConfig): DocumentClient {
     return new AwsDocumentClient(config);
   }
@@ -10,6 +10,8 @@ import { MockEventPublisher } from '../../providers/mock/clients/MockEventPublis
 import { AwsEventPublisher } from '../../providers/aws/clients/AwsEventPublisher';
 
 export class EventPublisherFactory extends BaseProviderFactory<EventPublisher> {
+  protected readonly serviceType = 'EventPublisher';
+
   protected createAwsService(config: ProviderConfig): EventPublisher {
     return new AwsEventPublisher(config);
   }
@@ -10,6 +10,8 @@ import { MockNotificationClient } from '../../providers/mock/clients/MockNotific
 import { AwsNotificationClient } from '../../providers/aws/clients/AwsNotificationClient';
 
 export class NotificationClientFactory extends BaseProviderFactory<NotificationClient> {
+  protected readonly serviceType = 'NotificationClient';
+
   protected createAwsService(config: ProviderConfig): NotificationClient {
     return new AwsNotificationClient(config);
   }
@@ -8,14 +8,17 @@ import type { ProviderConfig } from '../../core/types/common';
 import { BaseProviderFactory } from '../ProviderFactory';
 import { MockObjectClient } from '../../providers/mock/clients/MockObjectClient';
 import { AwsObjectClient } from '../../providers/aws/clients/AwsObjectClient';
+import { AzureObjectClient } from '../../providers/azure/clients/AzureObjectClient';
 
 export class ObjectClientFactory extends BaseProviderFactory<ObjectClient> {
+  protected readonly serviceType = 'ObjectClient';
+
   protected createAwsService(config: ProviderConfig): ObjectClient {
     return new AwsObjectClient(config);
   }
 
-  protected createAzureService(_config: ProviderConfig): ObjectClient {
-    throw new Error('Azure ObjectClient not yet implemented');
+  protected createAzureService(config: ProviderConfig): ObjectClient {
+    return new AzureObjectClient(config);
   }
 
   protected createMockService(_config: ProviderConfig): ObjectClient {
@@ -8,14 +8,17 @@ import type { ProviderConfig } from '../../core/types/common';
 import { BaseProviderFactory } from '../ProviderFactory';
 import { MockQueueClient } from '../../providers/mock/clients/MockQueueClient';
 import { AwsQueueClient } from '../../providers/aws/clients/AwsQueueClient';
+import { AzureQueueClient } from '../../providers/azure/clients/AzureQueueClient';
 
 export class QueueClientFactory extends BaseProviderFactory<QueueClient> {
+  protected readonly serviceType = 'QueueClient';
+
   protected createAwsService(config: ProviderConfig): QueueClient {
     return new AwsQueueClient(config);
   }
 
-  protected createAzureService(_config: ProviderConfig): QueueClient {
-    throw new Error('Azure QueueClient not yet implemented');
+  protected createAzureService(config: ProviderConfig): QueueClient {
+    return new AzureQueueClient(config);
   }
 
   protected createMockService(_config: ProviderConfig): QueueClient {
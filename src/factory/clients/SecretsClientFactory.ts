@@ -10,6 +10,8 @@ import { MockSecretsClient } from '../../providers/mock/clients/MockSecretsClien
 import { AwsSecretsClient } from '../../providers/aws/clients/AwsSecretsClient';
 
 export class SecretsClientFactory extends BaseProviderFactory<SecretsClient> {
+  protected readonly serviceType = 'SecretsClient';
+
   protected createAwsService(config: ProviderConfig): SecretsClient {
     return new AwsSecretsClient(config);
   }
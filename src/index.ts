@@ -9,6 +9,7 @@
 
 // Main Platform Class (Control Plane)
 export { LCPlatform } from './LCPlatform';
+export type { LCPlatformOptions } from './LCPlatform';
 
 // Runtime Class (Data Plane)
 export { LCAppRuntime } from './LCAppRuntime';
@@ -23,11 +24,17 @@ export {
   QuotaExceededError,
   ValidationError,
   AuthenticationError,
+  OperationTimeoutError,
+  CircuitOpenError,
 } from './core/types/common';
 
 // Application Dependency Management Types
 export { LCPlatformApp, PlatformType, Environment } from './core/types/application';
-export type { LCPlatformAppData, ApplicationVersion } from './core/types/application';
+export type {
+  LCPlatformAppData,
+  LCPlatformAppSnapshot,
+  ApplicationVersion,
+} from './core/types/application';
 
 export {
   DependencyType,
@@ -42,19 +49,120 @@ export type {
   QueueConfiguration,
   SecretsConfiguration,
   DataStoreConfiguration,
+  ConfigurationStoreConfiguration,
+  DocumentStoreConfiguration,
+  DocumentIndexConfiguration,
+  EventBusConfiguration,
+  EventRuleConfiguration,
+  NotificationConfiguration,
+  NotificationSubscriptionConfiguration,
+  CacheConfiguration,
+  WebHostingConfiguration,
+  FunctionHostingConfiguration,
+  FunctionEventSourceConfiguration,
+  DependencyReference,
+  BatchConfiguration,
+  AuthenticationConfiguration,
+  ContainerRepoConfiguration,
   PolicyDocument,
   DependencyError,
+  DependencyStatusChange,
   LifecycleRule,
 } from './core/types/dependency';
+export {
+  DEPENDENCY_STATUS_TRANSITIONS,
+  InvalidStateTransitionError,
+  canTransition,
+  assertTransition,
+} from './utils/dependencyStatus';
+export { collectReferences, findReferenceCycles, sortByReferences } from './utils/dependencyGraph';
+export type { LocatedReference } from './utils/dependencyGraph';
 
 // Configuration Persistence
 export {
   ConfigurationPersistence,
+  APP_INDEX_PREFIX,
+  MONIKER_INDEX_PREFIX,
+  generateAppPath,
   generateConfigPath,
   generateAppConfigPath,
 } from './utils/configPersistence';
 export type { ObjectStoreService as ObjectStoreServiceInterface } from './utils/configPersistence';
+export { createPersistenceStore } from './utils/configPersistence';
+
+// Application Registry
+export {
+  InMemoryApplicationRegistry,
+  ObjectStoreApplicationRegistry,
+  DocumentStoreApplicationRegistry,
+  DEFAULT_REGISTRY_COLLECTION,
+} from './utils/applicationRegistry';
+export type { ApplicationRegistry } from './utils/applicationRegistry';
 export { serializePolicy, deserializePolicy } from './utils/policySerializer';
+export { diffVersions, diffFields } from './utils/versionDiff';
+export { parseVersion, compareVersions, isSameVersion, incrementVersion } from './utils/semver';
+export type { SemanticVersion, VersionBump } from './utils/semver';
+export type { VersionDiff, DependencyChange, FieldChange, PolicyChange } from './utils/versionDiff';
+
+// Dependency Provisioning
+export { DependencyProvisioner } from './utils/dependencyProvisioner';
+export type {
+  ProvisionerServices,
+  ProvisionOptions,
+  ProvisionResult,
+  DependencyProvisionResult,
+} from './utils/dependencyProvisioner';
+
+// Dependency Plan/Apply
+export { DependencyPlanner, PlanActionType } from './utils/dependencyPlanner';
+export type {
+  DependencyPlan,
+  PlanAction,
+  PlanActionResult,
+  ApplyResult,
+} from './utils/dependencyPlanner';
+
+// Resilience
+export {
+  CircuitBreaker,
+  CircuitState,
+  ResiliencePolicy,
+  withResilience,
+  getResilienceOptions,
+  getCircuitBreaker,
+  resetCircuitBreakers,
+} from './utils/resilience';
+export type { ResilienceOptions, CircuitBreakerOptions } from './utils/resilience';
+export type { RetryOptions } from './utils/retry';
+
+// Observability
+export {
+  LoggingInstrumentation,
+  consoleLogger,
+  createConsoleLogger,
+  getLogger,
+  getInstrumentation,
+  withInstrumentation,
+} from './utils/observability';
+export { OpenTelemetryInstrumentation } from './utils/opentelemetry';
+export type { OtelTracer, OtelSpan, OtelMeter } from './utils/opentelemetry';
+export { OperationOutcome } from './core/types/observability';
+export type {
+  Logger,
+  LogLevel,
+  Instrumentation,
+  OperationContext,
+  OperationResult,
+  OperationSpan,
+} from './core/types/observability';
+
+// Interceptors
+export { withInterceptors, getInterceptors, interceptorApplies } from './utils/interceptors';
+export type { Interceptor, InterceptorNext, InvocationContext } from './core/types/interceptor';
+
+// Configuration watching and feature flags
+export { diffConfiguration } from './utils/configWatch';
+export { evaluateFeatureFlag } from './utils/featureFlags';
 
 // Dependency Validation
 export { DependencyValidator } from './utils/dependencyValidator';
@@ -130,6 +238,12 @@ export type {
   UpdateConfigurationParams,
   DeployConfigurationParams,
   ConfigurationProfile,
+  ConfigChangeEvent,
+  ConfigChangeListener,
+  ConfigWatchOptions,
+  ConfigSubscription,
+  FeatureFlagDefinition,
+  FeatureFlagContext,
 } from './core/types/configuration';
 
 // Document types
@@ -148,9 +262,12 @@ export type {
   ReceivedMessage,
   Queue,
   QueueOptions,
+  QueueUpdateOptions,
   QueueAttributes,
   SendMessageParams,
   ReceiveMessageParams,
+  RedriveParams,
+  RedriveResult,
 } from './core/types/queue';
 
 // Event types
@@ -228,9 +345,38 @@ export type {
   BatchPublishResult,
   CacheSetOptions,
   CacheGetResult,
+  CacheReadOptions,
+  CacheStats,
   BatchCacheResult,
   BatchDeleteImagesResult,
+  MessageHandler,
+  QueueConsumerOptions,
+  QueueConsumerStopOptions,
+  QueueConsumerStats,
+  LargePayloadOptions,
+  PayloadPointer,
 } from './core/types/runtime';
+export { QueueConsumer } from './utils/queueConsumer';
+export type {
+  MessageCodec,
+  TypedChannelOptions,
+  TypedQueueOptions,
+  TypedReceivedMessage,
+} from './core/types/codec';
+export {
+  CONTENT_TYPE_ATTRIBUTE,
+  jsonCodec,
+  gzipJsonCodec,
+  base64Codec,
+} from './utils/messageCodecs';
+export { TypedQueue, TypedEventPublisher } from './utils/typedChannels';
+export {
+  LargePayloadStore,
+  LargePayloadQueueClient,
+  LargePayloadEventPublisher,
+  LargePayloadNotificationClient,
+  getPayloadPointer,
+} from './utils/largePayloads';
 
 // Data Plane Client Interfaces
 export type { QueueClient } from './core/clients/QueueClient';
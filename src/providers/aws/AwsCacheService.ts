@@ -0,0 +1,459 @@
+/**
+ * AWS CacheService Implementation
+ *
+ * AWS ElastiCache for Redis. Each cache cluster is an ElastiCache replication
+ * group whose ID is the cluster name.
+ */
+
+import {
+  ElastiCacheClient,
+  type ElastiCacheClientConfig,
+  CreateReplicationGroupCommand,
+  DescribeReplicationGroupsCommand,
+  ModifyReplicationGroupCommand,
+  DeleteReplicationGroupCommand,
+  DescribeCacheClustersCommand,
+  IncreaseReplicaCountCommand,
+  DecreaseReplicaCountCommand,
+  type ReplicationGroup,
+  type CreateReplicationGroupCommandInput,
+} from '@aws-sdk/client-elasticache';
+import Redis, { type RedisOptions } from 'ioredis';
+import type { CacheService } from '../../core/services/CacheService';
+import type {
+  CacheCluster,
+  CacheClusterOptions,
+  CacheClusterUpdateParams,
+  CacheSecurityConfig,
+} from '../../core/types/cache';
+import { ClusterStatus } from '../../core/types/cache';
+import {
+  ResourceNotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../core/types/common';
+import { withRetry } from '../../utils/retry';
+import { getErrorMessage, getErrorName } from '../../utils/error';
+
+export interface AwsCacheConfig {
+  region?: string;
+  endpoint?: string;
+  credentials?: {
+    accessKeyId: string;
+    secretAccessKey: string;
+  };
+  /** Auth tokens by cluster ID, for clusters whose token was set outside this service */
+  authTokens?: Record<string, string>;
+}
+
+const DEFAULT_NODE_TYPE = 'cache.t3.micro';
+const DEFAULT_PORT = 6379;
+
+export class AwsCacheService implements CacheService {
+  private client: ElastiCacheClient;
+  private authTokens: Map<string, string>;
+
+  constructor(config?: AwsCacheConfig) {
+    this.authTokens = new Map(Object.entries(config?.authTokens ?? {}));
+
+    const clientConfig: ElastiCacheClientConfig = {
+      region: config?.region ?? process.env.AWS_REGION ?? 'us-east-1',
+    };
+
+    if (config?.endpoint !== undefined && config.endpoint !== '') {
+      clientConfig.endpoint = config.endpoint;
+    }
+
+    if (config?.credentials !== undefined) {
+      clientConfig.credentials = config.credentials;
+    }
+
+    this.client = new ElastiCacheClient(clientConfig);
+  }
+
+  /**
+   * Create a replication group
+   *
+   * When authTokenEnabled is set, in-transit encryption is enabled so that a
+   * token can later be set with configureSecurity().
+   */
+  async createCluster(name: string, options: CacheClusterOptions = {}): Promise<CacheCluster> {
+    return withRetry(async () => {
+      try {
+        const response = await this.client.send(
+          new CreateReplicationGroupCommand(this.toCreateInput(name, options))
+        );
+
+        if (!response.ReplicationGroup) {
+          throw new ServiceUnavailableError(`No replication group returned for ${name}`);
+        }
+
+        return this.mapToCluster(response.ReplicationGroup, options.engineVersion);
+      } catch (error: unknown) {
+        const errorName = getErrorName(error);
+        if (errorName === 'ReplicationGroupAlreadyExistsFault') {
+          throw new ValidationError(`Cache cluster '${name}' already exists`);
+        }
+        if (
+          errorName === 'InvalidParameterValueException' ||
+          errorName === 'InvalidParameterCombinationException'
+        ) {
+          throw new ValidationError(`Invalid parameters: ${getErrorMessage(error)}`);
+        }
+        if (error instanceof ServiceUnavailableError) {
+          throw error;
+        }
+        throw new ServiceUnavailableError(
+          `Failed to create cache cluster: ${getErrorMessage(error)}`
+        );
+      }
+    });
+  }
+
+  async getCluster(clusterId: string): Promise<CacheCluster> {
+    const group = await this.describeReplicationGroup(clusterId);
+    const engineVersions = await this.describeEngineVersions(group.MemberClusters?.[0]);
+    return this.mapToCluster(group, engineVersions.get(group.MemberClusters?.[0] ?? ''));
+  }
+
+  async deleteCluster(clusterId: string): Promise<void> {
+    return withRetry(async () => {
+      try {
+        await this.client.send(
+          new DeleteReplicationGroupCommand({ ReplicationGroupId: clusterId })
+        );
+        this.authTokens.delete(clusterId);
+      } catch (error: unknown) {
+        throw this.mapError(error, clusterId, 'delete');
+      }
+    });
+  }
+
+  async listClusters(): Promise<CacheCluster[]> {
+    return withRetry(async () => {
+      try {
+        const groups: ReplicationGroup[] = [];
+        let marker: string | undefined;
+
+        do {
+          const response = await this.client.send(
+            new DescribeReplicationGroupsCommand({
+              ...(marker !== undefined && { Marker: marker }),
+            })
+          );
+          groups.push(...(response.ReplicationGroups ?? []));
+          marker = response.Marker;
+        } while (marker !== undefined);
+
+        const engineVersions = await this.describeEngineVersions();
+        return groups.map((group) =>
+          this.mapToCluster(group, engineVersions.get(group.MemberClusters?.[0] ?? ''))
+        );
+      } catch (error: unknown) {
+        throw new ServiceUnavailableError(
+          `Failed to list cache clusters: ${getErrorMessage(error)}`
+        );
+      }
+    });
+  }
+
+  /**
+   * Update a replication group
+   *
+   * A change to numNodes adds or removes replicas; other settings are applied
+   * with a single modify call. All changes are applied immediately, and the
+   * cluster is returned with the status ElastiCache reports for them.
+   */
+  async updateCluster(clusterId: string, params: CacheClusterUpdateParams): Promise<CacheCluster> {
+    const current = await this.describeReplicationGroup(clusterId);
+
+    return withRetry(async () => {
+      try {
+        let group = current;
+        const currentNodes = current.MemberClusters?.length ?? 0;
+        if (params.numNodes !== undefined && params.numNodes !== currentNodes) {
+          if (params.numNodes < 1) {
+            throw new ValidationError('numNodes must be at least 1');
+          }
+          const command =
+            params.numNodes > currentNodes
+              ? new IncreaseReplicaCountCommand({
+                  ReplicationGroupId: clusterId,
+                  NewReplicaCount: params.numNodes - 1,
+                  ApplyImmediately: true,
+                })
+              : new DecreaseReplicaCountCommand({
+                  ReplicationGroupId: clusterId,
+                  NewReplicaCount: params.numNodes - 1,
+                  ApplyImmediately: true,
+                });
+          const response = await this.client.send(command);
+          group = response.ReplicationGroup ?? group;
+        }
+
+        const hasModifications =
+          params.nodeType !== undefined ||
+          params.engineVersion !== undefined ||
+          params.securityGroups !== undefined ||
+          params.maintenanceWindow !== undefined ||
+          params.snapshotRetentionDays !== undefined;
+
+        if (hasModifications) {
+          const response = await this.client.send(
+            new ModifyReplicationGroupCommand({
+              ReplicationGroupId: clusterId,
+              ApplyImmediately: true,
+              CacheNodeType: params.nodeType,
+              EngineVersion: params.engineVersion,
+              SecurityGroupIds: params.securityGroups,
+              PreferredMaintenanceWindow: params.maintenanceWindow,
+              SnapshotRetentionLimit: params.snapshotRetentionDays,
+            })
+          );
+          group = response.ReplicationGroup ?? group;
+        }
+
+        return this.mapToCluster(group, params.engineVersion);
+      } catch (error: unknown) {
+        throw this.mapError(error, clusterId, 'update');
+      }
+    });
+  }
+
+  /**
+   * Configure security settings of a replication group
+   *
+   * Encryption at rest can only be chosen when the cluster is created, so
+   * requesting it for an unencrypted cluster fails with a ValidationError.
+   */
+  async configureSecurity(clusterId: string, config: CacheSecurityConfig): Promise<void> {
+    const current = await this.describeReplicationGroup(clusterId);
+
+    if (config.encryptionAtRest === true && current.AtRestEncryptionEnabled !== true) {
+      throw new ValidationError(
+        `Encryption at rest cannot be enabled on existing cache cluster '${clusterId}'`
+      );
+    }
+
+    await withRetry(async () => {
+      try {
+        await this.client.send(
+          new ModifyReplicationGroupCommand({
+            ReplicationGroupId: clusterId,
+            ApplyImmediately: true,
+            SecurityGroupIds: config.securityGroupIds,
+            ...(config.encryptionInTransit !== undefined && {
+              TransitEncryptionEnabled: config.encryptionInTransit,
+            }),
+            ...(config.authToken !== undefined && {
+              AuthToken: config.authToken,
+              AuthTokenUpdateStrategy: current.AuthTokenEnabled === true ? 'ROTATE' : 'SET',
+            }),
+          })
+        );
+      } catch (error: unknown) {
+        throw this.mapError(error, clusterId, 'configure security for');
+      }
+    });
+
+    if (config.authToken !== undefined) {
+      this.authTokens.set(clusterId, config.authToken);
+    }
+  }
+
+  /**
+   * Remove all keys from every shard of a replication group
+   *
+   * ElastiCache has no control-plane flush, so this connects to each primary
+   * endpoint and runs FLUSHALL, using the auth token last set through this service
+   * or, failing that, the one passed in the authTokens config.
+   *
+   * @throws ValidationError if the cluster requires an auth token that is not known
+   */
+  async flushCluster(clusterId: string): Promise<void> {
+    const group = await this.describeReplicationGroup(clusterId);
+    const primaries = (group.NodeGroups ?? [])
+      .map((nodeGroup) => nodeGroup.PrimaryEndpoint)
+      .filter((endpoint) => endpoint?.Address !== undefined);
+
+    if (primaries.length === 0) {
+      throw new ServiceUnavailableError(`Cache cluster '${clusterId}' has no primary endpoint`);
+    }
+
+    const password = this.authTokens.get(clusterId);
+    if (group.AuthTokenEnabled === true && password === undefined) {
+      throw new ValidationError(
+        `No auth token for cache cluster '${clusterId}'; pass it in the authTokens config`
+      );
+    }
+    for (const endpoint of primaries) {
+      const connection = this.createRedisConnection({
+        host: endpoint?.Address ?? '',
+        port: endpoint?.Port ?? DEFAULT_PORT,
+        lazyConnect: true,
+        maxRetriesPerRequest: 1,
+        ...(group.TransitEncryptionEnabled === true && { tls: {} }),
+        ...(password !== undefined && { password }),
+      });
+
+      try {
+        await connection.connect();
+        await connection.flushall();
+      } catch (error: unknown) {
+        throw new ServiceUnavailableError(
+          `Failed to flush cache cluster: ${getErrorMessage(error)}`
+        );
+      } finally {
+        connection.disconnect();
+      }
+    }
+  }
+
+  /**
+   * Open a Redis connection to a cluster node
+   */
+  protected createRedisConnection(options: RedisOptions): Redis {
+    return new Redis(options);
+  }
+
+  private toCreateInput(
+    name: string,
+    options: CacheClusterOptions
+  ): CreateReplicationGroupCommandInput {
+    const numNodes = options.numNodes ?? 1;
+    const encryption = options.enableEncryption === true;
+
+    return {
+      ReplicationGroupId: name,
+      ReplicationGroupDescription: `LCPlatform cache cluster ${name}`,
+      Engine: 'redis',
+      EngineVersion: options.engineVersion,
+      CacheNodeType: options.nodeType ?? DEFAULT_NODE_TYPE,
+      NumCacheClusters: numNodes,
+      AutomaticFailoverEnabled: numNodes > 1,
+      Port: options.port ?? DEFAULT_PORT,
+      CacheSubnetGroupName: options.subnetGroup,
+      SecurityGroupIds: options.securityGroups,
+      PreferredMaintenanceWindow: options.maintenanceWindow,
+      ...(options.enableBackups !== undefined && {
+        SnapshotRetentionLimit: options.enableBackups ? (options.snapshotRetentionDays ?? 1) : 0,
+      }),
+      AtRestEncryptionEnabled: encryption,
+      TransitEncryptionEnabled: encryption || options.authTokenEnabled === true,
+      Tags: Object.entries(options.tags ?? {}).map(([Key, Value]) => ({ Key, Value })),
+    };
+  }
+
+  private async describeReplicationGroup(clusterId: string): Promise<ReplicationGroup> {
+    return withRetry(async () => {
+      try {
+        const response = await this.client.send(
+          new DescribeReplicationGroupsCommand({ ReplicationGroupId: clusterId })
+        );
+        const group = response.ReplicationGroups?.[0];
+        if (!group) {
+          throw new ResourceNotFoundError('CacheCluster', clusterId);
+        }
+        return group;
+      } catch (error: unknown) {
+        throw this.mapError(error, clusterId, 'get');
+      }
+    });
+  }
+
+  /**
+   * Look up engine versions by member cache cluster ID
+   */
+  private async describeEngineVersions(cacheClusterId?: string): Promise<Map<string, string>> {
+    const versions = new Map<string, string>();
+    let marker: string | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(
+          new DescribeCacheClustersCommand({
+            ...(cacheClusterId !== undefined && { CacheClusterId: cacheClusterId }),
+            ...(marker !== undefined && { Marker: marker }),
+          })
+        );
+        for (const cluster of response.CacheClusters ?? []) {
+          if (cluster.CacheClusterId !== undefined && cluster.EngineVersion !== undefined) {
+            versions.set(cluster.CacheClusterId, cluster.EngineVersion);
+          }
+        }
+        marker = response.Marker;
+      } while (marker !== undefined);
+    } catch (error: unknown) {
+      throw new ServiceUnavailableError(
+        `Failed to describe cache nodes: ${getErrorMessage(error)}`
+      );
+    }
+
+    return versions;
+  }
+
+  private mapToCluster(group: ReplicationGroup, engineVersion?: string): CacheCluster {
+    const endpoint = group.ConfigurationEndpoint ?? group.NodeGroups?.[0]?.PrimaryEndpoint;
+    const name = group.ReplicationGroupId ?? '';
+
+    return {
+      name,
+      clusterId: name,
+      endpoint: endpoint?.Address ?? '',
+      port: endpoint?.Port ?? DEFAULT_PORT,
+      status: this.mapStatus(group.Status),
+      nodeType: group.CacheNodeType ?? '',
+      numNodes: group.MemberClusters?.length ?? 0,
+      engine: group.Engine ?? 'redis',
+      engineVersion: engineVersion ?? '',
+      created: group.ReplicationGroupCreateTime ?? new Date(),
+      securityEnabled:
+        group.AuthTokenEnabled === true ||
+        group.TransitEncryptionEnabled === true ||
+        group.AtRestEncryptionEnabled === true,
+    };
+  }
+
+  private mapStatus(status?: string): ClusterStatus {
+    switch (status) {
+      case 'creating':
+        return ClusterStatus.CREATING;
+      case 'available':
+      case 'snapshotting':
+        return ClusterStatus.AVAILABLE;
+      case 'modifying':
+        return ClusterStatus.MODIFYING;
+      case 'deleting':
+        return ClusterStatus.DELETING;
+      case 'create-failed':
+        return ClusterStatus.FAILED;
+      default:
+        return ClusterStatus.MODIFYING;
+    }
+  }
+
+  private mapError(error: unknown, clusterId: string, action: string): Error {
+    if (
+      error instanceof ResourceNotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof ServiceUnavailableError
+    ) {
+      return error;
+    }
+
+    const errorName = getErrorName(error);
+    if (errorName === 'ReplicationGroupNotFoundFault') {
+      return new ResourceNotFoundError('CacheCluster', clusterId);
+    }
+    if (
+      errorName === 'InvalidParameterValueException' ||
+      errorName === 'InvalidParameterCombinationException' ||
+      errorName === 'InvalidReplicationGroupStateFault'
+    ) {
+      return new ValidationError(`Cannot ${action} cache cluster: ${getErrorMessage(error)}`);
+    }
+    return new ServiceUnavailableError(
+      `Failed to ${action} cache cluster: ${getErrorMessage(error)}`
+    );
+  }
+}
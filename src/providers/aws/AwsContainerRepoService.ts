@@ -0,0 +1,512 @@
+/**
+ * AWS ContainerRepoService Implementation
+ *
+ * Amazon ECR. Lifecycle policies and repository permissions are translated
+ * between the cloud-agnostic types and ECR policy JSON documents.
+ */
+
+import {
+  ECRClient,
+  type ECRClientConfig,
+  type Repository,
+  CreateRepositoryCommand,
+  DescribeRepositoriesCommand,
+  DeleteRepositoryCommand,
+  ListImagesCommand,
+  PutLifecyclePolicyCommand,
+  GetLifecyclePolicyCommand,
+  DeleteLifecyclePolicyCommand,
+  PutImageScanningConfigurationCommand,
+  SetRepositoryPolicyCommand,
+  GetRepositoryPolicyCommand,
+  DeleteRepositoryPolicyCommand,
+} from '@aws-sdk/client-ecr';
+import type { ContainerRepoService } from '../../core/services/ContainerRepoService';
+import type {
+  ContainerRepository,
+  ContainerRepositoryOptions,
+  LifecyclePolicy,
+  LifecycleRule,
+  ImageScanConfig,
+  RepositoryPermission,
+} from '../../core/types/container';
+import { CountType, EncryptionType, RepositoryAction, TagStatus } from '../../core/types/container';
+import {
+  ResourceNotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../core/types/common';
+import { withRetry } from '../../utils/retry';
+import { getErrorMessage, getErrorName } from '../../utils/error';
+
+export interface AwsContainerRepoConfig {
+  region?: string;
+  endpoint?: string;
+  credentials?: {
+    accessKeyId: string;
+    secretAccessKey: string;
+  };
+}
+
+/**
+ * ECR lifecycle policy document
+ */
+interface EcrLifecyclePolicy {
+  rules: Array<{
+    rulePriority: number;
+    description?: string;
+    selection: {
+      tagStatus: string;
+      tagPrefixList?: string[];
+      countType: string;
+      countUnit?: string;
+      countNumber: number;
+    };
+    action: { type: string };
+  }>;
+}
+
+/**
+ * IAM policy statement in an ECR repository policy
+ */
+interface EcrPolicyStatement {
+  Sid?: string;
+  Effect: string;
+  Principal: string | { AWS?: string | string[]; Service?: string | string[] };
+  Action: string | string[];
+}
+
+/**
+ * ECR API actions granted for each repository action
+ */
+const REPOSITORY_ACTIONS: Record<RepositoryAction, string[]> = {
+  [RepositoryAction.PULL]: [
+    'ecr:BatchCheckLayerAvailability',
+    'ecr:BatchGetImage',
+    'ecr:GetDownloadUrlForLayer',
+  ],
+  [RepositoryAction.PUSH]: [
+    'ecr:BatchCheckLayerAvailability',
+    'ecr:CompleteLayerUpload',
+    'ecr:InitiateLayerUpload',
+    'ecr:PutImage',
+    'ecr:UploadLayerPart',
+  ],
+  [RepositoryAction.DELETE]: ['ecr:BatchDeleteImage'],
+  [RepositoryAction.LIST]: ['ecr:DescribeImages', 'ecr:ListImages'],
+};
+
+const STATEMENT_SID_PREFIX = 'LCPlatformPermission';
+
+export class AwsContainerRepoService implements ContainerRepoService {
+  private client: ECRClient;
+
+  constructor(config?: AwsContainerRepoConfig) {
+    const clientConfig: ECRClientConfig = {
+      region: config?.region ?? process.env.AWS_REGION ?? 'us-east-1',
+    };
+
+    if (config?.endpoint !== undefined && config.endpoint !== '') {
+      clientConfig.endpoint = config.endpoint;
+    }
+
+    if (config?.credentials !== undefined) {
+      clientConfig.credentials = config.credentials;
+    }
+
+    this.client = new ECRClient(clientConfig);
+  }
+
+  async createRepository(
+    name: string,
+    options: ContainerRepositoryOptions = {}
+  ): Promise<ContainerRepository> {
+    if (options.kmsKeyId !== undefined && options.encryptionType !== EncryptionType.KMS) {
+      throw new ValidationError('kmsKeyId requires encryptionType KMS');
+    }
+
+    return withRetry(async () => {
+      try {
+        const response = await this.client.send(
+          new CreateRepositoryCommand({
+            repositoryName: name,
+            imageScanningConfiguration: { scanOnPush: options.imageScanOnPush ?? false },
+            ...(options.encryptionType !== undefined && {
+              encryptionConfiguration: {
+                encryptionType: options.encryptionType,
+                ...(options.kmsKeyId !== undefined && { kmsKey: options.kmsKeyId }),
+              },
+            }),
+            tags: Object.entries(options.tags ?? {}).map(([Key, Value]) => ({ Key, Value })),
+          })
+        );
+
+        if (!response.repository) {
+          throw new ServiceUnavailableError(`No repository returned for ${name}`);
+        }
+
+        return this.mapToRepository(response.repository, 0);
+      } catch (error: unknown) {
+        if (getErrorName(error) === 'RepositoryAlreadyExistsException') {
+          throw new ValidationError(`Repository '${name}' already exists`);
+        }
+        throw this.mapError(error, name, 'create');
+      }
+    });
+  }
+
+  async getRepository(repositoryName: string): Promise<ContainerRepository> {
+    const repository = await this.describeRepository(repositoryName);
+    return this.mapToRepository(repository, await this.countImages(repositoryName));
+  }
+
+  async deleteRepository(repositoryName: string, force: boolean = false): Promise<void> {
+    return withRetry(async () => {
+      try {
+        await this.client.send(new DeleteRepositoryCommand({ repositoryName, force }));
+      } catch (error: unknown) {
+        if (getErrorName(error) === 'RepositoryNotEmptyException') {
+          throw new ValidationError(
+            'Repository contains images. Use force=true to delete with images.'
+          );
+        }
+        throw this.mapError(error, repositoryName, 'delete');
+      }
+    });
+  }
+
+  async listRepositories(): Promise<ContainerRepository[]> {
+    const repositories: Repository[] = [];
+    let nextToken: string | undefined;
+
+    await withRetry(async () => {
+      try {
+        do {
+          const response = await this.client.send(
+            new DescribeRepositoriesCommand({
+              ...(nextToken !== undefined && { nextToken }),
+            })
+          );
+          repositories.push(...(response.repositories ?? []));
+          nextToken = response.nextToken;
+        } while (nextToken !== undefined);
+      } catch (error: unknown) {
+        throw new ServiceUnavailableError(`Failed to list repositories: ${getErrorMessage(error)}`);
+      }
+    });
+
+    return Promise.all(
+      repositories.map(async (repository) =>
+        this.mapToRepository(repository, await this.countImages(repository.repositoryName ?? ''))
+      )
+    );
+  }
+
+  async setLifecyclePolicy(repositoryName: string, policy: LifecyclePolicy): Promise<void> {
+    const lifecyclePolicyText = JSON.stringify(this.toEcrLifecyclePolicy(policy));
+
+    return withRetry(async () => {
+      try {
+        await this.client.send(
+          new PutLifecyclePolicyCommand({ repositoryName, lifecyclePolicyText })
+        );
+      } catch (error: unknown) {
+        throw this.mapError(error, repositoryName, 'set lifecycle policy on');
+      }
+    });
+  }
+
+  async getLifecyclePolicy(repositoryName: string): Promise<LifecyclePolicy> {
+    const text = await withRetry(async () => {
+      try {
+        const response = await this.client.send(new GetLifecyclePolicyCommand({ repositoryName }));
+        return response.lifecyclePolicyText ?? '';
+      } catch (error: unknown) {
+        if (getErrorName(error) === 'LifecyclePolicyNotFoundException') {
+          throw new ResourceNotFoundError('LifecyclePolicy', repositoryName);
+        }
+        throw this.mapError(error, repositoryName, 'get lifecycle policy of');
+      }
+    });
+
+    return this.fromEcrLifecyclePolicy(text);
+  }
+
+  async deleteLifecyclePolicy(repositoryName: string): Promise<void> {
+    return withRetry(async () => {
+      try {
+        await this.client.send(new DeleteLifecyclePolicyCommand({ repositoryName }));
+      } catch (error: unknown) {
+        // Deleting a policy that is not set is a no-op, as in the mock provider
+        if (getErrorName(error) === 'LifecyclePolicyNotFoundException') {
+          return;
+        }
+        throw this.mapError(error, repositoryName, 'delete lifecycle policy of');
+      }
+    });
+  }
+
+  async configureImageScanning(repositoryName: string, config: ImageScanConfig): Promise<void> {
+    return withRetry(async () => {
+      try {
+        await this.client.send(
+          new PutImageScanningConfigurationCommand({
+            repositoryName,
+            imageScanningConfiguration: { scanOnPush: config.scanOnPush },
+          })
+        );
+      } catch (error: unknown) {
+        throw this.mapError(error, repositoryName, 'configure scanning for');
+      }
+    });
+  }
+
+  /**
+   * Replace the repository policy with one statement per permission
+   *
+   * An empty permission list removes the repository policy.
+   */
+  async setPermissions(repositoryName: string, permissions: RepositoryPermission[]): Promise<void> {
+    return withRetry(async () => {
+      try {
+        if (permissions.length === 0) {
+          await this.client.send(new DeleteRepositoryPolicyCommand({ repositoryName }));
+          return;
+        }
+
+        await this.client.send(
+          new SetRepositoryPolicyCommand({
+            repositoryName,
+            policyText: JSON.stringify({
+              Version: '2012-10-17',
+              Statement: permissions.map((permission, index) =>
+                this.toPolicyStatement(permission, index)
+              ),
+            }),
+          })
+        );
+      } catch (error: unknown) {
+        if (getErrorName(error) === 'RepositoryPolicyNotFoundException') {
+          return;
+        }
+        throw this.mapError(error, repositoryName, 'set permissions on');
+      }
+    });
+  }
+
+  async getPermissions(repositoryName: string): Promise<RepositoryPermission[]> {
+    const text = await withRetry(async () => {
+      try {
+        const response = await this.client.send(new GetRepositoryPolicyCommand({ repositoryName }));
+        return response.policyText;
+      } catch (error: unknown) {
+        if (getErrorName(error) === 'RepositoryPolicyNotFoundException') {
+          return undefined;
+        }
+        throw this.mapError(error, repositoryName, 'get permissions of');
+      }
+    });
+
+    if (text === undefined || text === '') {
+      return [];
+    }
+
+    const policy = JSON.parse(text) as { Statement?: EcrPolicyStatement | EcrPolicyStatement[] };
+    const statements = Array.isArray(policy.Statement)
+      ? policy.Statement
+      : policy.Statement !== undefined
+        ? [policy.Statement]
+        : [];
+
+    return statements
+      .filter((statement) => statement.Effect === 'Allow')
+      .flatMap((statement) => this.fromPolicyStatement(statement));
+  }
+
+  private async describeRepository(repositoryName: string): Promise<Repository> {
+    return withRetry(async () => {
+      try {
+        const response = await this.client.send(
+          new DescribeRepositoriesCommand({ repositoryNames: [repositoryName] })
+        );
+        const repository = response.repositories?.[0];
+        if (!repository) {
+          throw new ResourceNotFoundError('Repository', repositoryName);
+        }
+        return repository;
+      } catch (error: unknown) {
+        throw this.mapError(error, repositoryName, 'get');
+      }
+    });
+  }
+
+  /**
+   * Count images in a repository, since DescribeRepositories does not report it
+   */
+  private async countImages(repositoryName: string): Promise<number> {
+    let count = 0;
+    let nextToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.client.send(
+          new ListImagesCommand({
+            repositoryName,
+            filter: { tagStatus: 'ANY' },
+            ...(nextToken !== undefined && { nextToken }),
+          })
+        );
+        // Tagged images are listed once per tag
+        count += new Set((response.imageIds ?? []).map((id) => id.imageDigest)).size;
+        nextToken = response.nextToken;
+      } while (nextToken !== undefined);
+    } catch (error: unknown) {
+      throw this.mapError(error, repositoryName, 'list images of');
+    }
+
+    return count;
+  }
+
+  private toEcrLifecyclePolicy(policy: LifecyclePolicy): EcrLifecyclePolicy {
+    return {
+      rules: policy.rules.map((rule) => {
+        const { selection } = rule;
+
+        if (selection.tagStatus === TagStatus.TAGGED && !selection.tagPrefixList?.length) {
+          throw new ValidationError(
+            `Lifecycle rule ${rule.rulePriority}: tagged selections require tagPrefixList`
+          );
+        }
+        if (selection.countNumber < 1) {
+          throw new ValidationError(
+            `Lifecycle rule ${rule.rulePriority}: countNumber must be at least 1`
+          );
+        }
+
+        return {
+          rulePriority: rule.rulePriority,
+          ...(rule.description !== undefined && { description: rule.description }),
+          selection: {
+            tagStatus: selection.tagStatus,
+            ...(selection.tagStatus === TagStatus.TAGGED && {
+              tagPrefixList: selection.tagPrefixList,
+            }),
+            countType: selection.countType,
+            ...(selection.countType === CountType.SINCE_IMAGE_PUSHED && { countUnit: 'days' }),
+            countNumber: selection.countNumber,
+          },
+          action: { type: rule.action.type },
+        };
+      }),
+    };
+  }
+
+  private fromEcrLifecyclePolicy(text: string): LifecyclePolicy {
+    const policy = JSON.parse(text) as EcrLifecyclePolicy;
+
+    return {
+      rules: (policy.rules ?? []).map((rule): LifecycleRule => ({
+        rulePriority: rule.rulePriority,
+        ...(rule.description !== undefined && { description: rule.description }),
+        selection: {
+          tagStatus: rule.selection.tagStatus as TagStatus,
+          ...(rule.selection.tagPrefixList !== undefined && {
+            tagPrefixList: rule.selection.tagPrefixList,
+          }),
+          countType: rule.selection.countType as CountType,
+          countNumber: rule.selection.countNumber,
+        },
+        action: { type: 'expire' },
+      })),
+    };
+  }
+
+  private toPolicyStatement(permission: RepositoryPermission, index: number): EcrPolicyStatement {
+    const actions = new Set(permission.actions.flatMap((action) => REPOSITORY_ACTIONS[action]));
+
+    return {
+      Sid: `${STATEMENT_SID_PREFIX}${index}`,
+      Effect: 'Allow',
+      Principal: this.toPrincipal(permission.principal),
+      Action: Array.from(actions).sort(),
+    };
+  }
+
+  private fromPolicyStatement(statement: EcrPolicyStatement): RepositoryPermission[] {
+    const granted = new Set(
+      Array.isArray(statement.Action) ? statement.Action : [statement.Action]
+    );
+    const actions = Object.values(RepositoryAction).filter((action) =>
+      REPOSITORY_ACTIONS[action].every(
+        (ecrAction) => granted.has(ecrAction) || granted.has('ecr:*')
+      )
+    );
+
+    return this.fromPrincipal(statement.Principal).map((principal) => ({ principal, actions }));
+  }
+
+  /**
+   * Map a principal to IAM policy form
+   *
+   * Accepts `*`, AWS account IDs, IAM ARNs and service principals
+   * (e.g. `codebuild.amazonaws.com`).
+   */
+  private toPrincipal(principal: string): EcrPolicyStatement['Principal'] {
+    if (principal === '*') {
+      return '*';
+    }
+    if (/^\d{12}$/.test(principal)) {
+      return { AWS: `arn:aws:iam::${principal}:root` };
+    }
+    if (principal.endsWith('.amazonaws.com')) {
+      return { Service: principal };
+    }
+    return { AWS: principal };
+  }
+
+  private fromPrincipal(principal: EcrPolicyStatement['Principal']): string[] {
+    if (typeof principal === 'string') {
+      return [principal];
+    }
+
+    const toList = (value?: string | string[]): string[] =>
+      value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+    return [
+      ...toList(principal.AWS).map((arn) => /^arn:aws:iam::(\d{12}):root$/.exec(arn)?.[1] ?? arn),
+      ...toList(principal.Service),
+    ];
+  }
+
+  private mapToRepository(repository: Repository, imageCount: number): ContainerRepository {
+    return {
+      name: repository.repositoryName ?? '',
+      ...(repository.repositoryArn !== undefined && { repositoryArn: repository.repositoryArn }),
+      repositoryUri: repository.repositoryUri ?? '',
+      created: repository.createdAt ?? new Date(),
+      imageCount,
+      imageScanningEnabled: repository.imageScanningConfiguration?.scanOnPush === true,
+      // ECR always encrypts at rest; report whether an encryption type is configured
+      encryptionEnabled: repository.encryptionConfiguration?.encryptionType !== undefined,
+    };
+  }
+
+  private mapError(error: unknown, repositoryName: string, action: string): Error {
+    if (
+      error instanceof ResourceNotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof ServiceUnavailableError
+    ) {
+      return error;
+    }
+
+    const errorName = getErrorName(error);
+    if (errorName === 'RepositoryNotFoundException') {
+      return new ResourceNotFoundError('Repository', repositoryName);
+    }
+    if (errorName === 'InvalidParameterException' || errorName === 'InvalidTagParameterException') {
+      return new ValidationError(`Cannot ${action} repository: ${getErrorMessage(error)}`);
+    }
+    return new ServiceUnavailableError(`Failed to ${action} repository: ${getErrorMessage(error)}`);
+  }
+}
@@ -14,6 +14,8 @@ import type { Connection, ExecuteResult, Migration, Transaction } from '../../co
 import { ServiceUnavailableError, ValidationError } from '../../core/types/common';
 import { withRetry } from '../../utils/retry';
 import { getErrorMessage } from '../../utils/error';
+import type { Logger } from '../../core/types/observability';
+import { consoleLogger } from '../../utils/observability';
 
 export interface AwsDataStoreConfig {
   host?: string;
@@ -23,6 +25,7 @@ export interface AwsDataStoreConfig {
   password?: string;
   maxConnections?: number;
   connectionTimeout?: number;
+  logger?: Logger;
 }
 
 /**
@@ -195,8 +198,10 @@ export class AwsDataStoreService implements DataStoreService {
           );
         });
 
-        // eslint-disable-next-line no-console
-        console.log(`Applied migration ${migration.version}: ${migration.description}`);
+        (this.config.logger ?? consoleLogger).info(
+          `Applied migration ${migration.version}: ${migration.description}`,
+          { version: migration.version }
+        );
       } catch (error: unknown) {
         throw new ValidationError(
           `Migration ${migration.version} failed: ${getErrorMessage(error)}`
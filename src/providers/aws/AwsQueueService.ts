@@ -13,17 +13,34 @@ import {
   DeleteMessageCommand,
   ListQueuesCommand,
   PurgeQueueCommand,
+  GetQueueUrlCommand,
+  SetQueueAttributesCommand,
+  ChangeMessageVisibilityCommand,
+  type Message as SqsMessage,
 } from '@aws-sdk/client-sqs';
 import type { QueueService } from '../../core/services/QueueService';
 import type {
   Message,
   Queue,
   QueueOptions,
+  QueueUpdateOptions,
   SendMessageParams,
   ReceiveMessageParams,
+  RedriveParams,
+  RedriveResult,
 } from '../../core/types/queue';
 import type { ProviderConfig } from '../../core/types/common';
-import { ResourceNotFoundError, ServiceUnavailableError } from '../../core/types/common';
+import {
+  LCPlatformError,
+  ResourceNotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../core/types/common';
+
+const DEFAULT_MAX_RECEIVE_COUNT = 5;
+const MAX_RECEIVE_BATCH = 10;
+// Long enough to move a batch before skipped messages become visible again
+const REDRIVE_VISIBILITY_TIMEOUT = 60;
 
 export class AwsQueueService implements QueueService {
   private sqsClient: SQSClient;
@@ -55,32 +72,12 @@ export class AwsQueueService implements QueueService {
 
   async createQueue(name: string, options?: QueueOptions): Promise<Queue> {
     try {
-      const attributes: Record<string, string> = {};
-
-      if (options?.visibilityTimeout) {
-        attributes.VisibilityTimeout = options.visibilityTimeout.toString();
-      }
-
-      if (options?.messageRetention) {
-        attributes.MessageRetentionPeriod = options.messageRetention.toString();
-      }
-
-      if (options?.maxMessageSize) {
-        attributes.MaximumMessageSize = options.maxMessageSize.toString();
-      }
+      const attributes = await this.toAttributes(name, options?.fifo === true, options ?? {});
 
       if (options?.fifo) {
         attributes.FifoQueue = 'true';
       }
 
-      if (options?.enableDeadLetter && options.deadLetterAfterRetries) {
-        // In production, you would create a DLQ and set RedrivePolicy
-        attributes.RedrivePolicy = JSON.stringify({
-          maxReceiveCount: options.deadLetterAfterRetries,
-          deadLetterTargetArn: `arn:aws:sqs:${String(this.sqsClient.config.region)}:123456789012:${name}-dlq`,
-        });
-      }
-
       const command = new CreateQueueCommand({
         QueueName: options?.fifo ? `${name}.fifo` : name,
         Attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
@@ -116,12 +113,33 @@ export class AwsQueueService implements QueueService {
         ? parseInt(response.Attributes.CreatedTimestamp, 10) * 1000
         : Date.now();
 
-      return {
+      const queue: Queue = {
         name: queueName,
         url: queueUrl,
         messageCount: parseInt(response.Attributes.ApproximateNumberOfMessages || '0', 10),
         created: new Date(createdTimestamp),
+        fifo: response.Attributes.FifoQueue === 'true',
       };
+
+      if (response.Attributes.VisibilityTimeout) {
+        queue.visibilityTimeout = parseInt(response.Attributes.VisibilityTimeout, 10);
+      }
+      if (response.Attributes.MessageRetentionPeriod) {
+        queue.messageRetention = parseInt(response.Attributes.MessageRetentionPeriod, 10);
+      }
+      if (response.Attributes.RedrivePolicy) {
+        queue.deadLetterQueueUrl = await this.resolveDeadLetterQueueUrl(
+          response.Attributes.RedrivePolicy
+        );
+        const { maxReceiveCount } = JSON.parse(response.Attributes.RedrivePolicy) as {
+          maxReceiveCount?: number | string;
+        };
+        if (maxReceiveCount !== undefined) {
+          queue.maxReceiveCount = Number(maxReceiveCount);
+        }
+      }
+
+      return queue;
     } catch (error) {
       if (error instanceof ResourceNotFoundError) {
         throw error;
@@ -130,13 +148,45 @@ export class AwsQueueService implements QueueService {
     }
   }
 
+  async updateQueue(queueUrl: string, options: QueueUpdateOptions): Promise<Queue> {
+    try {
+      const { fifo } = await this.getQueue(queueUrl);
+      const name = this.extractQueueNameFromUrl(queueUrl).replace(/\.fifo$/, '');
+      const attributes = await this.toAttributes(name, fifo === true, options);
+
+      if (Object.keys(attributes).length > 0) {
+        await this.sqsClient.send(
+          new SetQueueAttributesCommand({ QueueUrl: queueUrl, Attributes: attributes })
+        );
+      }
+      return await this.getQueue(queueUrl);
+    } catch (error) {
+      if (error instanceof LCPlatformError) {
+        throw error;
+      }
+      throw new ServiceUnavailableError(`Failed to update queue: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Delete a queue and the `<name>-dlq` queue created for it by enableDeadLetter
+   */
   async deleteQueue(queueUrl: string): Promise<void> {
     try {
-      const command = new DeleteQueueCommand({
-        QueueUrl: queueUrl,
-      });
+      const deadLetterQueueUrl = await this.findOwnDeadLetterQueueUrl(queueUrl);
 
-      await this.sqsClient.send(command);
+      await this.sqsClient.send(new DeleteQueueCommand({ QueueUrl: queueUrl }));
+
+      if (deadLetterQueueUrl !== undefined) {
+        await this.sqsClient
+          .send(new DeleteQueueCommand({ QueueUrl: deadLetterQueueUrl }))
+          .catch((error: unknown) => {
+            // Already deleted on its own
+            if ((error as Error).name !== 'QueueDoesNotExist') {
+              throw error;
+            }
+          });
+      }
     } catch (error) {
       throw new ServiceUnavailableError(`Failed to delete queue: ${(error as Error).message}`);
     }
@@ -196,30 +246,10 @@ export class AwsQueueService implements QueueService {
         return [];
       }
 
-      return response.Messages.map((msg) => {
-        const attributes: Record<string, string> = {};
-
-        if (msg.MessageAttributes) {
-          Object.entries(msg.MessageAttributes).forEach(([key, value]) => {
-            if (value.StringValue) {
-              attributes[key] = value.StringValue;
-            }
-          });
-        }
-
-        // Try to parse JSON, fall back to string
-        let body: string | object = msg.Body || '';
-        try {
-          body = JSON.parse(msg.Body || '') as Record<string, unknown>;
-        } catch {
-          // Keep as string if not valid JSON
-        }
-
-        return {
-          body,
-          attributes,
-        };
-      });
+      return response.Messages.map((msg) => ({
+        ...this.toMessage(msg),
+        ...(msg.ReceiptHandle !== undefined && { receiptHandle: msg.ReceiptHandle }),
+      }));
     } catch (error) {
       throw new ServiceUnavailableError(`Failed to receive messages: ${(error as Error).message}`);
     }
@@ -262,9 +292,300 @@ export class AwsQueueService implements QueueService {
     }
   }
 
+  /**
+   * Peek by receiving with a zero visibility timeout, so messages stay available.
+   * SQS returns at most 10 messages per call.
+   */
+  async peekDeadLetterMessages(queueUrl: string, maxMessages = 10): Promise<Message[]> {
+    try {
+      const deadLetterQueueUrl = await this.getDeadLetterQueueUrl(queueUrl);
+
+      const response = await this.sqsClient.send(
+        new ReceiveMessageCommand({
+          QueueUrl: deadLetterQueueUrl,
+          MaxNumberOfMessages: Math.min(Math.max(maxMessages, 1), MAX_RECEIVE_BATCH),
+          VisibilityTimeout: 0,
+          MessageAttributeNames: ['All'],
+        })
+      );
+
+      return (response.Messages ?? []).map((msg) => this.toMessage(msg));
+    } catch (error) {
+      throw this.toServiceError(error, 'peek dead-letter messages');
+    }
+  }
+
+  /**
+   * Move messages back by receiving them from the dead-letter queue, sending them to the
+   * source queue and deleting them. Skipped messages are made visible again at the end.
+   */
+  async redriveDeadLetterMessages(
+    queueUrl: string,
+    params?: RedriveParams
+  ): Promise<RedriveResult> {
+    try {
+      const deadLetterQueueUrl = await this.getDeadLetterQueueUrl(queueUrl);
+      const limit = params?.maxMessages ?? Number.POSITIVE_INFINITY;
+      const result: RedriveResult = { moved: 0, skipped: 0 };
+      const seen = new Set<string>();
+      const skippedHandles: string[] = [];
+
+      while (result.moved < limit) {
+        const response = await this.sqsClient.send(
+          new ReceiveMessageCommand({
+            QueueUrl: deadLetterQueueUrl,
+            MaxNumberOfMessages: Math.min(limit - result.moved, MAX_RECEIVE_BATCH),
+            VisibilityTimeout: REDRIVE_VISIBILITY_TIMEOUT,
+            MessageAttributeNames: ['All'],
+            AttributeNames: ['All'],
+          })
+        );
+
+        const messages = response.Messages ?? [];
+        let found = false;
+        for (const msg of messages) {
+          if (msg.MessageId === undefined || msg.ReceiptHandle === undefined) {
+            continue;
+          }
+          if (seen.has(msg.MessageId)) {
+            skippedHandles.push(msg.ReceiptHandle);
+            continue;
+          }
+          seen.add(msg.MessageId);
+          found = true;
+
+          if (params?.filter !== undefined && !params.filter(this.toMessage(msg))) {
+            result.skipped++;
+            skippedHandles.push(msg.ReceiptHandle);
+            continue;
+          }
+
+          const groupId = msg.Attributes?.MessageGroupId;
+          await this.sqsClient.send(
+            new SendMessageCommand({
+              QueueUrl: queueUrl,
+              MessageBody: msg.Body ?? '',
+              MessageAttributes: msg.MessageAttributes,
+              ...(groupId !== undefined && {
+                MessageGroupId: groupId,
+                MessageDeduplicationId: msg.MessageId,
+              }),
+            })
+          );
+          await this.sqsClient.send(
+            new DeleteMessageCommand({
+              QueueUrl: deadLetterQueueUrl,
+              ReceiptHandle: msg.ReceiptHandle,
+            })
+          );
+          result.moved++;
+        }
+
+        if (!found) {
+          break;
+        }
+      }
+
+      for (const receiptHandle of skippedHandles) {
+        await this.sqsClient.send(
+          new ChangeMessageVisibilityCommand({
+            QueueUrl: deadLetterQueueUrl,
+            ReceiptHandle: receiptHandle,
+            VisibilityTimeout: 0,
+          })
+        );
+      }
+
+      return result;
+    } catch (error) {
+      throw this.toServiceError(error, 'redrive dead-letter messages');
+    }
+  }
+
+  async getDeadLetterQueueDepth(queueUrl: string): Promise<number> {
+    try {
+      const deadLetterQueueUrl = await this.getDeadLetterQueueUrl(queueUrl);
+
+      const response = await this.sqsClient.send(
+        new GetQueueAttributesCommand({
+          QueueUrl: deadLetterQueueUrl,
+          AttributeNames: ['ApproximateNumberOfMessages'],
+        })
+      );
+
+      return parseInt(response.Attributes?.ApproximateNumberOfMessages ?? '0', 10);
+    } catch (error) {
+      throw this.toServiceError(error, 'get dead-letter queue depth');
+    }
+  }
+
   // Helper methods
+  /**
+   * SQS attributes for the given options, creating the dead-letter queue when enabled
+   */
+  private async toAttributes(
+    name: string,
+    fifo: boolean,
+    options: QueueUpdateOptions
+  ): Promise<Record<string, string>> {
+    const attributes: Record<string, string> = {};
+
+    if (options.visibilityTimeout) {
+      attributes.VisibilityTimeout = options.visibilityTimeout.toString();
+    }
+
+    if (options.messageRetention) {
+      attributes.MessageRetentionPeriod = options.messageRetention.toString();
+    }
+
+    if (options.maxMessageSize) {
+      attributes.MaximumMessageSize = options.maxMessageSize.toString();
+    }
+
+    if (fifo && options.contentBasedDeduplication) {
+      attributes.ContentBasedDeduplication = 'true';
+    }
+
+    if (options.deadLetterQueueUrl !== undefined || options.enableDeadLetter === true) {
+      attributes.RedrivePolicy = JSON.stringify({
+        maxReceiveCount: options.deadLetterAfterRetries ?? DEFAULT_MAX_RECEIVE_COUNT,
+        deadLetterTargetArn:
+          options.deadLetterQueueUrl !== undefined
+            ? await this.getQueueArn(options.deadLetterQueueUrl)
+            : await this.createDeadLetterQueue(name, fifo),
+      });
+    }
+
+    return attributes;
+  }
+
   private extractQueueNameFromUrl(queueUrl: string): string {
     const parts = queueUrl.split('/');
     return parts[parts.length - 1] || queueUrl;
   }
+
+  /**
+   * Create the `<name>-dlq` queue and return its ARN for the redrive policy
+   */
+  private async createDeadLetterQueue(name: string, fifo: boolean): Promise<string> {
+    const created = await this.sqsClient.send(
+      new CreateQueueCommand({
+        QueueName: fifo ? `${name}-dlq.fifo` : `${name}-dlq`,
+        Attributes: fifo ? { FifoQueue: 'true' } : undefined,
+      })
+    );
+
+    if (created.QueueUrl === undefined) {
+      throw new ServiceUnavailableError('Failed to create dead-letter queue - no URL returned');
+    }
+    return this.getQueueArn(created.QueueUrl);
+  }
+
+  private async getQueueArn(queueUrl: string): Promise<string> {
+    const response = await this.sqsClient.send(
+      new GetQueueAttributesCommand({
+        QueueUrl: queueUrl,
+        AttributeNames: ['QueueArn'],
+      })
+    );
+
+    const queueArn = response.Attributes?.QueueArn;
+    if (queueArn === undefined) {
+      throw new ServiceUnavailableError(`Failed to get ARN of queue ${queueUrl}`);
+    }
+    return queueArn;
+  }
+
+  private async getDeadLetterQueueUrl(queueUrl: string): Promise<string> {
+    const response = await this.sqsClient.send(
+      new GetQueueAttributesCommand({
+        QueueUrl: queueUrl,
+        AttributeNames: ['RedrivePolicy'],
+      })
+    );
+
+    const redrivePolicy = response.Attributes?.RedrivePolicy;
+    if (redrivePolicy === undefined || redrivePolicy === '') {
+      throw new ValidationError(`Queue ${queueUrl} has no dead-letter queue`);
+    }
+    return this.resolveDeadLetterQueueUrl(redrivePolicy);
+  }
+
+  /**
+   * URL of the queue's dead-letter queue when it is the one createQueue made for it;
+   * dead-letter queues shared with other queues are left alone
+   */
+  private async findOwnDeadLetterQueueUrl(queueUrl: string): Promise<string | undefined> {
+    const response = await this.sqsClient.send(
+      new GetQueueAttributesCommand({
+        QueueUrl: queueUrl,
+        AttributeNames: ['RedrivePolicy'],
+      })
+    );
+
+    const redrivePolicy = response.Attributes?.RedrivePolicy;
+    if (redrivePolicy === undefined || redrivePolicy === '') {
+      return undefined;
+    }
+
+    const { deadLetterTargetArn } = JSON.parse(redrivePolicy) as { deadLetterTargetArn: string };
+    const deadLetterQueueName = deadLetterTargetArn.split(':').pop() ?? '';
+    const name = this.extractQueueNameFromUrl(queueUrl).replace(/\.fifo$/, '');
+    if (deadLetterQueueName.replace(/\.fifo$/, '') !== `${name}-dlq`) {
+      return undefined;
+    }
+    // createDeadLetterQueue makes it in the same account and region as the queue
+    return queueUrl.replace(/[^/]+$/, deadLetterQueueName);
+  }
+
+  private async resolveDeadLetterQueueUrl(redrivePolicy: string): Promise<string> {
+    const { deadLetterTargetArn } = JSON.parse(redrivePolicy) as { deadLetterTargetArn: string };
+    // arn:aws:sqs:<region>:<account>:<queue name>
+    const [, , , , accountId, queueName] = deadLetterTargetArn.split(':');
+
+    const response = await this.sqsClient.send(
+      new GetQueueUrlCommand({
+        QueueName: queueName,
+        ...(accountId !== undefined && accountId !== '' && { QueueOwnerAWSAccountId: accountId }),
+      })
+    );
+
+    if (!response.QueueUrl) {
+      throw new ResourceNotFoundError('Queue', deadLetterTargetArn);
+    }
+    return response.QueueUrl;
+  }
+
+  private toMessage(msg: SqsMessage): Message {
+    const attributes: Record<string, string> = {};
+
+    if (msg.MessageAttributes) {
+      Object.entries(msg.MessageAttributes).forEach(([key, value]) => {
+        if (value.StringValue) {
+          attributes[key] = value.StringValue;
+        }
+      });
+    }
+
+    // Try to parse JSON, fall back to string
+    let body: string | object = msg.Body || '';
+    try {
+      body = JSON.parse(msg.Body || '') as Record<string, unknown>;
+    } catch {
+      // Keep as string if not valid JSON
+    }
+
+    return {
+      ...(msg.MessageId !== undefined && { id: msg.MessageId }),
+      body,
+      attributes,
+    };
+  }
+
+  private toServiceError(error: unknown, action: string): Error {
+    if (error instanceof LCPlatformError) {
+      return error;
+    }
+    return new ServiceUnavailableError(`Failed to ${action}: ${(error as Error).message}`);
+  }
 }
@@ -0,0 +1,387 @@
+/**
+ * AWS Cache Client Implementation
+ * Talks the Redis protocol to ElastiCache for Redis cluster endpoints
+ *
+ * Cluster names are resolved to endpoints through ElastiCache (the replication
+ * group ID is the cluster name). A fixed endpoint can be given instead with
+ * `options.cacheEndpoint`, e.g. `redis://localhost:6379` for a local redis-server.
+ *
+ * Supported provider options:
+ * - cacheEndpoint: redis:// or rediss:// URL used for every cluster
+ * - cacheAuthToken: AUTH token sent when connecting
+ * - cacheTls: force TLS on or off (defaults to the cluster's in-transit encryption)
+ *
+ * Constitution Principle I: Provider Independence
+ */
+
+import {
+  ElastiCacheClient,
+  type ElastiCacheClientConfig,
+  DescribeReplicationGroupsCommand,
+} from '@aws-sdk/client-elasticache';
+import Redis, { Cluster, type RedisOptions } from 'ioredis';
+import type { CacheClient } from '../../../core/clients/CacheClient';
+import type { CacheSetOptions, BatchCacheResult } from '../../../core/types/runtime';
+import type { ProviderConfig } from '../../../core/types/common';
+import {
+  ResourceNotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../../core/types/common';
+import { withRetry } from '../../../utils/retry';
+import { getErrorMessage, getErrorName } from '../../../utils/error';
+
+/**
+ * Resolved connection settings for a cache cluster
+ */
+export interface CacheEndpoint {
+  host: string;
+  port: number;
+  tls: boolean;
+  password?: string;
+  /** True when the cluster runs with cluster mode enabled (sharded) */
+  clusterMode: boolean;
+}
+
+type CacheConnection = Redis | Cluster;
+
+const DEFAULT_PORT = 6379;
+
+export class AwsCacheClient implements CacheClient {
+  private client: ElastiCacheClient;
+  private endpointOverride?: string;
+  private authToken?: string;
+  private tls?: boolean;
+  private connections = new Map<string, Promise<CacheConnection>>();
+
+  constructor(config: ProviderConfig) {
+    const clientConfig: ElastiCacheClientConfig = {};
+
+    if (config.region) {
+      clientConfig.region = config.region;
+    }
+
+    if (config.credentials?.accessKeyId && config.credentials?.secretAccessKey) {
+      clientConfig.credentials = {
+        accessKeyId: config.credentials.accessKeyId,
+        secretAccessKey: config.credentials.secretAccessKey,
+      };
+    }
+
+    if (config.endpoint) {
+      clientConfig.endpoint = config.endpoint;
+    }
+
+    this.client = new ElastiCacheClient(clientConfig);
+
+    const options = config.options ?? {};
+    if (typeof options.cacheEndpoint === 'string' && options.cacheEndpoint !== '') {
+      this.endpointOverride = options.cacheEndpoint;
+    }
+    if (typeof options.cacheAuthToken === 'string' && options.cacheAuthToken !== '') {
+      this.authToken = options.cacheAuthToken;
+    }
+    if (typeof options.cacheTls === 'boolean') {
+      this.tls = options.cacheTls;
+    }
+  }
+
+  async get(clusterName: string, key: string): Promise<string | null> {
+    this.validateKey(clusterName, key);
+    return this.execute(clusterName, (connection) => connection.get(key));
+  }
+
+  async set(
+    clusterName: string,
+    key: string,
+    value: unknown,
+    options: CacheSetOptions = {}
+  ): Promise<void> {
+    this.validateKey(clusterName, key);
+
+    if (options.onlyIfNotExists === true && options.onlyIfExists === true) {
+      throw new ValidationError('onlyIfNotExists and onlyIfExists cannot both be set');
+    }
+
+    const args: Array<string | number> = [
+      key,
+      typeof value === 'string' ? value : JSON.stringify(value),
+    ];
+    if (options.ttl !== undefined && options.ttl > 0) {
+      args.push('EX', options.ttl);
+    }
+    if (options.onlyIfNotExists === true) {
+      args.push('NX');
+    } else if (options.onlyIfExists === true) {
+      args.push('XX');
+    }
+
+    await this.execute(clusterName, (connection) => connection.call('SET', args));
+  }
+
+  async delete(clusterName: string, key: string): Promise<boolean> {
+    this.validateKey(clusterName, key);
+    const deleted = await this.execute(clusterName, (connection) => connection.del(key));
+    return deleted > 0;
+  }
+
+  async exists(clusterName: string, key: string): Promise<boolean> {
+    this.validateKey(clusterName, key);
+    const count = await this.execute(clusterName, (connection) => connection.exists(key));
+    return count > 0;
+  }
+
+  async expire(clusterName: string, key: string, seconds: number): Promise<boolean> {
+    this.validateKey(clusterName, key);
+    const result = await this.execute(clusterName, (connection) => connection.expire(key, seconds));
+    return result === 1;
+  }
+
+  async ttl(clusterName: string, key: string): Promise<number> {
+    this.validateKey(clusterName, key);
+    return this.execute(clusterName, (connection) => connection.ttl(key));
+  }
+
+  async persist(clusterName: string, key: string): Promise<boolean> {
+    this.validateKey(clusterName, key);
+    const result = await this.execute(clusterName, (connection) => connection.persist(key));
+    return result === 1;
+  }
+
+  async increment(clusterName: string, key: string, amount: number = 1): Promise<number> {
+    this.validateKey(clusterName, key);
+    return this.execute(clusterName, (connection) => connection.incrby(key, amount));
+  }
+
+  async decrement(clusterName: string, key: string, amount: number = 1): Promise<number> {
+    this.validateKey(clusterName, key);
+    return this.execute(clusterName, (connection) => connection.decrby(key, amount));
+  }
+
+  /**
+   * Get multiple values
+   *
+   * Keys are read individually (auto-pipelined) so that keys in different hash
+   * slots work with cluster mode enabled.
+   */
+  async mget(clusterName: string, keys: string[]): Promise<Map<string, string>> {
+    if (!clusterName) {
+      throw new ValidationError('Cluster name is required');
+    }
+
+    const values = await this.execute(clusterName, (connection) =>
+      Promise.all(keys.map((key) => connection.get(key)))
+    );
+
+    const result = new Map<string, string>();
+    keys.forEach((key, index) => {
+      const value = values[index];
+      if (value !== null && value !== undefined) {
+        result.set(key, value);
+      }
+    });
+
+    return result;
+  }
+
+  async mset(
+    clusterName: string,
+    entries: Map<string, unknown>,
+    options: CacheSetOptions = {}
+  ): Promise<void> {
+    if (!clusterName) {
+      throw new ValidationError('Cluster name is required');
+    }
+
+    await Promise.all(
+      Array.from(entries.entries()).map(([key, value]) =>
+        this.set(clusterName, key, value, options)
+      )
+    );
+  }
+
+  async mdel(clusterName: string, keys: string[]): Promise<BatchCacheResult> {
+    if (!clusterName) {
+      throw new ValidationError('Cluster name is required');
+    }
+
+    const connection = await this.getConnection(clusterName);
+    const results = await Promise.allSettled(keys.map((key) => connection.del(key)));
+
+    const successful: string[] = [];
+    const failed: Array<{ key: string; error: string }> = [];
+
+    results.forEach((result, index) => {
+      const key = keys[index] ?? '';
+      if (result.status === 'rejected') {
+        failed.push({ key, error: getErrorMessage(result.reason) });
+      } else if (result.value > 0) {
+        successful.push(key);
+      } else {
+        failed.push({ key, error: 'Key not found' });
+      }
+    });
+
+    return { successful, failed };
+  }
+
+  /**
+   * Close all open cluster connections
+   */
+  destroy(): void {
+    for (const pending of this.connections.values()) {
+      pending.then((connection) => connection.disconnect()).catch(() => undefined);
+    }
+    this.connections.clear();
+  }
+
+  /**
+   * Resolve a cluster name to its connection settings
+   */
+  protected async resolveEndpoint(clusterName: string): Promise<CacheEndpoint> {
+    if (this.endpointOverride !== undefined) {
+      return this.parseEndpointUrl(this.endpointOverride);
+    }
+
+    const group = await withRetry(async () => {
+      try {
+        const response = await this.client.send(
+          new DescribeReplicationGroupsCommand({ ReplicationGroupId: clusterName })
+        );
+        const replicationGroup = response.ReplicationGroups?.[0];
+        if (!replicationGroup) {
+          throw new ResourceNotFoundError('Cache cluster', clusterName);
+        }
+        return replicationGroup;
+      } catch (error: unknown) {
+        if (error instanceof ResourceNotFoundError) {
+          throw error;
+        }
+        if (getErrorName(error) === 'ReplicationGroupNotFoundFault') {
+          throw new ResourceNotFoundError('Cache cluster', clusterName);
+        }
+        throw new ServiceUnavailableError(
+          `Failed to resolve cache cluster endpoint: ${getErrorMessage(error)}`
+        );
+      }
+    });
+
+    const clusterMode = group.ConfigurationEndpoint?.Address !== undefined;
+    const endpoint = clusterMode
+      ? group.ConfigurationEndpoint
+      : group.NodeGroups?.[0]?.PrimaryEndpoint;
+
+    if (endpoint?.Address === undefined) {
+      throw new ServiceUnavailableError(`Cache cluster '${clusterName}' has no endpoint`);
+    }
+
+    return {
+      host: endpoint.Address,
+      port: endpoint.Port ?? DEFAULT_PORT,
+      tls: this.tls ?? group.TransitEncryptionEnabled === true,
+      clusterMode,
+      ...(this.authToken !== undefined && { password: this.authToken }),
+    };
+  }
+
+  /**
+   * Open a connection to a resolved endpoint
+   */
+  protected createConnection(endpoint: CacheEndpoint): CacheConnection {
+    const options: RedisOptions = {
+      lazyConnect: true,
+      maxRetriesPerRequest: 1,
+      enableAutoPipelining: true,
+      ...(endpoint.tls && { tls: {} }),
+      ...(endpoint.password !== undefined && { password: endpoint.password }),
+    };
+
+    if (endpoint.clusterMode) {
+      return new Cluster([{ host: endpoint.host, port: endpoint.port }], {
+        lazyConnect: true,
+        enableAutoPipelining: true,
+        // ElastiCache TLS certificates are issued for the configuration endpoint name
+        dnsLookup: (address, callback) => callback(null, address),
+        redisOptions: options,
+      });
+    }
+
+    return new Redis({ ...options, host: endpoint.host, port: endpoint.port });
+  }
+
+  private parseEndpointUrl(value: string): CacheEndpoint {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new ValidationError(`Invalid cache endpoint: ${value}`);
+    }
+
+    if (url.protocol !== 'redis:' && url.protocol !== 'rediss:') {
+      throw new ValidationError(`Cache endpoint must use redis:// or rediss://: ${value}`);
+    }
+
+    const password = url.password !== '' ? decodeURIComponent(url.password) : this.authToken;
+
+    return {
+      host: url.hostname,
+      port: url.port !== '' ? Number(url.port) : DEFAULT_PORT,
+      tls: this.tls ?? url.protocol === 'rediss:',
+      clusterMode: false,
+      ...(password !== undefined && { password }),
+    };
+  }
+
+  private getConnection(clusterName: string): Promise<CacheConnection> {
+    let pending = this.connections.get(clusterName);
+
+    if (pending === undefined) {
+      pending = this.openConnection(clusterName);
+      this.connections.set(clusterName, pending);
+      // Allow a later call to retry after a failed connection attempt
+      pending.catch(() => this.connections.delete(clusterName));
+    }
+
+    return pending;
+  }
+
+  private async openConnection(clusterName: string): Promise<CacheConnection> {
+    const endpoint = await this.resolveEndpoint(clusterName);
+    const connection = this.createConnection(endpoint);
+
+    try {
+      await connection.connect();
+    } catch (error: unknown) {
+      connection.disconnect();
+      throw new ServiceUnavailableError(
+        `Failed to connect to cache cluster '${clusterName}': ${getErrorMessage(error)}`
+      );
+    }
+
+    return connection;
+  }
+
+  private async execute<T>(
+    clusterName: string,
+    operation: (connection: CacheConnection) => Promise<T>
+  ): Promise<T> {
+    const connection = await this.getConnection(clusterName);
+
+    try {
+      return await operation(connection);
+    } catch (error: unknown) {
+      const message = getErrorMessage(error);
+      // Redis replies to bad input (e.g. INCRBY on a non-integer) with an ERR/WRONGTYPE error
+      if (message.startsWith('ERR') || message.startsWith('WRONGTYPE')) {
+        throw new ValidationError(message);
+      }
+      throw new ServiceUnavailableError(`Cache operation failed: ${message}`);
+    }
+  }
+
+  private validateKey(clusterName: string, key: string): void {
+    if (!clusterName || !key) {
+      throw new ValidationError('Cluster name and key are required');
+    }
+  }
+}
@@ -7,16 +7,38 @@
 
 import { SSMClient, GetParameterCommand, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
 import type { ConfigClient } from '../../../core/clients/ConfigClient';
-import type { ConfigurationData } from '../../../core/types/configuration';
+import type {
+  ConfigChangeListener,
+  ConfigSubscription,
+  ConfigurationData,
+  ConfigWatchOptions,
+  FeatureFlagContext,
+} from '../../../core/types/configuration';
 import type { ProviderConfig } from '../../../core/types/common';
+import type { CacheReadOptions, CacheStats } from '../../../core/types/runtime';
 import {
   ResourceNotFoundError,
   ServiceUnavailableError,
   ValidationError,
 } from '../../../core/types/common';
+import {
+  createConfigCache,
+  emptyCacheStats,
+  getReadCacheOptions,
+  type TtlCache,
+} from '../../../utils/cache';
+import { ConfigPoller, getConfigValue } from '../../../utils/configWatch';
+import { evaluateFeatureFlag } from '../../../utils/featureFlags';
 
+/**
+ * Configuration client backed by SSM Parameter Store
+ *
+ * Reads are cached when `options.configCache` is set, either to `true` or to
+ * `{ ttlMs, maxSize, staleWhileRevalidateMs }`. Watches poll the parameter path.
+ */
 export class AwsConfigClient implements ConfigClient {
   private ssmClient: SSMClient;
+  private cache: TtlCache<ConfigurationData> | undefined;
 
   constructor(config: ProviderConfig) {
     const clientConfig: {
@@ -41,13 +63,97 @@ export class AwsConfigClient implements ConfigClient {
     }
 
     this.ssmClient = new SSMClient(clientConfig);
+
+    const cacheOptions = getReadCacheOptions(config.options?.configCache, 'configCache');
+    if (cacheOptions !== undefined) {
+      this.cache = createConfigCache<ConfigurationData>(cacheOptions);
+    }
+  }
+
+  async get(
+    configName: string,
+    environment?: string,
+    options: CacheReadOptions = {}
+  ): Promise<ConfigurationData> {
+    if (!configName) {
+      throw new ValidationError('Configuration name is required');
+    }
+
+    if (this.cache === undefined) {
+      return this.fetchConfig(configName, environment);
+    }
+
+    const key = this.cacheKey(configName, environment);
+    if (options.refresh === true) {
+      this.cache.delete(key);
+    }
+    // Callers get a copy so that mutating the result does not change the cached value
+    const data = await this.cache.getOrCompute(
+      key,
+      () => this.fetchConfig(configName, environment),
+      options.ttlMs
+    );
+    return { ...data };
+  }
+
+  async getFeatureFlag(
+    configName: string,
+    flagName: string,
+    context?: FeatureFlagContext,
+    defaultValue?: boolean
+  ): Promise<boolean> {
+    if (!flagName) {
+      throw new ValidationError('Feature flag name is required');
+    }
+
+    try {
+      const data = await this.get(configName);
+      return evaluateFeatureFlag(flagName, getConfigValue(data, flagName), context, defaultValue);
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError && defaultValue !== undefined) {
+        return defaultValue;
+      }
+      throw error;
+    }
   }
 
-  async get(configName: string, environment?: string): Promise<ConfigurationData> {
+  async watch<T extends ConfigurationData = ConfigurationData>(
+    configName: string,
+    listener: ConfigChangeListener<T>,
+    options: ConfigWatchOptions = {}
+  ): Promise<ConfigSubscription> {
     if (!configName) {
       throw new ValidationError('Configuration name is required');
     }
 
+    const { environment } = options;
+    const fetch = async (): Promise<T> => {
+      const data = await this.fetchConfig(configName, environment);
+      // Keep cached reads in line with what watchers have seen
+      this.cache?.set(this.cacheKey(configName, environment), data);
+      return data as T;
+    };
+
+    return new ConfigPoller(configName, await fetch(), fetch, listener, options);
+  }
+
+  getCacheStats(): CacheStats {
+    return this.cache?.stats ?? emptyCacheStats();
+  }
+
+  invalidateCache(configName?: string): void {
+    if (configName === undefined) {
+      this.cache?.clear();
+      return;
+    }
+    this.cache?.deleteWhere((key) => key.startsWith(`${configName}#`));
+  }
+
+  private cacheKey(configName: string, environment?: string): string {
+    return `${configName}#${environment ?? ''}`;
+  }
+
+  private async fetchConfig(configName: string, environment?: string): Promise<ConfigurationData> {
     try {
       // Build the parameter path
       const path = environment ? `/${environment}/${configName}` : `/${configName}`;
@@ -107,13 +213,18 @@ export class AwsConfigClient implements ConfigClient {
     }
   }
 
-  async getString(configName: string, key: string, defaultValue?: string): Promise<string> {
+  async getString(
+    configName: string,
+    key: string,
+    defaultValue?: string,
+    options?: CacheReadOptions
+  ): Promise<string> {
     if (!key) {
       throw new ValidationError('Configuration key is required');
     }
 
     try {
-      const data = await this.get(configName);
+      const data = await this.get(configName, undefined, options);
       const value = data[key];
 
       if (value === undefined) {
@@ -132,13 +243,18 @@ export class AwsConfigClient implements ConfigClient {
     }
   }
 
-  async getNumber(configName: string, key: string, defaultValue?: number): Promise<number> {
+  async getNumber(
+    configName: string,
+    key: string,
+    defaultValue?: number,
+    options?: CacheReadOptions
+  ): Promise<number> {
     if (!key) {
       throw new ValidationError('Configuration key is required');
     }
 
     try {
-      const data = await this.get(configName);
+      const data = await this.get(configName, undefined, options);
       const value = data[key];
 
       if (value === undefined) {
@@ -162,13 +278,18 @@ export class AwsConfigClient implements ConfigClient {
     }
   }
 
-  async getBoolean(configName: string, key: string, defaultValue?: boolean): Promise<boolean> {
+  async getBoolean(
+    configName: string,
+    key: string,
+    defaultValue?: boolean,
+    options?: CacheReadOptions
+  ): Promise<boolean> {
     if (!key) {
       throw new ValidationError('Configuration key is required');
     }
 
     try {
-      const data = await this.get(configName);
+      const data = await this.get(configName, undefined, options);
       const value = data[key];
 
       if (value === undefined) {
@@ -0,0 +1,393 @@
+/**
+ * AWS Container Repository Client Implementation
+ * Uses Amazon ECR for image queries and deletion
+ *
+ * Constitution Principle I: Provider Independence
+ */
+
+import {
+  ECRClient,
+  type ECRClientConfig,
+  type ImageDetail,
+  type ImageIdentifier,
+  DescribeRepositoriesCommand,
+  DescribeImagesCommand,
+  DescribeImageScanFindingsCommand,
+  BatchDeleteImageCommand,
+} from '@aws-sdk/client-ecr';
+import type { ContainerRepoClient } from '../../../core/clients/ContainerRepoClient';
+import type {
+  ContainerImage,
+  ContainerImageDetail,
+  ImageListOptions,
+  ImageScanFindings,
+} from '../../../core/types/container';
+import { ScanStatus } from '../../../core/types/container';
+import type { BatchDeleteImagesResult } from '../../../core/types/runtime';
+import type { ProviderConfig } from '../../../core/types/common';
+import {
+  ResourceNotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../../core/types/common';
+import { getErrorMessage, getErrorName } from '../../../utils/error';
+
+/** Maximum number of image IDs accepted by a single BatchDeleteImage call */
+const DELETE_BATCH_SIZE = 100;
+
+/** Maximum page size accepted by DescribeImages */
+const DESCRIBE_PAGE_SIZE = 1000;
+
+export class AwsContainerRepoClient implements ContainerRepoClient {
+  private client: ECRClient;
+
+  constructor(config: ProviderConfig) {
+    const clientConfig: ECRClientConfig = {};
+
+    if (config.region) {
+      clientConfig.region = config.region;
+    }
+
+    if (config.credentials?.accessKeyId && config.credentials?.secretAccessKey) {
+      clientConfig.credentials = {
+        accessKeyId: config.credentials.accessKeyId,
+        secretAccessKey: config.credentials.secretAccessKey,
+      };
+    }
+
+    if (config.endpoint) {
+      clientConfig.endpoint = config.endpoint;
+    }
+
+    this.client = new ECRClient(clientConfig);
+  }
+
+  async getRepositoryUri(repositoryName: string): Promise<string> {
+    if (!repositoryName) {
+      throw new ValidationError('Repository name is required');
+    }
+
+    try {
+      const response = await this.client.send(
+        new DescribeRepositoriesCommand({ repositoryNames: [repositoryName] })
+      );
+      const uri = response.repositories?.[0]?.repositoryUri;
+      if (uri === undefined) {
+        throw new ResourceNotFoundError('Repository', repositoryName);
+      }
+      return uri;
+    } catch (error) {
+      throw this.mapError(error, 'Repository', repositoryName);
+    }
+  }
+
+  /**
+   * List images, following pages until maxResults images are collected
+   */
+  async listImages(
+    repositoryName: string,
+    options: ImageListOptions = {}
+  ): Promise<ContainerImage[]> {
+    if (!repositoryName) {
+      throw new ValidationError('Repository name is required');
+    }
+
+    const images: ContainerImage[] = [];
+    let nextToken = options.nextToken;
+
+    try {
+      do {
+        const remaining =
+          options.maxResults !== undefined ? options.maxResults - images.length : undefined;
+        const response = await this.client.send(
+          new DescribeImagesCommand({
+            repositoryName,
+            maxResults: Math.min(remaining ?? DESCRIBE_PAGE_SIZE, DESCRIBE_PAGE_SIZE),
+            ...(nextToken !== undefined && { nextToken }),
+            ...(options.filter?.tagStatus !== undefined && {
+              filter: {
+                tagStatus: options.filter.tagStatus.toUpperCase() as 'TAGGED' | 'UNTAGGED' | 'ANY',
+              },
+            }),
+          })
+        );
+
+        for (const detail of response.imageDetails ?? []) {
+          images.push(this.mapToImage(detail, repositoryName));
+        }
+        nextToken = response.nextToken;
+      } while (
+        nextToken !== undefined &&
+        (options.maxResults === undefined || images.length < options.maxResults)
+      );
+    } catch (error) {
+      throw this.mapError(error, 'Repository', repositoryName);
+    }
+
+    return images;
+  }
+
+  async getImageByTag(repositoryName: string, imageTag: string): Promise<ContainerImageDetail> {
+    if (!repositoryName || !imageTag) {
+      throw new ValidationError('Repository name and image tag are required');
+    }
+
+    return this.describeImage(repositoryName, { imageTag }, `${repositoryName}:${imageTag}`);
+  }
+
+  async getImageByDigest(
+    repositoryName: string,
+    imageDigest: string
+  ): Promise<ContainerImageDetail> {
+    if (!repositoryName || !imageDigest) {
+      throw new ValidationError('Repository name and image digest are required');
+    }
+
+    return this.describeImage(repositoryName, { imageDigest }, `${repositoryName}@${imageDigest}`);
+  }
+
+  async imageExists(repositoryName: string, imageTag: string): Promise<boolean> {
+    try {
+      await this.getImageByTag(repositoryName, imageTag);
+      return true;
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async deleteImageByTag(repositoryName: string, imageTag: string): Promise<boolean> {
+    const result = await this.deleteImages(repositoryName, [imageTag]);
+    return this.singleDeleteResult(result);
+  }
+
+  async deleteImageByDigest(repositoryName: string, imageDigest: string): Promise<boolean> {
+    const result = await this.deleteImages(repositoryName, [imageDigest]);
+    return this.singleDeleteResult(result);
+  }
+
+  /**
+   * Delete images by tag or digest (identifiers starting with `sha256:`)
+   *
+   * Deleting by tag removes the tag; ECR removes the image once its last tag is gone.
+   */
+  async deleteImages(
+    repositoryName: string,
+    imageIdentifiers: string[]
+  ): Promise<BatchDeleteImagesResult> {
+    if (!repositoryName) {
+      throw new ValidationError('Repository name is required');
+    }
+
+    const result: BatchDeleteImagesResult = { successful: [], failed: [] };
+
+    for (let i = 0; i < imageIdentifiers.length; i += DELETE_BATCH_SIZE) {
+      const imageIds = imageIdentifiers
+        .slice(i, i + DELETE_BATCH_SIZE)
+        .map((identifier): ImageIdentifier =>
+          identifier.startsWith('sha256:') ? { imageDigest: identifier } : { imageTag: identifier }
+        );
+
+      try {
+        const response = await this.client.send(
+          new BatchDeleteImageCommand({ repositoryName, imageIds })
+        );
+
+        for (const imageId of response.imageIds ?? []) {
+          result.successful.push({
+            imageDigest: imageId.imageDigest ?? '',
+            ...(imageId.imageTag !== undefined && { imageTag: imageId.imageTag }),
+          });
+        }
+
+        for (const failure of response.failures ?? []) {
+          result.failed.push({
+            ...(failure.imageId?.imageDigest !== undefined && {
+              imageDigest: failure.imageId.imageDigest,
+            }),
+            ...(failure.imageId?.imageTag !== undefined && {
+              imageTag: failure.imageId.imageTag,
+            }),
+            code: failure.failureCode ?? 'DeleteFailed',
+            message: failure.failureReason ?? 'Image could not be deleted',
+          });
+        }
+      } catch (error) {
+        throw this.mapError(error, 'Repository', repositoryName);
+      }
+    }
+
+    return result;
+  }
+
+  private async describeImage(
+    repositoryName: string,
+    imageId: ImageIdentifier,
+    label: string
+  ): Promise<ContainerImageDetail> {
+    try {
+      const response = await this.client.send(
+        new DescribeImagesCommand({ repositoryName, imageIds: [imageId] })
+      );
+      const detail = response.imageDetails?.[0];
+      if (!detail) {
+        throw new ResourceNotFoundError('Image', label);
+      }
+
+      const image = this.mapToImageDetail(detail, repositoryName);
+
+      // Enhanced scanning does not include a findings summary in DescribeImages
+      if (
+        image.imageScanStatus?.status === ScanStatus.COMPLETE &&
+        image.imageScanFindings === undefined
+      ) {
+        const findings = await this.describeScanFindings(repositoryName, imageId);
+        if (findings !== undefined) {
+          image.imageScanFindings = findings;
+        }
+      }
+
+      return image;
+    } catch (error) {
+      if (getErrorName(error) === 'ImageNotFoundException') {
+        throw new ResourceNotFoundError('Image', label);
+      }
+      throw this.mapError(error, 'Repository', repositoryName);
+    }
+  }
+
+  private async describeScanFindings(
+    repositoryName: string,
+    imageId: ImageIdentifier
+  ): Promise<ImageScanFindings | undefined> {
+    try {
+      const response = await this.client.send(
+        new DescribeImageScanFindingsCommand({ repositoryName, imageId, maxResults: 1 })
+      );
+      const findings = response.imageScanFindings;
+      if (findings === undefined) {
+        return undefined;
+      }
+
+      return {
+        ...(findings.findingSeverityCounts !== undefined && {
+          findingSeverityCounts: this.toSeverityCounts(findings.findingSeverityCounts),
+        }),
+        ...(findings.imageScanCompletedAt !== undefined && {
+          imageScanCompletedAt: findings.imageScanCompletedAt,
+        }),
+        ...(findings.vulnerabilitySourceUpdatedAt !== undefined && {
+          vulnerabilitySourceUpdatedAt: findings.vulnerabilitySourceUpdatedAt,
+        }),
+      };
+    } catch (error) {
+      if (getErrorName(error) === 'ScanNotFoundException') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private mapToImage(detail: ImageDetail, repositoryName: string): ContainerImage {
+    return {
+      repositoryName: detail.repositoryName ?? repositoryName,
+      imageDigest: detail.imageDigest ?? '',
+      ...(detail.imageTags !== undefined && { imageTags: detail.imageTags }),
+      imageSizeInBytes: detail.imageSizeInBytes ?? 0,
+      imagePushedAt: detail.imagePushedAt ?? new Date(0),
+    };
+  }
+
+  private mapToImageDetail(detail: ImageDetail, repositoryName: string): ContainerImageDetail {
+    const summary = detail.imageScanFindingsSummary;
+
+    return {
+      ...this.mapToImage(detail, repositoryName),
+      ...(detail.registryId !== undefined && { registryId: detail.registryId }),
+      ...(detail.imageScanStatus?.status !== undefined && {
+        imageScanStatus: {
+          status: this.mapScanStatus(detail.imageScanStatus.status),
+          ...(detail.imageScanStatus.description !== undefined && {
+            description: detail.imageScanStatus.description,
+          }),
+        },
+      }),
+      ...(summary !== undefined && {
+        imageScanFindings: {
+          ...(summary.findingSeverityCounts !== undefined && {
+            findingSeverityCounts: this.toSeverityCounts(summary.findingSeverityCounts),
+          }),
+          ...(summary.imageScanCompletedAt !== undefined && {
+            imageScanCompletedAt: summary.imageScanCompletedAt,
+          }),
+          ...(summary.vulnerabilitySourceUpdatedAt !== undefined && {
+            vulnerabilitySourceUpdatedAt: summary.vulnerabilitySourceUpdatedAt,
+          }),
+        },
+      }),
+      ...(detail.imageManifestMediaType !== undefined && {
+        imageManifestMediaType: detail.imageManifestMediaType,
+      }),
+      ...(detail.artifactMediaType !== undefined && {
+        artifactMediaType: detail.artifactMediaType,
+      }),
+    };
+  }
+
+  private toSeverityCounts(counts: Partial<Record<string, number>>): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(counts).filter((entry): entry is [string, number] => entry[1] !== undefined)
+    );
+  }
+
+  private mapScanStatus(status: string): ScanStatus {
+    switch (status) {
+      case 'COMPLETE':
+      case 'ACTIVE':
+        return ScanStatus.COMPLETE;
+      case 'IN_PROGRESS':
+      case 'PENDING':
+        return ScanStatus.IN_PROGRESS;
+      case 'UNSUPPORTED_IMAGE':
+        return ScanStatus.UNSUPPORTED;
+      default:
+        return ScanStatus.FAILED;
+    }
+  }
+
+  private singleDeleteResult(result: BatchDeleteImagesResult): boolean {
+    if (result.successful.length > 0) {
+      return true;
+    }
+
+    const failure = result.failed[0];
+    if (failure === undefined || failure.code === 'ImageNotFound') {
+      return false;
+    }
+
+    throw new ValidationError(`Failed to delete image: ${failure.message}`, {
+      code: failure.code,
+    });
+  }
+
+  private mapError(error: unknown, resource: string, identifier: string): Error {
+    if (
+      error instanceof ResourceNotFoundError ||
+      error instanceof ValidationError ||
+      error instanceof ServiceUnavailableError
+    ) {
+      return error;
+    }
+
+    const errorName = getErrorName(error);
+    if (errorName === 'RepositoryNotFoundException') {
+      return new ResourceNotFoundError(resource, identifier);
+    }
+    if (errorName === 'InvalidParameterException') {
+      return new ValidationError(getErrorMessage(error));
+    }
+    return new ServiceUnavailableError(`ECR request failed: ${getErrorMessage(error)}`);
+  }
+}
@@ -14,6 +14,7 @@ import {
   DeleteMessageBatchCommand,
   ChangeMessageVisibilityCommand,
   GetQueueUrlCommand,
+  type MessageAttributeValue,
 } from '@aws-sdk/client-sqs';
 import type { QueueClient } from '../../../core/clients/QueueClient';
 import type { ReceivedMessage } from '../../../core/types/queue';
@@ -93,14 +94,7 @@ export class AwsQueueClient implements QueueClient {
         DelaySeconds: options?.delaySeconds,
         MessageGroupId: options?.messageGroupId,
         MessageDeduplicationId: options?.messageDeduplicationId,
-        MessageAttributes: options?.attributes
-          ? Object.fromEntries(
-              Object.entries(options.attributes).map(([key, value]) => [
-                key,
-                { DataType: 'String', StringValue: value },
-              ])
-            )
-          : undefined,
+        MessageAttributes: toMessageAttributes(options?.attributes),
       });
 
       const response = await this.sqsClient.send(command);
@@ -118,7 +112,11 @@ export class AwsQueueClient implements QueueClient {
     }
   }
 
-  async sendBatch(queueName: string, messages: unknown[]): Promise<BatchSendResult> {
+  async sendBatch(
+    queueName: string,
+    messages: unknown[],
+    options?: SendOptions[]
+  ): Promise<BatchSendResult> {
     if (!queueName) {
       throw new ValidationError('Queue name is required');
     }
@@ -129,6 +127,10 @@ export class AwsQueueClient implements QueueClient {
       const entries = messages.map((message, index) => ({
         Id: index.toString(),
         MessageBody: typeof message === 'string' ? message : JSON.stringify(message),
+        DelaySeconds: options?.[index]?.delaySeconds,
+        MessageGroupId: options?.[index]?.messageGroupId,
+        MessageDeduplicationId: options?.[index]?.messageDeduplicationId,
+        MessageAttributes: toMessageAttributes(options?.[index]?.attributes),
       }));
 
       const command = new SendMessageBatchCommand({
@@ -176,12 +178,7 @@ export class AwsQueueClient implements QueueClient {
       const response = await this.sqsClient.send(command);
 
       return (response.Messages ?? []).map((msg) => {
-        let body: string | object;
-        try {
-          body = JSON.parse(msg.Body ?? '{}') as object;
-        } catch {
-          body = msg.Body ?? '';
-        }
+        const body = parseBody(msg.Body ?? '');
 
         // Get system attributes for sentTimestamp and approximateReceiveCount
         const systemAttrs = msg.Attributes ?? {};
@@ -282,3 +279,29 @@ export class AwsQueueClient implements QueueClient {
     }
   }
 }
+
+/**
+ * Parse JSON object and array bodies; anything else, including JSON strings and numbers,
+ * is returned as the text that was sent
+ */
+function parseBody(text: string): string | object {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return typeof parsed === 'object' && parsed !== null ? parsed : text;
+  } catch {
+    return text;
+  }
+}
+
+function toMessageAttributes(
+  attributes?: Record<string, string>
+): Record<string, MessageAttributeValue> | undefined {
+  return attributes
+    ? Object.fromEntries(
+        Object.entries(attributes).map(([key, value]) => [
+          key,
+          { DataType: 'String', StringValue: value },
+        ])
+      )
+    : undefined;
+}
@@ -9,14 +9,28 @@ import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-sec
 import type { SecretsClient } from '../../../core/clients/SecretsClient';
 import type { SecretValue } from '../../../core/types/secret';
 import type { ProviderConfig } from '../../../core/types/common';
+import type { CacheReadOptions, CacheStats } from '../../../core/types/runtime';
 import {
   ResourceNotFoundError,
   ServiceUnavailableError,
   ValidationError,
 } from '../../../core/types/common';
+import {
+  createSecretCache,
+  emptyCacheStats,
+  getReadCacheOptions,
+  type TtlCache,
+} from '../../../utils/cache';
 
+/**
+ * Secrets client backed by Secrets Manager
+ *
+ * Reads are cached when `options.secretsCache` is set, either to `true` or to
+ * `{ ttlMs, maxSize, staleWhileRevalidateMs }`.
+ */
 export class AwsSecretsClient implements SecretsClient {
   private client: SecretsManagerClient;
+  private cache: TtlCache<SecretValue> | undefined;
 
   constructor(config: ProviderConfig) {
     const clientConfig: {
@@ -41,13 +55,64 @@ export class AwsSecretsClient implements SecretsClient {
     }
 
     this.client = new SecretsManagerClient(clientConfig);
+
+    const cacheOptions = getReadCacheOptions(config.options?.secretsCache, 'secretsCache');
+    if (cacheOptions !== undefined) {
+      this.cache = createSecretCache<SecretValue>(cacheOptions);
+    }
   }
 
-  async get(secretName: string, version?: string): Promise<SecretValue> {
+  async get(
+    secretName: string,
+    version?: string,
+    options: CacheReadOptions = {}
+  ): Promise<SecretValue> {
     if (!secretName) {
       throw new ValidationError('Secret name is required');
     }
 
+    if (this.cache === undefined) {
+      return this.fetchSecret(secretName, version);
+    }
+
+    const key = `${secretName}#${version ?? ''}`;
+    if (options.refresh === true) {
+      this.cache.delete(key);
+    }
+    return this.cache.getOrCompute(key, () => this.fetchSecret(secretName, version), options.ttlMs);
+  }
+
+  async getJson<T = unknown>(
+    secretName: string,
+    version?: string,
+    options?: CacheReadOptions
+  ): Promise<T> {
+    const value = await this.get(secretName, version, options);
+
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value) as T;
+      } catch {
+        throw new ValidationError(`Secret '${secretName}' is not valid JSON`);
+      }
+    }
+
+    return value as T;
+  }
+
+  getCacheStats(): CacheStats {
+    return this.cache?.stats ?? emptyCacheStats();
+  }
+
+  invalidateCache(secretName?: string): void {
+    if (secretName === undefined) {
+      this.cache?.clear();
+      return;
+    }
+    this.cache?.deleteWhere((key) => key.startsWith(`${secretName}#`));
+  }
+
+  private async fetchSecret(secretName: string, version?: string): Promise<SecretValue> {
     try {
       const command = new GetSecretValueCommand({
         SecretId: secretName,
@@ -78,18 +143,4 @@ export class AwsSecretsClient implements SecretsClient {
       throw new ServiceUnavailableError(`Failed to get secret: ${(error as Error).message}`);
     }
   }
-
-  async getJson<T = unknown>(secretName: string, version?: string): Promise<T> {
-    const value = await this.get(secretName, version);
-
-    if (typeof value === 'string') {
-      try {
-        return JSON.parse(value) as T;
-      } catch {
-        throw new ValidationError(`Secret '${secretName}' is not valid JSON`);
-      }
-    }
-
-    return value as T;
-  }
 }
@@ -13,3 +13,5 @@ export { AwsNotificationClient } from './AwsNotificationClient';
 export { AwsDocumentClient } from './AwsDocumentClient';
 export { AwsDataClient } from './AwsDataClient';
 export { AwsAuthClient } from './AwsAuthClient';
+export { AwsCacheClient } from './AwsCacheClient';
+export { AwsContainerRepoClient } from './AwsContainerRepoClient';
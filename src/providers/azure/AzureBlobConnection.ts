@@ -0,0 +1,399 @@
+/**
+ * Azure Blob Storage Connection
+ * Shared account access and blob mapping for the Azure object store service and client
+ *
+ * Buckets are blob containers and objects are block blobs. ObjectMetadata maps to the blob's
+ * HTTP headers, metadata and index tags.
+ */
+
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import {
+  AnonymousCredential,
+  BlobSASPermissions,
+  BlobServiceClient,
+  StorageSharedKeyCredential,
+  isRestError,
+  type BlobHTTPHeaders,
+  type BlobItem,
+  type BlockBlobClient,
+  type ContainerClient,
+} from '@azure/storage-blob';
+import type {
+  BucketOptions,
+  ObjectData,
+  ObjectInfo,
+  ObjectMetadata,
+} from '../../core/types/object';
+import type { ListOptions } from '../../core/types/runtime';
+import type { Logger } from '../../core/types/observability';
+import type { ProviderConfig } from '../../core/types/common';
+import {
+  AuthenticationError,
+  LCPlatformError,
+  ResourceNotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../core/types/common';
+import { getErrorMessage } from '../../utils/error';
+import { getLogger } from '../../utils/observability';
+import { getStorageAccount, validateStorageName } from './storageAccount';
+
+const DEFAULT_SIGNED_URL_EXPIRY_SECONDS = 3600;
+const UPLOAD_BUFFER_SIZE = 4 * 1024 * 1024;
+const UPLOAD_CONCURRENCY = 4;
+
+/**
+ * Blob properties shared by download and get-properties responses
+ */
+interface BlobResponseProperties {
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  metadata?: Record<string, string>;
+  tagCount?: number;
+}
+
+export class AzureBlobConnection {
+  private serviceClient: BlobServiceClient;
+  private logger: Logger;
+
+  constructor(config: ProviderConfig) {
+    this.serviceClient = createServiceClient(config);
+    this.logger = getLogger(config);
+  }
+
+  /**
+   * Create a container
+   *
+   * Blob Storage always encrypts data at rest. Versioning and lifecycle management are
+   * storage account settings, so those options are only reported as warnings.
+   */
+  async createContainer(name: string, options: BucketOptions = {}): Promise<void> {
+    validateStorageName(name, 'container');
+
+    try {
+      await this.container(name).create({
+        ...(options.publicRead === true && { access: 'blob' as const }),
+      });
+    } catch (error) {
+      throw toBlobError(error, 'create bucket', name);
+    }
+
+    if (options.versioning === true) {
+      this.logger.warn('Blob versioning must be enabled on the Azure storage account', {
+        bucket: name,
+      });
+    }
+    if (options.lifecycle !== undefined && options.lifecycle.length > 0) {
+      this.logger.warn('Blob lifecycle rules must be set on the Azure storage account', {
+        bucket: name,
+      });
+    }
+  }
+
+  async put(
+    bucket: string,
+    key: string,
+    data: Buffer | ReadableStream,
+    metadata?: ObjectMetadata
+  ): Promise<void> {
+    const blob = this.blob(bucket, key);
+    const options = {
+      blobHTTPHeaders: toHttpHeaders(metadata),
+      ...(metadata?.metadata !== undefined && { metadata: metadata.metadata }),
+      ...(metadata?.tags !== undefined && { tags: metadata.tags }),
+    };
+
+    try {
+      if (Buffer.isBuffer(data)) {
+        await blob.uploadData(data, options);
+      } else {
+        // Streams are uploaded in blocks rather than buffered in memory
+        await blob.uploadStream(
+          Readable.fromWeb(data as NodeReadableStream),
+          UPLOAD_BUFFER_SIZE,
+          UPLOAD_CONCURRENCY,
+          options
+        );
+      }
+    } catch (error) {
+      throw toBlobError(error, 'put object', bucket, key);
+    }
+  }
+
+  async get(bucket: string, key: string): Promise<ObjectData> {
+    const blob = this.blob(bucket, key);
+
+    try {
+      const response = await blob.download();
+      const data =
+        response.readableStreamBody !== undefined
+          ? await streamToBuffer(response.readableStreamBody)
+          : Buffer.alloc(0);
+      const metadata = await this.toObjectMetadata(blob, response);
+
+      return {
+        bucket,
+        key,
+        data,
+        size: response.contentLength ?? data.length,
+        etag: response.etag ?? '',
+        lastModified: response.lastModified ?? new Date(),
+        ...(response.contentType !== undefined && { contentType: response.contentType }),
+        ...(Object.keys(metadata).length > 0 && { metadata }),
+      };
+    } catch (error) {
+      throw toBlobError(error, 'get object', bucket, key);
+    }
+  }
+
+  async getMetadata(bucket: string, key: string): Promise<ObjectMetadata> {
+    const blob = this.blob(bucket, key);
+
+    try {
+      return await this.toObjectMetadata(blob, await blob.getProperties());
+    } catch (error) {
+      throw toBlobError(error, 'get metadata', bucket, key);
+    }
+  }
+
+  async exists(bucket: string, key: string): Promise<boolean> {
+    try {
+      return await this.blob(bucket, key).exists();
+    } catch (error) {
+      throw toBlobError(error, 'check object', bucket, key);
+    }
+  }
+
+  /**
+   * Delete a blob
+   *
+   * @param mustExist - Throw ResourceNotFoundError for a missing blob instead of ignoring it
+   */
+  async delete(bucket: string, key: string, mustExist: boolean): Promise<void> {
+    const blob = this.blob(bucket, key);
+
+    try {
+      if (mustExist) {
+        await blob.delete();
+      } else {
+        await blob.deleteIfExists();
+      }
+    } catch (error) {
+      throw toBlobError(error, 'delete object', bucket, key);
+    }
+  }
+
+  /**
+   * List one page of blobs
+   *
+   * With a delimiter, blobs below the next delimiter are grouped into prefixes and left out,
+   * as in S3.
+   */
+  async listPage(
+    bucket: string,
+    prefix?: string,
+    options: ListOptions = {}
+  ): Promise<ObjectInfo[]> {
+    const container = this.container(bucket);
+    const listOptions = { ...(prefix !== undefined && { prefix }) };
+    const pageSettings = {
+      ...(options.continuationToken !== undefined && {
+        continuationToken: options.continuationToken,
+      }),
+      ...(options.maxKeys !== undefined && { maxPageSize: options.maxKeys }),
+    };
+
+    try {
+      if (options.delimiter !== undefined && options.delimiter !== '') {
+        const pages = container
+          .listBlobsByHierarchy(options.delimiter, listOptions)
+          .byPage(pageSettings);
+        const page = await pages.next();
+        return page.done === true
+          ? []
+          : page.value.segment.blobItems.map((item) => toObjectInfo(bucket, item));
+      }
+
+      const pages = container.listBlobsFlat(listOptions).byPage(pageSettings);
+      const page = await pages.next();
+      return page.done === true
+        ? []
+        : page.value.segment.blobItems.map((item) => toObjectInfo(bucket, item));
+    } catch (error) {
+      throw toBlobError(error, 'list objects', bucket);
+    }
+  }
+
+  async listAll(bucket: string, prefix?: string): Promise<ObjectInfo[]> {
+    try {
+      const objects: ObjectInfo[] = [];
+      for await (const item of this.container(bucket).listBlobsFlat({
+        ...(prefix !== undefined && { prefix }),
+      })) {
+        objects.push(toObjectInfo(bucket, item));
+      }
+      return objects;
+    } catch (error) {
+      throw toBlobError(error, 'list objects', bucket);
+    }
+  }
+
+  /**
+   * Generate a SAS URL for reading ('get') or creating and writing ('put') a blob
+   *
+   * @throws ValidationError unless the account was configured with a shared key
+   */
+  async getSignedUrl(
+    bucket: string,
+    key: string,
+    operation: 'get' | 'put',
+    expiresIn: number = DEFAULT_SIGNED_URL_EXPIRY_SECONDS
+  ): Promise<string> {
+    const blob = this.blob(bucket, key);
+    if (!(blob.credential instanceof StorageSharedKeyCredential)) {
+      throw new ValidationError('Azure signed URLs require an account key or connection string');
+    }
+
+    try {
+      return await blob.generateSasUrl({
+        permissions: BlobSASPermissions.parse(operation === 'get' ? 'r' : 'cw'),
+        expiresOn: new Date(Date.now() + expiresIn * 1000),
+      });
+    } catch (error) {
+      throw toBlobError(error, 'generate signed URL', bucket, key);
+    }
+  }
+
+  /**
+   * Copy a blob within the storage account, waiting for the copy to finish
+   */
+  async copy(
+    sourceBucket: string,
+    sourceKey: string,
+    destinationBucket: string,
+    destinationKey: string
+  ): Promise<void> {
+    const source = this.blob(sourceBucket, sourceKey);
+
+    try {
+      const poller = await this.blob(destinationBucket, destinationKey).beginCopyFromURL(
+        source.url
+      );
+      await poller.pollUntilDone();
+    } catch (error) {
+      if (isRestError(error) && error.code === 'ContainerNotFound') {
+        throw new ResourceNotFoundError('Bucket', destinationBucket);
+      }
+      throw toBlobError(error, 'copy object', sourceBucket, sourceKey);
+    }
+  }
+
+  private async toObjectMetadata(
+    blob: BlockBlobClient,
+    properties: BlobResponseProperties
+  ): Promise<ObjectMetadata> {
+    const metadata: ObjectMetadata = {};
+    if (properties.contentType !== undefined) {
+      metadata.contentType = properties.contentType;
+    }
+    if (properties.cacheControl !== undefined) {
+      metadata.cacheControl = properties.cacheControl;
+    }
+    if (properties.contentDisposition !== undefined) {
+      metadata.contentDisposition = properties.contentDisposition;
+    }
+    if (properties.contentEncoding !== undefined) {
+      metadata.contentEncoding = properties.contentEncoding;
+    }
+    if (properties.metadata !== undefined && Object.keys(properties.metadata).length > 0) {
+      metadata.metadata = properties.metadata;
+    }
+    if (properties.tagCount !== undefined && properties.tagCount > 0) {
+      metadata.tags = (await blob.getTags()).tags;
+    }
+    return metadata;
+  }
+
+  private container(name: string): ContainerClient {
+    return this.serviceClient.getContainerClient(name);
+  }
+
+  private blob(bucket: string, key: string): BlockBlobClient {
+    return this.container(bucket).getBlockBlobClient(key);
+  }
+}
+
+function createServiceClient(config: ProviderConfig): BlobServiceClient {
+  const account = getStorageAccount(config, 'blob');
+  if ('connectionString' in account) {
+    return BlobServiceClient.fromConnectionString(account.connectionString);
+  }
+  const credential =
+    account.sharedKey !== undefined
+      ? new StorageSharedKeyCredential(account.sharedKey.accountName, account.sharedKey.accountKey)
+      : new AnonymousCredential();
+  return new BlobServiceClient(account.url, credential);
+}
+
+function toHttpHeaders(metadata?: ObjectMetadata): BlobHTTPHeaders {
+  return {
+    ...(metadata?.contentType !== undefined && { blobContentType: metadata.contentType }),
+    ...(metadata?.cacheControl !== undefined && { blobCacheControl: metadata.cacheControl }),
+    ...(metadata?.contentDisposition !== undefined && {
+      blobContentDisposition: metadata.contentDisposition,
+    }),
+    ...(metadata?.contentEncoding !== undefined && {
+      blobContentEncoding: metadata.contentEncoding,
+    }),
+  };
+}
+
+function toObjectInfo(bucket: string, item: BlobItem): ObjectInfo {
+  return {
+    bucket,
+    key: item.name,
+    size: item.properties.contentLength ?? 0,
+    lastModified: item.properties.lastModified,
+    etag: item.properties.etag ?? '',
+    ...(item.properties.contentType !== undefined && {
+      contentType: item.properties.contentType,
+    }),
+  };
+}
+
+async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function toBlobError(error: unknown, action: string, bucket: string, key?: string): Error {
+  if (error instanceof LCPlatformError) {
+    return error;
+  }
+  if (isRestError(error)) {
+    if (error.code === 'ContainerNotFound') {
+      return new ResourceNotFoundError('Bucket', bucket);
+    }
+    if (error.statusCode === 404) {
+      return key !== undefined
+        ? new ResourceNotFoundError('Object', `${bucket}/${key}`)
+        : new ResourceNotFoundError('Bucket', bucket);
+    }
+    if (error.code === 'ContainerAlreadyExists') {
+      return new ValidationError(`Bucket ${bucket} already exists`);
+    }
+    if (error.code === 'InvalidMetadata' || error.code === 'InvalidResourceName') {
+      return new ValidationError(`Failed to ${action}: ${error.message}`);
+    }
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      return new AuthenticationError(`Failed to ${action}: ${error.message}`);
+    }
+  }
+  return new ServiceUnavailableError(`Failed to ${action}: ${getErrorMessage(error)}`);
+}
@@ -0,0 +1,58 @@
+/**
+ * Azure ObjectStoreService Implementation
+ *
+ * Blob Storage-based object storage: buckets are containers and presigned URLs are SAS URLs.
+ * Implements FR-031 to FR-036.
+ */
+
+import type { ObjectStoreService } from '../../core/services/ObjectStoreService';
+import type {
+  BucketOptions,
+  ObjectData,
+  ObjectInfo,
+  ObjectLocation,
+  ObjectMetadata,
+} from '../../core/types/object';
+import type { ProviderConfig } from '../../core/types/common';
+import { AzureBlobConnection } from './AzureBlobConnection';
+
+export class AzureObjectStoreService implements ObjectStoreService {
+  private connection: AzureBlobConnection;
+
+  constructor(config: ProviderConfig) {
+    this.connection = new AzureBlobConnection(config);
+  }
+
+  async createBucket(name: string, options?: BucketOptions): Promise<void> {
+    await this.connection.createContainer(name, options);
+  }
+
+  async putObject(
+    bucket: string,
+    key: string,
+    data: Buffer | ReadableStream,
+    metadata?: ObjectMetadata
+  ): Promise<void> {
+    await this.connection.put(bucket, key, data, metadata);
+  }
+
+  async getObject(bucket: string, key: string): Promise<ObjectData> {
+    return this.connection.get(bucket, key);
+  }
+
+  async deleteObject(bucket: string, key: string): Promise<void> {
+    await this.connection.delete(bucket, key, true);
+  }
+
+  async listObjects(bucket: string, prefix?: string): Promise<ObjectInfo[]> {
+    return this.connection.listAll(bucket, prefix);
+  }
+
+  async generatePresignedUrl(bucket: string, key: string, expires?: number): Promise<string> {
+    return this.connection.getSignedUrl(bucket, key, 'get', expires);
+  }
+
+  async copyObject(source: ObjectLocation, destination: ObjectLocation): Promise<void> {
+    await this.connection.copy(source.bucket, source.key, destination.bucket, destination.key);
+  }
+}
@@ -0,0 +1,690 @@
+/**
+ * Azure Storage Queue Connection
+ * Shared account access, queue settings and message mapping for the Azure queue service and client
+ *
+ * Azure Storage Queues have no queue-level visibility timeout, retention, size limit or
+ * dead-letter queue, so the values from QueueOptions are stored as queue metadata and applied
+ * by this class on every send and receive.
+ */
+
+import {
+  AnonymousCredential,
+  QueueServiceClient,
+  StorageSharedKeyCredential,
+  isRestError,
+  type DequeuedMessageItem,
+  type QueueClient as StorageQueueClient,
+} from '@azure/storage-queue';
+import type {
+  Message,
+  QueueOptions,
+  QueueUpdateOptions,
+  ReceivedMessage,
+  RedriveParams,
+  RedriveResult,
+} from '../../core/types/queue';
+import type { Logger } from '../../core/types/observability';
+import type { ProviderConfig } from '../../core/types/common';
+import {
+  AuthenticationError,
+  LCPlatformError,
+  ResourceNotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../core/types/common';
+import { TtlCache } from '../../utils/cache';
+import { getErrorMessage } from '../../utils/error';
+import { getLogger } from '../../utils/observability';
+import { getStorageAccount, validateStorageName } from './storageAccount';
+
+/**
+ * Largest message Azure Storage Queues accept, in bytes
+ */
+export const MAX_AZURE_MESSAGE_SIZE = 65536;
+
+const MAX_RECEIVE_BATCH = 32;
+const MAX_WAIT_TIME_SECONDS = 20;
+const POLL_INTERVAL_MS = 1000;
+const DEFAULT_VISIBILITY_TIMEOUT = 30;
+// Same default as the Azure Functions queue trigger (maxDequeueCount)
+const DEFAULT_MAX_RECEIVE_COUNT = 5;
+const DEAD_LETTER_SUFFIX = '-poison';
+const MAX_VISIBILITY_TIMEOUT_MS = 7 * 24 * 60 * 60 * 1000;
+// Long enough to move a batch before skipped messages become visible again
+const REDRIVE_VISIBILITY_TIMEOUT = 60;
+
+const METADATA_KEYS = {
+  visibilityTimeout: 'lcp_visibility_timeout',
+  messageRetention: 'lcp_message_retention',
+  maxMessageSize: 'lcp_max_message_size',
+  deadLetterQueue: 'lcp_dead_letter_queue',
+  maxReceiveCount: 'lcp_max_receive_count',
+  created: 'lcp_created',
+} as const;
+
+/**
+ * QueueOptions as stored in queue metadata
+ */
+export interface AzureQueueSettings {
+  visibilityTimeout?: number;
+  messageRetention?: number;
+  maxMessageSize?: number;
+  deadLetterQueue?: string;
+  maxReceiveCount?: number;
+  created?: Date;
+}
+
+export interface AzureSendParams {
+  attributes?: Record<string, string>;
+  delaySeconds?: number;
+}
+
+export interface AzureReceiveParams {
+  maxMessages: number;
+  visibilityTimeout?: number;
+  waitTimeSeconds?: number;
+}
+
+interface MessageEnvelope {
+  lcpBody: string;
+  lcpAttributes: Record<string, string>;
+}
+
+export class AzureQueueConnection {
+  private serviceClient: QueueServiceClient;
+  private logger: Logger;
+  private settingsCache = new TtlCache<AzureQueueSettings>();
+  // updateMessage issues a new pop receipt, so handles given out by receive are mapped to it
+  private popReceipts = new TtlCache<string>({
+    maxSize: 10000,
+    ttlMs: MAX_VISIBILITY_TIMEOUT_MS,
+  });
+
+  constructor(config: ProviderConfig) {
+    this.serviceClient = createServiceClient(config);
+    this.logger = getLogger(config);
+  }
+
+  /**
+   * Resolve a queue URL or queue name to a queue name
+   */
+  queueName(queueUrlOrName: string): string {
+    if (!queueUrlOrName.includes('/')) {
+      return queueUrlOrName;
+    }
+    const path = new URL(queueUrlOrName).pathname.split('/').filter((part) => part !== '');
+    return path[path.length - 1] ?? queueUrlOrName;
+  }
+
+  queueUrl(queueName: string): string {
+    return this.queue(queueName).url;
+  }
+
+  async createQueue(name: string, options: QueueOptions = {}): Promise<void> {
+    validateStorageName(name, 'queue');
+    const settings = toQueueSettings(name, options, this.sharedDeadLetterQueue(options));
+    await this.ensureDeadLetterQueue(name, settings.deadLetterQueue);
+
+    try {
+      await this.queue(name).create({ metadata: toMetadata(settings) });
+      this.settingsCache.delete(name);
+    } catch (error) {
+      throw toQueueError(error, 'create queue', name);
+    }
+  }
+
+  /**
+   * Merge new settings into the queue metadata, creating the dead-letter queue if enabled
+   */
+  async updateQueue(name: string, options: QueueUpdateOptions): Promise<void> {
+    const { settings: current } = await this.getProperties(name);
+    const changes = toQueueSettings(name, options, this.sharedDeadLetterQueue(options));
+    delete changes.created;
+    await this.ensureDeadLetterQueue(name, changes.deadLetterQueue);
+
+    try {
+      await this.queue(name).setMetadata(toMetadata({ ...current, ...changes }));
+      this.settingsCache.delete(name);
+    } catch (error) {
+      throw toQueueError(error, 'update queue', name);
+    }
+  }
+
+  private sharedDeadLetterQueue(options: QueueUpdateOptions): string | undefined {
+    return options.deadLetterQueueUrl !== undefined
+      ? this.queueName(options.deadLetterQueueUrl)
+      : undefined;
+  }
+
+  /**
+   * Create the queue's own `-poison` queue, or check that a shared dead-letter queue exists
+   */
+  private async ensureDeadLetterQueue(name: string, deadLetterQueue?: string): Promise<void> {
+    if (deadLetterQueue === undefined) {
+      return;
+    }
+    if (deadLetterQueue !== `${name}${DEAD_LETTER_SUFFIX}`) {
+      await this.getProperties(deadLetterQueue);
+      return;
+    }
+
+    try {
+      await this.queue(deadLetterQueue).createIfNotExists();
+    } catch (error) {
+      throw toQueueError(error, 'create queue', deadLetterQueue);
+    }
+  }
+
+  async getProperties(
+    name: string
+  ): Promise<{ settings: AzureQueueSettings; messageCount: number }> {
+    try {
+      const response = await this.queue(name).getProperties();
+      const settings = fromMetadata(response.metadata);
+      this.settingsCache.set(name, settings);
+      return { settings, messageCount: response.approximateMessagesCount ?? 0 };
+    } catch (error) {
+      throw toQueueError(error, 'get queue', name);
+    }
+  }
+
+  /**
+   * Delete a queue and the `-poison` dead-letter queue created for it; shared
+   * dead-letter queues are left alone
+   */
+  async deleteQueue(name: string): Promise<void> {
+    const { deadLetterQueue } = await this.settings(name);
+    try {
+      await this.queue(name).delete();
+      this.settingsCache.delete(name);
+    } catch (error) {
+      throw toQueueError(error, 'delete queue', name);
+    }
+
+    if (deadLetterQueue === `${name}${DEAD_LETTER_SUFFIX}`) {
+      try {
+        await this.queue(deadLetterQueue).delete();
+        this.settingsCache.delete(deadLetterQueue);
+      } catch (error) {
+        const queueError = toQueueError(error, 'delete queue', deadLetterQueue);
+        // Already deleted on its own
+        if (!(queueError instanceof ResourceNotFoundError)) {
+          throw queueError;
+        }
+      }
+    }
+  }
+
+  async listQueues(): Promise<string[]> {
+    try {
+      const urls: string[] = [];
+      for await (const item of this.serviceClient.listQueues()) {
+        urls.push(this.queueUrl(item.name));
+      }
+      return urls;
+    } catch (error) {
+      throw new ServiceUnavailableError(`Failed to list queues: ${getErrorMessage(error)}`);
+    }
+  }
+
+  async clearMessages(name: string): Promise<void> {
+    try {
+      await this.queue(name).clearMessages();
+    } catch (error) {
+      throw toQueueError(error, 'purge queue', name);
+    }
+  }
+
+  /**
+   * Send a message, applying the queue's retention and size settings
+   *
+   * @returns The message ID
+   */
+  async send(name: string, body: unknown, params: AzureSendParams = {}): Promise<string> {
+    const settings = await this.settings(name);
+    const text = encodeMessage(body, params.attributes);
+    const maxSize = settings.maxMessageSize ?? MAX_AZURE_MESSAGE_SIZE;
+    if (Buffer.byteLength(text) > maxSize) {
+      throw new ValidationError(`Message exceeds the maximum size of ${maxSize} bytes`, {
+        queueName: name,
+      });
+    }
+
+    try {
+      const response = await this.queue(name).sendMessage(text, {
+        ...(params.delaySeconds !== undefined &&
+          params.delaySeconds > 0 && { visibilityTimeout: params.delaySeconds }),
+        ...(settings.messageRetention !== undefined && {
+          messageTimeToLive: settings.messageRetention,
+        }),
+      });
+      return response.messageId;
+    } catch (error) {
+      throw toQueueError(error, 'send message', name);
+    }
+  }
+
+  /**
+   * Receive messages, moving any that exceeded the queue's receive count to its dead-letter queue
+   *
+   * Azure has no long polling, so waitTimeSeconds polls about once a second until a message
+   * arrives or the wait time ends.
+   */
+  async receive(name: string, params: AzureReceiveParams): Promise<ReceivedMessage[]> {
+    const waitMs = Math.min(params.waitTimeSeconds ?? 0, MAX_WAIT_TIME_SECONDS) * 1000;
+    const deadline = Date.now() + waitMs;
+
+    for (;;) {
+      const messages = await this.receiveOnce(name, params);
+      const remainingMs = deadline - Date.now();
+      if (messages.length > 0 || remainingMs <= 0) {
+        return messages;
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(POLL_INTERVAL_MS, remainingMs)));
+    }
+  }
+
+  /**
+   * Delete a message by receipt handle
+   *
+   * A message that is already gone counts as deleted, matching SQS.
+   */
+  async deleteMessage(name: string, receiptHandle: string): Promise<void> {
+    const { messageId, popReceipt } = this.resolveReceiptHandle(receiptHandle);
+
+    try {
+      await this.queue(name).deleteMessage(messageId, popReceipt);
+    } catch (error) {
+      if (!isRestError(error) || error.code !== 'MessageNotFound') {
+        throw toQueueError(error, 'delete message', name);
+      }
+    }
+    this.popReceipts.delete(receiptHandle);
+  }
+
+  /**
+   * Change how long a received message stays invisible
+   *
+   * The receipt handle stays valid for later calls even though Azure issues a new pop receipt.
+   */
+  async changeVisibility(name: string, receiptHandle: string, timeout: number): Promise<void> {
+    const { messageId, popReceipt } = this.resolveReceiptHandle(receiptHandle);
+
+    try {
+      const response = await this.queue(name).updateMessage(
+        messageId,
+        popReceipt,
+        undefined,
+        timeout
+      );
+      if (response.popReceipt !== undefined) {
+        this.popReceipts.set(receiptHandle, response.popReceipt);
+      }
+    } catch (error) {
+      throw toQueueError(error, 'change visibility', name);
+    }
+  }
+
+  /**
+   * Name of the queue's dead-letter queue
+   *
+   * @throws ValidationError if the queue was created without enableDeadLetter
+   */
+  async deadLetterQueue(name: string): Promise<string> {
+    const { deadLetterQueue } = await this.settings(name);
+    if (deadLetterQueue === undefined) {
+      throw new ValidationError(`Queue ${name} has no dead-letter queue`);
+    }
+    return deadLetterQueue;
+  }
+
+  /**
+   * Read messages without changing their visibility or receive count
+   */
+  async peek(name: string, maxMessages: number): Promise<Message[]> {
+    try {
+      const response = await this.queue(name).peekMessages({
+        numberOfMessages: Math.min(Math.max(maxMessages, 1), MAX_RECEIVE_BATCH),
+      });
+      return response.peekedMessageItems.map((item) => ({
+        id: item.messageId,
+        ...decodeMessage(item.messageText),
+      }));
+    } catch (error) {
+      throw toQueueError(error, 'peek messages', name);
+    }
+  }
+
+  /**
+   * Move messages from a queue's dead-letter queue back to the queue
+   *
+   * Message text is copied unchanged; skipped messages are made visible again at the end.
+   */
+  async redrive(name: string, params: RedriveParams = {}): Promise<RedriveResult> {
+    const deadLetterQueueName = await this.deadLetterQueue(name);
+    const { messageRetention } = await this.settings(name);
+    const source = this.queue(name);
+    const deadLetterQueue = this.queue(deadLetterQueueName);
+    const limit = params.maxMessages ?? Number.POSITIVE_INFINITY;
+    const result: RedriveResult = { moved: 0, skipped: 0 };
+    const seen = new Set<string>();
+    const skipped: DequeuedMessageItem[] = [];
+
+    try {
+      while (result.moved < limit) {
+        const response = await deadLetterQueue.receiveMessages({
+          numberOfMessages: Math.min(limit - result.moved, MAX_RECEIVE_BATCH),
+          visibilityTimeout: REDRIVE_VISIBILITY_TIMEOUT,
+        });
+
+        let found = false;
+        for (const item of response.receivedMessageItems) {
+          if (seen.has(item.messageId)) {
+            skipped.push(item);
+            continue;
+          }
+          seen.add(item.messageId);
+          found = true;
+
+          if (
+            params.filter !== undefined &&
+            !params.filter({ id: item.messageId, ...decodeMessage(item.messageText) })
+          ) {
+            result.skipped++;
+            skipped.push(item);
+            continue;
+          }
+
+          await source.sendMessage(item.messageText, {
+            ...(messageRetention !== undefined && { messageTimeToLive: messageRetention }),
+          });
+          await deadLetterQueue.deleteMessage(item.messageId, item.popReceipt);
+          result.moved++;
+        }
+
+        if (!found) {
+          break;
+        }
+      }
+
+      for (const item of skipped) {
+        await deadLetterQueue.updateMessage(item.messageId, item.popReceipt, undefined, 0);
+      }
+    } catch (error) {
+      throw toQueueError(error, 'redrive messages', deadLetterQueueName);
+    }
+
+    return result;
+  }
+
+  private async receiveOnce(name: string, params: AzureReceiveParams): Promise<ReceivedMessage[]> {
+    const settings = await this.settings(name);
+    const queue = this.queue(name);
+
+    let items: DequeuedMessageItem[];
+    try {
+      const response = await queue.receiveMessages({
+        numberOfMessages: Math.min(Math.max(params.maxMessages, 1), MAX_RECEIVE_BATCH),
+        // Azure requires at least one second where SQS also accepts zero
+        visibilityTimeout: Math.max(
+          params.visibilityTimeout ?? settings.visibilityTimeout ?? DEFAULT_VISIBILITY_TIMEOUT,
+          1
+        ),
+      });
+      items = response.receivedMessageItems;
+    } catch (error) {
+      throw toQueueError(error, 'receive messages', name);
+    }
+
+    const messages: ReceivedMessage[] = [];
+    for (const item of items) {
+      if (
+        settings.deadLetterQueue !== undefined &&
+        settings.maxReceiveCount !== undefined &&
+        item.dequeueCount > settings.maxReceiveCount
+      ) {
+        await this.moveToDeadLetterQueue(queue, settings.deadLetterQueue, item);
+        continue;
+      }
+      messages.push(toReceivedMessage(item));
+    }
+    return messages;
+  }
+
+  // A failed move leaves the message invisible, so it is retried on a later receive
+  private async moveToDeadLetterQueue(
+    queue: StorageQueueClient,
+    deadLetterQueue: string,
+    item: DequeuedMessageItem
+  ): Promise<void> {
+    try {
+      await this.queue(deadLetterQueue).sendMessage(item.messageText);
+      await queue.deleteMessage(item.messageId, item.popReceipt);
+    } catch (error) {
+      this.logger.warn('Failed to move message to dead-letter queue', {
+        queue: queue.name,
+        deadLetterQueue,
+        messageId: item.messageId,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  private async settings(name: string): Promise<AzureQueueSettings> {
+    return this.settingsCache.getOrCompute(
+      name,
+      async () => (await this.getProperties(name)).settings
+    );
+  }
+
+  private resolveReceiptHandle(receiptHandle: string): { messageId: string; popReceipt: string } {
+    const decoded = decodeReceiptHandle(receiptHandle);
+    return {
+      messageId: decoded.messageId,
+      popReceipt: this.popReceipts.get(receiptHandle) ?? decoded.popReceipt,
+    };
+  }
+
+  private queue(name: string): StorageQueueClient {
+    return this.serviceClient.getQueueClient(name);
+  }
+}
+
+function createServiceClient(config: ProviderConfig): QueueServiceClient {
+  const account = getStorageAccount(config, 'queue');
+  if ('connectionString' in account) {
+    return QueueServiceClient.fromConnectionString(account.connectionString);
+  }
+  const credential =
+    account.sharedKey !== undefined
+      ? new StorageSharedKeyCredential(account.sharedKey.accountName, account.sharedKey.accountKey)
+      : new AnonymousCredential();
+  return new QueueServiceClient(account.url, credential);
+}
+
+/**
+ * Map queue options to the settings stored in queue metadata
+ *
+ * @param sharedDeadLetterQueue - Name of the existing queue given as deadLetterQueueUrl
+ */
+function toQueueSettings(
+  name: string,
+  options: QueueOptions,
+  sharedDeadLetterQueue?: string
+): AzureQueueSettings {
+  if (options.fifo === true) {
+    throw new ValidationError('Azure Storage Queues do not support FIFO queues');
+  }
+  if (
+    options.maxMessageSize !== undefined &&
+    (options.maxMessageSize < 1 || options.maxMessageSize > MAX_AZURE_MESSAGE_SIZE)
+  ) {
+    throw new ValidationError(
+      `maxMessageSize must be between 1 and ${MAX_AZURE_MESSAGE_SIZE} bytes for Azure queues`
+    );
+  }
+
+  const settings: AzureQueueSettings = {
+    created: new Date(),
+    ...(options.visibilityTimeout !== undefined && {
+      visibilityTimeout: options.visibilityTimeout,
+    }),
+    ...(options.messageRetention !== undefined && {
+      messageRetention: options.messageRetention,
+    }),
+    ...(options.maxMessageSize !== undefined && { maxMessageSize: options.maxMessageSize }),
+  };
+
+  if (sharedDeadLetterQueue !== undefined || options.enableDeadLetter === true) {
+    settings.deadLetterQueue = sharedDeadLetterQueue ?? `${name}${DEAD_LETTER_SUFFIX}`;
+    settings.maxReceiveCount = options.deadLetterAfterRetries ?? DEFAULT_MAX_RECEIVE_COUNT;
+    validateStorageName(settings.deadLetterQueue, 'queue');
+  }
+
+  return settings;
+}
+
+function toMetadata(settings: AzureQueueSettings): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (settings.visibilityTimeout !== undefined) {
+    metadata[METADATA_KEYS.visibilityTimeout] = String(settings.visibilityTimeout);
+  }
+  if (settings.messageRetention !== undefined) {
+    metadata[METADATA_KEYS.messageRetention] = String(settings.messageRetention);
+  }
+  if (settings.maxMessageSize !== undefined) {
+    metadata[METADATA_KEYS.maxMessageSize] = String(settings.maxMessageSize);
+  }
+  if (settings.deadLetterQueue !== undefined) {
+    metadata[METADATA_KEYS.deadLetterQueue] = settings.deadLetterQueue;
+  }
+  if (settings.maxReceiveCount !== undefined) {
+    metadata[METADATA_KEYS.maxReceiveCount] = String(settings.maxReceiveCount);
+  }
+  if (settings.created !== undefined) {
+    metadata[METADATA_KEYS.created] = settings.created.toISOString();
+  }
+  return metadata;
+}
+
+function fromMetadata(metadata: Record<string, string> = {}): AzureQueueSettings {
+  const number = (key: string): number | undefined => {
+    const value = metadata[key];
+    return value !== undefined && value !== '' ? parseInt(value, 10) : undefined;
+  };
+
+  const visibilityTimeout = number(METADATA_KEYS.visibilityTimeout);
+  const messageRetention = number(METADATA_KEYS.messageRetention);
+  const maxMessageSize = number(METADATA_KEYS.maxMessageSize);
+  const maxReceiveCount = number(METADATA_KEYS.maxReceiveCount);
+  const deadLetterQueue = metadata[METADATA_KEYS.deadLetterQueue];
+  const created = metadata[METADATA_KEYS.created];
+
+  return {
+    ...(visibilityTimeout !== undefined && { visibilityTimeout }),
+    ...(messageRetention !== undefined && { messageRetention }),
+    ...(maxMessageSize !== undefined && { maxMessageSize }),
+    ...(deadLetterQueue !== undefined && deadLetterQueue !== '' && { deadLetterQueue }),
+    ...(maxReceiveCount !== undefined && { maxReceiveCount }),
+    ...(created !== undefined && { created: new Date(created) }),
+  };
+}
+
+/**
+ * Receipt handles carry the message ID alongside the pop receipt, since Azure needs both
+ */
+function encodeReceiptHandle(messageId: string, popReceipt: string): string {
+  return `${messageId}:${popReceipt}`;
+}
+
+function decodeReceiptHandle(receiptHandle: string): { messageId: string; popReceipt: string } {
+  const separator = receiptHandle.indexOf(':');
+  if (separator <= 0 || separator === receiptHandle.length - 1) {
+    throw new ValidationError('Invalid receipt handle for an Azure queue message');
+  }
+  return {
+    messageId: receiptHandle.slice(0, separator),
+    popReceipt: receiptHandle.slice(separator + 1),
+  };
+}
+
+/**
+ * Messages with attributes are wrapped in an envelope, since Azure messages are text only
+ */
+function encodeMessage(body: unknown, attributes?: Record<string, string>): string {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  if (attributes === undefined || Object.keys(attributes).length === 0) {
+    return text;
+  }
+  const envelope: MessageEnvelope = { lcpBody: text, lcpAttributes: attributes };
+  return JSON.stringify(envelope);
+}
+
+function decodeMessage(text: string): {
+  body: string | object;
+  attributes: Record<string, string>;
+} {
+  const body = parseBody(text);
+  if (isEnvelope(body)) {
+    return { body: parseBody(body.lcpBody), attributes: body.lcpAttributes };
+  }
+  return { body, attributes: {} };
+}
+
+function parseBody(text: string): string | object {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return typeof parsed === 'object' && parsed !== null ? parsed : text;
+  } catch {
+    return text;
+  }
+}
+
+function isEnvelope(value: unknown): value is MessageEnvelope {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Partial<MessageEnvelope>;
+  return (
+    typeof candidate.lcpBody === 'string' &&
+    typeof candidate.lcpAttributes === 'object' &&
+    candidate.lcpAttributes !== null
+  );
+}
+
+function toReceivedMessage(item: DequeuedMessageItem): ReceivedMessage {
+  const { body, attributes } = decodeMessage(item.messageText);
+  return {
+    id: item.messageId,
+    receiptHandle: encodeReceiptHandle(item.messageId, item.popReceipt),
+    body,
+    attributes,
+    sentTimestamp: item.insertedOn,
+    approximateReceiveCount: item.dequeueCount,
+  };
+}
+
+function toQueueError(error: unknown, action: string, queueName: string): Error {
+  if (error instanceof LCPlatformError) {
+    return error;
+  }
+  if (isRestError(error)) {
+    if (error.statusCode === 404) {
+      return error.code === 'MessageNotFound'
+        ? new ResourceNotFoundError('Message', queueName)
+        : new ResourceNotFoundError('Queue', queueName);
+    }
+    if (error.code === 'QueueAlreadyExists') {
+      return new ValidationError(`Queue ${queueName} already exists with different options`);
+    }
+    if (error.code === 'PopReceiptMismatch') {
+      return new ValidationError(
+        'Receipt handle is no longer valid; the message was received again'
+      );
+    }
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      return new AuthenticationError(`Failed to ${action}: ${error.message}`);
+    }
+  }
+  return new ServiceUnavailableError(`Failed to ${action}: ${getErrorMessage(error)}`);
+}
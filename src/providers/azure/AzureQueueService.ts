@@ -0,0 +1,132 @@
+/**
+ * Azure Queue Service Implementation
+ * Uses Azure Storage Queues for message queuing
+ *
+ * Queues are identified by URL (as returned by createQueue and listQueues) or by name.
+ */
+
+import type { QueueService } from '../../core/services/QueueService';
+import type {
+  Message,
+  Queue,
+  QueueOptions,
+  QueueUpdateOptions,
+  SendMessageParams,
+  ReceiveMessageParams,
+  RedriveParams,
+  RedriveResult,
+} from '../../core/types/queue';
+import type { ProviderConfig } from '../../core/types/common';
+import { ValidationError } from '../../core/types/common';
+import { AzureQueueConnection } from './AzureQueueConnection';
+
+export class AzureQueueService implements QueueService {
+  private connection: AzureQueueConnection;
+
+  constructor(config: ProviderConfig) {
+    this.connection = new AzureQueueConnection(config);
+  }
+
+  async createQueue(name: string, options?: QueueOptions): Promise<Queue> {
+    await this.connection.createQueue(name, options);
+    return this.getQueue(name);
+  }
+
+  async getQueue(queueUrl: string): Promise<Queue> {
+    const name = this.connection.queueName(queueUrl);
+    const { settings, messageCount } = await this.connection.getProperties(name);
+
+    return {
+      name,
+      url: this.connection.queueUrl(name),
+      messageCount,
+      created: settings.created ?? new Date(),
+      fifo: false,
+      ...(settings.visibilityTimeout !== undefined && {
+        visibilityTimeout: settings.visibilityTimeout,
+      }),
+      ...(settings.messageRetention !== undefined && {
+        messageRetention: settings.messageRetention,
+      }),
+      ...(settings.deadLetterQueue !== undefined && {
+        deadLetterQueueUrl: this.connection.queueUrl(settings.deadLetterQueue),
+      }),
+      ...(settings.maxReceiveCount !== undefined && {
+        maxReceiveCount: settings.maxReceiveCount,
+      }),
+    };
+  }
+
+  async updateQueue(queueUrl: string, options: QueueUpdateOptions): Promise<Queue> {
+    await this.connection.updateQueue(this.connection.queueName(queueUrl), options);
+    return this.getQueue(queueUrl);
+  }
+
+  async deleteQueue(queueUrl: string): Promise<void> {
+    await this.connection.deleteQueue(this.connection.queueName(queueUrl));
+  }
+
+  async sendMessage(queueUrl: string, params: SendMessageParams): Promise<string> {
+    if (params.groupId !== undefined || params.deduplicationId !== undefined) {
+      throw new ValidationError('Azure Storage Queues do not support FIFO message groups');
+    }
+
+    return this.connection.send(this.connection.queueName(queueUrl), params.body, {
+      ...(params.attributes !== undefined && { attributes: params.attributes }),
+      ...(params.delaySeconds !== undefined && { delaySeconds: params.delaySeconds }),
+    });
+  }
+
+  async receiveMessages(queueUrl: string, params?: ReceiveMessageParams): Promise<Message[]> {
+    const messages = await this.connection.receive(this.connection.queueName(queueUrl), {
+      maxMessages: params?.maxMessages ?? 1,
+      ...(params?.visibilityTimeout !== undefined && {
+        visibilityTimeout: params.visibilityTimeout,
+      }),
+      ...(params?.waitTimeSeconds !== undefined && { waitTimeSeconds: params.waitTimeSeconds }),
+    });
+
+    return messages.map((msg) => ({
+      id: msg.id,
+      receiptHandle: msg.receiptHandle,
+      body: msg.body,
+      attributes: msg.attributes,
+    }));
+  }
+
+  async deleteMessage(queueUrl: string, receiptHandle: string): Promise<void> {
+    await this.connection.deleteMessage(this.connection.queueName(queueUrl), receiptHandle);
+  }
+
+  async listQueues(): Promise<string[]> {
+    return this.connection.listQueues();
+  }
+
+  async purgeQueue(queueUrl: string): Promise<void> {
+    await this.connection.clearMessages(this.connection.queueName(queueUrl));
+  }
+
+  /**
+   * Azure peeks return at most 32 messages
+   */
+  async peekDeadLetterMessages(queueUrl: string, maxMessages = 10): Promise<Message[]> {
+    const deadLetterQueue = await this.connection.deadLetterQueue(
+      this.connection.queueName(queueUrl)
+    );
+    return this.connection.peek(deadLetterQueue, maxMessages);
+  }
+
+  async redriveDeadLetterMessages(
+    queueUrl: string,
+    params?: RedriveParams
+  ): Promise<RedriveResult> {
+    return this.connection.redrive(this.connection.queueName(queueUrl), params);
+  }
+
+  async getDeadLetterQueueDepth(queueUrl: string): Promise<number> {
+    const deadLetterQueue = await this.connection.deadLetterQueue(
+      this.connection.queueName(queueUrl)
+    );
+    return (await this.connection.getProperties(deadLetterQueue)).messageCount;
+  }
+}
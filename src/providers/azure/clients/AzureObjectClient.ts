@@ -0,0 +1,95 @@
+/**
+ * Azure Object Client Implementation
+ * Uses Azure Blob Storage for object storage
+ *
+ * Constitution Principle I: Provider Independence
+ */
+
+import type { ObjectClient } from '../../../core/clients/ObjectClient';
+import type { ObjectData, ObjectMetadata, ObjectInfo } from '../../../core/types/object';
+import type { ListOptions } from '../../../core/types/runtime';
+import type { ProviderConfig } from '../../../core/types/common';
+import { ValidationError } from '../../../core/types/common';
+import { AzureBlobConnection } from '../AzureBlobConnection';
+
+export class AzureObjectClient implements ObjectClient {
+  private connection: AzureBlobConnection;
+
+  constructor(config: ProviderConfig) {
+    this.connection = new AzureBlobConnection(config);
+  }
+
+  async get(bucket: string, key: string): Promise<ObjectData> {
+    if (bucket === '' || key === '') {
+      throw new ValidationError('Bucket and key are required');
+    }
+
+    return this.connection.get(bucket, key);
+  }
+
+  async put(
+    bucket: string,
+    key: string,
+    data: Buffer | ReadableStream,
+    metadata?: ObjectMetadata
+  ): Promise<void> {
+    if (bucket === '' || key === '') {
+      throw new ValidationError('Bucket and key are required');
+    }
+
+    await this.connection.put(bucket, key, data, metadata);
+  }
+
+  async delete(bucket: string, key: string): Promise<void> {
+    if (bucket === '' || key === '') {
+      throw new ValidationError('Bucket and key are required');
+    }
+
+    await this.connection.delete(bucket, key, false);
+  }
+
+  async deleteBatch(bucket: string, keys: string[]): Promise<void> {
+    if (bucket === '') {
+      throw new ValidationError('Bucket is required');
+    }
+
+    await Promise.all(keys.map((key) => this.connection.delete(bucket, key, false)));
+  }
+
+  async list(bucket: string, prefix?: string, options?: ListOptions): Promise<ObjectInfo[]> {
+    if (bucket === '') {
+      throw new ValidationError('Bucket is required');
+    }
+
+    return this.connection.listPage(bucket, prefix, options);
+  }
+
+  async exists(bucket: string, key: string): Promise<boolean> {
+    if (bucket === '' || key === '') {
+      throw new ValidationError('Bucket and key are required');
+    }
+
+    return this.connection.exists(bucket, key);
+  }
+
+  async getMetadata(bucket: string, key: string): Promise<ObjectMetadata> {
+    if (bucket === '' || key === '') {
+      throw new ValidationError('Bucket and key are required');
+    }
+
+    return this.connection.getMetadata(bucket, key);
+  }
+
+  async getSignedUrl(
+    bucket: string,
+    key: string,
+    operation: 'get' | 'put',
+    expiresIn?: number
+  ): Promise<string> {
+    if (bucket === '' || key === '') {
+      throw new ValidationError('Bucket and key are required');
+    }
+
+    return this.connection.getSignedUrl(bucket, key, operation, expiresIn);
+  }
+}
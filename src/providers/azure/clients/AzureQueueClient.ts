@@ -0,0 +1,105 @@
+/**
+ * Azure Queue Client Implementation
+ * Uses Azure Storage Queues for message queuing
+ *
+ * Constitution Principle I: Provider Independence
+ */
+
+import type { QueueClient } from '../../../core/clients/QueueClient';
+import type { ReceivedMessage } from '../../../core/types/queue';
+import type { SendOptions, ReceiveOptions, BatchSendResult } from '../../../core/types/runtime';
+import type { ProviderConfig } from '../../../core/types/common';
+import { LCPlatformError, ValidationError } from '../../../core/types/common';
+import { getErrorMessage } from '../../../utils/error';
+import { AzureQueueConnection } from '../AzureQueueConnection';
+
+export class AzureQueueClient implements QueueClient {
+  private connection: AzureQueueConnection;
+
+  constructor(config: ProviderConfig) {
+    this.connection = new AzureQueueConnection(config);
+  }
+
+  async send(queueName: string, message: unknown, options?: SendOptions): Promise<string> {
+    if (queueName === '') {
+      throw new ValidationError('Queue name is required');
+    }
+    if (options?.messageGroupId !== undefined || options?.messageDeduplicationId !== undefined) {
+      throw new ValidationError('Azure Storage Queues do not support FIFO message groups');
+    }
+
+    return this.connection.send(queueName, message, {
+      ...(options?.attributes !== undefined && { attributes: options.attributes }),
+      ...(options?.delaySeconds !== undefined && { delaySeconds: options.delaySeconds }),
+    });
+  }
+
+  async sendBatch(
+    queueName: string,
+    messages: unknown[],
+    options?: SendOptions[]
+  ): Promise<BatchSendResult> {
+    if (queueName === '') {
+      throw new ValidationError('Queue name is required');
+    }
+
+    // Azure has no batch send, so messages are sent concurrently and reported individually
+    const results = await Promise.allSettled(
+      messages.map((message, index) => this.send(queueName, message, options?.[index]))
+    );
+
+    const batch: BatchSendResult = { successful: [], failed: [] };
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        batch.successful.push({ id: index.toString(), messageId: result.value });
+      } else {
+        batch.failed.push({
+          id: index.toString(),
+          code: result.reason instanceof LCPlatformError ? result.reason.code : 'Unknown',
+          message: getErrorMessage(result.reason),
+        });
+      }
+    });
+    return batch;
+  }
+
+  async receive(queueName: string, options?: ReceiveOptions): Promise<ReceivedMessage[]> {
+    if (queueName === '') {
+      throw new ValidationError('Queue name is required');
+    }
+
+    return this.connection.receive(queueName, {
+      maxMessages: options?.maxMessages ?? 10,
+      ...(options?.visibilityTimeout !== undefined && {
+        visibilityTimeout: options.visibilityTimeout,
+      }),
+      ...(options?.waitTimeSeconds !== undefined && { waitTimeSeconds: options.waitTimeSeconds }),
+    });
+  }
+
+  async acknowledge(queueName: string, receiptHandle: string): Promise<void> {
+    if (queueName === '' || receiptHandle === '') {
+      throw new ValidationError('Queue name and receipt handle are required');
+    }
+
+    await this.connection.deleteMessage(queueName, receiptHandle);
+  }
+
+  async acknowledgeBatch(queueName: string, receiptHandles: string[]): Promise<void> {
+    if (queueName === '') {
+      throw new ValidationError('Queue name is required');
+    }
+
+    await Promise.all(
+      receiptHandles.map((handle) => this.connection.deleteMessage(queueName, handle))
+    );
+  }
+
+  async changeVisibility(queueName: string, receiptHandle: string, timeout: number): Promise<void> {
+    if (queueName === '' || receiptHandle === '') {
+      throw new ValidationError('Queue name and receipt handle are required');
+    }
+
+    await this.connection.changeVisibility(queueName, receiptHandle, timeout);
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Azure Client Implementations
+ *
+ * Data Plane clients using Azure services.
+ */
+
+export { AzureQueueClient } from './AzureQueueClient';
+export { AzureObjectClient } from './AzureObjectClient';
@@ -0,0 +1,77 @@
+/**
+ * Azure Storage Account Resolution
+ * Shared by the Azure Storage Queue and Blob Storage providers
+ */
+
+import type { ProviderConfig } from '../../core/types/common';
+import { ValidationError } from '../../core/types/common';
+
+/**
+ * Where and how to connect to a storage account
+ *
+ * Either a connection string, or an account URL with an optional shared key.
+ */
+export type StorageAccount =
+  | { connectionString: string }
+  | { url: string; sharedKey?: { accountName: string; accountKey: string } };
+
+// 3-63 characters: lowercase letters, digits and single dashes, starting and ending alphanumeric
+const STORAGE_NAME_PATTERN = /^[a-z0-9](?:[a-z0-9]|-(?=[a-z0-9])){2,62}$/;
+
+/**
+ * Resolve the storage account from a provider configuration
+ *
+ * Uses `options.connectionString` when set (e.g. `UseDevelopmentStorage=true` for Azurite).
+ * Otherwise the account URL is `endpoint`, or is derived from `options.accountName` or the
+ * credentials' access key ID, and the credentials are used as the account name and key.
+ *
+ * @throws ValidationError if no account is configured
+ */
+export function getStorageAccount(
+  config: ProviderConfig,
+  service: 'blob' | 'queue'
+): StorageAccount {
+  const connectionString = config.options?.connectionString;
+  if (connectionString !== undefined) {
+    if (typeof connectionString !== 'string' || connectionString === '') {
+      throw new ValidationError('options.connectionString must be a non-empty string');
+    }
+    return { connectionString };
+  }
+
+  const accountOption = config.options?.accountName ?? config.credentials?.accessKeyId;
+  if (accountOption !== undefined && typeof accountOption !== 'string') {
+    throw new ValidationError('options.accountName must be a string');
+  }
+  const accountName = accountOption !== '' ? accountOption : undefined;
+
+  const url =
+    config.endpoint ??
+    (accountName !== undefined ? `https://${accountName}.${service}.core.windows.net` : undefined);
+  if (url === undefined) {
+    throw new ValidationError(
+      `Azure ${service} storage requires options.connectionString, options.accountName or an endpoint`
+    );
+  }
+
+  const accountKey = config.credentials?.secretAccessKey;
+  if (accountName !== undefined && accountKey !== undefined && accountKey !== '') {
+    return { url, sharedKey: { accountName, accountKey } };
+  }
+  return { url };
+}
+
+/**
+ * Check a container or queue name against the Azure Storage naming rules
+ *
+ * @throws ValidationError if the name is invalid
+ */
+export function validateStorageName(name: string, resource: string): void {
+  if (!STORAGE_NAME_PATTERN.test(name)) {
+    throw new ValidationError(
+      `Azure ${resource} names must be 3-63 lowercase letters, digits or single dashes, ` +
+        'starting and ending with a letter or digit',
+      { name }
+    );
+  }
+}
@@ -8,11 +8,14 @@ import type {
   Message,
   Queue,
   QueueOptions,
+  QueueUpdateOptions,
   SendMessageParams,
   ReceiveMessageParams,
   ReceivedMessage,
+  RedriveParams,
+  RedriveResult,
 } from '../../core/types/queue';
-import { ResourceNotFoundError } from '../../core/types/common';
+import { ResourceNotFoundError, ValidationError } from '../../core/types/common';
 import { randomBytes } from 'crypto';
 
 interface QueueData {
@@ -22,6 +25,10 @@ interface QueueData {
   options: QueueOptions;
 }
 
+// Receive count after which messages move to the dead-letter queue, as in the Azure provider
+const DEFAULT_MAX_RECEIVE_COUNT = 5;
+const DEAD_LETTER_SUFFIX = '-dlq';
+
 export class MockQueueService implements QueueService {
   private queues = new Map<string, QueueData>();
   private messageCounter = 1;
@@ -40,6 +47,13 @@ export class MockQueueService implements QueueService {
       created: new Date(),
     };
 
+    if (options?.deadLetterQueueUrl !== undefined) {
+      queue.deadLetterQueueUrl = this.getSharedDeadLetterQueueUrl(options.deadLetterQueueUrl);
+    } else if (options?.enableDeadLetter === true) {
+      const deadLetterQueue = await this.createQueue(`${name}${DEAD_LETTER_SUFFIX}`);
+      queue.deadLetterQueueUrl = deadLetterQueue.url;
+    }
+
     this.queues.set(url, {
       queue,
       messages: [],
@@ -59,15 +73,53 @@ export class MockQueueService implements QueueService {
     return {
       ...queueData.queue,
       messageCount: queueData.messages.filter((m) => queueData.visibleMessages.has(m.id)).length,
+      fifo: queueData.options.fifo ?? false,
+      ...(queueData.options.visibilityTimeout !== undefined && {
+        visibilityTimeout: queueData.options.visibilityTimeout,
+      }),
+      ...(queueData.options.messageRetention !== undefined && {
+        messageRetention: queueData.options.messageRetention,
+      }),
+      ...(queueData.queue.deadLetterQueueUrl !== undefined && {
+        maxReceiveCount: queueData.options.deadLetterAfterRetries ?? DEFAULT_MAX_RECEIVE_COUNT,
+      }),
     };
   }
 
+  async updateQueue(queueUrl: string, options: QueueUpdateOptions): Promise<Queue> {
+    const queueData = this.queues.get(queueUrl);
+    if (!queueData) {
+      throw new ResourceNotFoundError('Queue', queueUrl);
+    }
+
+    if (options.deadLetterQueueUrl !== undefined) {
+      queueData.queue.deadLetterQueueUrl = this.getSharedDeadLetterQueueUrl(
+        options.deadLetterQueueUrl
+      );
+    } else if (
+      options.enableDeadLetter === true &&
+      queueData.queue.deadLetterQueueUrl === undefined
+    ) {
+      const deadLetterQueue = await this.createQueue(
+        `${queueData.queue.name}${DEAD_LETTER_SUFFIX}`
+      );
+      queueData.queue.deadLetterQueueUrl = deadLetterQueue.url;
+    }
+    queueData.options = { ...queueData.options, ...options };
+
+    return this.getQueue(queueUrl);
+  }
+
   async deleteQueue(queueUrl: string): Promise<void> {
-    const exists = this.queues.has(queueUrl);
-    if (!exists) {
+    const queueData = this.queues.get(queueUrl);
+    if (!queueData) {
       throw new ResourceNotFoundError('Queue', queueUrl);
     }
     this.queues.delete(queueUrl);
+    // Like AWS and Azure, the dead-letter queue created for it goes with its source queue
+    if (queueData.queue.deadLetterQueueUrl === `${queueUrl}${DEAD_LETTER_SUFFIX}`) {
+      this.queues.delete(queueData.queue.deadLetterQueueUrl);
+    }
   }
 
   async sendMessage(queueUrl: string, params: SendMessageParams): Promise<string> {
@@ -112,10 +164,22 @@ export class MockQueueService implements QueueService {
     const maxMessages = params?.maxMessages ?? 1;
     const visibilityTimeout = params?.visibilityTimeout ?? 30;
 
-    // Get visible messages
+    // Get visible messages, moving any received too often to the dead-letter queue like SQS redrive
     const availableMessages = queueData.messages.filter((m) => queueData.visibleMessages.has(m.id));
+    const deadLetterQueue = this.findDeadLetterQueue(queueData);
+    const maxReceiveCount = queueData.options.deadLetterAfterRetries ?? DEFAULT_MAX_RECEIVE_COUNT;
 
-    const messagesToReturn = availableMessages.slice(0, maxMessages);
+    const messagesToReturn: ReceivedMessage[] = [];
+    for (const msg of availableMessages) {
+      if (messagesToReturn.length >= maxMessages) {
+        break;
+      }
+      if (deadLetterQueue !== undefined && msg.approximateReceiveCount >= maxReceiveCount) {
+        this.moveMessage(queueData, deadLetterQueue, msg);
+        continue;
+      }
+      messagesToReturn.push(msg);
+    }
 
     // Make messages temporarily invisible
     messagesToReturn.forEach((msg) => {
@@ -129,6 +193,8 @@ export class MockQueueService implements QueueService {
     });
 
     return messagesToReturn.map((msg) => ({
+      id: msg.id,
+      receiptHandle: msg.receiptHandle,
       body: msg.body,
       attributes: msg.attributes,
     }));
@@ -163,4 +229,91 @@ export class MockQueueService implements QueueService {
     queueData.messages = [];
     queueData.visibleMessages.clear();
   }
+
+  async peekDeadLetterMessages(queueUrl: string, maxMessages = 10): Promise<Message[]> {
+    const deadLetterQueue = this.getDeadLetterQueue(queueUrl);
+
+    return deadLetterQueue.messages.slice(0, maxMessages).map((msg) => ({
+      id: msg.id,
+      body: msg.body,
+      attributes: msg.attributes,
+    }));
+  }
+
+  async redriveDeadLetterMessages(
+    queueUrl: string,
+    params?: RedriveParams
+  ): Promise<RedriveResult> {
+    const deadLetterQueue = this.getDeadLetterQueue(queueUrl);
+    const queueData = this.queues.get(queueUrl);
+    if (!queueData) {
+      throw new ResourceNotFoundError('Queue', queueUrl);
+    }
+
+    const result: RedriveResult = { moved: 0, skipped: 0 };
+    const candidates = deadLetterQueue.messages.filter((m) =>
+      deadLetterQueue.visibleMessages.has(m.id)
+    );
+    for (const msg of candidates) {
+      if (params?.maxMessages !== undefined && result.moved >= params.maxMessages) {
+        break;
+      }
+      if (
+        params?.filter !== undefined &&
+        !params.filter({ id: msg.id, body: msg.body, attributes: msg.attributes })
+      ) {
+        result.skipped++;
+        continue;
+      }
+      this.moveMessage(deadLetterQueue, queueData, msg);
+      result.moved++;
+    }
+
+    return result;
+  }
+
+  async getDeadLetterQueueDepth(queueUrl: string): Promise<number> {
+    return this.getDeadLetterQueue(queueUrl).messages.length;
+  }
+
+  private getDeadLetterQueue(queueUrl: string): QueueData {
+    const queueData = this.queues.get(queueUrl);
+    if (!queueData) {
+      throw new ResourceNotFoundError('Queue', queueUrl);
+    }
+
+    const deadLetterQueue = this.findDeadLetterQueue(queueData);
+    if (deadLetterQueue === undefined) {
+      throw new ValidationError(`Queue ${queueData.queue.name} has no dead-letter queue`);
+    }
+    return deadLetterQueue;
+  }
+
+  private findDeadLetterQueue(queueData: QueueData): QueueData | undefined {
+    const url = queueData.queue.deadLetterQueueUrl;
+    return url !== undefined ? this.queues.get(url) : undefined;
+  }
+
+  /**
+   * Check that an existing queue given as deadLetterQueueUrl exists
+   */
+  private getSharedDeadLetterQueueUrl(queueUrl: string): string {
+    if (!this.queues.has(queueUrl)) {
+      throw new ResourceNotFoundError('Queue', queueUrl);
+    }
+    return queueUrl;
+  }
+
+  // Moved messages start over with a new receipt handle and no receives
+  private moveMessage(from: QueueData, to: QueueData, message: ReceivedMessage): void {
+    from.messages = from.messages.filter((m) => m !== message);
+    from.visibleMessages.delete(message.id);
+
+    to.messages.push({
+      ...message,
+      receiptHandle: randomBytes(16).toString('hex'),
+      approximateReceiveCount: 0,
+    });
+    to.visibleMessages.add(message.id);
+  }
 }
@@ -8,26 +8,49 @@
  */
 
 import type { ConfigClient } from '../../../core/clients/ConfigClient';
-import type { ConfigurationData } from '../../../core/types/configuration';
+import type {
+  ConfigChangeListener,
+  ConfigSubscription,
+  ConfigurationData,
+  ConfigWatchOptions,
+  FeatureFlagContext,
+} from '../../../core/types/configuration';
+import type { CacheStats } from '../../../core/types/runtime';
 import { ResourceNotFoundError, ValidationError } from '../../../core/types/common';
+import { emptyCacheStats } from '../../../utils/cache';
+import { createChangeEvent, getConfigValue, notifyListener } from '../../../utils/configWatch';
+import { evaluateFeatureFlag } from '../../../utils/featureFlags';
 
 interface StoredConfig {
   data: ConfigurationData;
   environments: Map<string, ConfigurationData>;
 }
 
+interface Watcher {
+  configName: string;
+  environment: string | undefined;
+  current: ConfigurationData;
+  listener: ConfigChangeListener;
+  onError: ((error: Error) => void) | undefined;
+}
+
 export class MockConfigClient implements ConfigClient {
   private configs = new Map<string, StoredConfig>();
+  private watchers = new Set<Watcher>();
 
   /**
-   * Reset all mock data
+   * Reset all mock data and watches
    */
   reset(): void {
     this.configs.clear();
+    this.watchers.clear();
   }
 
   /**
-   * Pre-create a configuration for testing
+   * Create or replace a configuration for testing
+   *
+   * Watchers of the configuration are notified immediately, so tests can push
+   * changes without waiting for a poll.
    */
   setConfig(configName: string, data: ConfigurationData, environment?: string): void {
     let config = this.configs.get(configName);
@@ -41,6 +64,16 @@ export class MockConfigClient implements ConfigClient {
     } else {
       config.data = data;
     }
+
+    for (const watcher of this.watchers) {
+      if (watcher.configName === configName && watcher.environment === environment) {
+        const event = createChangeEvent(configName, environment, watcher.current, { ...data });
+        if (event !== undefined) {
+          watcher.current = event.current;
+          notifyListener(watcher.listener, event, watcher.onError);
+        }
+      }
+    }
   }
 
   async get(configName: string, environment?: string): Promise<ConfigurationData> {
@@ -148,4 +181,55 @@ export class MockConfigClient implements ConfigClient {
       throw error;
     }
   }
+
+  async getFeatureFlag(
+    configName: string,
+    flagName: string,
+    context?: FeatureFlagContext,
+    defaultValue?: boolean
+  ): Promise<boolean> {
+    if (!flagName) {
+      throw new ValidationError('Feature flag name is required');
+    }
+
+    try {
+      const data = await this.get(configName);
+      return evaluateFeatureFlag(flagName, getConfigValue(data, flagName), context, defaultValue);
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError && defaultValue !== undefined) {
+        return defaultValue;
+      }
+      throw error;
+    }
+  }
+
+  async watch<T extends ConfigurationData = ConfigurationData>(
+    configName: string,
+    listener: ConfigChangeListener<T>,
+    options: ConfigWatchOptions = {}
+  ): Promise<ConfigSubscription> {
+    const watcher: Watcher = {
+      configName,
+      environment: options.environment,
+      current: await this.get(configName, options.environment),
+      listener: listener as ConfigChangeListener,
+      onError: options.onError,
+    };
+    this.watchers.add(watcher);
+
+    return {
+      configName,
+      unsubscribe: (): void => {
+        this.watchers.delete(watcher);
+      },
+    };
+  }
+
+  getCacheStats(): CacheStats {
+    return emptyCacheStats();
+  }
+
+  invalidateCache(_configName?: string): void {
+    // Reads are served from memory; there is no cache to invalidate
+  }
 }
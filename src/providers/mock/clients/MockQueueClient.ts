@@ -8,10 +8,10 @@
  */
 
 import type { QueueClient } from '../../../core/clients/QueueClient';
-import type { ReceivedMessage } from '../../../core/types/queue';
+import type { QueueOptions, ReceivedMessage } from '../../../core/types/queue';
 import type { SendOptions, ReceiveOptions, BatchSendResult } from '../../../core/types/runtime';
 import { ValidationError } from '../../../core/types/common';
-import { randomBytes } from 'crypto';
+import { createHash, randomBytes } from 'crypto';
 
 interface StoredMessage {
   id: string;
@@ -22,10 +22,23 @@ interface StoredMessage {
   approximateReceiveCount: number;
   visible: boolean;
   visibleAt?: Date;
+  groupId?: string;
 }
 
+interface DeduplicationEntry {
+  messageId: string;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_RECEIVE_COUNT = 5;
+const DEAD_LETTER_SUFFIX = '-dlq';
+// SQS FIFO queues drop repeated deduplication IDs for five minutes
+const DEDUPLICATION_WINDOW_MS = 5 * 60 * 1000;
+
 export class MockQueueClient implements QueueClient {
   private queues = new Map<string, StoredMessage[]>();
+  private queueOptions = new Map<string, QueueOptions>();
+  private deduplication = new Map<string, Map<string, DeduplicationEntry>>();
   private messageCounter = 1;
 
   /**
@@ -33,16 +46,34 @@ export class MockQueueClient implements QueueClient {
    */
   reset(): void {
     this.queues.clear();
+    this.queueOptions.clear();
+    this.deduplication.clear();
     this.messageCounter = 1;
   }
 
   /**
    * Pre-create a queue for testing
+   *
+   * With `enableDeadLetter`, messages received more than `deadLetterAfterRetries` times
+   * (default 5) move to a `<queueName>-dlq` queue, like an SQS redrive policy.
+   *
+   * Queues created with `fifo` (or named `*.fifo`) behave like SQS FIFO queues: messages need
+   * a `messageGroupId`, are delivered in order within their group, a group is blocked while one
+   * of its messages is in flight, and repeated deduplication IDs are dropped for five minutes.
    */
-  createTestQueue(queueName: string): void {
+  createTestQueue(queueName: string, options?: QueueOptions): void {
     if (!this.queues.has(queueName)) {
       this.queues.set(queueName, []);
     }
+    if (options !== undefined) {
+      this.queueOptions.set(queueName, options);
+      if (options.enableDeadLetter === true) {
+        this.createTestQueue(
+          `${queueName}${DEAD_LETTER_SUFFIX}`,
+          this.isFifo(queueName) ? { fifo: true, contentBasedDeduplication: true } : undefined
+        );
+      }
+    }
   }
 
   private getOrCreateQueue(queueName: string): StoredMessage[] {
@@ -59,6 +90,25 @@ export class MockQueueClient implements QueueClient {
       throw new ValidationError('Queue name is required');
     }
 
+    const fifo = this.isFifo(queueName);
+    let groupId: string | undefined;
+    let deduplicationId: string | undefined;
+    if (fifo) {
+      groupId = options?.messageGroupId;
+      if (groupId === undefined || groupId === '') {
+        throw new ValidationError('messageGroupId is required for FIFO queues');
+      }
+      if ((options?.delaySeconds ?? 0) > 0) {
+        throw new ValidationError('FIFO queues do not support per-message delays');
+      }
+      deduplicationId =
+        options?.messageDeduplicationId ?? this.contentDeduplicationId(queueName, message);
+      const duplicateId = this.findDuplicate(queueName, deduplicationId);
+      if (duplicateId !== undefined) {
+        return duplicateId;
+      }
+    }
+
     const queue = this.getOrCreateQueue(queueName);
     const messageId = `mock-msg-${this.messageCounter++}`;
     const receiptHandle = randomBytes(16).toString('hex');
@@ -71,6 +121,7 @@ export class MockQueueClient implements QueueClient {
       sentTimestamp: new Date(),
       approximateReceiveCount: 0,
       visible: true,
+      ...(groupId !== undefined && { groupId }),
     };
 
     // Handle delay
@@ -81,10 +132,20 @@ export class MockQueueClient implements QueueClient {
     }
 
     queue.push(storedMessage);
+    if (deduplicationId !== undefined) {
+      this.getDeduplicationIds(queueName).set(deduplicationId, {
+        messageId,
+        expiresAt: Date.now() + DEDUPLICATION_WINDOW_MS,
+      });
+    }
     return messageId;
   }
 
-  async sendBatch(queueName: string, messages: unknown[]): Promise<BatchSendResult> {
+  async sendBatch(
+    queueName: string,
+    messages: unknown[],
+    options?: SendOptions[]
+  ): Promise<BatchSendResult> {
     if (!queueName) {
       throw new ValidationError('Queue name is required');
     }
@@ -96,7 +157,7 @@ export class MockQueueClient implements QueueClient {
 
     for (let i = 0; i < messages.length; i++) {
       try {
-        const messageId = await this.send(queueName, messages[i]);
+        const messageId = await this.send(queueName, messages[i], options?.[i]);
         result.successful.push({ id: String(i), messageId });
       } catch (error) {
         result.failed.push({
@@ -132,9 +193,30 @@ export class MockQueueClient implements QueueClient {
       }
     });
 
-    // Get visible messages
-    const visibleMessages = queue.filter((m) => m.visible);
-    const messagesToReturn = visibleMessages.slice(0, maxMessages);
+    // Get visible messages, moving any received too often to the dead-letter queue
+    const queueOptions = this.queueOptions.get(queueName);
+    const maxReceiveCount =
+      queueOptions?.enableDeadLetter === true
+        ? (queueOptions.deadLetterAfterRetries ?? DEFAULT_MAX_RECEIVE_COUNT)
+        : undefined;
+    // FIFO groups with a message in flight are skipped to keep each group in order
+    const blockedGroups = new Set(
+      queue.filter((m) => !m.visible && m.groupId !== undefined).map((m) => m.groupId)
+    );
+    const messagesToReturn: StoredMessage[] = [];
+    for (const msg of queue.filter((m) => m.visible)) {
+      if (messagesToReturn.length >= maxMessages) {
+        break;
+      }
+      if (msg.groupId !== undefined && blockedGroups.has(msg.groupId)) {
+        continue;
+      }
+      if (maxReceiveCount !== undefined && msg.approximateReceiveCount >= maxReceiveCount) {
+        this.moveToDeadLetterQueue(queueName, msg);
+        continue;
+      }
+      messagesToReturn.push(msg);
+    }
 
     // Make messages temporarily invisible
     messagesToReturn.forEach((msg) => {
@@ -154,6 +236,51 @@ export class MockQueueClient implements QueueClient {
     }));
   }
 
+  private isFifo(queueName: string): boolean {
+    return this.queueOptions.get(queueName)?.fifo === true || queueName.endsWith('.fifo');
+  }
+
+  private contentDeduplicationId(queueName: string, message: unknown): string {
+    if (this.queueOptions.get(queueName)?.contentBasedDeduplication !== true) {
+      throw new ValidationError(
+        'messageDeduplicationId is required unless the FIFO queue uses content-based deduplication'
+      );
+    }
+    const content = typeof message === 'string' ? message : JSON.stringify(message);
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  private findDuplicate(queueName: string, deduplicationId: string): string | undefined {
+    const entries = this.getDeduplicationIds(queueName);
+    const now = Date.now();
+    for (const [id, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(id);
+      }
+    }
+    return entries.get(deduplicationId)?.messageId;
+  }
+
+  private getDeduplicationIds(queueName: string): Map<string, DeduplicationEntry> {
+    let entries = this.deduplication.get(queueName);
+    if (!entries) {
+      entries = new Map();
+      this.deduplication.set(queueName, entries);
+    }
+    return entries;
+  }
+
+  private moveToDeadLetterQueue(queueName: string, message: StoredMessage): void {
+    const queue = this.getOrCreateQueue(queueName);
+    queue.splice(queue.indexOf(message), 1);
+
+    this.getOrCreateQueue(`${queueName}${DEAD_LETTER_SUFFIX}`).push({
+      ...message,
+      receiptHandle: randomBytes(16).toString('hex'),
+      approximateReceiveCount: 0,
+    });
+  }
+
   async acknowledge(queueName: string, receiptHandle: string): Promise<void> {
     if (!queueName) {
       throw new ValidationError('Queue name is required');
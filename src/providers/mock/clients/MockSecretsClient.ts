@@ -9,7 +9,9 @@
 
 import type { SecretsClient } from '../../../core/clients/SecretsClient';
 import type { SecretValue } from '../../../core/types/secret';
+import type { CacheStats } from '../../../core/types/runtime';
 import { ResourceNotFoundError, ValidationError } from '../../../core/types/common';
+import { emptyCacheStats } from '../../../utils/cache';
 
 interface StoredSecret {
   value: SecretValue;
@@ -77,4 +79,12 @@ export class MockSecretsClient implements SecretsClient {
 
     return value as T;
   }
+
+  getCacheStats(): CacheStats {
+    return emptyCacheStats();
+  }
+
+  invalidateCache(_secretName?: string): void {
+    // Reads are served from memory; there is no cache to invalidate
+  }
 }
@@ -0,0 +1,309 @@
+/**
+ * Application Registry
+ *
+ * Pluggable storage backends for applications registered with LCPlatform
+ */
+
+import type { LCPlatformAppSnapshot } from '../core/types/application';
+import { LCPlatformApp } from '../core/types/application';
+import type { ApplicationDependency } from '../core/types/dependency';
+import type { DocumentStoreService } from '../core/services/DocumentStoreService';
+import { ResourceNotFoundError, ValidationError } from '../core/types/common';
+import type { ConfigurationPersistence } from './configPersistence';
+
+/**
+ * Registry backend for LCPlatform applications
+ */
+export interface ApplicationRegistry {
+  /**
+   * Insert or update an application
+   *
+   * @throws ValidationError if another application has the same team and moniker
+   */
+  save(app: LCPlatformApp): Promise<void>;
+
+  /**
+   * Get an application by ID
+   */
+  get(id: string): Promise<LCPlatformApp | undefined>;
+
+  /**
+   * List all registered applications
+   */
+  list(): Promise<LCPlatformApp[]>;
+
+  /**
+   * Find all applications owned by a team
+   */
+  findByTeam(team: string): Promise<LCPlatformApp[]>;
+
+  /**
+   * Find an application by team and moniker
+   */
+  findByMoniker(team: string, moniker: string): Promise<LCPlatformApp | undefined>;
+
+  /**
+   * Remove an application from the registry
+   *
+   * @returns True if the application was registered
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * In-memory registry (default); contents are lost when the process exits
+ */
+export class InMemoryApplicationRegistry implements ApplicationRegistry {
+  private readonly applications = new Map<string, LCPlatformApp>();
+
+  async save(app: LCPlatformApp): Promise<void> {
+    await assertMonikerAvailable(this, app);
+    this.applications.set(app.id, app);
+  }
+
+  get(id: string): Promise<LCPlatformApp | undefined> {
+    return Promise.resolve(this.applications.get(id));
+  }
+
+  list(): Promise<LCPlatformApp[]> {
+    return Promise.resolve(Array.from(this.applications.values()));
+  }
+
+  findByTeam(team: string): Promise<LCPlatformApp[]> {
+    return Promise.resolve(
+      Array.from(this.applications.values()).filter((app) => app.team === team)
+    );
+  }
+
+  findByMoniker(team: string, moniker: string): Promise<LCPlatformApp | undefined> {
+    return Promise.resolve(
+      Array.from(this.applications.values()).find(
+        (app) => app.team === team && app.moniker === moniker
+      )
+    );
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.applications.delete(id));
+  }
+}
+
+/**
+ * Registry backed by object storage through ConfigurationPersistence
+ *
+ * Applications are stored as app.config files and located via the app lookup index.
+ */
+export class ObjectStoreApplicationRegistry implements ApplicationRegistry {
+  constructor(
+    private readonly persistence: ConfigurationPersistence,
+    private readonly bucket: string
+  ) {}
+
+  async save(app: LCPlatformApp): Promise<void> {
+    // Storage paths are derived from team and moniker, so a duplicate would overwrite the other app
+    await assertMonikerAvailable(this, app);
+    await this.persistence.persistApplication(app, this.bucket);
+  }
+
+  async get(id: string): Promise<LCPlatformApp | undefined> {
+    const appPath = await this.persistence.resolveAppPath(this.bucket, id);
+    if (appPath === undefined) {
+      return undefined;
+    }
+    return this.persistence.loadApplication(this.bucket, id);
+  }
+
+  async list(): Promise<LCPlatformApp[]> {
+    const ids = await this.persistence.listApplicationIds(this.bucket);
+    return Promise.all(ids.map((id) => this.persistence.loadApplication(this.bucket, id)));
+  }
+
+  async findByTeam(team: string): Promise<LCPlatformApp[]> {
+    const ids = await this.persistence.listApplicationIdsByTeam(this.bucket, team);
+    const apps = await Promise.all(
+      ids.map((id) => this.persistence.loadApplication(this.bucket, id))
+    );
+    // Lookup entries outlive renames, so confirm the app is still in this team
+    return apps.filter((app) => app.team === team);
+  }
+
+  async findByMoniker(team: string, moniker: string): Promise<LCPlatformApp | undefined> {
+    const id = await this.persistence.findApplicationIdByMoniker(this.bucket, team, moniker);
+    if (id === undefined) {
+      return undefined;
+    }
+    const app = await this.persistence.loadApplication(this.bucket, id);
+    return app.team === team && app.moniker === moniker ? app : undefined;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.persistence.removeApplication(this.bucket, id);
+  }
+}
+
+/**
+ * Stored application document
+ */
+interface ApplicationDocument {
+  appId: string;
+  team: string;
+  moniker: string;
+  snapshot: string;
+}
+
+/**
+ * Default collection name for the document store registry
+ */
+export const DEFAULT_REGISTRY_COLLECTION = 'lcp-applications';
+
+/**
+ * Registry backed by a DocumentStoreService collection
+ *
+ * The collection is created on first use if it does not already exist.
+ */
+export class DocumentStoreApplicationRegistry implements ApplicationRegistry {
+  private collectionReady: Promise<void> | undefined;
+
+  constructor(
+    private readonly documentStore: DocumentStoreService,
+    private readonly collectionName: string = DEFAULT_REGISTRY_COLLECTION
+  ) {}
+
+  async save(app: LCPlatformApp): Promise<void> {
+    await assertMonikerAvailable(this, app);
+
+    const document: ApplicationDocument = {
+      appId: app.id,
+      team: app.team,
+      moniker: app.moniker,
+      snapshot: JSON.stringify(app.toSnapshot()),
+    };
+
+    const existing = await this.documentStore.find<string>(
+      this.collectionName,
+      { appId: app.id },
+      1
+    );
+    const existingDoc = existing[0];
+    if (existingDoc !== undefined) {
+      await this.documentStore.updateDocument(this.collectionName, existingDoc._id, document);
+    } else {
+      await this.documentStore.insertDocument(this.collectionName, document);
+    }
+  }
+
+  async get(id: string): Promise<LCPlatformApp | undefined> {
+    const apps = await this.query({ appId: id }, 1);
+    return apps[0];
+  }
+
+  async list(): Promise<LCPlatformApp[]> {
+    return this.query({});
+  }
+
+  async findByTeam(team: string): Promise<LCPlatformApp[]> {
+    return this.query({ team });
+  }
+
+  async findByMoniker(team: string, moniker: string): Promise<LCPlatformApp | undefined> {
+    const apps = await this.query({ team, moniker }, 1);
+    return apps[0];
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.ensureCollection();
+
+    const existing = await this.documentStore.find<string>(this.collectionName, { appId: id }, 1);
+    const existingDoc = existing[0];
+    if (existingDoc === undefined) {
+      return false;
+    }
+
+    await this.documentStore.deleteDocument(this.collectionName, existingDoc._id);
+    return true;
+  }
+
+  private async query(query: Record<string, string>, limit?: number): Promise<LCPlatformApp[]> {
+    await this.ensureCollection();
+
+    const documents = await this.documentStore.find<string>(this.collectionName, query, limit);
+    return documents.map((doc) => {
+      const snapshot = doc.snapshot;
+      if (typeof snapshot !== 'string') {
+        throw new Error(`Invalid application document ${doc._id}: missing snapshot`);
+      }
+      return LCPlatformApp.fromSnapshot(reviveSnapshot(snapshot));
+    });
+  }
+
+  private ensureCollection(): Promise<void> {
+    this.collectionReady ??= this.documentStore
+      .getCollection(this.collectionName)
+      .then(() => undefined)
+      .catch(async (error: unknown) => {
+        if (!(error instanceof ResourceNotFoundError)) {
+          throw error;
+        }
+        await this.documentStore.createCollection(this.collectionName, {
+          indexes: [{ field: 'appId', unique: true }, { field: 'team' }],
+        });
+      })
+      .catch((error: unknown) => {
+        // Allow the next call to retry collection setup
+        this.collectionReady = undefined;
+        throw error;
+      });
+
+    return this.collectionReady;
+  }
+}
+
+/**
+ * @throws ValidationError if an application with another ID has the same team and moniker
+ */
+async function assertMonikerAvailable(
+  registry: ApplicationRegistry,
+  app: LCPlatformApp
+): Promise<void> {
+  const existing = await registry.findByMoniker(app.team, app.moniker);
+  if (existing !== undefined && existing.id !== app.id) {
+    throw new ValidationError(
+      `Application ${app.team}/${app.moniker} is already registered with ID ${existing.id}`,
+      { team: app.team, moniker: app.moniker, existingId: existing.id }
+    );
+  }
+}
+
+/**
+ * Parse a JSON application snapshot, restoring Date fields
+ */
+function reviveSnapshot(json: string): LCPlatformAppSnapshot {
+  const raw = JSON.parse(json) as LCPlatformAppSnapshot;
+
+  const dependencies = raw.dependencies.map((dep): ApplicationDependency => ({
+    ...dep,
+    ...(dep.policy !== undefined && {
+      policy: {
+        ...dep.policy,
+        createdAt: new Date(dep.policy.createdAt),
+        updatedAt: new Date(dep.policy.updatedAt),
+      },
+    }),
+    ...(dep.deployedAt !== undefined && { deployedAt: new Date(dep.deployedAt) }),
+    ...(dep.statusHistory !== undefined && {
+      statusHistory: dep.statusHistory.map((change) => ({
+        ...change,
+        changedAt: new Date(change.changedAt),
+      })),
+    }),
+    createdAt: new Date(dep.createdAt),
+    updatedAt: new Date(dep.updatedAt),
+  }));
+
+  return {
+    ...raw,
+    dependencies,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
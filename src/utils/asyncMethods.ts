@@ -0,0 +1,61 @@
+/**
+ * Async Method Proxy
+ *
+ * Shared by the wrappers that factories apply to created services and clients
+ * (resilience, instrumentation).
+ */
+
+import type { ProviderType } from '../core/types/common';
+
+/**
+ * Name of a provider's implementation of a service type, e.g. AwsQueueClient
+ *
+ * Built from the provider and service type rather than `constructor.name`,
+ * which minifiers rename.
+ */
+export function serviceName(provider: ProviderType, serviceType: string): string {
+  return `${provider.charAt(0).toUpperCase()}${provider.slice(1)}${serviceType}`;
+}
+
+/**
+ * Wraps one method call; `call` invokes the method, optionally with different arguments
+ */
+export type AsyncMethodWrapper = (
+  operation: string,
+  args: unknown[],
+  call: (args?: unknown[]) => Promise<unknown>
+) => Promise<unknown>;
+
+/**
+ * Wrap the async methods of an object
+ *
+ * Synchronous methods and methods whose names start with `_` are passed
+ * through. Wrapped methods are async functions themselves, so wrappers can be
+ * stacked.
+ */
+export function wrapAsyncMethods<T extends object>(target: T, wrap: AsyncMethodWrapper): T {
+  const wrapped = new WeakMap<object, unknown>();
+
+  return new Proxy(target, {
+    get(object, property, receiver): unknown {
+      const value: unknown = Reflect.get(object, property, receiver);
+
+      if (!isAsyncFunction(value) || (typeof property === 'string' && property.startsWith('_'))) {
+        return value;
+      }
+
+      let method = wrapped.get(value);
+      if (method === undefined) {
+        const operation = String(property);
+        method = async (...args: unknown[]): Promise<unknown> =>
+          wrap(operation, args, (callArgs = args) => value.apply(object, callArgs));
+        wrapped.set(value, method);
+      }
+      return method;
+    },
+  });
+}
+
+function isAsyncFunction(value: unknown): value is (...args: unknown[]) => Promise<unknown> {
+  return typeof value === 'function' && value.constructor.name === 'AsyncFunction';
+}
@@ -8,10 +8,17 @@
  */
 
 import { LRUCache } from 'lru-cache';
+import { ValidationError } from '../core/types/common';
+import type { CacheStats } from '../core/types/runtime';
 
 export interface CacheOptions<V> {
   maxSize?: number;
   ttlMs?: number;
+  /**
+   * How long after expiry a value may still be served by getOrCompute while it
+   * is refreshed in the background (default: 0, no stale reads)
+   */
+  staleWhileRevalidateMs?: number;
   onEviction?: (key: string, value: V) => void;
 }
 
@@ -32,9 +39,13 @@ const DEFAULT_TTL_MS = 300000; // 5 minutes (default for configuration)
 export class TtlCache<V> {
   private cache: LRUCache<string, CacheEntry<V>>;
   private ttlMs: number;
+  private staleMs: number;
+  private pending = new Map<string, Promise<V>>();
+  private counters = { hits: 0, misses: 0, staleHits: 0, refreshes: 0, refreshFailures: 0 };
 
   constructor(options: CacheOptions<V> = {}) {
     this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.staleMs = options.staleWhileRevalidateMs ?? 0;
 
     this.cache = new LRUCache<string, CacheEntry<V>>({
       max: options.maxSize ?? DEFAULT_MAX_SIZE,
@@ -57,9 +68,11 @@ export class TtlCache<V> {
       return undefined;
     }
 
-    // Check if expired
+    // Check if expired (entries inside the stale window are kept for getOrCompute)
     if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
+      if (Date.now() > entry.expiresAt + this.staleMs) {
+        this.cache.delete(key);
+      }
       return undefined;
     }
 
@@ -83,14 +96,30 @@ export class TtlCache<V> {
    * Delete value from cache
    */
   public delete(key: string): boolean {
+    this.pending.delete(key);
     return this.cache.delete(key);
   }
 
+  /**
+   * Delete all entries whose key matches a predicate
+   * @returns Number of entries deleted
+   */
+  public deleteWhere(predicate: (key: string) => boolean): number {
+    let deleted = 0;
+    for (const key of new Set([...this.cache.keys(), ...this.pending.keys()])) {
+      if (predicate(key) && this.delete(key)) {
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   /**
    * Clear all entries
    */
   public clear(): void {
     this.cache.clear();
+    this.pending.clear();
   }
 
   /**
@@ -107,22 +136,104 @@ export class TtlCache<V> {
     return this.cache.size;
   }
 
+  /**
+   * Hit/miss counters and current size
+   */
+  public get stats(): CacheStats {
+    return { ...this.counters, size: this.cache.size };
+  }
+
   /**
    * Get or compute value
-   * If cache miss, compute value and store it
+   *
+   * On a miss the value is computed and stored; concurrent misses for the same
+   * key share one computation. A value that expired less than
+   * staleWhileRevalidateMs ago is returned immediately while a background
+   * refresh replaces it; if the refresh fails the stale value is kept.
    */
   public async getOrCompute(key: string, compute: () => Promise<V>, ttlMs?: number): Promise<V> {
     const cached = this.get(key);
     if (cached !== undefined) {
+      this.counters.hits++;
       return cached;
     }
 
-    const value = await compute();
-    this.set(key, value, ttlMs);
-    return value;
+    const stale = this.cache.get(key);
+    if (stale !== undefined) {
+      this.counters.staleHits++;
+      if (!this.pending.has(key)) {
+        this.counters.refreshes++;
+        this.load(key, compute, ttlMs).catch(() => {
+          this.counters.refreshFailures++;
+        });
+      }
+      return stale.value;
+    }
+
+    this.counters.misses++;
+    return this.pending.get(key) ?? this.load(key, compute, ttlMs);
+  }
+
+  private load(key: string, compute: () => Promise<V>, ttlMs?: number): Promise<V> {
+    const loading = compute()
+      .then((value) => {
+        // Skip the write if the key was invalidated while loading
+        if (this.pending.get(key) === loading) {
+          this.set(key, value, ttlMs);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.pending.get(key) === loading) {
+          this.pending.delete(key);
+        }
+      });
+
+    this.pending.set(key, loading);
+    return loading;
   }
 }
 
+/**
+ * Client read cache settings (`ProviderConfig.options.secretsCache` / `configCache`)
+ */
+export type ReadCacheOptions = Pick<
+  CacheOptions<unknown>,
+  'maxSize' | 'ttlMs' | 'staleWhileRevalidateMs'
+>;
+
+/**
+ * Read client cache settings from a provider option
+ *
+ * @returns undefined when caching is not enabled (absent or false)
+ * @throws ValidationError if the option is not an object or boolean
+ */
+export function getReadCacheOptions(
+  value: unknown,
+  optionName: string
+): ReadCacheOptions | undefined {
+  if (value === undefined || value === false) {
+    return undefined;
+  }
+  if (value === true) {
+    return {};
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError(`options.${optionName} must be an object or boolean`, {
+      [optionName]: value,
+    });
+  }
+
+  return value as ReadCacheOptions;
+}
+
+/**
+ * Statistics reported by clients that have no read cache
+ */
+export function emptyCacheStats(): CacheStats {
+  return { hits: 0, misses: 0, staleHits: 0, refreshes: 0, refreshFailures: 0, size: 0 };
+}
+
 /**
  * Predefined caches for common use cases
  */
@@ -130,20 +241,22 @@ export class TtlCache<V> {
 /**
  * Secret cache: 5 minutes TTL (SC-004: <100ms cached retrieval)
  */
-export function createSecretCache<V>(): TtlCache<V> {
+export function createSecretCache<V>(options: CacheOptions<V> = {}): TtlCache<V> {
   return new TtlCache<V>({
     maxSize: 500,
     ttlMs: 300000, // 5 minutes
+    ...options,
   });
 }
 
 /**
  * Configuration cache: 5 minutes TTL (SC-005: 5-minute default refresh)
  */
-export function createConfigCache<V>(): TtlCache<V> {
+export function createConfigCache<V>(options: CacheOptions<V> = {}): TtlCache<V> {
   return new TtlCache<V>({
     maxSize: 200,
     ttlMs: 300000, // 5 minutes
+    ...options,
   });
 }
 
@@ -4,14 +4,33 @@
  * Handles persistence of application configurations and dependencies to object storage
  */
 
+import type { ApplicationVersion, LCPlatformAppData } from '../core/types/application';
+import { LCPlatformApp } from '../core/types/application';
 import type {
-  LCPlatformApp,
-  ApplicationVersion,
-  LCPlatformAppData,
-} from '../core/types/application';
-import { PlatformType, Environment } from '../core/types/application';
-import type { ApplicationDependency, PolicyDocument } from '../core/types/dependency';
+  ApplicationDependency,
+  DependencyConfiguration,
+  DependencyStatus,
+  DependencyType,
+  PolicyDocument,
+} from '../core/types/dependency';
+import { ResourceNotFoundError, ValidationError } from '../core/types/common';
+import type { ObjectStoreService as CoreObjectStoreService } from '../core/services/ObjectStoreService';
 import { serializePolicy, deserializePolicy } from './policySerializer';
+import { diffVersions } from './versionDiff';
+import { compareVersions, incrementVersion, isSameVersion, parseVersion } from './semver';
+import type { VersionBump } from './semver';
+import type { VersionDiff } from './versionDiff';
+
+/**
+ * Stored dependency status change
+ */
+interface StoredStatusChange {
+  from: string;
+  to: string;
+  changedAt: string;
+  actor?: string;
+  reason?: string;
+}
 
 /**
  * Stored dependency data structure
@@ -23,10 +42,57 @@ interface StoredDependency {
   status: string;
   configuration: unknown;
   generatedName?: string;
+  deployedAt?: string;
+  deployedBy?: string;
+  deploymentError?: string;
+  statusHistory?: StoredStatusChange[];
+  policyCreatedAt?: string;
+  policyUpdatedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Stored application data structure (app.config)
+ */
+interface StoredAppData extends LCPlatformAppData {
+  id: string;
+  accountId?: string;
+  dependencies: StoredDependency[];
+  createdAt: string;
+  updatedAt: string;
+  currentVersion?: string;
+}
+
+/**
+ * Stored app lookup index entry (appId → application path)
+ */
+interface StoredAppIndexEntry {
+  appId: string;
+  /**
+   * Omitted once the application is removed from the index
+   */
+  appPath?: string;
+  updatedAt: string;
+}
+
+/**
+ * Stored moniker lookup entry (team + moniker → appId)
+ */
+interface StoredMonikerIndexEntry {
+  appId: string;
+  team: string;
+  moniker: string;
+  updatedAt: string;
+}
+
+/**
+ * app.config written before dependencies and the account were stored with it
+ */
+type LegacyStoredAppData = Omit<StoredAppData, 'dependencies'> & {
+  dependencies?: StoredDependency[];
+};
+
 /**
  * Stored version data structure
  */
@@ -48,6 +114,66 @@ export interface ObjectStoreService {
   listObjects(bucket: string, prefix: string): Promise<string[]>;
 }
 
+/**
+ * Adapt a provider ObjectStoreService to the string-based persistence interface
+ *
+ * @param objectStore - ObjectStoreService from LCPlatform.getObjectStore()
+ * @returns Persistence object store
+ */
+export function createPersistenceStore(objectStore: CoreObjectStoreService): ObjectStoreService {
+  return {
+    async putObject(bucket: string, key: string, content: string): Promise<void> {
+      await objectStore.putObject(bucket, key, Buffer.from(content, 'utf-8'), {
+        contentType: 'application/json',
+      });
+    },
+    async getObject(bucket: string, key: string): Promise<string> {
+      const object = await objectStore.getObject(bucket, key);
+      if (Buffer.isBuffer(object.data)) {
+        return object.data.toString('utf-8');
+      }
+      return new Response(object.data).text();
+    },
+    async listObjects(bucket: string, prefix: string): Promise<string[]> {
+      const objects = await objectStore.listObjects(bucket, prefix);
+      return objects.map((object) => object.key);
+    },
+  };
+}
+
+/**
+ * Prefix of the app lookup index within the configuration bucket
+ *
+ * Each application has its own `{prefix}{appId}.json` entry, so concurrent saves of
+ * different applications never overwrite each other's entries.
+ */
+export const APP_INDEX_PREFIX = 'lcp-app-index/';
+
+/**
+ * Prefix of the team/moniker lookup index within the configuration bucket
+ *
+ * Entries live at `{prefix}{team}/{moniker}.json` (URI-encoded) and point at an app ID,
+ * so apps can be found by team or moniker without loading every stored app.
+ */
+export const MONIKER_INDEX_PREFIX = 'lcp-app-moniker-index/';
+
+/**
+ * app.config keys written before paths were prefixed with the account (lcp-{team}-{moniker})
+ */
+const APP_CONFIG_KEY_PATTERN = /^lcp-[^/]+\/app\.config$/;
+
+/**
+ * Generate S3 path prefix for an application
+ *
+ * @param account - Account ID
+ * @param team - Team name
+ * @param moniker - Application moniker
+ * @returns Application path (lcp-{account}-{team}-{moniker})
+ */
+export function generateAppPath(account: string, team: string, moniker: string): string {
+  return `lcp-${account}-${team}-${moniker}`;
+}
+
 /**
  * Generate S3 path for versioned configuration
  *
@@ -63,7 +189,7 @@ export function generateConfigPath(
   moniker: string,
   version: string
 ): string {
-  return `lcp-${account}-${team}-${moniker}/versions/${version}/`;
+  return `${generateAppPath(account, team, moniker)}/versions/${version}/`;
 }
 
 /**
@@ -75,7 +201,23 @@ export function generateConfigPath(
  * @returns S3 path for app.config
  */
 export function generateAppConfigPath(account: string, team: string, moniker: string): string {
-  return `lcp-${account}-${team}-${moniker}/app.config`;
+  return `${generateAppPath(account, team, moniker)}/app.config`;
+}
+
+function monikerIndexTeamPrefix(team: string): string {
+  return `${MONIKER_INDEX_PREFIX}${encodeURIComponent(team)}/`;
+}
+
+function monikerIndexKey(team: string, moniker: string): string {
+  return `${monikerIndexTeamPrefix(team)}${encodeURIComponent(moniker)}.json`;
+}
+
+/**
+ * Highest semantic version in a sorted version list; non-semver folders such as "draft"
+ * sort last and are skipped
+ */
+function latestSemanticVersion(versions: string[]): string | undefined {
+  return versions.filter((version) => parseVersion(version) !== undefined).pop();
 }
 
 /**
@@ -85,13 +227,20 @@ export class ConfigurationPersistence {
   constructor(private readonly objectStore: ObjectStoreService) {}
 
   /**
-   * Persist application metadata
+   * Persist application metadata, dependencies and policies
+   *
+   * Also registers the application in the app lookup index so it can later
+   * be loaded by ID.
    *
    * @param app - Application to persist
    * @param bucket - S3 bucket name
    */
   async persistApplication(app: LCPlatformApp, bucket: string): Promise<void> {
-    const appData = {
+    const account = app.getAccountId() ?? 'unknown';
+    const appPath = generateAppPath(account, app.team, app.moniker);
+    const dependencies = app.listDependencies();
+
+    const appData: StoredAppData = {
       id: app.id,
       name: app.name,
       team: app.team,
@@ -101,26 +250,329 @@ export class ConfigurationPersistence {
       environment: app.environment,
       supportEmail: app.supportEmail,
       ownerEmail: app.ownerEmail,
-      createdAt: app.createdAt,
-      updatedAt: app.updatedAt,
-      currentVersion: app.currentVersion,
+      ...(app.getAccountId() !== undefined && { accountId: account }),
+      dependencies: dependencies.map((dep) => this.toStoredDependency(dep)),
+      createdAt: app.createdAt.toISOString(),
+      updatedAt: app.updatedAt.toISOString(),
+      ...(app.currentVersion !== undefined && { currentVersion: app.currentVersion }),
+    };
+
+    await this.objectStore.putObject(
+      bucket,
+      generateAppConfigPath(account, app.team, app.moniker),
+      JSON.stringify(appData, null, 2)
+    );
+    await this.persistPolicies(bucket, appPath, dependencies);
+    await this.updateAppIndex(bucket, app.id, appPath);
+    await this.putMonikerIndexEntry(bucket, app);
+  }
+
+  /**
+   * Load a persisted application by ID
+   *
+   * Applications saved before the app lookup index existed are found by scanning
+   * their legacy app.config objects.
+   *
+   * @param bucket - S3 bucket name
+   * @param appId - Application ID
+   * @returns Rehydrated application with dependencies and policies
+   * @throws ResourceNotFoundError if the application is not in the app lookup index
+   */
+  async loadApplication(bucket: string, appId: string): Promise<LCPlatformApp> {
+    const entry = await this.loadIndexEntry(bucket, appId);
+    let appConfigKey: string | undefined;
+    if (entry === undefined) {
+      appConfigKey = await this.findLegacyAppConfigKey(bucket, appId);
+    } else if (entry.appPath !== undefined) {
+      appConfigKey = `${entry.appPath}/app.config`;
+    }
+    if (appConfigKey === undefined) {
+      throw new ResourceNotFoundError('Application', appId, { bucket });
+    }
+
+    const appPath = appConfigKey.slice(0, -'/app.config'.length);
+    const content = await this.objectStore.getObject(bucket, appConfigKey);
+    const appData = JSON.parse(content) as LegacyStoredAppData;
+
+    const dependencies = await Promise.all(
+      (appData.dependencies ?? []).map((dep) => this.restoreDependency(bucket, appPath, dep))
+    );
+
+    return LCPlatformApp.fromSnapshot({
+      id: appData.id,
+      name: appData.name,
+      team: appData.team,
+      moniker: appData.moniker,
+      ciAppId: appData.ciAppId,
+      platformType: appData.platformType,
+      environment: appData.environment,
+      supportEmail: appData.supportEmail,
+      ownerEmail: appData.ownerEmail,
+      ...(appData.accountId !== undefined && { accountId: appData.accountId }),
+      dependencies,
+      createdAt: new Date(appData.createdAt),
+      updatedAt: new Date(appData.updatedAt),
+      ...(appData.currentVersion !== undefined && { currentVersion: appData.currentVersion }),
+    });
+  }
+
+  /**
+   * Resolve the storage path of a persisted application from the app lookup index
+   *
+   * @param bucket - S3 bucket name
+   * @param appId - Application ID
+   * @returns Application path (lcp-{account}-{team}-{moniker}), or undefined if not indexed
+   */
+  async resolveAppPath(bucket: string, appId: string): Promise<string | undefined> {
+    return (await this.loadIndexEntry(bucket, appId))?.appPath;
+  }
+
+  /**
+   * List the IDs of all applications in the app lookup index
+   *
+   * @param bucket - S3 bucket name
+   * @returns Application IDs
+   */
+  async listApplicationIds(bucket: string): Promise<string[]> {
+    const keys = await this.objectStore.listObjects(bucket, APP_INDEX_PREFIX);
+    const entries = await Promise.all(
+      keys.map(
+        async (key) =>
+          JSON.parse(await this.objectStore.getObject(bucket, key)) as StoredAppIndexEntry
+      )
+    );
+    return entries.filter((entry) => entry.appPath !== undefined).map((entry) => entry.appId);
+  }
+
+  /**
+   * Find the ID of the application registered under a team and moniker
+   *
+   * Entries are not cleared when an app is removed or renamed, so callers should
+   * check the loaded application still matches.
+   *
+   * @param bucket - S3 bucket name
+   * @param team - Team name
+   * @param moniker - Application moniker
+   * @returns Application ID, or undefined if the moniker was never registered or the app was removed
+   */
+  async findApplicationIdByMoniker(
+    bucket: string,
+    team: string,
+    moniker: string
+  ): Promise<string | undefined> {
+    const key = monikerIndexKey(team, moniker);
+    const keys = await this.objectStore.listObjects(bucket, key);
+    if (!keys.includes(key)) {
+      return undefined;
+    }
+
+    return this.resolveMonikerIndexEntry(bucket, key);
+  }
+
+  /**
+   * List the IDs of applications registered under a team
+   *
+   * @param bucket - S3 bucket name
+   * @param team - Team name
+   * @returns Application IDs still in the app lookup index
+   */
+  async listApplicationIdsByTeam(bucket: string, team: string): Promise<string[]> {
+    const keys = await this.objectStore.listObjects(bucket, monikerIndexTeamPrefix(team));
+    const ids = await Promise.all(keys.map((key) => this.resolveMonikerIndexEntry(bucket, key)));
+    return [...new Set(ids.filter((id): id is string => id !== undefined))];
+  }
+
+  /**
+   * Remove an application from the app lookup index
+   *
+   * Persisted app.config and version folders are retained for audit purposes.
+   *
+   * @param bucket - S3 bucket name
+   * @param appId - Application ID
+   * @returns True if the application was indexed
+   */
+  async removeApplication(bucket: string, appId: string): Promise<boolean> {
+    const entry = await this.loadIndexEntry(bucket, appId);
+    if (entry?.appPath === undefined) {
+      return false;
+    }
+
+    await this.putIndexEntry(bucket, { appId, updatedAt: new Date().toISOString() });
+    return true;
+  }
+
+  /**
+   * Load the app lookup index entry of an application, if it was ever indexed
+   */
+  private async loadIndexEntry(
+    bucket: string,
+    appId: string
+  ): Promise<StoredAppIndexEntry | undefined> {
+    const key = `${APP_INDEX_PREFIX}${appId}.json`;
+    const keys = await this.objectStore.listObjects(bucket, key);
+    if (!keys.includes(key)) {
+      return undefined;
+    }
+
+    return JSON.parse(await this.objectStore.getObject(bucket, key)) as StoredAppIndexEntry;
+  }
+
+  private async putIndexEntry(bucket: string, entry: StoredAppIndexEntry): Promise<void> {
+    await this.objectStore.putObject(
+      bucket,
+      `${APP_INDEX_PREFIX}${entry.appId}.json`,
+      JSON.stringify(entry, null, 2)
+    );
+  }
+
+  /**
+   * Add or update an application entry in the app lookup index
+   */
+  private async updateAppIndex(bucket: string, appId: string, appPath: string): Promise<void> {
+    const entry = await this.loadIndexEntry(bucket, appId);
+    if (entry?.appPath === appPath) {
+      return;
+    }
+
+    await this.putIndexEntry(bucket, { appId, appPath, updatedAt: new Date().toISOString() });
+  }
+
+  private async putMonikerIndexEntry(bucket: string, app: LCPlatformApp): Promise<void> {
+    const entry: StoredMonikerIndexEntry = {
+      appId: app.id,
+      team: app.team,
+      moniker: app.moniker,
+      updatedAt: new Date().toISOString(),
     };
+    await this.objectStore.putObject(
+      bucket,
+      monikerIndexKey(app.team, app.moniker),
+      JSON.stringify(entry, null, 2)
+    );
+  }
+
+  /**
+   * Read a moniker lookup entry, returning its app ID while the app is still indexed
+   */
+  private async resolveMonikerIndexEntry(bucket: string, key: string): Promise<string | undefined> {
+    const entry = JSON.parse(
+      await this.objectStore.getObject(bucket, key)
+    ) as StoredMonikerIndexEntry;
+    const appPath = await this.resolveAppPath(bucket, entry.appId);
+    return appPath === undefined ? undefined : entry.appId;
+  }
 
-    const key = `lcp-${app.team}-${app.moniker}/app.config`;
-    await this.objectStore.putObject(bucket, key, JSON.stringify(appData, null, 2));
+  /**
+   * Find the app.config of an application saved before the app lookup index existed
+   */
+  private async findLegacyAppConfigKey(bucket: string, appId: string): Promise<string | undefined> {
+    const keys = (await this.objectStore.listObjects(bucket, 'lcp-')).filter((key) =>
+      APP_CONFIG_KEY_PATTERN.test(key)
+    );
+    for (const key of keys) {
+      const appData = JSON.parse(await this.objectStore.getObject(bucket, key)) as { id?: string };
+      if (appData.id === appId) {
+        return key;
+      }
+    }
+    return undefined;
   }
 
   /**
-   * Load application metadata
+   * Convert a dependency to its stored JSON form
+   */
+  private toStoredDependency(dep: ApplicationDependency): StoredDependency {
+    return {
+      id: dep.id,
+      name: dep.name,
+      type: dep.type,
+      status: dep.status,
+      configuration: dep.configuration,
+      ...(dep.generatedName !== undefined && { generatedName: dep.generatedName }),
+      ...(dep.deployedAt !== undefined && { deployedAt: dep.deployedAt.toISOString() }),
+      ...(dep.deployedBy !== undefined && { deployedBy: dep.deployedBy }),
+      ...(dep.deploymentError !== undefined && { deploymentError: dep.deploymentError }),
+      ...(dep.statusHistory !== undefined && {
+        statusHistory: dep.statusHistory.map((change) => ({
+          ...change,
+          changedAt: change.changedAt.toISOString(),
+        })),
+      }),
+      ...(dep.policy !== undefined && {
+        policyCreatedAt: dep.policy.createdAt.toISOString(),
+        policyUpdatedAt: dep.policy.updatedAt.toISOString(),
+      }),
+      createdAt: dep.createdAt.toISOString(),
+      updatedAt: dep.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Restore a stored dependency, loading its policy YAML from basePath if present
+   */
+  private async restoreDependency(
+    bucket: string,
+    basePath: string,
+    dep: StoredDependency
+  ): Promise<ApplicationDependency> {
+    let policy: PolicyDocument | undefined;
+    if (dep.policyCreatedAt !== undefined) {
+      const policyYaml = await this.objectStore.getObject(
+        bucket,
+        `${basePath}/${dep.name}-policy.yaml`
+      );
+      policy = {
+        ...deserializePolicy(policyYaml),
+        createdAt: new Date(dep.policyCreatedAt),
+        updatedAt: new Date(dep.policyUpdatedAt ?? dep.policyCreatedAt),
+      };
+    }
+
+    return {
+      id: dep.id,
+      name: dep.name,
+      type: dep.type as DependencyType,
+      status: dep.status as DependencyStatus,
+      configuration: dep.configuration as DependencyConfiguration,
+      ...(policy !== undefined && { policy }),
+      ...(dep.generatedName !== undefined && { generatedName: dep.generatedName }),
+      ...(dep.deployedAt !== undefined && { deployedAt: new Date(dep.deployedAt) }),
+      ...(dep.deployedBy !== undefined && { deployedBy: dep.deployedBy }),
+      ...(dep.deploymentError !== undefined && { deploymentError: dep.deploymentError }),
+      ...(dep.statusHistory !== undefined && {
+        statusHistory: dep.statusHistory.map((change) => ({
+          ...change,
+          from: change.from as DependencyStatus,
+          to: change.to as DependencyStatus,
+          changedAt: new Date(change.changedAt),
+        })),
+      }),
+      createdAt: new Date(dep.createdAt),
+      updatedAt: new Date(dep.updatedAt),
+    };
+  }
+
+  /**
+   * Restore a dependency from a snapshot written before policy timestamps were stored
    *
-   * @param _bucket - S3 bucket name
-   * @param _appId - Application ID
-   * @returns Application metadata
+   * Policy YAML is probed by name and stamped with the dependency's own timestamps.
    */
-  loadApplication(_bucket: string, _appId: string): LCPlatformApp {
-    // Note: This is a simplified implementation
-    // In practice, we'd need to search for the app by ID or have an index
-    throw new Error('Not implemented: loadApplication requires app lookup index');
+  private async restoreLegacyDependency(
+    bucket: string,
+    basePath: string,
+    dep: StoredDependency,
+    keys: string[]
+  ): Promise<ApplicationDependency> {
+    const policyKey = `${basePath}/${dep.name}-policy.yaml`;
+    if (!keys.includes(policyKey)) {
+      return this.restoreDependency(bucket, basePath, dep);
+    }
+
+    return this.restoreDependency(bucket, basePath, {
+      ...dep,
+      policyCreatedAt: dep.createdAt,
+      policyUpdatedAt: dep.updatedAt,
+    });
   }
 
   /**
@@ -141,22 +593,15 @@ export class ConfigurationPersistence {
   ): Promise<void> {
     // Determine account from app or use default pattern
     const account = app.getAccountId() ?? 'unknown';
-    const basePath = `lcp-${account}-${app.team}-${app.moniker}/versions/${version}`;
+    const basePath = `${generateAppPath(account, app.team, app.moniker)}/versions/${version}`;
+
+    const dependencies = app.listDependencies();
 
     // Persist dependencies as JSON
-    const depsData = {
+    const depsData: StoredVersionData = {
       version,
       appId: app.id,
-      dependencies: app.listDependencies().map((dep) => ({
-        id: dep.id,
-        name: dep.name,
-        type: dep.type,
-        status: dep.status,
-        configuration: dep.configuration,
-        generatedName: dep.generatedName,
-        createdAt: dep.createdAt,
-        updatedAt: dep.updatedAt,
-      })),
+      dependencies: dependencies.map((dep) => this.toStoredDependency(dep)),
       createdAt: new Date().toISOString(),
       createdBy,
       changeLog,
@@ -168,8 +613,25 @@ export class ConfigurationPersistence {
       JSON.stringify(depsData, null, 2)
     );
 
+    // Snapshot the application configuration alongside the dependencies
+    const appConfig: LCPlatformAppData = {
+      name: app.name,
+      team: app.team,
+      moniker: app.moniker,
+      ciAppId: app.ciAppId,
+      platformType: app.platformType,
+      environment: app.environment,
+      supportEmail: app.supportEmail,
+      ownerEmail: app.ownerEmail,
+    };
+
+    await this.objectStore.putObject(
+      bucket,
+      `${basePath}/app-config.json`,
+      JSON.stringify(appConfig, null, 2)
+    );
+
     // Persist policies as YAML files
-    const dependencies = app.listDependencies();
     await this.persistPolicies(bucket, basePath, dependencies);
   }
 
@@ -218,52 +680,39 @@ export class ConfigurationPersistence {
     const depsContent = await this.objectStore.getObject(bucket, `${basePath}/dependencies.json`);
     const depsData = JSON.parse(depsContent) as StoredVersionData;
 
-    // Load policies for each dependency
+    const keys = await this.objectStore.listObjects(bucket, `${basePath}/`);
+    const isLegacySnapshot = !keys.includes(`${basePath}/app-config.json`);
+
     const dependencies = await Promise.all(
-      depsData.dependencies.map(async (dep: StoredDependency): Promise<ApplicationDependency> => {
-        // Try to load policy if it exists
-        let policy: PolicyDocument | undefined;
-        try {
-          const policyYaml = await this.objectStore.getObject(
-            bucket,
-            `${basePath}/${dep.name}-policy.yaml`
-          );
-          const deserializedPolicy = deserializePolicy(policyYaml);
-          policy = {
-            ...deserializedPolicy,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          };
-        } catch {
-          // Policy doesn't exist, that's ok
-          policy = undefined;
-        }
-
-        return {
-          ...dep,
-          ...(policy !== undefined && { policy }),
-          createdAt: new Date(dep.createdAt),
-          updatedAt: new Date(dep.updatedAt),
-        } as ApplicationDependency;
-      })
+      depsData.dependencies.map((dep) =>
+        isLegacySnapshot
+          ? this.restoreLegacyDependency(bucket, basePath, dep, keys)
+          : this.restoreDependency(bucket, basePath, dep)
+      )
     );
 
-    // Create a minimal app config for now
-    const appConfig: LCPlatformAppData = {
-      name: '',
-      team: '',
-      moniker: '',
-      ciAppId: '',
-      platformType: PlatformType.WEB,
-      environment: Environment.DEVELOPMENT,
-      supportEmail: '',
-      ownerEmail: '',
-    };
+    // Snapshots written before app-config.json existed did not record the app config
+    const storedConfig = isLegacySnapshot
+      ? undefined
+      : (JSON.parse(
+          await this.objectStore.getObject(bucket, `${basePath}/app-config.json`)
+        ) as LCPlatformAppData);
 
     return {
       version: depsData.version,
       appId: depsData.appId,
-      appConfig,
+      ...(storedConfig !== undefined && {
+        appConfig: {
+          name: storedConfig.name,
+          team: storedConfig.team,
+          moniker: storedConfig.moniker,
+          ciAppId: storedConfig.ciAppId,
+          platformType: storedConfig.platformType,
+          environment: storedConfig.environment,
+          supportEmail: storedConfig.supportEmail,
+          ownerEmail: storedConfig.ownerEmail,
+        },
+      }),
       dependencies,
       storagePath: basePath,
       createdAt: new Date(depsData.createdAt),
@@ -272,12 +721,90 @@ export class ConfigurationPersistence {
     };
   }
 
+  /**
+   * Compare two persisted versions of an application
+   *
+   * @param bucket - S3 bucket name
+   * @param appPath - Application path (lcp-{account}-{team}-{moniker})
+   * @param fromVersion - Older version string
+   * @param toVersion - Newer version string
+   * @returns Structured diff of app config, dependencies and policies
+   */
+  async diffVersions(
+    bucket: string,
+    appPath: string,
+    fromVersion: string,
+    toVersion: string
+  ): Promise<VersionDiff> {
+    const [from, to] = await Promise.all([
+      this.retrieveVersion(bucket, appPath, fromVersion),
+      this.retrieveVersion(bucket, appPath, toVersion),
+    ]);
+    return diffVersions(from, to);
+  }
+
+  /**
+   * Roll an application's dependencies back to a prior version
+   *
+   * The rollback is recorded as a new version rather than rewriting history.
+   *
+   * @param app - Application to roll back
+   * @param bucket - S3 bucket name
+   * @param targetVersion - Version to restore dependencies from
+   * @param newVersion - Version string recording the rollback
+   * @param createdBy - User performing the rollback
+   * @returns The newly written version
+   * @throws ValidationError if newVersion already exists or targetVersion belongs to another app
+   */
+  async rollbackToVersion(
+    app: LCPlatformApp,
+    bucket: string,
+    targetVersion: string,
+    newVersion: string,
+    createdBy: string
+  ): Promise<ApplicationVersion> {
+    const account = app.getAccountId() ?? 'unknown';
+    const appPath = generateAppPath(account, app.team, app.moniker);
+
+    if ((await this.listVersions(bucket, appPath)).includes(newVersion)) {
+      throw new ValidationError(`Version ${newVersion} already exists for ${appPath}`, {
+        version: newVersion,
+        appPath,
+      });
+    }
+
+    const target = await this.retrieveVersion(bucket, appPath, targetVersion);
+    if (target.appId !== app.id) {
+      throw new ValidationError(
+        `Version ${targetVersion} belongs to application ${target.appId}, not ${app.id}`,
+        { targetVersion, appId: app.id }
+      );
+    }
+
+    // Restored statuses are recorded in each dependency's status history
+    const change = {
+      actor: createdBy,
+      reason: `Rollback to version ${targetVersion}`,
+      changedAt: new Date(),
+    };
+
+    // Persist from a copy so the application is left unchanged if the write fails
+    const rolledBack = LCPlatformApp.fromSnapshot(app.toSnapshot());
+    rolledBack.replaceDependencies(target.dependencies, change);
+    await this.persistVersion(rolledBack, bucket, newVersion, createdBy, change.reason);
+
+    app.replaceDependencies(target.dependencies, change);
+    app.currentVersion = newVersion;
+
+    return this.retrieveVersion(bucket, appPath, newVersion);
+  }
+
   /**
    * List all versions available for an application
    *
    * @param bucket - S3 bucket name
    * @param appPath - Application path (lcp-{account}-{team}-{moniker})
-   * @returns Array of version strings
+   * @returns Array of version strings in ascending semantic version order
    */
   async listVersions(bucket: string, appPath: string): Promise<string[]> {
     const prefix = `${appPath}/versions/`;
@@ -293,6 +820,55 @@ export class ConfigurationPersistence {
       }
     }
 
-    return Array.from(versions).sort();
+    return Array.from(versions).sort(compareVersions);
+  }
+
+  /**
+   * Get the highest semantic version available for an application
+   *
+   * @param bucket - S3 bucket name
+   * @param appPath - Application path (lcp-{account}-{team}-{moniker})
+   * @returns Latest version string, or undefined if no semantic versions exist
+   */
+  async getLatestVersion(bucket: string, appPath: string): Promise<string | undefined> {
+    return latestSemanticVersion(await this.listVersions(bucket, appPath));
+  }
+
+  /**
+   * Persist a new version, deriving its number from the latest persisted version
+   *
+   * The first version of an application is derived from v0.0.0.
+   *
+   * @param app - Application to persist
+   * @param bucket - S3 bucket name
+   * @param bump - Version component to increment
+   * @param createdBy - User who created this version
+   * @param changeLog - Description of changes
+   * @returns The version string that was written
+   * @throws ValidationError if the derived version folder already exists
+   */
+  async persistNextVersion(
+    app: LCPlatformApp,
+    bucket: string,
+    bump: VersionBump,
+    createdBy: string,
+    changeLog: string
+  ): Promise<string> {
+    const account = app.getAccountId() ?? 'unknown';
+    const appPath = generateAppPath(account, app.team, app.moniker);
+    const versions = await this.listVersions(bucket, appPath);
+    const nextVersion = incrementVersion(latestSemanticVersion(versions), bump);
+
+    if (versions.some((version) => isSameVersion(version, nextVersion))) {
+      throw new ValidationError(`Version ${nextVersion} already exists for ${appPath}`, {
+        version: nextVersion,
+        appPath,
+      });
+    }
+
+    await this.persistVersion(app, bucket, nextVersion, createdBy, changeLog);
+    app.currentVersion = nextVersion;
+
+    return nextVersion;
   }
 }
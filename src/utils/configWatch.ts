@@ -0,0 +1,163 @@
+/**
+ * Configuration Watching
+ *
+ * Change detection and polling shared by the ConfigClient implementations.
+ */
+
+import type {
+  ConfigChangeEvent,
+  ConfigChangeListener,
+  ConfigSubscription,
+  ConfigurationData,
+  ConfigWatchOptions,
+} from '../core/types/configuration';
+
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+
+/**
+ * List the dot-separated key paths that differ between two configurations
+ *
+ * Nested objects are compared key by key; arrays and other values are compared
+ * as a whole.
+ */
+export function diffConfiguration(
+  previous: ConfigurationData,
+  current: ConfigurationData,
+  prefix = ''
+): string[] {
+  const changed: string[] = [];
+
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    const path = prefix !== '' ? `${prefix}.${key}` : key;
+    const before = previous[key];
+    const after = current[key];
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+      changed.push(...diffConfiguration(before, after, path));
+    } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changed.push(path);
+    }
+  }
+
+  return changed.sort();
+}
+
+/**
+ * Read a value by key, falling back to a dot-separated path through nested objects
+ */
+export function getConfigValue(data: ConfigurationData, path: string): unknown {
+  if (path in data) {
+    return data[path];
+  }
+
+  let value: unknown = data;
+  for (const segment of path.split('.')) {
+    if (!isPlainObject(value)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Build a change event, or undefined when nothing changed
+ */
+export function createChangeEvent<T extends ConfigurationData>(
+  configName: string,
+  environment: string | undefined,
+  previous: T,
+  current: T
+): ConfigChangeEvent<T> | undefined {
+  const changedKeys = diffConfiguration(previous, current);
+  if (changedKeys.length === 0) {
+    return undefined;
+  }
+
+  return {
+    configName,
+    ...(environment !== undefined && { environment }),
+    previous,
+    current,
+    changedKeys,
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Deliver an event to a listener, reporting failures instead of throwing
+ */
+export function notifyListener<T extends ConfigurationData>(
+  listener: ConfigChangeListener<T>,
+  event: ConfigChangeEvent<T>,
+  onError?: (error: Error) => void
+): void {
+  const report = (error: unknown): void => {
+    onError?.(error instanceof Error ? error : new Error(String(error)));
+  };
+
+  try {
+    Promise.resolve(listener(event)).catch(report);
+  } catch (error) {
+    report(error);
+  }
+}
+
+/**
+ * Watch that re-reads a configuration on a fixed interval
+ *
+ * Polls run one at a time; a failed poll is reported through `onError` and the
+ * last known configuration is kept.
+ */
+export class ConfigPoller<T extends ConfigurationData> implements ConfigSubscription {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private stopped = false;
+  private readonly intervalMs: number;
+
+  constructor(
+    readonly configName: string,
+    private current: T,
+    private readonly fetch: () => Promise<T>,
+    private readonly listener: ConfigChangeListener<T>,
+    private readonly options: ConfigWatchOptions = {}
+  ) {
+    this.intervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.schedule();
+  }
+
+  unsubscribe(): void {
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  private schedule(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      void this.poll().finally(() => this.schedule());
+    }, this.intervalMs);
+    // Watching should not keep the process alive on its own
+    this.timer.unref?.();
+  }
+
+  private async poll(): Promise<void> {
+    let next: T;
+    try {
+      next = await this.fetch();
+    } catch (error) {
+      this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    const event = createChangeEvent(this.configName, this.options.environment, this.current, next);
+    this.current = next;
+    if (event !== undefined && !this.stopped) {
+      notifyListener(this.listener, event, this.options.onError);
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is ConfigurationData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,138 @@
+/**
+ * Dependency Graph
+ *
+ * Resolves references between dependencies of the same application and orders
+ * them so that referenced dependencies are created first.
+ */
+
+import type {
+  ApplicationDependency,
+  DependencyConfiguration,
+  DependencyReference,
+} from '../core/types/dependency';
+import { ValidationError } from '../core/types/common';
+
+/**
+ * Reference found in a dependency configuration, with the field it was declared in
+ */
+export interface LocatedReference {
+  field: string;
+  reference: DependencyReference;
+}
+
+/**
+ * Collect all references to other dependencies declared in a configuration
+ */
+export function collectReferences(configuration: DependencyConfiguration): LocatedReference[] {
+  const references: LocatedReference[] = [];
+
+  if (configuration.type === 'queue' && typeof configuration.deadLetterQueue === 'object') {
+    references.push({ field: 'deadLetterQueue', reference: configuration.deadLetterQueue });
+  }
+
+  if (configuration.type === 'function-hosting') {
+    configuration.eventSources?.forEach((eventSource, index) => {
+      references.push({ field: `eventSources[${index}].source`, reference: eventSource.source });
+    });
+  }
+
+  if (
+    configuration.type === 'web-hosting' ||
+    configuration.type === 'function-hosting' ||
+    configuration.type === 'batch'
+  ) {
+    configuration.dependsOn?.forEach((reference, index) => {
+      references.push({ field: `dependsOn[${index}]`, reference });
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Find reference cycles between dependencies
+ *
+ * References to unknown dependencies are ignored.
+ *
+ * @returns Each cycle as a list of dependency names, starting and ending with the same name
+ */
+export function findReferenceCycles(dependencies: ApplicationDependency[]): string[][] {
+  const edges = buildEdges(dependencies);
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (name: string): void => {
+    visiting.add(name);
+    stack.push(name);
+
+    for (const target of edges.get(name) ?? []) {
+      if (visiting.has(target)) {
+        cycles.push([...stack.slice(stack.indexOf(target)), target]);
+      } else if (!visited.has(target)) {
+        visit(target);
+      }
+    }
+
+    stack.pop();
+    visiting.delete(name);
+    visited.add(name);
+  };
+
+  for (const dependency of dependencies) {
+    if (!visited.has(dependency.name)) {
+      visit(dependency.name);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Order dependencies so that every dependency comes after the dependencies it references
+ *
+ * Declaration order is kept where references allow it. References to unknown
+ * dependencies are ignored.
+ *
+ * @throws ValidationError if the references contain a cycle
+ */
+export function sortByReferences(dependencies: ApplicationDependency[]): ApplicationDependency[] {
+  const edges = buildEdges(dependencies);
+  const remaining = new Map(dependencies.map((dep) => [dep.name, dep]));
+  const sorted: ApplicationDependency[] = [];
+
+  while (remaining.size > 0) {
+    const next = Array.from(remaining.values()).find((dep) =>
+      (edges.get(dep.name) ?? []).every((target) => !remaining.has(target))
+    );
+
+    if (next === undefined) {
+      const cycle = findReferenceCycles(Array.from(remaining.values()))[0] ?? [];
+      throw new ValidationError(`Circular dependency reference: ${cycle.join(' -> ')}`, {
+        cycle,
+      });
+    }
+
+    sorted.push(next);
+    remaining.delete(next.name);
+  }
+
+  return sorted;
+}
+
+/**
+ * Map each dependency name to the names of the known dependencies it references
+ */
+function buildEdges(dependencies: ApplicationDependency[]): Map<string, string[]> {
+  const names = new Set(dependencies.map((dep) => dep.name));
+
+  return new Map(
+    dependencies.map((dep) => [
+      dep.name,
+      collectReferences(dep.configuration)
+        .map(({ reference }) => reference.ref)
+        .filter((ref) => names.has(ref)),
+    ])
+  );
+}
@@ -0,0 +1,432 @@
+/**
+ * Dependency Planner
+ *
+ * Compares an application's declared dependencies with the resources that actually
+ * exist and produces a reviewable change set (plan) that can then be applied.
+ */
+
+import type { LCPlatformApp } from '../core/types/application';
+import type { ApplicationDependency, QueueConfiguration } from '../core/types/dependency';
+import { DependencyStatus, DependencyType } from '../core/types/dependency';
+import { ValidationError } from '../core/types/common';
+import { generateResourceName } from './nameGenerator';
+import {
+  DependencyProvisioner,
+  bucketExists,
+  findQueueUrl,
+  queueNameFromUrl,
+} from './dependencyProvisioner';
+import type { ProvisionerServices, ProvisionOptions } from './dependencyProvisioner';
+import type { FieldChange } from './versionDiff';
+import { getErrorMessage } from './error';
+
+/**
+ * Kind of change a plan action makes
+ */
+export enum PlanActionType {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  NO_OP = 'no-op',
+}
+
+/**
+ * A single planned change to a cloud resource
+ */
+export interface PlanAction {
+  action: PlanActionType;
+  type: DependencyType;
+  resourceName: string;
+  /**
+   * Declared dependency name; undefined for orphaned resources being deleted
+   */
+  dependencyName?: string;
+  reason: string;
+  /**
+   * Differences between declared and actual settings (UPDATE only)
+   */
+  changes?: FieldChange[];
+  /**
+   * True if the update cannot be made in place and the resource is recreated
+   */
+  requiresReplacement?: boolean;
+}
+
+/**
+ * Reviewable change set for an application's dependencies
+ */
+export interface DependencyPlan {
+  appId: string;
+  createdAt: Date;
+  actions: PlanAction[];
+  summary: Record<PlanActionType, number>;
+  hasChanges: boolean;
+}
+
+/**
+ * Outcome of applying a single plan action
+ */
+export interface PlanActionResult {
+  action: PlanAction;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Outcome of applying a plan
+ */
+export interface ApplyResult {
+  appId: string;
+  results: PlanActionResult[];
+  appliedCount: number;
+  failedCount: number;
+}
+
+/**
+ * Suffix of the dead-letter queue that QueueService creates for enableDeadLetter
+ */
+const DEAD_LETTER_SUFFIX = '-dlq';
+
+/**
+ * Check whether a resource name has the structure of one of the app's dependency names,
+ * `lcp-{account}-{team}-{moniker}-{serviceType}-{dependency}`
+ *
+ * A dependency part that holds another `{serviceType}-` segment is not matched, since the
+ * name may belong to an app whose moniker extends this one (e.g. `orders-queue`).
+ */
+function isOwnResourceName(
+  app: LCPlatformApp,
+  account: string,
+  serviceType: string,
+  name: string
+): boolean {
+  const prefix = `${generateResourceName(account, app.team, app.moniker, serviceType)}-`;
+  if (!name.startsWith(prefix)) {
+    return false;
+  }
+  const dependency = name.slice(prefix.length);
+  return /^[a-z0-9-]+$/.test(dependency) && !`-${dependency}`.includes(`-${serviceType}-`);
+}
+
+/**
+ * Plans and applies changes to an application's dependencies
+ *
+ * Drift is detected for object store, queue and secrets dependencies. Queue and
+ * secret resources named like the application's dependencies but no longer
+ * declared are planned for deletion; buckets are never deleted because the
+ * object store service cannot enumerate them.
+ */
+export class DependencyPlanner {
+  private readonly provisioner: DependencyProvisioner;
+
+  constructor(private readonly services: ProvisionerServices) {
+    this.provisioner = new DependencyProvisioner(services);
+  }
+
+  /**
+   * Compare declared dependencies with existing resources
+   *
+   * @param app - Application to plan for
+   * @returns Plan of create/update/delete/no-op actions
+   * @throws ValidationError if the application has no account ID
+   */
+  async plan(app: LCPlatformApp): Promise<DependencyPlan> {
+    const account = app.getAccountId();
+    if (account === undefined) {
+      throw new ValidationError('Cannot plan dependencies without an application account ID', {
+        appId: app.id,
+      });
+    }
+
+    const queueUrls =
+      this.services.queue !== undefined ? await this.services.queue.listQueues() : [];
+    const secretNames =
+      this.services.secrets !== undefined
+        ? (await this.services.secrets.listSecrets()).map((secret) => secret.name)
+        : [];
+
+    const actions: PlanAction[] = [];
+    for (const dependency of app.listDependencies()) {
+      const action = await this.planDependency(dependency, queueUrls, secretNames);
+      if (action !== undefined) {
+        actions.push(action);
+      }
+    }
+
+    actions.push(...this.planOrphans(app, account, queueUrls, secretNames));
+
+    const summary = {
+      [PlanActionType.CREATE]: 0,
+      [PlanActionType.UPDATE]: 0,
+      [PlanActionType.DELETE]: 0,
+      [PlanActionType.NO_OP]: 0,
+    };
+    for (const action of actions) {
+      summary[action.action]++;
+    }
+
+    return {
+      appId: app.id,
+      createdAt: new Date(),
+      actions,
+      summary,
+      hasChanges: actions.some((action) => action.action !== PlanActionType.NO_OP),
+    };
+  }
+
+  /**
+   * Execute the actions of a previously reviewed plan
+   *
+   * @param app - Application the plan was created for
+   * @param plan - Plan returned by plan()
+   * @param deployedBy - User or pipeline applying the plan
+   * @param options - Additional provisioning inputs for created resources
+   * @returns Per-action results
+   * @throws ValidationError if the plan belongs to a different application
+   */
+  async apply(
+    app: LCPlatformApp,
+    plan: DependencyPlan,
+    deployedBy: string,
+    options: ProvisionOptions = {}
+  ): Promise<ApplyResult> {
+    if (plan.appId !== app.id) {
+      throw new ValidationError(`Plan was created for application ${plan.appId}, not ${app.id}`, {
+        planAppId: plan.appId,
+        appId: app.id,
+      });
+    }
+
+    const results: PlanActionResult[] = [];
+    for (const action of plan.actions) {
+      if (action.action === PlanActionType.NO_OP) {
+        continue;
+      }
+      results.push(await this.applyAction(app, action, deployedBy, options));
+    }
+
+    return {
+      appId: app.id,
+      results,
+      appliedCount: results.filter((result) => result.success).length,
+      failedCount: results.filter((result) => !result.success).length,
+    };
+  }
+
+  /**
+   * Plan the action for a single declared dependency
+   */
+  private async planDependency(
+    dependency: ApplicationDependency,
+    queueUrls: string[],
+    secretNames: string[]
+  ): Promise<PlanAction | undefined> {
+    const resourceName = dependency.generatedName;
+    if (resourceName === undefined) {
+      return undefined;
+    }
+
+    const base = { type: dependency.type, resourceName, dependencyName: dependency.name };
+
+    switch (dependency.type) {
+      case DependencyType.OBJECT_STORE: {
+        if (this.services.objectStore === undefined) {
+          return undefined;
+        }
+        const exists = await bucketExists(this.services.objectStore, resourceName);
+        return exists
+          ? { ...base, action: PlanActionType.NO_OP, reason: 'Bucket exists' }
+          : { ...base, action: PlanActionType.CREATE, reason: 'Bucket does not exist' };
+      }
+
+      case DependencyType.QUEUE: {
+        if (this.services.queue === undefined) {
+          return undefined;
+        }
+        const url = findQueueUrl(queueUrls, resourceName);
+        if (url === undefined) {
+          return { ...base, action: PlanActionType.CREATE, reason: 'Queue does not exist' };
+        }
+        const changes = await this.diffQueue(url, dependency.configuration as QueueConfiguration);
+        if (changes.length === 0) {
+          return { ...base, action: PlanActionType.NO_OP, reason: 'Queue matches configuration' };
+        }
+        // A queue cannot switch between standard and FIFO; other attributes change in place
+        const requiresReplacement = changes.some((change) => change.path === 'fifo');
+        return {
+          ...base,
+          action: PlanActionType.UPDATE,
+          reason: 'Queue attributes differ from configuration',
+          changes,
+          ...(requiresReplacement && { requiresReplacement }),
+        };
+      }
+
+      case DependencyType.SECRETS: {
+        if (this.services.secrets === undefined) {
+          return undefined;
+        }
+        return secretNames.includes(resourceName)
+          ? { ...base, action: PlanActionType.NO_OP, reason: 'Secret exists' }
+          : { ...base, action: PlanActionType.CREATE, reason: 'Secret does not exist' };
+      }
+
+      case DependencyType.DATA_STORE: {
+        if (this.services.dataStore === undefined) {
+          return undefined;
+        }
+        // Database existence cannot be inspected through the service; rely on status
+        return dependency.status === DependencyStatus.DEPLOYED
+          ? { ...base, action: PlanActionType.NO_OP, reason: 'Data store already deployed' }
+          : { ...base, action: PlanActionType.CREATE, reason: 'Data store not yet deployed' };
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Plan deletion of queues and secrets named like this app's dependencies that are no
+   * longer declared
+   *
+   * Dead-letter queues are left out; deleteQueue removes them with their source queue.
+   */
+  private planOrphans(
+    app: LCPlatformApp,
+    account: string,
+    queueUrls: string[],
+    secretNames: string[]
+  ): PlanAction[] {
+    const declared = new Set(
+      app
+        .listDependencies()
+        .map((dep) => dep.generatedName)
+        .filter((name): name is string => name !== undefined)
+    );
+    const actions: PlanAction[] = [];
+
+    // queueNameFromUrl drops `.fifo`, so this also covers `<name>-dlq.fifo`
+    const queueNames = queueUrls.map(queueNameFromUrl);
+    const deadLetterQueues = new Set(
+      [...declared, ...queueNames].map((name) => `${name}${DEAD_LETTER_SUFFIX}`)
+    );
+    for (const name of queueNames) {
+      if (
+        isOwnResourceName(app, account, 'queue', name) &&
+        !declared.has(name) &&
+        !deadLetterQueues.has(name)
+      ) {
+        actions.push({
+          action: PlanActionType.DELETE,
+          type: DependencyType.QUEUE,
+          resourceName: name,
+          reason: 'Queue is no longer declared',
+        });
+      }
+    }
+
+    for (const name of secretNames) {
+      if (isOwnResourceName(app, account, 'secret', name) && !declared.has(name)) {
+        actions.push({
+          action: PlanActionType.DELETE,
+          type: DependencyType.SECRETS,
+          resourceName: name,
+          reason: 'Secret is no longer declared',
+        });
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Execute a single plan action
+   */
+  private async applyAction(
+    app: LCPlatformApp,
+    action: PlanAction,
+    deployedBy: string,
+    options: ProvisionOptions
+  ): Promise<PlanActionResult> {
+    try {
+      if (action.action === PlanActionType.DELETE || action.requiresReplacement === true) {
+        await this.deleteResource(action);
+      }
+
+      if (action.action === PlanActionType.DELETE || action.dependencyName === undefined) {
+        return { action, success: true };
+      }
+
+      const provisioned = await this.provisioner.provision(app, deployedBy, {
+        ...options,
+        only: [action.dependencyName],
+        redeploy: true,
+      });
+      const error = provisioned.results[0]?.error;
+
+      return error === undefined ? { action, success: true } : { action, success: false, error };
+    } catch (error) {
+      return { action, success: false, error: getErrorMessage(error) };
+    }
+  }
+
+  /**
+   * Delete the resource targeted by a plan action
+   */
+  private async deleteResource(action: PlanAction): Promise<void> {
+    if (action.type === DependencyType.QUEUE && this.services.queue !== undefined) {
+      const url = findQueueUrl(await this.services.queue.listQueues(), action.resourceName);
+      if (url !== undefined) {
+        await this.services.queue.deleteQueue(url);
+      }
+    } else if (action.type === DependencyType.SECRETS && this.services.secrets !== undefined) {
+      // Keep the recovery window so a secret deleted by mistake can be restored
+      await this.services.secrets.deleteSecret(action.resourceName);
+    } else {
+      throw new Error(`Deleting ${action.type} resources is not supported`);
+    }
+  }
+
+  /**
+   * Compare actual queue attributes with the declared configuration
+   */
+  private async diffQueue(url: string, config: QueueConfiguration): Promise<FieldChange[]> {
+    const queue = await this.services.queue?.getQueue(url);
+    const changes: FieldChange[] = [];
+
+    if (queue?.fifo !== undefined && queue.fifo !== config.fifo) {
+      changes.push({ path: 'fifo', oldValue: queue.fifo, newValue: config.fifo });
+    }
+    if (
+      queue?.visibilityTimeout !== undefined &&
+      queue.visibilityTimeout !== config.visibilityTimeout
+    ) {
+      changes.push({
+        path: 'visibilityTimeout',
+        oldValue: queue.visibilityTimeout,
+        newValue: config.visibilityTimeout,
+      });
+    }
+    if (
+      queue?.messageRetention !== undefined &&
+      queue.messageRetention !== config.messageRetention
+    ) {
+      changes.push({
+        path: 'messageRetention',
+        oldValue: queue.messageRetention,
+        newValue: config.messageRetention,
+      });
+    }
+    // Redrive can be added or changed in place, but not removed through updateQueue
+    if (config.maxReceiveCount !== undefined && queue?.maxReceiveCount !== config.maxReceiveCount) {
+      changes.push({
+        path: 'maxReceiveCount',
+        oldValue: queue?.maxReceiveCount,
+        newValue: config.maxReceiveCount,
+      });
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,458 @@
+/**
+ * Dependency Provisioner
+ *
+ * Turns an application's declared dependencies into real resources through the service layer
+ */
+
+import type { LCPlatformApp } from '../core/types/application';
+import type {
+  ApplicationDependency,
+  ObjectStoreConfiguration,
+  QueueConfiguration,
+  SecretsConfiguration,
+} from '../core/types/dependency';
+import { DependencyStatus, DependencyType, EncryptionType } from '../core/types/dependency';
+import type { ObjectStoreService } from '../core/services/ObjectStoreService';
+import type { QueueService } from '../core/services/QueueService';
+import type { SecretsService } from '../core/services/SecretsService';
+import type { DataStoreService } from '../core/services/DataStoreService';
+import type { BucketOptions } from '../core/types/object';
+import type { QueueOptions, QueueUpdateOptions } from '../core/types/queue';
+import type { Migration } from '../core/types/datastore';
+import type { SecretValue } from '../core/types/secret';
+import { ResourceNotFoundError, ValidationError } from '../core/types/common';
+import { DependencyValidator } from './dependencyValidator';
+import { getErrorMessage } from './error';
+
+/**
+ * Statuses of dependencies with a deployment or deletion in progress
+ */
+const IN_PROGRESS_STATUSES: readonly DependencyStatus[] = [
+  DependencyStatus.DEPLOYING,
+  DependencyStatus.UPDATING,
+  DependencyStatus.DELETING,
+];
+
+/**
+ * Services used to provision dependencies; types without a service are skipped
+ */
+export interface ProvisionerServices {
+  objectStore?: ObjectStoreService;
+  queue?: QueueService;
+  secrets?: SecretsService;
+  dataStore?: DataStoreService;
+}
+
+/**
+ * Per-dependency inputs that are not part of the declared configuration
+ */
+export interface ProvisionOptions {
+  /**
+   * Initial secret values keyed by dependency name; secrets without one fail to provision
+   * until a value is given
+   */
+  secretValues?: Record<string, SecretValue>;
+
+  /**
+   * Data store connection strings keyed by dependency name
+   */
+  connectionStrings?: Record<string, string>;
+
+  /**
+   * Data store migrations keyed by dependency name
+   */
+  migrations?: Record<string, Migration[]>;
+
+  /**
+   * Only provision these dependency names (defaults to all)
+   */
+  only?: string[];
+
+  /**
+   * Also provision dependencies already marked DEPLOYED (e.g. after drift is detected);
+   * existing resources are updated in place and missing ones are created
+   */
+  redeploy?: boolean;
+}
+
+/**
+ * Outcome of provisioning a single dependency
+ */
+export interface DependencyProvisionResult {
+  name: string;
+  type: DependencyType;
+  status: DependencyStatus;
+  resourceName?: string;
+  error?: string;
+  skipped?: boolean;
+}
+
+/**
+ * Outcome of provisioning an application's dependencies
+ */
+export interface ProvisionResult {
+  appId: string;
+  results: DependencyProvisionResult[];
+  deployedCount: number;
+  failedCount: number;
+  skippedCount: number;
+}
+
+/**
+ * Provisions application dependencies and records their deployment status
+ *
+ * Each dependency is validated, moved to DEPLOYING (or UPDATING when redeploying),
+ * created through the matching service and then marked DEPLOYED or FAILED. A failure does not stop the
+ * remaining dependencies from being provisioned.
+ */
+export class DependencyProvisioner {
+  private readonly validator = new DependencyValidator();
+
+  constructor(private readonly services: ProvisionerServices) {}
+
+  /**
+   * Provision all pending or failed dependencies of an application
+   *
+   * Dependencies are provisioned in creation order so referenced dependencies exist
+   * first. Dependencies already DEPLOYED are skipped unless options.redeploy is set, and
+   * dependencies being deployed, updated or deleted by another run are always skipped.
+   *
+   * @param app - Application whose dependencies to provision
+   * @param deployedBy - User or pipeline performing the deployment
+   * @param options - Additional provisioning inputs
+   * @returns Per-dependency results
+   * @throws ValidationError if dependency references contain a cycle
+   */
+  async provision(
+    app: LCPlatformApp,
+    deployedBy: string,
+    options: ProvisionOptions = {}
+  ): Promise<ProvisionResult> {
+    const dependencies = app
+      .getCreationOrder()
+      .filter((dep) => options.only === undefined || options.only.includes(dep.name));
+
+    const results: DependencyProvisionResult[] = [];
+    for (const dependency of dependencies) {
+      results.push(await this.provisionDependency(app, dependency, deployedBy, options));
+    }
+
+    return {
+      appId: app.id,
+      results,
+      deployedCount: results.filter(
+        (r) => r.status === DependencyStatus.DEPLOYED && r.skipped !== true
+      ).length,
+      failedCount: results.filter((r) => r.status === DependencyStatus.FAILED).length,
+      skippedCount: results.filter((r) => r.skipped === true).length,
+    };
+  }
+
+  /**
+   * Provision a single dependency and update its status on the application
+   */
+  private async provisionDependency(
+    app: LCPlatformApp,
+    dependency: ApplicationDependency,
+    deployedBy: string,
+    options: ProvisionOptions
+  ): Promise<DependencyProvisionResult> {
+    const base = {
+      name: dependency.name,
+      type: dependency.type,
+      ...(dependency.generatedName !== undefined && { resourceName: dependency.generatedName }),
+    };
+
+    const alreadyDeployed =
+      dependency.status === DependencyStatus.DEPLOYED && options.redeploy !== true;
+    if (
+      alreadyDeployed ||
+      IN_PROGRESS_STATUSES.includes(dependency.status) ||
+      !this.canProvision(dependency.type)
+    ) {
+      return { ...base, status: dependency.status, skipped: true };
+    }
+
+    // Redeploying an existing resource goes through UPDATING rather than the initial flow
+    const redeploying = dependency.status === DependencyStatus.DEPLOYED;
+    if (redeploying) {
+      app.updateDependency(dependency.name, {
+        status: DependencyStatus.UPDATING,
+        actor: deployedBy,
+        reason: 'Redeploying dependency',
+      });
+    }
+
+    const validation = this.validator.validateDependency(dependency);
+    if (!validation.valid) {
+      const error = validation.errors?.map((e) => e.message).join('; ') ?? 'Validation failed';
+      this.markFailed(app, dependency, deployedBy, error);
+      return { ...base, status: DependencyStatus.FAILED, error };
+    }
+
+    if (dependency.generatedName === undefined) {
+      const error = 'Dependency has no generated resource name; set the application account ID';
+      this.markFailed(app, dependency, deployedBy, error);
+      return { ...base, status: DependencyStatus.FAILED, error };
+    }
+
+    if (!redeploying) {
+      if (dependency.status !== DependencyStatus.VALIDATED) {
+        app.updateDependency(dependency.name, {
+          status: DependencyStatus.VALIDATED,
+          actor: deployedBy,
+          reason: 'Configuration validated',
+        });
+      }
+      app.updateDependency(dependency.name, {
+        status: DependencyStatus.DEPLOYING,
+        actor: deployedBy,
+        reason: 'Creating resource',
+      });
+    }
+
+    try {
+      if (options.redeploy === true) {
+        await this.updateResource(app, dependency, dependency.generatedName, options);
+      } else {
+        await this.createResource(app, dependency, dependency.generatedName, options);
+      }
+    } catch (error) {
+      const message = getErrorMessage(error);
+      this.markFailed(app, dependency, deployedBy, message);
+      return { ...base, status: DependencyStatus.FAILED, error: message };
+    }
+
+    app.updateDependency(dependency.name, {
+      status: DependencyStatus.DEPLOYED,
+      actor: deployedBy,
+      reason: redeploying ? 'Resource updated' : 'Resource created',
+      deployedBy,
+    });
+
+    return { ...base, status: DependencyStatus.DEPLOYED };
+  }
+
+  /**
+   * Check whether a service is available for a dependency type
+   */
+  private canProvision(type: DependencyType): boolean {
+    switch (type) {
+      case DependencyType.OBJECT_STORE:
+        return this.services.objectStore !== undefined;
+      case DependencyType.QUEUE:
+        return this.services.queue !== undefined;
+      case DependencyType.SECRETS:
+        return this.services.secrets !== undefined;
+      case DependencyType.DATA_STORE:
+        return this.services.dataStore !== undefined;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Create the cloud resource for a dependency through its service
+   */
+  private async createResource(
+    app: LCPlatformApp,
+    dependency: ApplicationDependency,
+    resourceName: string,
+    options: ProvisionOptions
+  ): Promise<void> {
+    const { objectStore, queue, secrets, dataStore } = this.services;
+
+    if (dependency.type === DependencyType.OBJECT_STORE && objectStore !== undefined) {
+      const config = dependency.configuration as ObjectStoreConfiguration;
+      await objectStore.createBucket(resourceName, toBucketOptions(config));
+    } else if (dependency.type === DependencyType.QUEUE && queue !== undefined) {
+      const config = dependency.configuration as QueueConfiguration;
+      const deadLetterQueueUrl = await resolveDeadLetterQueueUrl(app, config, queue);
+      await queue.createQueue(resourceName, toQueueOptions(config, deadLetterQueueUrl));
+    } else if (dependency.type === DependencyType.SECRETS && secrets !== undefined) {
+      const config = dependency.configuration as SecretsConfiguration;
+      const value = options.secretValues?.[dependency.name];
+      if (value === undefined) {
+        throw new ValidationError(
+          `No value given for secret dependency ${dependency.name}; pass it in secretValues`
+        );
+      }
+      await secrets.createSecret({
+        name: resourceName,
+        value,
+        ...(config.description !== undefined && { description: config.description }),
+        tags: app.toResourceTags(),
+      });
+    } else if (dependency.type === DependencyType.DATA_STORE && dataStore !== undefined) {
+      // Database instances are created by the provider; set up the schema through the service
+      await dataStore.connect(options.connectionStrings?.[dependency.name]);
+      const migrations = options.migrations?.[dependency.name] ?? [];
+      if (migrations.length > 0) {
+        await dataStore.migrate(migrations);
+      }
+    } else {
+      throw new Error(`Provisioning is not supported for dependency type ${dependency.type}`);
+    }
+  }
+
+  /**
+   * Update the existing resource of a dependency in place, or create it if it is missing
+   */
+  private async updateResource(
+    app: LCPlatformApp,
+    dependency: ApplicationDependency,
+    resourceName: string,
+    options: ProvisionOptions
+  ): Promise<void> {
+    const { objectStore, queue, secrets } = this.services;
+
+    if (dependency.type === DependencyType.OBJECT_STORE && objectStore !== undefined) {
+      // Bucket options are only applied on creation, so an existing bucket is kept as is
+      if (await bucketExists(objectStore, resourceName)) {
+        return;
+      }
+    } else if (dependency.type === DependencyType.QUEUE && queue !== undefined) {
+      const url = findQueueUrl(await queue.listQueues(), resourceName);
+      if (url !== undefined) {
+        const config = dependency.configuration as QueueConfiguration;
+        const deadLetterQueueUrl = await resolveDeadLetterQueueUrl(app, config, queue);
+        await queue.updateQueue(url, toQueueSettings(config, deadLetterQueueUrl));
+        return;
+      }
+    } else if (dependency.type === DependencyType.SECRETS && secrets !== undefined) {
+      const existing = await secrets.listSecrets();
+      if (existing.some((secret) => secret.name === resourceName)) {
+        // Keep the current value unless a new one is given
+        const value = options.secretValues?.[dependency.name];
+        if (value !== undefined) {
+          await secrets.updateSecret(resourceName, { value });
+        }
+        await secrets.tagSecret(resourceName, app.toResourceTags());
+        return;
+      }
+    }
+
+    await this.createResource(app, dependency, resourceName, options);
+  }
+
+  /**
+   * Record a failed deployment on the dependency
+   */
+  private markFailed(
+    app: LCPlatformApp,
+    dependency: ApplicationDependency,
+    actor: string,
+    error: string
+  ): void {
+    app.updateDependency(dependency.name, {
+      status: DependencyStatus.FAILED,
+      actor,
+      reason: error,
+      deploymentError: error,
+    });
+  }
+}
+
+/**
+ * Map an object store dependency configuration to bucket options
+ */
+function toBucketOptions(config: ObjectStoreConfiguration): BucketOptions {
+  const lifecycle = (config.lifecycleRules ?? [])
+    .filter((rule) => rule.enabled && rule.expirationDays !== undefined)
+    .map((rule) => ({ prefix: rule.prefix ?? '', expirationDays: rule.expirationDays ?? 0 }));
+
+  return {
+    versioning: config.versioning,
+    encryption: config.encryption !== EncryptionType.NONE,
+    publicRead: config.publicAccess,
+    ...(lifecycle.length > 0 && { lifecycle }),
+  };
+}
+
+/**
+ * Map a queue dependency configuration to queue options
+ */
+function toQueueOptions(config: QueueConfiguration, deadLetterQueueUrl?: string): QueueOptions {
+  return { fifo: config.fifo, ...toQueueSettings(config, deadLetterQueueUrl) };
+}
+
+/**
+ * Map a queue dependency configuration to the options that can change after creation
+ *
+ * @param deadLetterQueueUrl - URL of the declared deadLetterQueue; without one the
+ * provider creates a dead-letter queue when maxReceiveCount is set
+ */
+function toQueueSettings(
+  config: QueueConfiguration,
+  deadLetterQueueUrl?: string
+): QueueUpdateOptions {
+  return {
+    visibilityTimeout: config.visibilityTimeout,
+    messageRetention: config.messageRetention,
+    ...(config.maxReceiveCount !== undefined && {
+      enableDeadLetter: true,
+      deadLetterAfterRetries: config.maxReceiveCount,
+    }),
+    ...(deadLetterQueueUrl !== undefined && { deadLetterQueueUrl }),
+  };
+}
+
+/**
+ * Resolve the declared deadLetterQueue of a queue dependency (a queue name or a
+ * reference to another queue dependency) to its URL
+ *
+ * @throws ResourceNotFoundError if the queue does not exist
+ */
+async function resolveDeadLetterQueueUrl(
+  app: LCPlatformApp,
+  config: QueueConfiguration,
+  queue: QueueService
+): Promise<string | undefined> {
+  const { deadLetterQueue } = config;
+  if (deadLetterQueue === undefined || deadLetterQueue === '') {
+    return undefined;
+  }
+
+  const name =
+    typeof deadLetterQueue === 'string'
+      ? deadLetterQueue
+      : (app.getDependency(deadLetterQueue.ref)?.generatedName ?? deadLetterQueue.ref);
+  const url = findQueueUrl(await queue.listQueues(), name);
+  if (url === undefined) {
+    throw new ResourceNotFoundError('Queue', name);
+  }
+  return url;
+}
+
+/**
+ * Check whether a bucket exists
+ */
+export async function bucketExists(
+  objectStore: ObjectStoreService,
+  bucket: string
+): Promise<boolean> {
+  try {
+    await objectStore.listObjects(bucket);
+    return true;
+  } catch (error) {
+    if (error instanceof ResourceNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Extract the queue name from a queue URL, dropping any FIFO suffix
+ */
+export function queueNameFromUrl(url: string): string {
+  const name = url.split('/').pop() ?? url;
+  return name.endsWith('.fifo') ? name.slice(0, -'.fifo'.length) : name;
+}
+
+/**
+ * Find the URL of a queue by resource name
+ */
+export function findQueueUrl(queueUrls: string[], name: string): string | undefined {
+  return queueUrls.find((url) => queueNameFromUrl(url) === name);
+}
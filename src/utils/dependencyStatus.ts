@@ -0,0 +1,69 @@
+/**
+ * Dependency Status State Machine
+ *
+ * Defines which lifecycle status changes are allowed for a dependency
+ */
+
+import { LCPlatformError } from '../core/types/common';
+import { DependencyErrorCode, DependencyStatus } from '../core/types/dependency';
+
+/**
+ * Allowed target statuses for each dependency status
+ */
+export const DEPENDENCY_STATUS_TRANSITIONS: Readonly<
+  Record<DependencyStatus, readonly DependencyStatus[]>
+> = {
+  [DependencyStatus.PENDING]: [DependencyStatus.VALIDATED, DependencyStatus.FAILED],
+  [DependencyStatus.VALIDATED]: [
+    DependencyStatus.DEPLOYING,
+    DependencyStatus.PENDING,
+    DependencyStatus.FAILED,
+  ],
+  [DependencyStatus.DEPLOYING]: [DependencyStatus.DEPLOYED, DependencyStatus.FAILED],
+  [DependencyStatus.DEPLOYED]: [DependencyStatus.UPDATING, DependencyStatus.DELETING],
+  [DependencyStatus.UPDATING]: [DependencyStatus.DEPLOYED, DependencyStatus.FAILED],
+  [DependencyStatus.DELETING]: [DependencyStatus.PENDING, DependencyStatus.FAILED],
+  [DependencyStatus.FAILED]: [
+    DependencyStatus.PENDING,
+    DependencyStatus.VALIDATED,
+    DependencyStatus.DELETING,
+  ],
+};
+
+/**
+ * Raised when a dependency is moved to a status not reachable from its current one
+ */
+export class InvalidStateTransitionError extends LCPlatformError {
+  constructor(from: DependencyStatus, to: DependencyStatus, details?: Record<string, unknown>) {
+    super(
+      `Invalid dependency status transition: ${from} -> ${to}`,
+      DependencyErrorCode.INVALID_STATE_TRANSITION,
+      false,
+      { from, to, ...details }
+    );
+    this.name = 'InvalidStateTransitionError';
+    Object.setPrototypeOf(this, InvalidStateTransitionError.prototype);
+  }
+}
+
+/**
+ * Check whether a dependency may move from one status to another
+ */
+export function canTransition(from: DependencyStatus, to: DependencyStatus): boolean {
+  return DEPENDENCY_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Ensure a status transition is allowed
+ *
+ * @throws InvalidStateTransitionError if the transition is not in the table
+ */
+export function assertTransition(
+  from: DependencyStatus,
+  to: DependencyStatus,
+  details?: Record<string, unknown>
+): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidStateTransitionError(from, to, details);
+  }
+}
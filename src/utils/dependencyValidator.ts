@@ -11,6 +11,20 @@ import type {
   DependencyError,
 } from '../core/types/dependency';
 import { DependencyType, DependencyErrorCode } from '../core/types/dependency';
+import { collectReferences, findReferenceCycles } from './dependencyGraph';
+
+/**
+ * JSON schema for a reference to another dependency of the same application
+ */
+const referenceSchema = {
+  type: 'object',
+  required: ['ref'],
+  properties: {
+    ref: { type: 'string', minLength: 1 },
+    type: { type: 'string', enum: Object.values(DependencyType) },
+  },
+  additionalProperties: false,
+};
 
 /**
  * Validation result interface
@@ -63,7 +77,7 @@ export class DependencyValidator {
         visibilityTimeout: { type: 'integer', minimum: 0, maximum: 43200 },
         messageRetention: { type: 'integer', minimum: 60, maximum: 1209600 },
         encryption: { type: 'boolean' },
-        deadLetterQueue: { type: 'string' },
+        deadLetterQueue: { anyOf: [{ type: 'string' }, referenceSchema] },
         maxReceiveCount: { type: 'integer', minimum: 1, maximum: 1000 },
       },
       additionalProperties: false,
@@ -72,17 +86,132 @@ export class DependencyValidator {
     // Secrets schema
     this.schemaValidator.registerSchema('secrets', {
       type: 'object',
-      required: ['type', 'encryption'],
+      required: ['type', 'secretName'],
       properties: {
         type: { const: 'secrets' },
-        secretName: { type: 'string' },
-        encryption: { type: 'boolean' },
+        secretName: { type: 'string', minLength: 1 },
+        description: { type: 'string' },
         rotationEnabled: { type: 'boolean' },
         rotationDays: { type: 'integer', minimum: 1, maximum: 365 },
       },
       additionalProperties: false,
     });
 
+    // Data Store schema
+    this.schemaValidator.registerSchema('data-store', {
+      type: 'object',
+      required: ['type', 'engine', 'instanceClass', 'allocatedStorage'],
+      properties: {
+        type: { const: 'data-store' },
+        engine: { type: 'string', enum: ['postgres', 'mysql', 'mariadb'] },
+        engineVersion: { type: 'string' },
+        instanceClass: { type: 'string' },
+        allocatedStorage: { type: 'integer', minimum: 20, maximum: 65536 },
+        multiAZ: { type: 'boolean' },
+        backupRetention: { type: 'integer', minimum: 0, maximum: 35 },
+        encrypted: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    });
+
+    // Configuration schema
+    this.schemaValidator.registerSchema('configuration', {
+      type: 'object',
+      required: ['type', 'contentType'],
+      properties: {
+        type: { const: 'configuration' },
+        configurationName: { type: 'string', minLength: 1 },
+        contentType: {
+          type: 'string',
+          enum: ['application/json', 'application/x-yaml', 'text/plain'],
+        },
+        description: { type: 'string' },
+        deploymentStrategy: { type: 'string' },
+      },
+      additionalProperties: false,
+    });
+
+    // Document Store schema
+    this.schemaValidator.registerSchema('document-store', {
+      type: 'object',
+      required: ['type', 'encryption'],
+      properties: {
+        type: { const: 'document-store' },
+        collectionName: { type: 'string', minLength: 1 },
+        indexes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['field'],
+            properties: {
+              field: { type: 'string', minLength: 1 },
+              unique: { type: 'boolean' },
+              sparse: { type: 'boolean' },
+            },
+            additionalProperties: false,
+          },
+        },
+        ttl: { type: 'integer', minimum: 1 },
+        encryption: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    });
+
+    // Event Bus schema
+    this.schemaValidator.registerSchema('event-bus', {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { const: 'event-bus' },
+        busName: { type: 'string', minLength: 1 },
+        rules: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string', minLength: 1 },
+              source: { type: 'array', items: { type: 'string' } },
+              eventType: { type: 'array', items: { type: 'string' } },
+              description: { type: 'string' },
+              enabled: { type: 'boolean' },
+            },
+            additionalProperties: false,
+          },
+        },
+        archiveRetentionDays: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    });
+
+    // Notification schema
+    this.schemaValidator.registerSchema('notification', {
+      type: 'object',
+      required: ['type', 'fifo', 'encryption'],
+      properties: {
+        type: { const: 'notification' },
+        topicName: { type: 'string', minLength: 1 },
+        fifo: { type: 'boolean' },
+        encryption: { type: 'boolean' },
+        subscriptions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['protocol', 'endpoint'],
+            properties: {
+              protocol: {
+                type: 'string',
+                enum: ['email', 'sms', 'http', 'https', 'webhook', 'sqs', 'lambda'],
+              },
+              endpoint: { type: 'string', minLength: 1 },
+            },
+            additionalProperties: false,
+          },
+        },
+      },
+      additionalProperties: false,
+    });
+
     // Cache schema
     this.schemaValidator.registerSchema('cache', {
       type: 'object',
@@ -95,6 +224,107 @@ export class DependencyValidator {
         nodeType: { type: 'string' },
         numCacheNodes: { type: 'integer', minimum: 1 },
         port: { type: 'integer', minimum: 1, maximum: 65535 },
+        encryption: { type: 'boolean' },
+        authTokenEnabled: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    });
+
+    // Web Hosting schema
+    this.schemaValidator.registerSchema('web-hosting', {
+      type: 'object',
+      required: ['type', 'image', 'cpu', 'memory'],
+      properties: {
+        type: { const: 'web-hosting' },
+        serviceName: { type: 'string', minLength: 1 },
+        image: { type: 'string', minLength: 1 },
+        port: { type: 'integer', minimum: 1, maximum: 65535 },
+        cpu: { type: 'number', exclusiveMinimum: 0 },
+        memory: { type: 'integer', minimum: 128 },
+        minInstances: { type: 'integer', minimum: 0 },
+        maxInstances: { type: 'integer', minimum: 1 },
+        environment: { type: 'object', additionalProperties: { type: 'string' } },
+        dependsOn: { type: 'array', items: referenceSchema },
+      },
+      additionalProperties: false,
+    });
+
+    // Function Hosting schema
+    this.schemaValidator.registerSchema('function-hosting', {
+      type: 'object',
+      required: ['type', 'runtime', 'handler'],
+      properties: {
+        type: { const: 'function-hosting' },
+        functionName: { type: 'string', minLength: 1 },
+        runtime: { type: 'string', minLength: 1 },
+        handler: { type: 'string', minLength: 1 },
+        memorySize: { type: 'integer', minimum: 128, maximum: 10240 },
+        timeout: { type: 'integer', minimum: 1, maximum: 900 },
+        environment: { type: 'object', additionalProperties: { type: 'string' } },
+        eventSources: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['source'],
+            properties: {
+              source: referenceSchema,
+              batchSize: { type: 'integer', minimum: 1, maximum: 10000 },
+              enabled: { type: 'boolean' },
+            },
+            additionalProperties: false,
+          },
+        },
+        dependsOn: { type: 'array', items: referenceSchema },
+      },
+      additionalProperties: false,
+    });
+
+    // Batch schema
+    this.schemaValidator.registerSchema('batch', {
+      type: 'object',
+      required: ['type', 'image', 'cpu', 'memory'],
+      properties: {
+        type: { const: 'batch' },
+        jobName: { type: 'string', minLength: 1 },
+        image: { type: 'string', minLength: 1 },
+        command: { type: 'array', items: { type: 'string' } },
+        cpu: { type: 'number', exclusiveMinimum: 0 },
+        memory: { type: 'integer', minimum: 128 },
+        timeout: { type: 'integer', minimum: 1 },
+        retryCount: { type: 'integer', minimum: 0, maximum: 10 },
+        schedule: { type: 'string', minLength: 1 },
+        environment: { type: 'object', additionalProperties: { type: 'string' } },
+        dependsOn: { type: 'array', items: referenceSchema },
+      },
+      additionalProperties: false,
+    });
+
+    // Authentication schema
+    this.schemaValidator.registerSchema('authentication', {
+      type: 'object',
+      required: ['type', 'provider', 'domain', 'clientId'],
+      properties: {
+        type: { const: 'authentication' },
+        provider: { type: 'string', enum: ['okta', 'auth0', 'azure-ad'] },
+        domain: { type: 'string', minLength: 1 },
+        clientId: { type: 'string', minLength: 1 },
+        scopes: { type: 'array', items: { type: 'string' } },
+        redirectUri: { type: 'string', minLength: 1 },
+      },
+      additionalProperties: false,
+    });
+
+    // Container Repository schema
+    this.schemaValidator.registerSchema('container-repo', {
+      type: 'object',
+      required: ['type', 'imageScanOnPush'],
+      properties: {
+        type: { const: 'container-repo' },
+        repositoryName: { type: 'string', minLength: 2, maxLength: 256 },
+        imageScanOnPush: { type: 'boolean' },
+        encryption: { type: 'string', enum: ['aes256', 'kms'] },
+        imageTagMutability: { type: 'string', enum: ['mutable', 'immutable'] },
+        maxImageCount: { type: 'integer', minimum: 1 },
       },
       additionalProperties: false,
     });
@@ -160,11 +390,10 @@ export class DependencyValidator {
     // Queue-specific validations
     if (type === DependencyType.QUEUE && configuration.type === 'queue') {
       const queueConfig = configuration;
-      if (
-        queueConfig.deadLetterQueue !== undefined &&
-        queueConfig.deadLetterQueue.length > 0 &&
-        queueConfig.maxReceiveCount === undefined
-      ) {
+      const hasDeadLetterQueue =
+        typeof queueConfig.deadLetterQueue === 'object' ||
+        (queueConfig.deadLetterQueue !== undefined && queueConfig.deadLetterQueue.length > 0);
+      if (hasDeadLetterQueue && queueConfig.maxReceiveCount === undefined) {
         errors.push({
           code: DependencyErrorCode.INVALID_CONFIGURATION,
           message: 'deadLetterQueue requires maxReceiveCount to be specified',
@@ -173,6 +402,18 @@ export class DependencyValidator {
       }
     }
 
+    // Web hosting scaling bounds
+    if (type === DependencyType.WEB_HOSTING && configuration.type === 'web-hosting') {
+      const { minInstances, maxInstances } = configuration;
+      if (minInstances !== undefined && maxInstances !== undefined && minInstances > maxInstances) {
+        errors.push({
+          code: DependencyErrorCode.INVALID_CONFIGURATION,
+          message: 'minInstances must not be greater than maxInstances',
+          details: { field: 'minInstances' },
+        });
+      }
+    }
+
     return errors;
   }
 
@@ -187,7 +428,17 @@ export class DependencyValidator {
       [DependencyType.OBJECT_STORE]: 'object-store',
       [DependencyType.QUEUE]: 'queue',
       [DependencyType.SECRETS]: 'secrets',
+      [DependencyType.DATA_STORE]: 'data-store',
+      [DependencyType.CONFIGURATION]: 'configuration',
+      [DependencyType.DOCUMENT_STORE]: 'document-store',
+      [DependencyType.EVENT_BUS]: 'event-bus',
+      [DependencyType.NOTIFICATION]: 'notification',
       [DependencyType.CACHE]: 'cache',
+      [DependencyType.WEB_HOSTING]: 'web-hosting',
+      [DependencyType.FUNCTION_HOSTING]: 'function-hosting',
+      [DependencyType.BATCH]: 'batch',
+      [DependencyType.AUTHENTICATION]: 'authentication',
+      [DependencyType.CONTAINER_REPO]: 'container-repo',
     };
 
     return schemaMap[type];
@@ -267,6 +518,53 @@ export class DependencyValidator {
     return { valid: true };
   }
 
+  /**
+   * Check references between dependencies
+   *
+   * Reports references to unknown dependencies, references whose declared type
+   * does not match the target, and reference cycles.
+   *
+   * @param dependencies - Array of dependencies
+   * @returns Validation result
+   */
+  checkReferences(dependencies: ApplicationDependency[]): ValidationResult {
+    const byName = new Map(dependencies.map((dep) => [dep.name, dep]));
+    const errors: DependencyError[] = [];
+
+    for (const dep of dependencies) {
+      for (const { field, reference } of collectReferences(dep.configuration)) {
+        const target = byName.get(reference.ref);
+        if (target === undefined) {
+          errors.push({
+            code: DependencyErrorCode.INVALID_REFERENCE,
+            message: `Dependency '${dep.name}' references unknown dependency '${reference.ref}'`,
+            details: { name: dep.name, field, ref: reference.ref },
+          });
+        } else if (reference.type !== undefined && reference.type !== target.type) {
+          errors.push({
+            code: DependencyErrorCode.INVALID_REFERENCE,
+            message: `Dependency '${dep.name}' expects '${reference.ref}' to be ${reference.type} but it is ${target.type}`,
+            details: { name: dep.name, field, ref: reference.ref, expectedType: reference.type },
+          });
+        }
+      }
+    }
+
+    for (const cycle of findReferenceCycles(dependencies)) {
+      errors.push({
+        code: DependencyErrorCode.CIRCULAR_REFERENCE,
+        message: `Circular dependency reference: ${cycle.join(' -> ')}`,
+        details: { name: cycle[0], cycle },
+      });
+    }
+
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    return { valid: true };
+  }
+
   /**
    * Validate all dependencies in an application
    *
@@ -292,6 +590,13 @@ export class DependencyValidator {
       errorCount += resourceCheck.errors.length;
     }
 
+    // Check references between dependencies
+    const referenceCheck = this.checkReferences(dependencies);
+    if (!referenceCheck.valid && referenceCheck.errors !== undefined) {
+      errors.push(...referenceCheck.errors);
+      errorCount += referenceCheck.errors.length;
+    }
+
     // Validate each dependency
     for (const dep of dependencies) {
       const result = this.validateDependency(dep);
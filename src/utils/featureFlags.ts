@@ -0,0 +1,77 @@
+/**
+ * Feature Flag Evaluation
+ *
+ * Evaluates flags stored as configuration values, either as booleans or as
+ * FeatureFlagDefinition objects with targeting and percentage rollout.
+ */
+
+import { createHash } from 'crypto';
+import { ValidationError } from '../core/types/common';
+import type { FeatureFlagContext, FeatureFlagDefinition } from '../core/types/configuration';
+
+/**
+ * Evaluate a feature flag value
+ *
+ * Rollout buckets are derived from a hash of the flag name and targetId, so a
+ * target keeps its result while the percentage is unchanged or increased.
+ *
+ * @param flagName - Flag name, used for bucketing and error messages
+ * @param value - Stored flag value
+ * @param context - Evaluation context
+ * @param defaultValue - Result when the flag is not defined
+ * @throws ValidationError if the value is not a boolean or flag definition
+ */
+export function evaluateFeatureFlag(
+  flagName: string,
+  value: unknown,
+  context: FeatureFlagContext = {},
+  defaultValue = false
+): boolean {
+  if (value === undefined || value === null) {
+    return defaultValue;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const normalized = value.toLowerCase();
+    return normalized === 'true' || normalized === '1' || normalized === 'yes';
+  }
+  if (!isFlagDefinition(value)) {
+    throw new ValidationError(`Feature flag '${flagName}' is not a boolean or flag definition`, {
+      flagName,
+    });
+  }
+
+  if (!value.enabled) {
+    return false;
+  }
+  const { targetId } = context;
+  if (targetId !== undefined && value.targets?.includes(targetId) === true) {
+    return true;
+  }
+  if (value.rolloutPercentage === undefined || value.rolloutPercentage >= 100) {
+    return true;
+  }
+  if (targetId === undefined || value.rolloutPercentage <= 0) {
+    return false;
+  }
+
+  return rolloutBucket(flagName, targetId) < value.rolloutPercentage;
+}
+
+/**
+ * Stable bucket in [0, 100) for a flag and target
+ */
+function rolloutBucket(flagName: string, targetId: string): number {
+  const hash = createHash('sha256').update(`${flagName}:${targetId}`).digest();
+  return (hash.readUInt32BE(0) / 0x100000000) * 100;
+}
+
+function isFlagDefinition(value: unknown): value is FeatureFlagDefinition {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { enabled?: unknown }).enabled === 'boolean'
+  );
+}
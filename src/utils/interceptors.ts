@@ -0,0 +1,134 @@
+/**
+ * Interceptor Pipeline
+ *
+ * Runs the interceptors from `ProviderConfig.options.interceptors` around every
+ * call to services and clients created by the provider factories:
+ *
+ * ```typescript
+ * options: {
+ *   interceptors: [
+ *     {
+ *       services: ['ObjectClient'],
+ *       operations: ['put'],
+ *       async intercept(context, next) {
+ *         const [bucket, key, data, options] = context.args;
+ *         context.args = [bucket, `${tenantId}/${key}`, data, options];
+ *         return next();
+ *       },
+ *     },
+ *   ],
+ * }
+ * ```
+ */
+
+import type { ProviderConfig } from '../core/types/common';
+import { ValidationError } from '../core/types/common';
+import type { Interceptor, InvocationContext } from '../core/types/interceptor';
+import { serviceName, wrapAsyncMethods } from './asyncMethods';
+
+/**
+ * Read interceptors from a provider configuration, sorted by order
+ *
+ * @throws ValidationError if `options.interceptors` is not an array of interceptors
+ */
+export function getInterceptors(config: ProviderConfig): Interceptor[] {
+  const value = config.options?.interceptors;
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new ValidationError('options.interceptors must be an array');
+  }
+
+  const interceptors = value.map((interceptor: unknown, index) => {
+    if (!isInterceptor(interceptor)) {
+      throw new ValidationError(
+        `options.interceptors[${index}] must have an intercept function and string array filters`
+      );
+    }
+    return interceptor;
+  });
+
+  // Array.prototype.sort is stable, so equal orders keep configuration order
+  return interceptors.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+/**
+ * Check whether an interceptor applies to a service type and operation
+ */
+export function interceptorApplies(
+  interceptor: Interceptor,
+  serviceType: string,
+  operation: string
+): boolean {
+  return (
+    (interceptor.services === undefined || interceptor.services.includes(serviceType)) &&
+    (interceptor.operations === undefined || interceptor.operations.includes(operation))
+  );
+}
+
+/**
+ * Wrap a service or client so that its async methods run through the configured interceptors
+ *
+ * @param serviceType - Interface name used for interceptor scoping, e.g. QueueClient
+ */
+export function withInterceptors<T extends object>(
+  target: T,
+  serviceType: string,
+  config: ProviderConfig
+): T {
+  const interceptors = getInterceptors(config).filter(
+    (interceptor) =>
+      interceptor.services === undefined || interceptor.services.includes(serviceType)
+  );
+  if (interceptors.length === 0) {
+    return target;
+  }
+
+  const service = serviceName(config.provider, serviceType);
+
+  return wrapAsyncMethods(target, (operation, args, call) => {
+    const chain = interceptors.filter((interceptor) =>
+      interceptorApplies(interceptor, serviceType, operation)
+    );
+    if (chain.length === 0) {
+      return call();
+    }
+
+    const context: InvocationContext = {
+      serviceType,
+      service,
+      operation,
+      provider: config.provider,
+      args: [...args],
+      attributes: {},
+    };
+    const dispatch = (index: number): Promise<unknown> => {
+      const interceptor = chain[index];
+      return interceptor === undefined
+        ? call(context.args)
+        : interceptor.intercept(context, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  });
+}
+
+function isInterceptor(value: unknown): value is Interceptor {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.intercept === 'function' &&
+    isOptionalStringArray(candidate.services) &&
+    isOptionalStringArray(candidate.operations) &&
+    (candidate.order === undefined || typeof candidate.order === 'number')
+  );
+}
+
+function isOptionalStringArray(value: unknown): boolean {
+  return (
+    value === undefined || (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+  );
+}
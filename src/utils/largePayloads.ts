@@ -0,0 +1,461 @@
+/**
+ * Large Payloads
+ *
+ * Claim-check offloading for queue messages, events and notifications that exceed
+ * provider size limits. Large payloads are written to object storage and the message
+ * carries a pointer instead:
+ *
+ * ```typescript
+ * const runtime = new LCAppRuntime({
+ *   provider: ProviderType.AWS,
+ *   options: { largePayloads: { bucket: 'my-app-payloads' } },
+ * });
+ *
+ * await runtime.getQueueClient().send('reports', hugeReport); // stored in my-app-payloads
+ * ```
+ */
+
+import { randomUUID } from 'crypto';
+import type { ObjectClient } from '../core/clients/ObjectClient';
+import type { QueueClient } from '../core/clients/QueueClient';
+import type { EventPublisher } from '../core/clients/EventPublisher';
+import type { NotificationClient } from '../core/clients/NotificationClient';
+import type { ReceivedMessage } from '../core/types/queue';
+import type { Event } from '../core/types/event';
+import type { NotificationMessage } from '../core/types/notification';
+import type {
+  BatchPublishResult,
+  BatchSendResult,
+  LargePayloadOptions,
+  PayloadPointer,
+  ReceiveOptions,
+  SendOptions,
+} from '../core/types/runtime';
+import type { ProviderConfig } from '../core/types/common';
+import { ResourceNotFoundError, ValidationError } from '../core/types/common';
+
+const DEFAULT_THRESHOLD_BYTES = 256 * 1024;
+const DEFAULT_KEY_PREFIX = 'large-payloads/';
+const JSON_CONTENT_TYPE = 'application/json';
+const TEXT_CONTENT_TYPE = 'text/plain';
+/** Property that marks a message body as a payload pointer */
+const POINTER_PROPERTY = 'lcpPayloadPointer';
+/** Longest SQS visibility timeout; receipt handles older than this are no longer usable */
+const MAX_RECEIPT_AGE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Read large payload options from a provider configuration
+ *
+ * @returns undefined when `options.largePayloads` is not set
+ * @throws ValidationError if the options have no bucket or an invalid threshold
+ */
+export function getLargePayloadOptions(config: ProviderConfig): LargePayloadOptions | undefined {
+  const value = config.options?.largePayloads;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('options.largePayloads must be an object', { largePayloads: value });
+  }
+
+  const options = value as Partial<LargePayloadOptions>;
+  if (typeof options.bucket !== 'string' || options.bucket === '') {
+    throw new ValidationError('options.largePayloads.bucket is required');
+  }
+  if (
+    options.thresholdBytes !== undefined &&
+    (!Number.isInteger(options.thresholdBytes) || options.thresholdBytes < 1)
+  ) {
+    throw new ValidationError('options.largePayloads.thresholdBytes must be a positive integer');
+  }
+  return options as LargePayloadOptions;
+}
+
+/**
+ * Read the payload pointer from a message body, accepting the object or its JSON text
+ *
+ * @returns undefined when the body is an ordinary payload
+ */
+export function getPayloadPointer(body: unknown): PayloadPointer | undefined {
+  let candidate = body;
+  if (typeof body === 'string' && body.includes(POINTER_PROPERTY)) {
+    try {
+      candidate = JSON.parse(body);
+    } catch {
+      return undefined;
+    }
+  }
+  if (typeof candidate !== 'object' || candidate === null) {
+    return undefined;
+  }
+
+  const pointer = (candidate as Record<string, unknown>)[POINTER_PROPERTY];
+  if (typeof pointer !== 'object' || pointer === null) {
+    return undefined;
+  }
+  const { bucket, key } = pointer as Record<string, unknown>;
+  return typeof bucket === 'string' && typeof key === 'string'
+    ? (pointer as PayloadPointer)
+    : undefined;
+}
+
+/**
+ * Writes, reads and deletes offloaded payloads
+ */
+export class LargePayloadStore {
+  private readonly thresholdBytes: number;
+  private readonly keyPrefix: string;
+
+  constructor(
+    private readonly objectClient: ObjectClient,
+    private readonly options: LargePayloadOptions
+  ) {
+    this.thresholdBytes = options.thresholdBytes ?? DEFAULT_THRESHOLD_BYTES;
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  }
+
+  /**
+   * Whether a message made of these parts is over the threshold
+   */
+  exceedsThreshold(...parts: Array<string | undefined>): boolean {
+    const size = parts.reduce((total, part) => total + Buffer.byteLength(part ?? ''), 0);
+    return size > this.thresholdBytes;
+  }
+
+  /**
+   * Store a payload; strings are kept as text and anything else as JSON
+   */
+  async offload(payload: unknown): Promise<PayloadPointer> {
+    const json = typeof payload !== 'string';
+    const data = Buffer.from(json ? JSON.stringify(payload) : payload);
+    const pointer: PayloadPointer = {
+      bucket: this.options.bucket,
+      key: `${this.keyPrefix}${randomUUID()}`,
+      size: data.length,
+      contentType: json ? JSON_CONTENT_TYPE : TEXT_CONTENT_TYPE,
+    };
+
+    await this.objectClient.put(pointer.bucket, pointer.key, data, {
+      contentType: pointer.contentType,
+    });
+    return pointer;
+  }
+
+  /**
+   * Read an offloaded payload
+   *
+   * @throws ResourceNotFoundError if the payload was already deleted
+   */
+  async fetch(pointer: PayloadPointer): Promise<unknown> {
+    const object = await this.objectClient.get(pointer.bucket, pointer.key);
+    const data =
+      object.data instanceof Buffer
+        ? object.data
+        : Buffer.from(await new Response(object.data).arrayBuffer());
+    const text = data.toString('utf8');
+    return pointer.contentType === JSON_CONTENT_TYPE ? (JSON.parse(text) as unknown) : text;
+  }
+
+  /**
+   * Read the pointer from a message body if it refers to this store's bucket and prefix
+   *
+   * @returns undefined for ordinary bodies and pointers to other locations
+   */
+  getPointer(body: unknown): PayloadPointer | undefined {
+    const pointer = getPayloadPointer(body);
+    return pointer?.bucket === this.options.bucket && pointer.key.startsWith(this.keyPrefix)
+      ? pointer
+      : undefined;
+  }
+
+  /**
+   * Replace a pointer body with its payload; other bodies are returned unchanged
+   *
+   * For consumers of events and notifications published through the offloading clients.
+   */
+  resolve(body: unknown): Promise<unknown> {
+    const pointer = this.getPointer(body);
+    return pointer === undefined ? Promise.resolve(body) : this.fetch(pointer);
+  }
+
+  async delete(pointer: PayloadPointer): Promise<void> {
+    await this.objectClient.delete(pointer.bucket, pointer.key);
+  }
+
+  /**
+   * The body sent in place of an offloaded payload
+   */
+  toBody(pointer: PayloadPointer): { [POINTER_PROPERTY]: PayloadPointer } {
+    return { [POINTER_PROPERTY]: pointer };
+  }
+
+  /**
+   * Delete the payloads of messages that were not sent
+   */
+  async discard(pointers: Array<PayloadPointer | undefined>): Promise<void> {
+    await Promise.all(
+      pointers.map((pointer) =>
+        pointer !== undefined ? this.delete(pointer).catch(() => undefined) : undefined
+      )
+    );
+  }
+}
+
+/**
+ * QueueClient that offloads large message bodies and restores them on receive
+ *
+ * The payload is deleted when the message is acknowledged. A message whose payload
+ * is gone is not returned and stays on the queue, so it reaches the dead-letter queue
+ * after its retries. Only pointers to the configured bucket and key prefix are followed.
+ */
+export class LargePayloadQueueClient implements QueueClient {
+  /** Payloads of received messages by receipt handle */
+  private readonly received = new Map<
+    string,
+    { messageId: string; pointer: PayloadPointer; receivedAt: number }
+  >();
+  /** Latest receipt handle of each received message, to forget handles of redelivered ones */
+  private readonly receiptHandles = new Map<string, string>();
+
+  constructor(
+    private readonly client: QueueClient,
+    private readonly store: LargePayloadStore
+  ) {}
+
+  async send(queueName: string, message: unknown, options?: SendOptions): Promise<string> {
+    const [body, pointer] = await this.offloadIfLarge(message, options?.attributes);
+    try {
+      return await this.client.send(queueName, body, options);
+    } catch (error) {
+      await this.store.discard([pointer]);
+      throw error;
+    }
+  }
+
+  async sendBatch(
+    queueName: string,
+    messages: unknown[],
+    options?: SendOptions[]
+  ): Promise<BatchSendResult> {
+    const offloaded = await Promise.all(
+      messages.map((message, index) => this.offloadIfLarge(message, options?.[index]?.attributes))
+    );
+    const pointers = offloaded.map(([, pointer]) => pointer);
+
+    let result: BatchSendResult;
+    try {
+      result = await this.client.sendBatch(
+        queueName,
+        offloaded.map(([body]) => body),
+        options
+      );
+    } catch (error) {
+      await this.store.discard(pointers);
+      throw error;
+    }
+    await this.store.discard(result.failed.map((entry) => pointers[Number(entry.id)]));
+    return result;
+  }
+
+  async receive(queueName: string, options?: ReceiveOptions): Promise<ReceivedMessage[]> {
+    const messages = await this.client.receive(queueName, options);
+    this.forgetExpired();
+    const restored = await Promise.all(messages.map((message) => this.restore(message)));
+    return restored.filter((message): message is ReceivedMessage => message !== undefined);
+  }
+
+  async acknowledge(queueName: string, receiptHandle: string): Promise<void> {
+    await this.client.acknowledge(queueName, receiptHandle);
+    await this.release([receiptHandle]);
+  }
+
+  async acknowledgeBatch(queueName: string, receiptHandles: string[]): Promise<void> {
+    await this.client.acknowledgeBatch(queueName, receiptHandles);
+    await this.release(receiptHandles);
+  }
+
+  changeVisibility(queueName: string, receiptHandle: string, timeout: number): Promise<void> {
+    return this.client.changeVisibility(queueName, receiptHandle, timeout);
+  }
+
+  private async offloadIfLarge(
+    message: unknown,
+    attributes: Record<string, string> = {}
+  ): Promise<[unknown, PayloadPointer | undefined]> {
+    const text = typeof message === 'string' ? message : JSON.stringify(message);
+    if (
+      !this.store.exceedsThreshold(text, ...Object.keys(attributes), ...Object.values(attributes))
+    ) {
+      return [message, undefined];
+    }
+    const pointer = await this.store.offload(message);
+    return [this.store.toBody(pointer), pointer];
+  }
+
+  private async restore(message: ReceivedMessage): Promise<ReceivedMessage | undefined> {
+    const pointer = this.store.getPointer(message.body);
+    if (pointer === undefined) {
+      return message;
+    }
+
+    let body: unknown;
+    try {
+      body = await this.store.fetch(pointer);
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const previous = this.receiptHandles.get(message.id);
+    if (previous !== undefined) {
+      this.received.delete(previous);
+    }
+    this.receiptHandles.set(message.id, message.receiptHandle);
+    this.received.set(message.receiptHandle, {
+      messageId: message.id,
+      pointer,
+      receivedAt: Date.now(),
+    });
+    return { ...message, body: body as string | object };
+  }
+
+  private async release(receiptHandles: string[]): Promise<void> {
+    const pointers: PayloadPointer[] = [];
+    for (const receiptHandle of receiptHandles) {
+      const entry = this.received.get(receiptHandle);
+      if (entry !== undefined) {
+        this.received.delete(receiptHandle);
+        this.receiptHandles.delete(entry.messageId);
+        pointers.push(entry.pointer);
+      }
+    }
+    await Promise.all(pointers.map((pointer) => this.store.delete(pointer)));
+  }
+
+  /**
+   * Drop handles of messages that were never acknowledged, e.g. ones moved to a dead-letter queue
+   */
+  private forgetExpired(): void {
+    const cutoff = Date.now() - MAX_RECEIPT_AGE_MS;
+    for (const [receiptHandle, entry] of this.received) {
+      if (entry.receivedAt < cutoff) {
+        this.received.delete(receiptHandle);
+        this.receiptHandles.delete(entry.messageId);
+      }
+    }
+  }
+}
+
+/**
+ * EventPublisher that offloads the data of large events
+ *
+ * Subscribers resolve the data with LargePayloadStore.resolve. Offloaded payloads are
+ * not deleted, so the bucket needs a lifecycle rule.
+ */
+export class LargePayloadEventPublisher implements EventPublisher {
+  constructor(
+    private readonly publisher: EventPublisher,
+    private readonly store: LargePayloadStore
+  ) {}
+
+  async publish(eventBusName: string, event: Event): Promise<string> {
+    const [offloaded, pointer] = await this.offloadIfLarge(event);
+    try {
+      return await this.publisher.publish(eventBusName, offloaded);
+    } catch (error) {
+      await this.store.discard([pointer]);
+      throw error;
+    }
+  }
+
+  async publishBatch(eventBusName: string, events: Event[]): Promise<BatchPublishResult> {
+    const offloaded = await Promise.all(events.map((event) => this.offloadIfLarge(event)));
+    const pointers = offloaded.map(([, pointer]) => pointer);
+
+    let result: BatchPublishResult;
+    try {
+      result = await this.publisher.publishBatch(
+        eventBusName,
+        offloaded.map(([event]) => event)
+      );
+    } catch (error) {
+      await this.store.discard(pointers);
+      throw error;
+    }
+    await this.store.discard(result.failed.map((entry) => pointers[Number(entry.id)]));
+    return result;
+  }
+
+  private async offloadIfLarge(event: Event): Promise<[Event, PayloadPointer | undefined]> {
+    if (!this.store.exceedsThreshold(JSON.stringify(event))) {
+      return [event, undefined];
+    }
+    const pointer = await this.store.offload(event.data);
+    return [{ ...event, data: this.store.toBody(pointer) }, pointer];
+  }
+}
+
+/**
+ * NotificationClient that offloads the body of large notifications
+ *
+ * The body becomes the JSON text of the pointer; subscribers resolve it with
+ * LargePayloadStore.resolve. Offloaded payloads are not deleted, so the bucket needs
+ * a lifecycle rule.
+ */
+export class LargePayloadNotificationClient implements NotificationClient {
+  constructor(
+    private readonly client: NotificationClient,
+    private readonly store: LargePayloadStore
+  ) {}
+
+  async publish(topicName: string, message: NotificationMessage): Promise<string> {
+    const [offloaded, pointer] = await this.offloadIfLarge(message);
+    try {
+      return await this.client.publish(topicName, offloaded);
+    } catch (error) {
+      await this.store.discard([pointer]);
+      throw error;
+    }
+  }
+
+  async publishBatch(
+    topicName: string,
+    messages: NotificationMessage[]
+  ): Promise<BatchPublishResult> {
+    const offloaded = await Promise.all(messages.map((message) => this.offloadIfLarge(message)));
+    const pointers = offloaded.map(([, pointer]) => pointer);
+
+    let result: BatchPublishResult;
+    try {
+      result = await this.client.publishBatch(
+        topicName,
+        offloaded.map(([message]) => message)
+      );
+    } catch (error) {
+      await this.store.discard(pointers);
+      throw error;
+    }
+    await this.store.discard(result.failed.map((entry) => pointers[Number(entry.id)]));
+    return result;
+  }
+
+  private async offloadIfLarge(
+    message: NotificationMessage
+  ): Promise<[NotificationMessage, PayloadPointer | undefined]> {
+    const attributes = message.attributes ?? {};
+    if (
+      !this.store.exceedsThreshold(
+        message.body,
+        message.subject,
+        ...Object.keys(attributes),
+        ...Object.values(attributes)
+      )
+    ) {
+      return [message, undefined];
+    }
+    const pointer = await this.store.offload(message.body);
+    return [{ ...message, body: JSON.stringify(this.store.toBody(pointer)) }, pointer];
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Message Codecs
+ *
+ * Built-in codecs for typed queue and event channels.
+ */
+
+import { gunzipSync, gzipSync } from 'zlib';
+import type { MessageCodec } from '../core/types/codec';
+import { ValidationError } from '../core/types/common';
+
+/**
+ * Attribute (queues) or metadata key (events) that names the codec of a message
+ */
+export const CONTENT_TYPE_ATTRIBUTE = 'contentType';
+
+/**
+ * Plain JSON text
+ */
+export const jsonCodec: MessageCodec = {
+  contentType: 'application/json',
+  encode: (value) => JSON.stringify(value),
+  decode: (text) => JSON.parse(text) as unknown,
+};
+
+/**
+ * Gzip-compressed JSON, sent as base64 text
+ */
+export const gzipJsonCodec: MessageCodec = {
+  contentType: 'application/json+gzip',
+  encode: (value) => gzipSync(JSON.stringify(value)).toString('base64'),
+  decode: (text) => JSON.parse(gunzipSync(Buffer.from(text, 'base64')).toString('utf8')) as unknown,
+};
+
+/**
+ * Binary data (Buffer or Uint8Array), sent as base64 text and received as a Buffer
+ */
+export const base64Codec: MessageCodec = {
+  contentType: 'application/octet-stream',
+  encode: (value) => {
+    if (!(value instanceof Uint8Array)) {
+      throw new ValidationError('base64Codec can only encode a Buffer or Uint8Array');
+    }
+    return Buffer.from(value).toString('base64');
+  },
+  decode: (text) => Buffer.from(text, 'base64'),
+};
+
+export const builtInCodecs: readonly MessageCodec[] = [jsonCodec, gzipJsonCodec, base64Codec];
@@ -0,0 +1,576 @@
+/**
+ * Observability
+ *
+ * Structured logging and per-operation instrumentation for every service and
+ * client created by the provider factories.
+ *
+ * Configured through `ProviderConfig.options`:
+ *
+ * ```typescript
+ * options: {
+ *   logger: pinoLogger,
+ *   instrumentation: [
+ *     new OpenTelemetryInstrumentation(trace.getTracer('app'), metrics.getMeter('app')),
+ *     new LoggingInstrumentation(pinoLogger),
+ *   ],
+ * }
+ * ```
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ProviderConfig } from '../core/types/common';
+import { ValidationError } from '../core/types/common';
+import {
+  OperationOutcome,
+  type Instrumentation,
+  type Logger,
+  type LogLevel,
+  type OperationContext,
+  type OperationSpan,
+} from '../core/types/observability';
+import { serviceName, wrapAsyncMethods } from './asyncMethods';
+import type { AuthenticationService } from '../core/services/AuthenticationService';
+import type { BatchService } from '../core/services/BatchService';
+import type { CacheService } from '../core/services/CacheService';
+import type { ConfigurationService } from '../core/services/ConfigurationService';
+import type { ContainerRepoService } from '../core/services/ContainerRepoService';
+import type { DataStoreService } from '../core/services/DataStoreService';
+import type { DocumentStoreService } from '../core/services/DocumentStoreService';
+import type { EventBusService } from '../core/services/EventBusService';
+import type { FunctionHostingService } from '../core/services/FunctionHostingService';
+import type { NotificationService } from '../core/services/NotificationService';
+import type { ObjectStoreService } from '../core/services/ObjectStoreService';
+import type { QueueService } from '../core/services/QueueService';
+import type { SecretsService } from '../core/services/SecretsService';
+import type { WebHostingService } from '../core/services/WebHostingService';
+import type { AuthClient } from '../core/clients/AuthClient';
+import type { CacheClient } from '../core/clients/CacheClient';
+import type { ConfigClient } from '../core/clients/ConfigClient';
+import type { ContainerRepoClient } from '../core/clients/ContainerRepoClient';
+import type { DataClient } from '../core/clients/DataClient';
+import type { DocumentClient } from '../core/clients/DocumentClient';
+import type { EventPublisher } from '../core/clients/EventPublisher';
+import type { NotificationClient } from '../core/clients/NotificationClient';
+import type { ObjectClient } from '../core/clients/ObjectClient';
+import type { QueueClient } from '../core/clients/QueueClient';
+import type { SecretsClient } from '../core/clients/SecretsClient';
+
+const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Create a logger that writes messages at or above `level` to the console
+ *
+ * @throws ValidationError if `level` is not a log level
+ */
+export function createConsoleLogger(level: LogLevel = 'warn'): Logger {
+  if (!LOG_LEVELS.includes(level)) {
+    throw new ValidationError(`Invalid log level: ${String(level)}`, { validLevels: LOG_LEVELS });
+  }
+
+  const threshold = LOG_LEVELS.indexOf(level);
+  const writer =
+    (messageLevel: LogLevel, write: (...data: unknown[]) => void) =>
+    (message: string, fields?: Record<string, unknown>): void => {
+      if (LOG_LEVELS.indexOf(messageLevel) >= threshold) {
+        writeConsole(write, message, fields);
+      }
+    };
+
+  // Console methods are looked up on each call so that later patches (test spies,
+  // log shippers) still see the messages
+  return {
+    // eslint-disable-next-line no-console
+    debug: writer('debug', (...data) => console.debug(...data)),
+    // eslint-disable-next-line no-console
+    info: writer('info', (...data) => console.info(...data)),
+    warn: writer('warn', (...data) => console.warn(...data)),
+    error: writer('error', (...data) => console.error(...data)),
+  };
+}
+
+/**
+ * Logger that writes warnings and errors to the console and drops debug and info
+ * messages (the default when neither `options.logger` nor `options.logLevel` is set)
+ */
+export const consoleLogger: Logger = createConsoleLogger();
+
+function writeConsole(
+  write: (...data: unknown[]) => void,
+  message: string,
+  fields?: Record<string, unknown>
+): void {
+  if (fields !== undefined && Object.keys(fields).length > 0) {
+    write(message, fields);
+  } else {
+    write(message);
+  }
+}
+
+/**
+ * Instrumentation that logs each operation: failures at warn, successes at debug
+ */
+export class LoggingInstrumentation implements Instrumentation {
+  constructor(private readonly logger: Logger) {}
+
+  startOperation(context: OperationContext): OperationSpan {
+    return {
+      end: (result): void => {
+        const fields = {
+          ...context,
+          outcome: result.outcome,
+          durationMs: result.durationMs,
+          retryCount: result.retryCount,
+          ...(result.error !== undefined && { error: result.error.message }),
+        };
+        const message = `${context.service}.${context.operation} ${result.outcome}`;
+
+        if (result.outcome === OperationOutcome.ERROR) {
+          this.logger.warn(message, fields);
+        } else {
+          this.logger.debug(message, fields);
+        }
+      },
+    };
+  }
+}
+
+/**
+ * Read the logger from a provider configuration
+ *
+ * Without `options.logger`, messages go to the console at `options.logLevel` and above
+ * (default warn).
+ *
+ * @throws ValidationError if `options.logger` is not a Logger or `options.logLevel` is not a log level
+ */
+export function getLogger(config: ProviderConfig): Logger {
+  const logger = config.options?.logger;
+  if (logger === undefined) {
+    const level = config.options?.logLevel;
+    return level === undefined ? consoleLogger : createConsoleLogger(level as LogLevel);
+  }
+  if (!isLogger(logger)) {
+    throw new ValidationError('options.logger must implement debug, info, warn and error');
+  }
+  return logger;
+}
+
+/**
+ * Read instrumentation from a provider configuration
+ *
+ * @returns undefined when no instrumentation is configured
+ * @throws ValidationError if `options.instrumentation` is not an Instrumentation or array of them
+ */
+export function getInstrumentation(config: ProviderConfig): Instrumentation | undefined {
+  const value = config.options?.instrumentation;
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const list: unknown[] = Array.isArray(value) ? value : [value];
+  if (!list.every(isInstrumentation)) {
+    throw new ValidationError(
+      'options.instrumentation must be an Instrumentation or an array of them'
+    );
+  }
+  if (list.length <= 1) {
+    return list[0];
+  }
+
+  return {
+    startOperation: (context): OperationSpan => {
+      const spans = list.map((instrumentation) => instrumentation.startOperation(context));
+      return {
+        end: (result): void => spans.forEach((span) => span.end(result)),
+      };
+    },
+  };
+}
+
+/**
+ * Whether each operation of a service or client takes the name of the resource it acts
+ * on as its first argument; keyed by interface so new operations must be classified
+ */
+type ResourceOperations<T> = Readonly<Record<keyof T, boolean>>;
+
+type ResourceOperationTable = {
+  AuthenticationService: ResourceOperations<AuthenticationService>;
+  BatchService: ResourceOperations<BatchService>;
+  CacheService: ResourceOperations<CacheService>;
+  ConfigurationService: ResourceOperations<ConfigurationService>;
+  ContainerRepoService: ResourceOperations<ContainerRepoService>;
+  DataStoreService: ResourceOperations<DataStoreService>;
+  DocumentStoreService: ResourceOperations<DocumentStoreService>;
+  EventBusService: ResourceOperations<EventBusService>;
+  FunctionHostingService: ResourceOperations<FunctionHostingService>;
+  NotificationService: ResourceOperations<NotificationService>;
+  ObjectStoreService: ResourceOperations<ObjectStoreService>;
+  QueueService: ResourceOperations<QueueService>;
+  SecretsService: ResourceOperations<SecretsService>;
+  WebHostingService: ResourceOperations<WebHostingService>;
+  AuthClient: ResourceOperations<AuthClient>;
+  CacheClient: ResourceOperations<CacheClient>;
+  ConfigClient: ResourceOperations<ConfigClient>;
+  ContainerRepoClient: ResourceOperations<ContainerRepoClient>;
+  DataClient: ResourceOperations<DataClient>;
+  DocumentClient: ResourceOperations<DocumentClient>;
+  EventPublisher: ResourceOperations<EventPublisher>;
+  NotificationClient: ResourceOperations<NotificationClient>;
+  ObjectClient: ResourceOperations<ObjectClient>;
+  QueueClient: ResourceOperations<QueueClient>;
+  SecretsClient: ResourceOperations<SecretsClient>;
+};
+
+/**
+ * Operations whose first argument names the resource they act on, by service type
+ *
+ * Only these arguments are recorded. Auth services and SQL clients record nothing so
+ * that tokens, authorization codes and statements never reach logs or traces.
+ */
+const RESOURCE_OPERATIONS: ResourceOperationTable = {
+  AuthenticationService: {
+    configure: false,
+    getAuthorizationUrl: false,
+    exchangeCodeForTokens: false,
+    refreshAccessToken: false,
+    validateToken: false,
+    getUserInfo: false,
+    revokeToken: false,
+    verifyIdToken: false,
+  },
+  BatchService: {
+    submitJob: false,
+    getJob: true,
+    cancelJob: true,
+    listJobs: false,
+    scheduleJob: false,
+    deleteScheduledJob: true,
+    listScheduledJobs: false,
+  },
+  CacheService: {
+    createCluster: true,
+    getCluster: true,
+    deleteCluster: true,
+    listClusters: false,
+    updateCluster: true,
+    configureSecurity: true,
+    flushCluster: true,
+  },
+  ConfigurationService: {
+    createConfiguration: false,
+    getConfiguration: true,
+    updateConfiguration: true,
+    deleteConfiguration: true,
+    listConfigurations: false,
+    validateConfiguration: false,
+    createProfile: true,
+    deployConfiguration: false,
+  },
+  ContainerRepoService: {
+    createRepository: true,
+    getRepository: true,
+    deleteRepository: true,
+    listRepositories: false,
+    setLifecyclePolicy: true,
+    getLifecyclePolicy: true,
+    deleteLifecyclePolicy: true,
+    configureImageScanning: true,
+    setPermissions: true,
+    getPermissions: true,
+  },
+  DataStoreService: {
+    connect: false,
+    query: false,
+    execute: false,
+    transaction: false,
+    migrate: false,
+    getConnection: false,
+  },
+  DocumentStoreService: {
+    createCollection: true,
+    getCollection: true,
+    deleteCollection: true,
+    insertDocument: true,
+    findById: true,
+    find: true,
+    updateDocument: true,
+    deleteDocument: true,
+    listCollections: false,
+    count: true,
+  },
+  EventBusService: {
+    createEventBus: true,
+    getEventBus: true,
+    deleteEventBus: true,
+    publishEvent: true,
+    createRule: true,
+    getRule: true,
+    updateRule: true,
+    deleteRule: true,
+    addTarget: true,
+    removeTarget: true,
+    listRules: true,
+  },
+  FunctionHostingService: {
+    createFunction: false,
+    getFunction: true,
+    updateFunctionConfiguration: true,
+    updateFunctionCode: true,
+    deleteFunction: true,
+    listFunctions: false,
+    invokeFunction: true,
+    createEventSourceMapping: true,
+    getEventSourceMapping: true,
+    updateEventSourceMapping: true,
+    deleteEventSourceMapping: true,
+    listEventSourceMappings: true,
+    createFunctionUrl: true,
+    getFunctionUrl: true,
+    updateFunctionUrl: true,
+    deleteFunctionUrl: true,
+  },
+  NotificationService: {
+    createTopic: true,
+    getTopic: true,
+    deleteTopic: true,
+    publishToTopic: true,
+    subscribe: true,
+    unsubscribe: true,
+    confirmSubscription: false,
+    listTopics: false,
+    listSubscriptions: true,
+    sendEmail: false,
+    sendSMS: false,
+  },
+  ObjectStoreService: {
+    createBucket: true,
+    putObject: true,
+    getObject: true,
+    deleteObject: true,
+    listObjects: true,
+    generatePresignedUrl: true,
+    copyObject: false,
+  },
+  QueueService: {
+    createQueue: true,
+    getQueue: true,
+    updateQueue: true,
+    deleteQueue: true,
+    sendMessage: true,
+    receiveMessages: true,
+    deleteMessage: true,
+    listQueues: false,
+    purgeQueue: true,
+    peekDeadLetterMessages: true,
+    redriveDeadLetterMessages: true,
+    getDeadLetterQueueDepth: true,
+  },
+  SecretsService: {
+    createSecret: false,
+    getSecretValue: true,
+    updateSecret: true,
+    deleteSecret: true,
+    listSecrets: false,
+    rotateSecret: true,
+    tagSecret: true,
+  },
+  WebHostingService: {
+    deployApplication: false,
+    getDeployment: true,
+    updateApplication: true,
+    deleteApplication: true,
+    getApplicationUrl: true,
+    scaleApplication: true,
+  },
+  AuthClient: {
+    validateToken: false,
+    getUserInfo: false,
+    hasScope: false,
+    hasRole: false,
+  },
+  CacheClient: {
+    get: true,
+    set: true,
+    delete: true,
+    exists: true,
+    expire: true,
+    ttl: true,
+    persist: true,
+    increment: true,
+    decrement: true,
+    mget: true,
+    mset: true,
+    mdel: true,
+  },
+  ConfigClient: {
+    get: true,
+    getString: true,
+    getNumber: true,
+    getBoolean: true,
+    getFeatureFlag: true,
+    watch: true,
+    getCacheStats: false,
+    invalidateCache: false,
+  },
+  ContainerRepoClient: {
+    getRepositoryUri: true,
+    listImages: true,
+    getImageByTag: true,
+    getImageByDigest: true,
+    imageExists: true,
+    deleteImageByTag: true,
+    deleteImageByDigest: true,
+    deleteImages: true,
+  },
+  DataClient: {
+    query: false,
+    execute: false,
+    transaction: false,
+  },
+  DocumentClient: {
+    get: true,
+    put: true,
+    update: true,
+    delete: true,
+    query: true,
+    batchGet: true,
+    batchPut: true,
+  },
+  EventPublisher: {
+    publish: true,
+    publishBatch: true,
+  },
+  NotificationClient: {
+    publish: true,
+    publishBatch: true,
+  },
+  ObjectClient: {
+    get: true,
+    put: true,
+    delete: true,
+    deleteBatch: true,
+    list: true,
+    exists: true,
+    getMetadata: true,
+    getSignedUrl: true,
+  },
+  QueueClient: {
+    send: true,
+    sendBatch: true,
+    receive: true,
+    acknowledge: true,
+    acknowledgeBatch: true,
+    changeVisibility: true,
+  },
+  SecretsClient: {
+    get: true,
+    getJson: true,
+    getCacheStats: false,
+    invalidateCache: false,
+  },
+};
+
+/**
+ * Resource name of a call, if the operation takes one as its first argument
+ */
+function getResource(serviceType: string, operation: string, args: unknown[]): string | undefined {
+  const resource = args[0];
+  const operations: Partial<Record<string, Readonly<Record<string, boolean>>>> =
+    RESOURCE_OPERATIONS;
+  return operations[serviceType]?.[operation] === true && typeof resource === 'string'
+    ? resource
+    : undefined;
+}
+
+/**
+ * Retries made by the operation currently being instrumented
+ */
+const retryCounter = new AsyncLocalStorage<{ retries: number }>();
+
+/**
+ * Count a retry against the instrumented operation in scope, if any
+ */
+export function recordRetry(): void {
+  const counter = retryCounter.getStore();
+  if (counter !== undefined) {
+    counter.retries++;
+  }
+}
+
+/**
+ * Wrap a service or client so that each async method call is reported to the
+ * configured instrumentation
+ *
+ * Apply outside the resilience policy so that one call, including its retries,
+ * is one operation.
+ *
+ * @param serviceType - Interface name, e.g. QueueClient; selects which arguments are recorded
+ */
+export function withInstrumentation<T extends object>(
+  target: T,
+  config: ProviderConfig,
+  serviceType: string
+): T {
+  const instrumentation = getInstrumentation(config);
+  if (instrumentation === undefined) {
+    return target;
+  }
+
+  const service = serviceName(config.provider, serviceType);
+  const logger = getLogger(config);
+
+  return wrapAsyncMethods(target, async (operation, args, call) => {
+    const resource = getResource(serviceType, operation, args);
+    const span = instrumentation.startOperation({
+      service,
+      operation,
+      provider: config.provider,
+      ...(resource !== undefined && { resource }),
+    });
+    const counter = { retries: 0 };
+    const start = performance.now();
+    const end = (outcome: OperationOutcome, error?: Error): void => {
+      try {
+        span.end({
+          outcome,
+          durationMs: performance.now() - start,
+          retryCount: counter.retries,
+          ...(error !== undefined && { error }),
+        });
+      } catch (instrumentationError) {
+        // A broken exporter must not fail the call it is observing
+        logger.warn('Instrumentation failed to end operation span', {
+          service,
+          operation,
+          error: String(instrumentationError),
+        });
+      }
+    };
+
+    try {
+      const result = await retryCounter.run(counter, () => call());
+      end(OperationOutcome.SUCCESS);
+      return result;
+    } catch (error) {
+      end(OperationOutcome.ERROR, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  });
+}
+
+function isLogger(value: unknown): value is Logger {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    ['debug', 'info', 'warn', 'error'].every(
+      (level) => typeof (value as Record<string, unknown>)[level] === 'function'
+    )
+  );
+}
+
+function isInstrumentation(value: unknown): value is Instrumentation {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { startOperation?: unknown }).startOperation === 'function'
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * OpenTelemetry Adapter
+ *
+ * Reports operations as OpenTelemetry spans and metrics. The adapter is typed
+ * against the parts of the `@opentelemetry/api` Tracer and Meter it uses, so the
+ * library does not depend on the OpenTelemetry packages:
+ *
+ * ```typescript
+ * import { trace, metrics } from '@opentelemetry/api';
+ *
+ * new OpenTelemetryInstrumentation(trace.getTracer('my-app'), metrics.getMeter('my-app'));
+ * ```
+ */
+
+import {
+  OperationOutcome,
+  type Instrumentation,
+  type OperationContext,
+  type OperationSpan,
+} from '../core/types/observability';
+
+type Attributes = Record<string, string | number | boolean>;
+
+/** Subset of the OpenTelemetry Span interface */
+export interface OtelSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+/** Subset of the OpenTelemetry Tracer interface */
+export interface OtelTracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: Attributes }): OtelSpan;
+}
+
+/** Subset of the OpenTelemetry Meter interface */
+export interface OtelMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: Attributes): void };
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: Attributes): void };
+}
+
+/** SpanKind.CLIENT in @opentelemetry/api */
+const SPAN_KIND_CLIENT = 2;
+/** SpanStatusCode.OK / SpanStatusCode.ERROR in @opentelemetry/api */
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Instrumentation that records a client span per operation, plus duration,
+ * error and retry metrics when a meter is given
+ *
+ * Spans are named `<service>.<operation>` and carry `lcplatform.*` attributes.
+ */
+export class OpenTelemetryInstrumentation implements Instrumentation {
+  private readonly metrics:
+    | {
+        duration: ReturnType<OtelMeter['createHistogram']>;
+        errors: ReturnType<OtelMeter['createCounter']>;
+        retries: ReturnType<OtelMeter['createCounter']>;
+      }
+    | undefined;
+
+  constructor(
+    private readonly tracer: OtelTracer,
+    meter?: OtelMeter
+  ) {
+    if (meter !== undefined) {
+      this.metrics = {
+        duration: meter.createHistogram('lcplatform.operation.duration', {
+          description: 'Duration of LCPlatform service and client operations',
+          unit: 'ms',
+        }),
+        errors: meter.createCounter('lcplatform.operation.errors', {
+          description: 'Failed LCPlatform service and client operations',
+        }),
+        retries: meter.createCounter('lcplatform.operation.retries', {
+          description: 'Retries made by LCPlatform service and client operations',
+        }),
+      };
+    }
+  }
+
+  startOperation(context: OperationContext): OperationSpan {
+    const attributes: Attributes = {
+      'lcplatform.provider': context.provider,
+      'lcplatform.service': context.service,
+      'lcplatform.operation': context.operation,
+      ...(context.resource !== undefined && { 'lcplatform.resource': context.resource }),
+    };
+    const span = this.tracer.startSpan(`${context.service}.${context.operation}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes,
+    });
+
+    return {
+      end: (result): void => {
+        span.setAttribute('lcplatform.outcome', result.outcome);
+        span.setAttribute('lcplatform.retry_count', result.retryCount);
+        if (result.outcome === OperationOutcome.ERROR) {
+          if (result.error !== undefined) {
+            span.recordException(result.error);
+          }
+          span.setStatus({
+            code: SPAN_STATUS_ERROR,
+            ...(result.error !== undefined && { message: result.error.message }),
+          });
+        } else {
+          span.setStatus({ code: SPAN_STATUS_OK });
+        }
+        span.end();
+
+        if (this.metrics !== undefined) {
+          // Resource names are left out of metric attributes to keep cardinality bounded
+          const metricAttributes: Attributes = {
+            'lcplatform.provider': context.provider,
+            'lcplatform.service': context.service,
+            'lcplatform.operation': context.operation,
+            'lcplatform.outcome': result.outcome,
+          };
+          this.metrics.duration.record(result.durationMs, metricAttributes);
+          if (result.outcome === OperationOutcome.ERROR) {
+            this.metrics.errors.add(1, metricAttributes);
+          }
+          if (result.retryCount > 0) {
+            this.metrics.retries.add(result.retryCount, metricAttributes);
+          }
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Queue Consumer
+ *
+ * Long-running receive, handle and acknowledge loop on top of any QueueClient.
+ */
+
+import type { QueueClient } from '../core/clients/QueueClient';
+import type { ReceivedMessage } from '../core/types/queue';
+import type { Logger } from '../core/types/observability';
+import type {
+  MessageHandler,
+  QueueConsumerOptions,
+  QueueConsumerStats,
+  QueueConsumerStopOptions,
+} from '../core/types/runtime';
+import { ValidationError } from '../core/types/common';
+import { consoleLogger } from './observability';
+
+/** Largest receive and batch delete SQS accepts */
+const MAX_BATCH_SIZE = 10;
+const DEFAULT_STOP_TIMEOUT_MS = 30000;
+
+type ResolvedOptions = Required<Omit<QueueConsumerOptions, 'onError'>>;
+
+interface InFlightMessage {
+  message: ReceivedMessage;
+  heartbeat?: ReturnType<typeof setInterval>;
+  /** Set when stop() gave up waiting; the result is then ignored */
+  abandoned: boolean;
+  done: Promise<void>;
+}
+
+/**
+ * Polls a queue and runs a handler for each message
+ *
+ * Successful messages are acknowledged in batches. A failed message is made visible
+ * again after a delay that doubles with each receive, so it is retried with backoff
+ * (and moved to the dead-letter queue by the provider once its retries run out).
+ */
+export class QueueConsumer {
+  private readonly options: ResolvedOptions;
+  private readonly inFlight = new Set<InFlightMessage>();
+  private readonly stats = { received: 0, succeeded: 0, failed: 0, acknowledged: 0 };
+  private running = false;
+  private generation = 0;
+  private loop: Promise<void> | undefined;
+  private wake: (() => void) | undefined;
+  private receiveFailures = 0;
+  private pendingAcks: string[] = [];
+  private ackTimer: ReturnType<typeof setTimeout> | undefined;
+  private acknowledging: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly client: QueueClient,
+    readonly queueName: string,
+    private readonly handler: MessageHandler,
+    private readonly consumerOptions: QueueConsumerOptions = {},
+    private readonly logger: Logger = consoleLogger
+  ) {
+    if (queueName === '') {
+      throw new ValidationError('Queue name is required');
+    }
+
+    this.options = {
+      concurrency: consumerOptions.concurrency ?? 1,
+      waitTimeSeconds: consumerOptions.waitTimeSeconds ?? 20,
+      visibilityTimeout: consumerOptions.visibilityTimeout ?? 30,
+      extendVisibility: consumerOptions.extendVisibility ?? true,
+      acknowledgeBatchSize: consumerOptions.acknowledgeBatchSize ?? MAX_BATCH_SIZE,
+      acknowledgeIntervalMs: consumerOptions.acknowledgeIntervalMs ?? 1000,
+      retryDelaySeconds: consumerOptions.retryDelaySeconds ?? 1,
+      maxRetryDelaySeconds: consumerOptions.maxRetryDelaySeconds ?? 300,
+      idleDelayMs: consumerOptions.idleDelayMs ?? 1000,
+    };
+
+    const { concurrency, visibilityTimeout, acknowledgeBatchSize } = this.options;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError('concurrency must be a positive integer');
+    }
+    if (!Number.isInteger(visibilityTimeout) || visibilityTimeout < 1) {
+      throw new ValidationError('visibilityTimeout must be a positive number of seconds');
+    }
+    if (
+      !Number.isInteger(acknowledgeBatchSize) ||
+      acknowledgeBatchSize < 1 ||
+      acknowledgeBatchSize > MAX_BATCH_SIZE
+    ) {
+      throw new ValidationError(`acknowledgeBatchSize must be between 1 and ${MAX_BATCH_SIZE}`);
+    }
+  }
+
+  /**
+   * Start polling; calling start on a running consumer has no effect
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.receiveFailures = 0;
+    this.loop = this.poll(++this.generation);
+  }
+
+  /**
+   * Stop polling, wait for running handlers and send outstanding acknowledgements
+   *
+   * Messages received after stop is called are released back to the queue.
+   */
+  async stop(options: QueueConsumerStopOptions = {}): Promise<void> {
+    const loop = this.loop;
+    if (loop === undefined) {
+      return;
+    }
+    this.running = false;
+    this.loop = undefined;
+    this.wake?.();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const drained = await Promise.race([
+      loop.then(() => Promise.all([...this.inFlight].map((entry) => entry.done))).then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), options.timeoutMs ?? DEFAULT_STOP_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (!drained) {
+      for (const entry of this.inFlight) {
+        entry.abandoned = true;
+        clearInterval(entry.heartbeat);
+      }
+    }
+    await this.flushAcknowledgements();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getStats(): QueueConsumerStats {
+    return { ...this.stats, inFlight: this.inFlight.size };
+  }
+
+  private async poll(generation: number): Promise<void> {
+    while (this.isActive(generation)) {
+      const capacity = this.options.concurrency - this.inFlight.size;
+      if (capacity <= 0) {
+        await Promise.race([...this.inFlight].map((entry) => entry.done));
+        continue;
+      }
+
+      let messages: ReceivedMessage[];
+      try {
+        messages = await this.client.receive(this.queueName, {
+          maxMessages: Math.min(capacity, MAX_BATCH_SIZE),
+          waitTimeSeconds: this.options.waitTimeSeconds,
+          visibilityTimeout: this.options.visibilityTimeout,
+        });
+        this.receiveFailures = 0;
+      } catch (error) {
+        this.report(error);
+        await this.pause(this.retryDelaySeconds(++this.receiveFailures) * 1000);
+        continue;
+      }
+
+      if (!this.isActive(generation)) {
+        await Promise.all(messages.map((message) => this.setVisibility(message, 0)));
+        return;
+      }
+      if (messages.length === 0) {
+        await this.pause(this.options.idleDelayMs);
+        continue;
+      }
+      for (const message of messages) {
+        this.dispatch(message);
+      }
+    }
+  }
+
+  private isActive(generation: number): boolean {
+    return this.running && this.generation === generation;
+  }
+
+  private dispatch(message: ReceivedMessage): void {
+    this.stats.received++;
+    const entry: InFlightMessage = { message, abandoned: false, done: Promise.resolve() };
+    if (this.options.extendVisibility) {
+      entry.heartbeat = setInterval(() => {
+        void this.setVisibility(message, this.options.visibilityTimeout);
+      }, this.options.visibilityTimeout * 500);
+    }
+    entry.done = this.handle(entry).finally(() => {
+      clearInterval(entry.heartbeat);
+      this.inFlight.delete(entry);
+    });
+    this.inFlight.add(entry);
+  }
+
+  private async handle(entry: InFlightMessage): Promise<void> {
+    const { message } = entry;
+    try {
+      await this.handler(message);
+    } catch (error) {
+      clearInterval(entry.heartbeat);
+      this.stats.failed++;
+      this.report(error, message);
+      if (!entry.abandoned) {
+        await this.setVisibility(
+          message,
+          this.retryDelaySeconds(Math.max(message.approximateReceiveCount, 1))
+        );
+      }
+      return;
+    }
+
+    this.stats.succeeded++;
+    if (!entry.abandoned) {
+      this.acknowledge(message.receiptHandle);
+    }
+  }
+
+  private acknowledge(receiptHandle: string): void {
+    this.pendingAcks.push(receiptHandle);
+    if (this.pendingAcks.length >= this.options.acknowledgeBatchSize) {
+      void this.flushAcknowledgements();
+    } else {
+      this.ackTimer ??= setTimeout(() => {
+        void this.flushAcknowledgements();
+      }, this.options.acknowledgeIntervalMs);
+    }
+  }
+
+  private flushAcknowledgements(): Promise<void> {
+    clearTimeout(this.ackTimer);
+    this.ackTimer = undefined;
+
+    while (this.pendingAcks.length > 0) {
+      const batch = this.pendingAcks.splice(0, this.options.acknowledgeBatchSize);
+      this.acknowledging = this.acknowledging.then(async () => {
+        try {
+          await this.client.acknowledgeBatch(this.queueName, batch);
+          this.stats.acknowledged += batch.length;
+        } catch (error) {
+          // The messages become visible again and are handled a second time
+          this.report(error);
+        }
+      });
+    }
+    return this.acknowledging;
+  }
+
+  private async setVisibility(message: ReceivedMessage, timeout: number): Promise<void> {
+    try {
+      await this.client.changeVisibility(this.queueName, message.receiptHandle, timeout);
+    } catch (error) {
+      this.report(error, message);
+    }
+  }
+
+  private retryDelaySeconds(attempt: number): number {
+    const delay = this.options.retryDelaySeconds * Math.pow(2, attempt - 1);
+    return Math.ceil(Math.min(delay, this.options.maxRetryDelaySeconds));
+  }
+
+  private pause(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  private report(error: unknown, message?: ReceivedMessage): void {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    const { onError } = this.consumerOptions;
+    if (onError === undefined) {
+      this.logger.error(`Queue consumer error on ${this.queueName}: ${cause.message}`, {
+        queueName: this.queueName,
+        ...(message !== undefined && { messageId: message.id }),
+      });
+      return;
+    }
+    try {
+      onError(cause, message);
+    } catch {
+      // A failing error callback must not stop the consumer
+    }
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Resilience Policy
+ *
+ * Retry with jitter, per-operation timeouts and a circuit breaker, applied to
+ * every service and client created by the provider factories.
+ *
+ * Configured through `ProviderConfig.options.resilience`:
+ *
+ * ```typescript
+ * options: {
+ *   resilience: {
+ *     retry: { maxRetries: 3, baseDelayMs: 100, jitter: true },
+ *     timeoutMs: 10000,
+ *     operationTimeouts: { receive: 30000 },
+ *     circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30000 },
+ *   },
+ * }
+ * ```
+ *
+ * Set `resilience: false` (or `retry: false` / `circuitBreaker: false`) to opt out.
+ * The mock provider only gets a policy when one is configured explicitly.
+ */
+
+import type { ProviderConfig } from '../core/types/common';
+import {
+  CircuitOpenError,
+  OperationTimeoutError,
+  ProviderType,
+  ValidationError,
+} from '../core/types/common';
+import { isRetryableError, retryWithBackoff, runWithOuterRetry, type RetryOptions } from './retry';
+import { serviceName, wrapAsyncMethods } from './asyncMethods';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive transient failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial call is allowed (default: 30000) */
+  resetTimeoutMs?: number;
+}
+
+export interface ResilienceOptions {
+  /**
+   * Retries apply to reads and to writes that are safe to repeat (delete, put, set,
+   * acknowledge, ...). Other operations, such as send or publish, make one attempt
+   * unless listed in `retryOperations`.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Further operations to retry after transient errors, e.g. `['send']` for FIFO queues
+   * with deduplication. Like other writes, they are not retried after a timeout.
+   */
+  retryOperations?: string[];
+  /** Timeout applied to every operation, in milliseconds */
+  timeoutMs?: number;
+  /** Timeouts for individual operations by method name, in milliseconds */
+  operationTimeouts?: Record<string, number>;
+  circuitBreaker?: CircuitBreakerOptions | false;
+}
+
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half-open',
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 5000,
+  jitter: true,
+};
+
+const DEFAULT_CIRCUIT_BREAKER: Required<CircuitBreakerOptions> = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+};
+
+/**
+ * Operations that only read; retried after any transient failure, including a timeout
+ */
+const READ_OPERATION =
+  /^(get|list|describe|exists|has|find|count|peek|query|validate|verify|batchGet|mget|ttl|imageExists)/;
+
+/**
+ * Writes that have the same effect when repeated; retried after transient errors but
+ * not after a timeout, because the timed-out attempt may still complete
+ */
+const IDEMPOTENT_OPERATION =
+  /^(delete|put|set|mset|mdel|remove|purge|acknowledge|changeVisibility|receive|expire|persist|tag|configure|unsubscribe)/;
+
+/**
+ * Circuit breaker that fails fast after repeated transient failures
+ *
+ * Only retryable errors (and timeouts) count as failures; errors such as
+ * validation or not-found show the service is reachable and close the circuit.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private currentState = CircuitState.CLOSED;
+  private trialInFlight = false;
+  private readonly options: Required<CircuitBreakerOptions>;
+
+  constructor(
+    readonly name: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER, ...options };
+  }
+
+  get state(): CircuitState {
+    if (
+      this.currentState === CircuitState.OPEN &&
+      Date.now() - this.openedAt >= this.options.resetTimeoutMs
+    ) {
+      this.currentState = CircuitState.HALF_OPEN;
+    }
+    return this.currentState;
+  }
+
+  async execute<T>(fn: () => Promise<T>, isFailure: (error: Error) => boolean): Promise<T> {
+    const state = this.state;
+
+    if (state === CircuitState.OPEN || (state === CircuitState.HALF_OPEN && this.trialInFlight)) {
+      throw new CircuitOpenError(
+        this.name,
+        Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now())
+      );
+    }
+
+    const trial = state === CircuitState.HALF_OPEN;
+    this.trialInFlight = trial;
+
+    try {
+      const result = await fn();
+      this.close();
+      return result;
+    } catch (error) {
+      if (error instanceof Error && isFailure(error)) {
+        this.recordFailure(trial);
+      } else {
+        this.close();
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private recordFailure(trial: boolean): void {
+    this.failures++;
+    if (trial || this.failures >= this.options.failureThreshold) {
+      this.currentState = CircuitState.OPEN;
+      this.openedAt = Date.now();
+    }
+  }
+
+  private close(): void {
+    this.failures = 0;
+    this.currentState = CircuitState.CLOSED;
+  }
+}
+
+/**
+ * Circuit breakers shared by all instances talking to the same service and endpoint
+ */
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the shared circuit breaker for a service/endpoint key
+ */
+export function getCircuitBreaker(key: string, options?: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = circuitBreakers.get(key);
+  if (breaker === undefined) {
+    breaker = new CircuitBreaker(key, options);
+    circuitBreakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Forget all circuit breaker state (mainly for tests)
+ */
+export function resetCircuitBreakers(): void {
+  circuitBreakers.clear();
+}
+
+/**
+ * Retry, timeout and circuit breaker settings for one service instance
+ */
+export class ResiliencePolicy {
+  private readonly retry: RetryOptions | undefined;
+  private readonly breaker: CircuitBreaker | undefined;
+
+  constructor(
+    readonly name: string,
+    private readonly options: ResilienceOptions = {}
+  ) {
+    this.retry = options.retry === false ? undefined : { ...DEFAULT_RETRY, ...options.retry };
+    this.breaker =
+      options.circuitBreaker === false
+        ? undefined
+        : getCircuitBreaker(name, options.circuitBreaker);
+  }
+
+  /**
+   * Run an operation under the policy
+   *
+   * Each attempt goes through the circuit breaker and timeout; retries stop on
+   * non-retryable errors, including an open circuit. Only reads are retried after a
+   * timeout, and only reads, idempotent writes and `retryOperations` are retried at all.
+   */
+  async execute<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    const timeoutMs = this.options.operationTimeouts?.[operation] ?? this.options.timeoutMs;
+    const read = READ_OPERATION.test(operation);
+    const attempt = async (): Promise<T> => {
+      const timed = (): Promise<T> =>
+        timeoutMs !== undefined ? withTimeout(`${this.name}.${operation}`, timeoutMs, fn) : fn();
+      try {
+        return this.breaker !== undefined
+          ? await this.breaker.execute(timed, (error) => this.isTransient(error))
+          : await timed();
+      } catch (error) {
+        if (!read && error instanceof OperationTimeoutError) {
+          // The first call may still complete, so repeating a write could apply it twice
+          error.retryable = false;
+        }
+        throw error;
+      }
+    };
+
+    if (this.retry === undefined || !this.isRetried(operation)) {
+      return runWithOuterRetry(attempt);
+    }
+
+    return retryWithBackoff(() => runWithOuterRetry(attempt), this.retry);
+  }
+
+  private isRetried(operation: string): boolean {
+    return (
+      READ_OPERATION.test(operation) ||
+      IDEMPOTENT_OPERATION.test(operation) ||
+      this.options.retryOperations?.includes(operation) === true
+    );
+  }
+
+  private isTransient(error: Error): boolean {
+    return this.retry?.retryableErrors !== undefined
+      ? isRetryableError(error, this.retry.retryableErrors)
+      : isRetryableError(error);
+  }
+}
+
+/**
+ * Read resilience options from a provider configuration
+ *
+ * @returns undefined when no policy applies to the configuration
+ * @throws ValidationError if `options.resilience` is not an object or boolean
+ */
+export function getResilienceOptions(config: ProviderConfig): ResilienceOptions | undefined {
+  const value = config.options?.resilience;
+
+  if (value === false) {
+    return undefined;
+  }
+  if (value === undefined || value === true) {
+    return config.provider === ProviderType.MOCK && value !== true ? undefined : {};
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('options.resilience must be an object or boolean', {
+      resilience: value,
+    });
+  }
+
+  return value as ResilienceOptions;
+}
+
+/**
+ * Wrap a service or client so that its async methods run under a resilience policy
+ *
+ * Synchronous methods and methods whose names start with `_` are passed through.
+ * The circuit breaker is shared per provider, service type and endpoint (or region).
+ *
+ * @param serviceType - Interface name, e.g. QueueClient
+ */
+export function withResilience<T extends object>(
+  target: T,
+  config: ProviderConfig,
+  serviceType: string
+): T {
+  const options = getResilienceOptions(config);
+  if (options === undefined) {
+    return target;
+  }
+
+  const endpoint = config.endpoint ?? config.region ?? 'default';
+  const policy = new ResiliencePolicy(
+    `${serviceName(config.provider, serviceType)}:${endpoint}`,
+    options
+  );
+
+  return wrapAsyncMethods(target, (operation, _args, call) =>
+    policy.execute(operation, () => call())
+  );
+}
+
+async function withTimeout<T>(name: string, timeoutMs: number, fn: () => Promise<T>): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await Promise.race([
+      fn(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new OperationTimeoutError(name, timeoutMs)), timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -7,7 +7,9 @@
  * Based on research.md decision #5: Exponential backoff with 3 attempts default
  */
 
-import { ServiceUnavailableError } from '../core/types/common';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { LCPlatformError, ServiceUnavailableError } from '../core/types/common';
+import { recordRetry } from './observability';
 
 export interface RetryOptions {
   maxRetries?: number;
@@ -15,6 +17,8 @@ export interface RetryOptions {
   maxDelayMs?: number;
   exponentialBase?: number;
   retryableErrors?: string[];
+  /** Randomize each delay between 0 and the backoff delay (full jitter) */
+  jitter?: boolean;
 }
 
 export interface RetryContext {
@@ -36,8 +40,24 @@ const DEFAULT_OPTIONS: Required<RetryOptions> = {
     'THROTTLING',
     'TOO_MANY_REQUESTS',
   ],
+  jitter: false,
 };
 
+/**
+ * Set while an operation runs under a resilience policy that owns retries
+ */
+const outerRetryScope = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run a function in a scope where nested retryWithBackoff calls make a single attempt
+ *
+ * Used by the resilience layer so that retries configured on a service are not
+ * multiplied by retry loops inside the service implementation.
+ */
+export function runWithOuterRetry<T>(fn: () => Promise<T>): Promise<T> {
+  return outerRetryScope.run(true, fn);
+}
+
 /**
  * Execute a function with exponential backoff retry logic
  *
@@ -50,6 +70,10 @@ export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   options: RetryOptions = {}
 ): Promise<T> {
+  if (outerRetryScope.getStore() === true) {
+    return fn();
+  }
+
   const opts = { ...DEFAULT_OPTIONS, ...options };
   let lastError: Error | undefined;
 
@@ -77,6 +101,7 @@ export async function retryWithBackoff<T>(
       const finalDelay = retryAfter !== null ? retryAfter * 1000 : delay;
 
       // Wait before retrying
+      recordRetry();
       await sleep(finalDelay);
     }
   }
@@ -94,14 +119,27 @@ export async function retryWithBackoff<T>(
  * Calculate exponential backoff delay
  */
 function calculateBackoff(attempt: number, options: Required<RetryOptions>): number {
-  const delay = options.baseDelayMs * Math.pow(options.exponentialBase, attempt);
-  return Math.min(delay, options.maxDelayMs);
+  const delay = Math.min(
+    options.baseDelayMs * Math.pow(options.exponentialBase, attempt),
+    options.maxDelayMs
+  );
+  return options.jitter ? Math.floor(Math.random() * delay) : delay;
 }
 
 /**
  * Check if an error should be retried
+ *
+ * LCPlatformErrors are retried according to their `retryable` flag; other
+ * errors are matched against the retryable error codes and message patterns.
  */
-function isRetryableError(error: Error, retryableErrors: string[]): boolean {
+export function isRetryableError(
+  error: Error,
+  retryableErrors: string[] = DEFAULT_OPTIONS.retryableErrors
+): boolean {
+  if (error instanceof LCPlatformError) {
+    return error.retryable;
+  }
+
   // Check error code
   const errorCode = (error as { code?: string }).code;
   if (errorCode !== null && errorCode !== undefined && retryableErrors.includes(errorCode)) {
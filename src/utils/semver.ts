@@ -0,0 +1,179 @@
+/**
+ * Semantic Version Utility
+ *
+ * Parses, compares and increments application configuration version strings.
+ * Accepts an optional "v" prefix (e.g. v1.2.3) and an optional pre-release suffix.
+ */
+
+/**
+ * Version component to increment
+ */
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+/**
+ * Parsed semantic version
+ */
+export interface SemanticVersion {
+  prefix: string;
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease?: string;
+}
+
+const SEMVER_PATTERN = /^(v?)(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z.-]+))?$/;
+
+/**
+ * Parse a version string
+ *
+ * @param version - Version string (e.g. v1.2.3 or 1.2.3-rc.1)
+ * @returns Parsed version, or undefined if the string is not semver
+ */
+export function parseVersion(version: string): SemanticVersion | undefined {
+  const match = SEMVER_PATTERN.exec(version);
+  if (match === null) {
+    return undefined;
+  }
+
+  return {
+    prefix: match[1] ?? '',
+    major: Number(match[2]),
+    minor: Number(match[3]),
+    patch: Number(match[4]),
+    ...(match[5] !== undefined && { prerelease: match[5] }),
+  };
+}
+
+/**
+ * Compare two pre-release identifiers per semver precedence rules
+ */
+function comparePrerelease(a: string | undefined, b: string | undefined): number {
+  if (a === b) {
+    return 0;
+  }
+  // A release has higher precedence than any of its pre-releases
+  if (a === undefined) {
+    return 1;
+  }
+  if (b === undefined) {
+    return -1;
+  }
+
+  const aParts = a.split('.');
+  const bParts = b.split('.');
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const aPart = aParts[i];
+    const bPart = bParts[i];
+    if (aPart === undefined) {
+      return -1;
+    }
+    if (bPart === undefined) {
+      return 1;
+    }
+
+    const aNumeric = /^\d+$/.test(aPart);
+    const bNumeric = /^\d+$/.test(bPart);
+    if (aNumeric && bNumeric) {
+      const diff = Number(aPart) - Number(bPart);
+      if (diff !== 0) {
+        return diff;
+      }
+    } else if (aNumeric !== bNumeric) {
+      return aNumeric ? -1 : 1;
+    } else if (aPart !== bPart) {
+      return aPart < bPart ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compare two version strings for sorting
+ *
+ * Semver strings are ordered by precedence; non-semver strings sort after
+ * all semver strings, lexicographically.
+ *
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const aVersion = parseVersion(a);
+  const bVersion = parseVersion(b);
+
+  if (aVersion === undefined || bVersion === undefined) {
+    if (aVersion !== undefined) {
+      return -1;
+    }
+    if (bVersion !== undefined) {
+      return 1;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  const componentOrder: Array<'major' | 'minor' | 'patch'> = ['major', 'minor', 'patch'];
+  for (const component of componentOrder) {
+    const diff = aVersion[component] - bVersion[component];
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  return comparePrerelease(aVersion.prerelease, bVersion.prerelease);
+}
+
+/**
+ * Check whether two version strings name the same version, ignoring the "v" prefix
+ * (v1.2.0 and 1.2.0 are the same version)
+ */
+export function isSameVersion(a: string, b: string): boolean {
+  const aVersion = parseVersion(a);
+  const bVersion = parseVersion(b);
+  if (aVersion === undefined || bVersion === undefined) {
+    return a === b;
+  }
+  return compareVersions(a, b) === 0;
+}
+
+/**
+ * Derive the next version string
+ *
+ * The prefix of the current version is kept. Bumping a pre-release releases it when the
+ * lower components are already zero, as in npm semver: v2.0.0-rc.1 becomes v2.0.0 on a
+ * major or minor bump and v1.2.3-beta becomes v1.2.3 on a patch bump.
+ *
+ * @param current - Current version, or undefined if no version exists yet
+ * @param bump - Component to increment
+ * @param defaultPrefix - Prefix to use when there is no current version
+ * @returns Next version string
+ * @throws Error if current is not a valid semver string
+ */
+export function incrementVersion(
+  current: string | undefined,
+  bump: VersionBump,
+  defaultPrefix = 'v'
+): string {
+  const parsed: SemanticVersion | undefined =
+    current !== undefined
+      ? parseVersion(current)
+      : { prefix: defaultPrefix, major: 0, minor: 0, patch: 0 };
+
+  if (parsed === undefined) {
+    throw new Error(`Invalid semantic version: ${String(current)}`);
+  }
+
+  const { prefix, major, minor, patch } = parsed;
+  const prerelease = parsed.prerelease !== undefined;
+  switch (bump) {
+    case 'major':
+      return prerelease && minor === 0 && patch === 0
+        ? `${prefix}${major}.0.0`
+        : `${prefix}${major + 1}.0.0`;
+    case 'minor':
+      return prerelease && patch === 0
+        ? `${prefix}${major}.${minor}.0`
+        : `${prefix}${major}.${minor + 1}.0`;
+    case 'patch':
+      return prerelease
+        ? `${prefix}${major}.${minor}.${patch}`
+        : `${prefix}${major}.${minor}.${patch + 1}`;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Typed Channels
+ *
+ * Schema-bound queues and event publishers. Sent values are validated and encoded
+ * with a codec named in the contentType attribute; received bodies are decoded with
+ * the matching codec and validated again:
+ *
+ * ```typescript
+ * const orders = new TypedQueue<Order>(queueClient, 'orders', { schema: orderSchema });
+ * await orders.send({ orderId: '123', total: 42 });
+ * const [message] = await orders.receive(); // message.body is an Order
+ * ```
+ */
+
+import type { QueueClient } from '../core/clients/QueueClient';
+import type { EventPublisher } from '../core/clients/EventPublisher';
+import type { ReceivedMessage } from '../core/types/queue';
+import type { Event } from '../core/types/event';
+import type {
+  BatchPublishResult,
+  BatchSendResult,
+  ReceiveOptions,
+  SendOptions,
+} from '../core/types/runtime';
+import type {
+  MessageCodec,
+  TypedChannelOptions,
+  TypedQueueOptions,
+  TypedReceivedMessage,
+} from '../core/types/codec';
+import { ValidationError } from '../core/types/common';
+import { SchemaValidator } from './schemaValidator';
+import { CONTENT_TYPE_ATTRIBUTE, builtInCodecs, jsonCodec } from './messageCodecs';
+
+/** Property that holds encoded event data that is not a JSON object */
+const ENCODED_PROPERTY = 'lcpEncoded';
+
+/**
+ * Validation and encoding shared by typed queues and event publishers
+ */
+class ChannelCodec<T> {
+  readonly codec: MessageCodec;
+  private readonly codecs = new Map<string, MessageCodec>();
+  private readonly validator: SchemaValidator | undefined;
+
+  constructor(
+    private readonly channel: string,
+    options: TypedChannelOptions
+  ) {
+    this.codec = options.codec ?? jsonCodec;
+    for (const codec of [...builtInCodecs, ...(options.codecs ?? []), this.codec]) {
+      this.codecs.set(codec.contentType, codec);
+    }
+    if (options.schema !== undefined) {
+      this.validator = new SchemaValidator();
+      this.validator.registerSchema(channel, options.schema);
+    }
+  }
+
+  /**
+   * @throws ValidationError if the value does not match the schema
+   */
+  validate(value: unknown): T {
+    const result = this.validator?.validate(this.channel, value);
+    if (result !== undefined && !result.valid) {
+      throw new ValidationError(`Message does not match the schema for ${this.channel}`, {
+        errors: result.errors?.map((error) => error.message.trim()),
+      });
+    }
+    return value as T;
+  }
+
+  encode(value: T): string {
+    return this.codec.encode(this.validate(value));
+  }
+
+  /**
+   * Decode with the codec named by contentType, or the channel codec when it is not set
+   *
+   * @throws ValidationError if the content type is unknown, or the text does not decode
+   */
+  decode(text: string, contentType: string | undefined): T {
+    const codec = contentType !== undefined ? this.codecs.get(contentType) : this.codec;
+    if (codec === undefined) {
+      throw new ValidationError(`Unknown content type for ${this.channel}: ${contentType}`);
+    }
+
+    let value: unknown;
+    try {
+      value = codec.decode(text);
+    } catch (error) {
+      throw new ValidationError(`Message for ${this.channel} is not valid ${codec.contentType}`, {
+        cause: (error as Error).message,
+      });
+    }
+    return this.validate(value);
+  }
+}
+
+/**
+ * Queue whose messages are validated against a schema and encoded with a codec
+ */
+export class TypedQueue<T> {
+  private readonly channel: ChannelCodec<T>;
+
+  constructor(
+    private readonly client: QueueClient,
+    readonly queueName: string,
+    private readonly options: TypedQueueOptions = {}
+  ) {
+    if (queueName === '') {
+      throw new ValidationError('Queue name is required');
+    }
+    this.channel = new ChannelCodec(queueName, options);
+  }
+
+  /**
+   * @throws ValidationError if the message does not match the schema
+   */
+  async send(message: T, options: SendOptions = {}): Promise<string> {
+    return await this.client.send(this.queueName, this.channel.encode(message), {
+      ...options,
+      attributes: {
+        ...options.attributes,
+        [CONTENT_TYPE_ATTRIBUTE]: this.channel.codec.contentType,
+      },
+    });
+  }
+
+  /**
+   * Batch sends carry no content-type attribute, so receivers decode them with the
+   * channel codec
+   *
+   * @param options - Send options of each message by index, e.g. FIFO message group IDs
+   * @throws ValidationError if any message does not match the schema; nothing is sent
+   */
+  async sendBatch(messages: T[], options?: SendOptions[]): Promise<BatchSendResult> {
+    const bodies = messages.map((message) => this.channel.encode(message));
+    return await this.client.sendBatch(this.queueName, bodies, options);
+  }
+
+  /**
+   * Receive and decode messages; invalid ones are passed to onInvalid and left on the queue
+   */
+  async receive(options?: ReceiveOptions): Promise<Array<TypedReceivedMessage<T>>> {
+    const messages = await this.client.receive(this.queueName, options);
+    const decoded: Array<TypedReceivedMessage<T>> = [];
+    for (const message of messages) {
+      try {
+        decoded.push(this.decode(message));
+      } catch (error) {
+        this.options.onInvalid?.(message, error as Error);
+      }
+    }
+    return decoded;
+  }
+
+  /**
+   * Decode a message received through the untyped client, e.g. in a QueueConsumer handler
+   *
+   * @throws ValidationError if the body does not decode or match the schema
+   */
+  decode(message: ReceivedMessage): TypedReceivedMessage<T> {
+    // Clients parse JSON object and array bodies, so turn them back into text for the codec
+    const text = typeof message.body === 'string' ? message.body : JSON.stringify(message.body);
+    return {
+      ...message,
+      body: this.channel.decode(text, message.attributes[CONTENT_TYPE_ATTRIBUTE]),
+    };
+  }
+
+  acknowledge(receiptHandle: string): Promise<void> {
+    return this.client.acknowledge(this.queueName, receiptHandle);
+  }
+
+  acknowledgeBatch(receiptHandles: string[]): Promise<void> {
+    return this.client.acknowledgeBatch(this.queueName, receiptHandles);
+  }
+
+  changeVisibility(receiptHandle: string, timeout: number): Promise<void> {
+    return this.client.changeVisibility(this.queueName, receiptHandle, timeout);
+  }
+}
+
+/**
+ * Publisher for one event type whose data is validated against a schema
+ *
+ * JSON objects are published as the event data. Other values, and values encoded with
+ * any other codec, are published as `{ lcpEncoded: <text> }`.
+ */
+export class TypedEventPublisher<T> {
+  private readonly channel: ChannelCodec<T>;
+
+  constructor(
+    private readonly publisher: EventPublisher,
+    readonly eventBusName: string,
+    readonly source: string,
+    readonly type: string,
+    options: TypedChannelOptions = {}
+  ) {
+    if (eventBusName === '' || source === '' || type === '') {
+      throw new ValidationError('Event bus name, source and type are required');
+    }
+    this.channel = new ChannelCodec(`${source}/${type}`, options);
+  }
+
+  /**
+   * @throws ValidationError if the data does not match the schema
+   */
+  async publish(data: T, metadata?: Record<string, string>): Promise<string> {
+    return await this.publisher.publish(this.eventBusName, this.toEvent(data, metadata));
+  }
+
+  /**
+   * @throws ValidationError if any data does not match the schema; nothing is published
+   */
+  async publishBatch(items: T[]): Promise<BatchPublishResult> {
+    const events = items.map((data) => this.toEvent(data));
+    return await this.publisher.publishBatch(this.eventBusName, events);
+  }
+
+  /**
+   * Decode the data of an event published by this channel
+   *
+   * @throws ValidationError if the data is not an object, or does not decode or match the schema
+   */
+  decode(event: Event): T {
+    // Events from other publishers or parsed payloads may carry any JSON value
+    const data: unknown = event.data;
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new ValidationError(`Event data for ${this.source}/${this.type} must be an object`, {
+        data: data === null ? 'null' : Array.isArray(data) ? 'array' : typeof data,
+      });
+    }
+    const encoded = (data as Record<string, unknown>)[ENCODED_PROPERTY];
+    const contentType = event.metadata?.[CONTENT_TYPE_ATTRIBUTE];
+    return typeof encoded === 'string'
+      ? this.channel.decode(encoded, contentType)
+      : this.channel.validate(event.data);
+  }
+
+  private toEvent(data: T, metadata: Record<string, string> = {}): Event {
+    const text = this.channel.encode(data);
+    const { codec } = this.channel;
+    const plainObject = codec === jsonCodec && typeof data === 'object' && !Array.isArray(data);
+    return {
+      source: this.source,
+      type: this.type,
+      data:
+        plainObject && data !== null ? (JSON.parse(text) as object) : { [ENCODED_PROPERTY]: text },
+      metadata: { ...metadata, [CONTENT_TYPE_ATTRIBUTE]: codec.contentType },
+    };
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Version Diff Utility
+ *
+ * Computes structured differences between two persisted application versions
+ */
+
+import type { ApplicationVersion } from '../core/types/application';
+import type { ApplicationDependency, DependencyStatus } from '../core/types/dependency';
+
+/**
+ * A single field-level change, addressed by dot-separated path
+ */
+export interface FieldChange {
+  path: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * Policy content change for a dependency
+ */
+export interface PolicyChange {
+  oldContent?: string;
+  newContent?: string;
+}
+
+/**
+ * Changes to a dependency present in both versions
+ */
+export interface DependencyChange {
+  name: string;
+  configurationChanges: FieldChange[];
+  statusChange?: { oldStatus: DependencyStatus; newStatus: DependencyStatus };
+  policyChange?: PolicyChange;
+}
+
+/**
+ * Structured difference between two application versions
+ */
+export interface VersionDiff {
+  fromVersion: string;
+  toVersion: string;
+  /**
+   * Empty when either version has no stored app config
+   */
+  appConfigChanges: FieldChange[];
+  dependencies: {
+    added: ApplicationDependency[];
+    removed: ApplicationDependency[];
+    changed: DependencyChange[];
+  };
+  hasChanges: boolean;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Recursively compare two values and collect leaf-level changes
+ *
+ * Arrays are compared as whole values rather than element by element.
+ */
+export function diffFields(oldValue: unknown, newValue: unknown, path = ''): FieldChange[] {
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+    const changes: FieldChange[] = [];
+    for (const key of Array.from(keys).sort()) {
+      const childPath = path === '' ? key : `${path}.${key}`;
+      changes.push(...diffFields(oldValue[key], newValue[key], childPath));
+    }
+    return changes;
+  }
+
+  if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+    return [];
+  }
+
+  return [{ path, oldValue, newValue }];
+}
+
+/**
+ * Compare a dependency present in both versions
+ *
+ * @returns The change set, or undefined if the dependency is unchanged
+ */
+function diffDependency(
+  oldDep: ApplicationDependency,
+  newDep: ApplicationDependency
+): DependencyChange | undefined {
+  const configurationChanges = diffFields(oldDep.configuration, newDep.configuration);
+  const oldPolicy = oldDep.policy?.content;
+  const newPolicy = newDep.policy?.content;
+
+  const change: DependencyChange = {
+    name: newDep.name,
+    configurationChanges,
+    ...(oldDep.status !== newDep.status && {
+      statusChange: { oldStatus: oldDep.status, newStatus: newDep.status },
+    }),
+    ...(oldPolicy !== newPolicy && {
+      policyChange: {
+        ...(oldPolicy !== undefined && { oldContent: oldPolicy }),
+        ...(newPolicy !== undefined && { newContent: newPolicy }),
+      },
+    }),
+  };
+
+  const hasChanges =
+    configurationChanges.length > 0 ||
+    change.statusChange !== undefined ||
+    change.policyChange !== undefined;
+
+  return hasChanges ? change : undefined;
+}
+
+/**
+ * Compute the structured difference between two application versions
+ *
+ * Dependencies are matched by name.
+ *
+ * @param from - Older version
+ * @param to - Newer version
+ * @returns Version diff
+ */
+export function diffVersions(from: ApplicationVersion, to: ApplicationVersion): VersionDiff {
+  const fromDeps = new Map(from.dependencies.map((dep) => [dep.name, dep]));
+  const toDeps = new Map(to.dependencies.map((dep) => [dep.name, dep]));
+
+  const added = to.dependencies.filter((dep) => !fromDeps.has(dep.name));
+  const removed = from.dependencies.filter((dep) => !toDeps.has(dep.name));
+  const changed: DependencyChange[] = [];
+
+  for (const newDep of to.dependencies) {
+    const oldDep = fromDeps.get(newDep.name);
+    if (oldDep === undefined) {
+      continue;
+    }
+    const change = diffDependency(oldDep, newDep);
+    if (change !== undefined) {
+      changed.push(change);
+    }
+  }
+
+  const appConfigChanges =
+    from.appConfig !== undefined && to.appConfig !== undefined
+      ? diffFields(from.appConfig, to.appConfig)
+      : [];
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    appConfigChanges,
+    dependencies: { added, removed, changed },
+    hasChanges:
+      appConfigChanges.length > 0 || added.length > 0 || removed.length > 0 || changed.length > 0,
+  };
+}
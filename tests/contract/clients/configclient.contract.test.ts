@@ -131,6 +131,39 @@ function testConfigClientContract(
         await expect(client.getBoolean('app-config', '')).rejects.toThrow(ValidationError);
       });
     });
+
+    describe('getFeatureFlag', () => {
+      test('should evaluate a boolean flag', async () => {
+        const value = await client.getFeatureFlag('app-config', 'featureEnabled');
+
+        expect(value).toBe(true);
+      });
+
+      test('should return default value for missing flag', async () => {
+        const value = await client.getFeatureFlag('app-config', 'nonexistent', undefined, true);
+
+        expect(value).toBe(true);
+      });
+
+      test('should throw ValidationError for empty flag name', async () => {
+        await expect(client.getFeatureFlag('app-config', '')).rejects.toThrow(ValidationError);
+      });
+    });
+
+    describe('watch', () => {
+      test('should return a subscription for an existing configuration', async () => {
+        const subscription = await client.watch('app-config', () => undefined);
+
+        expect(subscription.configName).toBe('app-config');
+        subscription.unsubscribe();
+      });
+
+      test('should throw ResourceNotFoundError for non-existent config', async () => {
+        await expect(client.watch('nonexistent-config', () => undefined)).rejects.toThrow(
+          ResourceNotFoundError
+        );
+      });
+    });
   });
 }
 
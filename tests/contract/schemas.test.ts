@@ -5,6 +5,7 @@
 import { describe, test, expect } from 'bun:test';
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import { DependencyType } from '../../src/core/types/dependency';
 
 describe('JSON Schema Contracts', () => {
   test('LCPlatformApp schema should be valid JSON', () => {
@@ -36,4 +37,18 @@ describe('JSON Schema Contracts', () => {
     expect(schema.oneOf).toBeDefined();
     expect(Array.isArray(schema.oneOf)).toBe(true);
   });
+
+  test('DependencyConfiguration schema should cover every dependency type', () => {
+    const schemaPath = join(process.cwd(), 'src/schemas/DependencyConfiguration.schema.json');
+    const content = readFileSync(schemaPath, 'utf-8');
+    const schema = JSON.parse(content) as {
+      oneOf: Array<{ $ref: string }>;
+      definitions: Record<string, { properties: { type: { const?: string } } }>;
+    };
+
+    const types = schema.oneOf.map(
+      ({ $ref }) => schema.definitions[$ref.replace('#/definitions/', '')]?.properties.type.const
+    );
+    expect(types.sort()).toEqual([...Object.values(DependencyType)].sort());
+  });
 });
@@ -0,0 +1,280 @@
+/**
+ * In-memory stand-in for the Azure Blob Storage SDK
+ *
+ * Replaces the container and blob client methods used by the Azure object storage provider,
+ * so unit tests run without Azurite or an Azure account.
+ */
+
+import { spyOn } from 'bun:test';
+import { Readable } from 'stream';
+import {
+  BlobClient,
+  BlockBlobClient,
+  ContainerClient,
+  RestError,
+  type BlobHTTPHeaders,
+} from '@azure/storage-blob';
+
+export interface FakeBlob {
+  data: Buffer;
+  headers: BlobHTTPHeaders;
+  metadata: Record<string, string>;
+  tags: Record<string, string>;
+  etag: string;
+  lastModified: Date;
+}
+
+export interface FakeContainer {
+  access?: string;
+  blobs: Map<string, FakeBlob>;
+}
+
+export interface FakeAzureBlobs {
+  containers: Map<string, FakeContainer>;
+  restore(): void;
+}
+
+interface UploadOptions {
+  blobHTTPHeaders?: BlobHTTPHeaders;
+  metadata?: Record<string, string>;
+  tags?: Record<string, string>;
+}
+
+interface PageSettings {
+  continuationToken?: string;
+  maxPageSize?: number;
+}
+
+/**
+ * Install the fake; call restore() in afterEach
+ */
+export function installAzureBlobFake(): FakeAzureBlobs {
+  const containers = new Map<string, FakeContainer>();
+  let counter = 0;
+
+  const findContainer = (name: string): FakeContainer => {
+    const container = containers.get(name);
+    if (!container) {
+      throw new RestError('The specified container does not exist.', {
+        statusCode: 404,
+        code: 'ContainerNotFound',
+      });
+    }
+    return container;
+  };
+
+  const findBlob = (containerName: string, blobName: string): FakeBlob => {
+    const blob = findContainer(containerName).blobs.get(blobName);
+    if (!blob) {
+      throw new RestError('The specified blob does not exist.', {
+        statusCode: 404,
+        code: 'BlobNotFound',
+      });
+    }
+    return blob;
+  };
+
+  const store = (
+    containerName: string,
+    blobName: string,
+    data: Buffer,
+    options?: UploadOptions
+  ) => {
+    findContainer(containerName).blobs.set(blobName, {
+      data,
+      headers: options?.blobHTTPHeaders ?? {},
+      metadata: options?.metadata ?? {},
+      tags: options?.tags ?? {},
+      etag: `"etag-${++counter}"`,
+      lastModified: new Date(),
+    });
+  };
+
+  const properties = (blob: FakeBlob) => ({
+    contentLength: blob.data.length,
+    etag: blob.etag,
+    lastModified: blob.lastModified,
+    ...(blob.headers.blobContentType !== undefined && {
+      contentType: blob.headers.blobContentType,
+    }),
+    ...(blob.headers.blobCacheControl !== undefined && {
+      cacheControl: blob.headers.blobCacheControl,
+    }),
+    ...(blob.headers.blobContentDisposition !== undefined && {
+      contentDisposition: blob.headers.blobContentDisposition,
+    }),
+    ...(blob.headers.blobContentEncoding !== undefined && {
+      contentEncoding: blob.headers.blobContentEncoding,
+    }),
+    metadata: { ...blob.metadata },
+    tagCount: Object.keys(blob.tags).length,
+  });
+
+  const blobItem = (name: string, blob: FakeBlob) => ({
+    kind: 'blob' as const,
+    name,
+    deleted: false,
+    snapshot: '',
+    properties: properties(blob),
+  });
+
+  // Pages of at most maxPageSize entries, with the next start index as continuation token
+  const paged = <T>(list: () => T[], itemsKey: 'flat' | 'hierarchy') => {
+    const toPage = (entries: T[], settings: PageSettings) => {
+      const start = Number(settings.continuationToken ?? 0);
+      const size = settings.maxPageSize ?? 5000;
+      const slice = entries.slice(start, start + size);
+      const blobItems = slice.filter((e) => (e as { kind: string }).kind === 'blob');
+      const blobPrefixes = slice.filter((e) => (e as { kind: string }).kind === 'prefix');
+      return {
+        segment: itemsKey === 'flat' ? { blobItems } : { blobItems, blobPrefixes },
+        ...(start + size < entries.length && { continuationToken: String(start + size) }),
+      };
+    };
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        yield* list();
+      },
+      byPage(settings: PageSettings = {}) {
+        return (async function* () {
+          const entries = list();
+          let token = settings.continuationToken;
+          do {
+            const page = toPage(entries, {
+              ...settings,
+              ...(token !== undefined && { continuationToken: token }),
+            });
+            yield page;
+            token = page.continuationToken;
+          } while (token !== undefined);
+        })();
+      },
+    };
+  };
+
+  const listFlat = (containerName: string, prefix = '') =>
+    [...findContainer(containerName).blobs.entries()]
+      .filter(([name]) => name.startsWith(prefix))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, blob]) => blobItem(name, blob));
+
+  const spies = [
+    spyOn(ContainerClient.prototype, 'create').mockImplementation(async function (
+      this: ContainerClient,
+      options?: { access?: string }
+    ) {
+      if (containers.has(this.containerName)) {
+        throw new RestError('The specified container already exists.', {
+          statusCode: 409,
+          code: 'ContainerAlreadyExists',
+        });
+      }
+      containers.set(this.containerName, {
+        ...(options?.access !== undefined && { access: options.access }),
+        blobs: new Map(),
+      });
+      return {};
+    } as never),
+    spyOn(ContainerClient.prototype, 'listBlobsFlat').mockImplementation(function (
+      this: ContainerClient,
+      options?: { prefix?: string }
+    ) {
+      return paged(() => listFlat(this.containerName, options?.prefix), 'flat');
+    } as never),
+    spyOn(ContainerClient.prototype, 'listBlobsByHierarchy').mockImplementation(function (
+      this: ContainerClient,
+      delimiter: string,
+      options?: { prefix?: string }
+    ) {
+      const prefix = options?.prefix ?? '';
+      return paged(() => {
+        const prefixes = new Set<string>();
+        const entries: Array<{ kind: string; name: string }> = [];
+        for (const item of listFlat(this.containerName, prefix)) {
+          const rest = item.name.slice(prefix.length);
+          const index = rest.indexOf(delimiter);
+          if (index === -1) {
+            entries.push(item);
+          } else {
+            const name = prefix + rest.slice(0, index + delimiter.length);
+            if (!prefixes.has(name)) {
+              prefixes.add(name);
+              entries.push({ kind: 'prefix', name });
+            }
+          }
+        }
+        return entries;
+      }, 'hierarchy');
+    } as never),
+    spyOn(BlockBlobClient.prototype, 'uploadData').mockImplementation(async function (
+      this: BlockBlobClient,
+      data: Buffer,
+      options?: UploadOptions
+    ) {
+      store(this.containerName, this.name, Buffer.from(data), options);
+      return {};
+    } as never),
+    spyOn(BlockBlobClient.prototype, 'uploadStream').mockImplementation(async function (
+      this: BlockBlobClient,
+      stream: Readable,
+      _bufferSize?: number,
+      _maxConcurrency?: number,
+      options?: UploadOptions
+    ) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk as Uint8Array));
+      }
+      store(this.containerName, this.name, Buffer.concat(chunks), options);
+      return {};
+    } as never),
+    spyOn(BlobClient.prototype, 'download').mockImplementation(async function (this: BlobClient) {
+      const blob = findBlob(this.containerName, this.name);
+      return { ...properties(blob), readableStreamBody: Readable.from([blob.data]) };
+    } as never),
+    spyOn(BlobClient.prototype, 'getProperties').mockImplementation(async function (
+      this: BlobClient
+    ) {
+      return properties(findBlob(this.containerName, this.name));
+    } as never),
+    spyOn(BlobClient.prototype, 'getTags').mockImplementation(async function (this: BlobClient) {
+      return { tags: { ...findBlob(this.containerName, this.name).tags } };
+    } as never),
+    spyOn(BlobClient.prototype, 'exists').mockImplementation(async function (this: BlobClient) {
+      return containers.get(this.containerName)?.blobs.has(this.name) ?? false;
+    } as never),
+    spyOn(BlobClient.prototype, 'delete').mockImplementation(async function (this: BlobClient) {
+      findBlob(this.containerName, this.name);
+      findContainer(this.containerName).blobs.delete(this.name);
+      return {};
+    } as never),
+    spyOn(BlobClient.prototype, 'deleteIfExists').mockImplementation(async function (
+      this: BlobClient
+    ) {
+      return { succeeded: findContainer(this.containerName).blobs.delete(this.name) };
+    } as never),
+    spyOn(BlobClient.prototype, 'beginCopyFromURL').mockImplementation(async function (
+      this: BlobClient,
+      copySource: string
+    ) {
+      // Development storage URLs are http://host/account/container/blob
+      const [, sourceContainer = '', ...blobPath] = new URL(copySource).pathname
+        .split('/')
+        .filter((part) => part !== '');
+      const source = findBlob(sourceContainer, decodeURIComponent(blobPath.join('/')));
+      findContainer(this.containerName);
+      store(this.containerName, this.name, source.data, {
+        blobHTTPHeaders: source.headers,
+        metadata: source.metadata,
+        tags: source.tags,
+      });
+      return { pollUntilDone: async () => ({}) };
+    } as never),
+  ];
+
+  return {
+    containers,
+    restore: () => spies.forEach((spy) => spy.mockRestore()),
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * In-memory stand-in for the Azure Storage Queue SDK
+ *
+ * Replaces the QueueClient and QueueServiceClient methods used by the Azure queue provider,
+ * so unit tests run without Azurite or an Azure account.
+ */
+
+import { spyOn } from 'bun:test';
+import { QueueClient, QueueServiceClient, RestError } from '@azure/storage-queue';
+
+export interface FakeAzureMessage {
+  messageId: string;
+  messageText: string;
+  insertedOn: Date;
+  dequeueCount: number;
+  popReceipt: string;
+  visibleAt: number;
+  messageTimeToLive?: number;
+}
+
+export interface FakeAzureQueue {
+  metadata: Record<string, string>;
+  messages: FakeAzureMessage[];
+}
+
+export interface FakeAzureQueues {
+  queues: Map<string, FakeAzureQueue>;
+  /**
+   * Names of queues whose sendMessage calls fail
+   */
+  failingSends: Set<string>;
+  restore(): void;
+}
+
+/**
+ * Install the fake; call restore() in afterEach
+ */
+export function installAzureQueueFake(): FakeAzureQueues {
+  const queues = new Map<string, FakeAzureQueue>();
+  const failingSends = new Set<string>();
+  let counter = 0;
+
+  const notFound = (code = 'QueueNotFound'): RestError =>
+    new RestError('The specified resource does not exist.', { statusCode: 404, code });
+
+  const find = (name: string): FakeAzureQueue => {
+    const queue = queues.get(name);
+    if (!queue) {
+      throw notFound();
+    }
+    return queue;
+  };
+
+  const findMessage = (name: string, messageId: string, popReceipt: string): FakeAzureMessage => {
+    const message = find(name).messages.find((m) => m.messageId === messageId);
+    if (!message) {
+      throw notFound('MessageNotFound');
+    }
+    if (message.popReceipt !== popReceipt) {
+      throw new RestError('The specified pop receipt did not match.', {
+        statusCode: 400,
+        code: 'PopReceiptMismatch',
+      });
+    }
+    return message;
+  };
+
+  const spies = [
+    spyOn(QueueClient.prototype, 'create').mockImplementation(async function (
+      this: QueueClient,
+      options?: { metadata?: Record<string, string> }
+    ) {
+      const existing = queues.get(this.name);
+      if (existing && JSON.stringify(existing.metadata) !== JSON.stringify(options?.metadata)) {
+        throw new RestError('The specified queue already exists.', {
+          statusCode: 409,
+          code: 'QueueAlreadyExists',
+        });
+      }
+      queues.set(this.name, existing ?? { metadata: options?.metadata ?? {}, messages: [] });
+      return {};
+    } as never),
+    spyOn(QueueClient.prototype, 'createIfNotExists').mockImplementation(async function (
+      this: QueueClient
+    ) {
+      const succeeded = !queues.has(this.name);
+      if (succeeded) {
+        queues.set(this.name, { metadata: {}, messages: [] });
+      }
+      return { succeeded };
+    } as never),
+    spyOn(QueueClient.prototype, 'setMetadata').mockImplementation(async function (
+      this: QueueClient,
+      metadata?: Record<string, string>
+    ) {
+      find(this.name).metadata = metadata ?? {};
+      return {};
+    } as never),
+    spyOn(QueueClient.prototype, 'delete').mockImplementation(async function (this: QueueClient) {
+      find(this.name);
+      queues.delete(this.name);
+      return {};
+    } as never),
+    spyOn(QueueClient.prototype, 'getProperties').mockImplementation(async function (
+      this: QueueClient
+    ) {
+      const queue = find(this.name);
+      return { metadata: { ...queue.metadata }, approximateMessagesCount: queue.messages.length };
+    } as never),
+    spyOn(QueueClient.prototype, 'clearMessages').mockImplementation(async function (
+      this: QueueClient
+    ) {
+      find(this.name).messages = [];
+      return {};
+    } as never),
+    spyOn(QueueClient.prototype, 'sendMessage').mockImplementation(async function (
+      this: QueueClient,
+      messageText: string,
+      options?: { visibilityTimeout?: number; messageTimeToLive?: number }
+    ) {
+      const queue = find(this.name);
+      if (failingSends.has(this.name)) {
+        throw new RestError('Server busy', { statusCode: 503, code: 'ServerBusy' });
+      }
+      const message: FakeAzureMessage = {
+        messageId: `msg-${++counter}`,
+        messageText,
+        insertedOn: new Date(),
+        dequeueCount: 0,
+        popReceipt: `receipt-${++counter}`,
+        visibleAt: Date.now() + (options?.visibilityTimeout ?? 0) * 1000,
+        ...(options?.messageTimeToLive !== undefined && {
+          messageTimeToLive: options.messageTimeToLive,
+        }),
+      };
+      queue.messages.push(message);
+      return { messageId: message.messageId, popReceipt: message.popReceipt };
+    } as never),
+    spyOn(QueueClient.prototype, 'receiveMessages').mockImplementation(async function (
+      this: QueueClient,
+      options?: { numberOfMessages?: number; visibilityTimeout?: number }
+    ) {
+      const now = Date.now();
+      const received = find(this.name)
+        .messages.filter((m) => m.visibleAt <= now)
+        .slice(0, options?.numberOfMessages ?? 1);
+      for (const message of received) {
+        message.dequeueCount++;
+        message.popReceipt = `receipt-${++counter}`;
+        message.visibleAt = now + (options?.visibilityTimeout ?? 30) * 1000;
+      }
+      return { receivedMessageItems: received.map((m) => ({ ...m })) };
+    } as never),
+    spyOn(QueueClient.prototype, 'peekMessages').mockImplementation(async function (
+      this: QueueClient,
+      options?: { numberOfMessages?: number }
+    ) {
+      const now = Date.now();
+      const peeked = find(this.name)
+        .messages.filter((m) => m.visibleAt <= now)
+        .slice(0, options?.numberOfMessages ?? 1);
+      return {
+        peekedMessageItems: peeked.map(({ messageId, messageText, insertedOn, dequeueCount }) => ({
+          messageId,
+          messageText,
+          insertedOn,
+          dequeueCount,
+        })),
+      };
+    } as never),
+    spyOn(QueueClient.prototype, 'deleteMessage').mockImplementation(async function (
+      this: QueueClient,
+      messageId: string,
+      popReceipt: string
+    ) {
+      const message = findMessage(this.name, messageId, popReceipt);
+      const queue = find(this.name);
+      queue.messages = queue.messages.filter((m) => m !== message);
+      return {};
+    } as never),
+    spyOn(QueueClient.prototype, 'updateMessage').mockImplementation(async function (
+      this: QueueClient,
+      messageId: string,
+      popReceipt: string,
+      _message?: string,
+      visibilityTimeout?: number
+    ) {
+      const message = findMessage(this.name, messageId, popReceipt);
+      message.popReceipt = `receipt-${++counter}`;
+      message.visibleAt = Date.now() + (visibilityTimeout ?? 0) * 1000;
+      return { popReceipt: message.popReceipt };
+    } as never),
+    spyOn(QueueServiceClient.prototype, 'listQueues').mockImplementation(function () {
+      return (async function* () {
+        for (const name of queues.keys()) {
+          yield { name };
+        }
+      })();
+    } as never),
+  ];
+
+  return {
+    queues,
+    failingSends,
+    restore: () => spies.forEach((spy) => spy.mockRestore()),
+  };
+}
@@ -19,7 +19,7 @@ describe('Application Registration Workflow', () => {
     platform = new LCPlatform({ provider: ProviderType.MOCK });
   });
 
-  test('should register new application and retrieve it', () => {
+  test('should register new application and retrieve it', async () => {
     const appData = {
       name: 'Test Application',
       team: 'test-team',
@@ -31,17 +31,17 @@ describe('Application Registration Workflow', () => {
       ownerEmail: 'owner@test.com',
     };
 
-    const app = platform.registerApplication(appData);
+    const app = await platform.registerApplication(appData);
 
     expect(app.id).toMatch(/^app-[a-f0-9]{8}$/);
     expect(app.name).toBe('Test Application');
 
-    const retrieved = platform.getApplication(app.id);
+    const retrieved = await platform.getApplication(app.id);
     expect(retrieved).toEqual(app);
   });
 
-  test('should list all registered applications', () => {
-    const app1 = platform.registerApplication({
+  test('should list all registered applications', async () => {
+    const app1 = await platform.registerApplication({
       name: 'App 1',
       team: 'team-a',
       moniker: 'app1',
@@ -52,7 +52,7 @@ describe('Application Registration Workflow', () => {
       ownerEmail: 'owner@app1.com',
     });
 
-    const app2 = platform.registerApplication({
+    const app2 = await platform.registerApplication({
       name: 'App 2',
       team: 'team-b',
       moniker: 'app2',
@@ -63,7 +63,7 @@ describe('Application Registration Workflow', () => {
       ownerEmail: 'owner@app2.com',
     });
 
-    const apps = platform.listApplications();
+    const apps = await platform.listApplications();
     expect(apps).toHaveLength(2);
     expect(apps).toContainEqual(app1);
     expect(apps).toContainEqual(app2);
@@ -77,8 +77,8 @@ describe('Dependency Management Workflow', () => {
     platform = new LCPlatform({ provider: ProviderType.MOCK });
   });
 
-  test('should add dependencies to application', () => {
-    const app = platform.registerApplication({
+  test('should add dependencies to application', async () => {
+    const app = await platform.registerApplication({
       name: 'Test App',
       team: 'test-team',
       moniker: 'testapp',
@@ -115,8 +115,8 @@ describe('Dependency Management Workflow', () => {
     expect(app.getDependency('tasks')).toEqual(dep2);
   });
 
-  test('should prevent duplicate dependency names', () => {
-    const app = platform.registerApplication({
+  test('should prevent duplicate dependency names', async () => {
+    const app = await platform.registerApplication({
       name: 'Test App',
       team: 'test-team',
       moniker: 'testapp',
@@ -180,7 +180,7 @@ describe.skip('Configuration Persistence Workflow (T057)', () => {
 
     // Create application with dependencies
     const platform = new LCPlatform({ provider: ProviderType.MOCK });
-    const app = platform.registerApplication({
+    const app = await platform.registerApplication({
       name: 'Production App',
       team: 'platform',
       moniker: 'prodapp',
@@ -250,7 +250,7 @@ describe.skip('Configuration Persistence Workflow (T057)', () => {
     const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
 
     const platform = new LCPlatform({ provider: ProviderType.MOCK });
-    const app = platform.registerApplication({
+    const app = await platform.registerApplication({
       name: 'Versioned App',
       team: 'engineering',
       moniker: 'verapp',
@@ -322,7 +322,7 @@ describe.skip('Dependency Validation Workflow (T076)', () => {
     const validator = new DependencyValidator();
 
     const platform = new LCPlatform({ provider: ProviderType.MOCK });
-    const app = platform.registerApplication({
+    const app = await platform.registerApplication({
       name: 'Large App',
       team: 'platform',
       moniker: 'largeapp',
@@ -393,7 +393,7 @@ describe.skip('Dependency Validation Workflow (T076)', () => {
     const validator = new DependencyValidator();
 
     const platform = new LCPlatform({ provider: ProviderType.MOCK });
-    const app = platform.registerApplication({
+    const app = await platform.registerApplication({
       name: 'Large App With Errors',
       team: 'platform',
       moniker: 'largeapp2',
@@ -0,0 +1,88 @@
+/**
+ * Integration Test: AzureObjectClient with Azurite
+ *
+ * Tests the Azure Blob Storage client implementation against the Azurite emulator.
+ * Requires: docker-compose up azurite
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { AzureObjectClient } from '../../../../../src/providers/azure/clients/AzureObjectClient';
+import { AzureObjectStoreService } from '../../../../../src/providers/azure/AzureObjectStoreService';
+import { ProviderType, type ProviderConfig } from '../../../../../src/core/types/common';
+
+// Azurite development storage account - use environment variable if available
+const CONNECTION_STRING =
+  process.env.AZURE_STORAGE_CONNECTION_STRING ?? 'UseDevelopmentStorage=true';
+const TEST_CONTAINER = `test-object-client-${Date.now()}`;
+
+const config: ProviderConfig = {
+  provider: ProviderType.AZURE,
+  options: { connectionString: CONNECTION_STRING },
+};
+
+describe('AzureObjectClient Integration (Azurite)', () => {
+  let client: AzureObjectClient;
+  let objectStore: AzureObjectStoreService;
+
+  beforeAll(async () => {
+    client = new AzureObjectClient(config);
+
+    // Use ObjectStoreService (Control Plane) to create the test container
+    objectStore = new AzureObjectStoreService(config);
+    await objectStore.createBucket(TEST_CONTAINER);
+  });
+
+  afterAll(async () => {
+    // Cleanup: Delete test blobs
+    try {
+      const objects = await objectStore.listObjects(TEST_CONTAINER);
+      await client.deleteBatch(
+        TEST_CONTAINER,
+        objects.map((o) => o.key)
+      );
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  test('put and get - should round-trip content and metadata', async () => {
+    await client.put(TEST_CONTAINER, 'docs/hello.txt', Buffer.from('hello azurite'), {
+      contentType: 'text/plain',
+      metadata: { source: 'azurite' },
+    });
+
+    const object = await client.get(TEST_CONTAINER, 'docs/hello.txt');
+
+    expect(object.data).toEqual(Buffer.from('hello azurite'));
+    expect(object.contentType).toBe('text/plain');
+    expect(object.metadata?.metadata).toEqual({ source: 'azurite' });
+  });
+
+  test('list - should filter by prefix and delimiter', async () => {
+    await client.put(TEST_CONTAINER, 'docs/nested/a.txt', Buffer.from('a'));
+    await client.put(TEST_CONTAINER, 'other.txt', Buffer.from('b'));
+
+    const objects = await client.list(TEST_CONTAINER, 'docs/', { delimiter: '/' });
+
+    expect(objects.map((o) => o.key)).toEqual(['docs/hello.txt']);
+  });
+
+  test('getSignedUrl - should allow reading without credentials', async () => {
+    await client.put(TEST_CONTAINER, 'signed.txt', Buffer.from('signed'));
+
+    const url = await client.getSignedUrl(TEST_CONTAINER, 'signed.txt', 'get', 300);
+    const response = await fetch(url);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('signed');
+  });
+
+  test('delete - should be idempotent', async () => {
+    await client.put(TEST_CONTAINER, 'delete-me.txt', Buffer.from('x'));
+
+    await client.delete(TEST_CONTAINER, 'delete-me.txt');
+    await client.delete(TEST_CONTAINER, 'delete-me.txt');
+
+    expect(await client.exists(TEST_CONTAINER, 'delete-me.txt')).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Integration Test: AzureQueueClient with Azurite
+ *
+ * Tests the Azure Storage Queue client implementation against the Azurite emulator.
+ * Requires: docker-compose up azurite
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { AzureQueueClient } from '../../../../../src/providers/azure/clients/AzureQueueClient';
+import { AzureQueueService } from '../../../../../src/providers/azure/AzureQueueService';
+import { ProviderType, type ProviderConfig } from '../../../../../src/core/types/common';
+
+// Azurite development storage account - use environment variable if available
+const CONNECTION_STRING =
+  process.env.AZURE_STORAGE_CONNECTION_STRING ?? 'UseDevelopmentStorage=true';
+const TEST_QUEUE = `test-queue-client-${Date.now()}`;
+const DEAD_LETTER_QUEUE = `test-queue-dead-letter-${Date.now()}`;
+
+const config: ProviderConfig = {
+  provider: ProviderType.AZURE,
+  options: { connectionString: CONNECTION_STRING },
+};
+
+describe('AzureQueueClient Integration (Azurite)', () => {
+  let client: AzureQueueClient;
+  let queueService: AzureQueueService;
+
+  beforeAll(async () => {
+    client = new AzureQueueClient(config);
+
+    // Use QueueService (Control Plane) to create the test queues
+    queueService = new AzureQueueService(config);
+    await queueService.createQueue(TEST_QUEUE, { visibilityTimeout: 30 });
+    await queueService.createQueue(DEAD_LETTER_QUEUE, {
+      enableDeadLetter: true,
+      deadLetterAfterRetries: 1,
+    });
+  });
+
+  afterAll(async () => {
+    // Cleanup: Delete test queues
+    for (const queue of [TEST_QUEUE, DEAD_LETTER_QUEUE, `${DEAD_LETTER_QUEUE}-poison`]) {
+      try {
+        await queueService.deleteQueue(queue);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  });
+
+  test('send and receive - should round-trip body and attributes', async () => {
+    await client.send(TEST_QUEUE, { hello: 'world' }, { attributes: { source: 'azurite' } });
+
+    const messages = await client.receive(TEST_QUEUE, { maxMessages: 1, waitTimeSeconds: 2 });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]!.body).toEqual({ hello: 'world' });
+    expect(messages[0]!.attributes).toEqual({ source: 'azurite' });
+
+    await client.acknowledge(TEST_QUEUE, messages[0]!.receiptHandle);
+  });
+
+  test('sendBatch - should send multiple messages', async () => {
+    const result = await client.sendBatch(TEST_QUEUE, [{ id: 1 }, { id: 2 }, 'String message']);
+
+    expect(result.successful.length).toBe(3);
+    expect(result.failed.length).toBe(0);
+
+    const messages = await client.receive(TEST_QUEUE, { maxMessages: 10 });
+    await client.acknowledgeBatch(
+      TEST_QUEUE,
+      messages.map((m) => m.receiptHandle)
+    );
+  });
+
+  test('changeVisibility - should keep the receipt handle usable', async () => {
+    await client.send(TEST_QUEUE, { purpose: 'visibility test' });
+    const [message] = await client.receive(TEST_QUEUE, { maxMessages: 1, waitTimeSeconds: 2 });
+
+    // Make the message immediately visible again, then receive it a second time
+    await client.changeVisibility(TEST_QUEUE, message!.receiptHandle, 0);
+    const [again] = await client.receive(TEST_QUEUE, { maxMessages: 1, waitTimeSeconds: 2 });
+
+    expect(again!.id).toBe(message!.id);
+    expect(again!.approximateReceiveCount).toBe(2);
+
+    await client.changeVisibility(TEST_QUEUE, again!.receiptHandle, 60);
+    await client.acknowledge(TEST_QUEUE, again!.receiptHandle);
+  });
+
+  test('dead-lettering - should move messages past the receive limit to the poison queue', async () => {
+    await client.send(DEAD_LETTER_QUEUE, { purpose: 'dead-letter test' });
+
+    const [first] = await client.receive(DEAD_LETTER_QUEUE, { waitTimeSeconds: 2 });
+    await client.changeVisibility(DEAD_LETTER_QUEUE, first!.receiptHandle, 0);
+
+    expect(await client.receive(DEAD_LETTER_QUEUE)).toEqual([]);
+
+    const dead = await client.receive(`${DEAD_LETTER_QUEUE}-poison`, { waitTimeSeconds: 2 });
+    expect(dead.map((m) => m.body)).toEqual([{ purpose: 'dead-letter test' }]);
+  });
+});
@@ -18,6 +18,12 @@ import { MockCacheClient } from '../../src/providers/mock/clients/MockCacheClien
 import { MockContainerRepoClient } from '../../src/providers/mock/clients/MockContainerRepoClient';
 import { MockCacheService } from '../../src/providers/mock/MockCacheService';
 import { MockContainerRepoService } from '../../src/providers/mock/MockContainerRepoService';
+import {
+  LargePayloadEventPublisher,
+  LargePayloadNotificationClient,
+  LargePayloadQueueClient,
+} from '../../src/utils/largePayloads';
+import { TypedEventPublisher, TypedQueue } from '../../src/utils/typedChannels';
 
 describe('LCAppRuntime', () => {
   let runtime: LCAppRuntime;
@@ -66,6 +72,46 @@ describe('LCAppRuntime', () => {
     });
   });
 
+  describe('createQueueConsumer', () => {
+    test('should consume messages from the runtime QueueClient', async () => {
+      const handled: unknown[] = [];
+      await runtime.getQueueClient().send('jobs', { task: 'resize' });
+
+      const consumer = runtime.createQueueConsumer(
+        'jobs',
+        (message) => {
+          handled.push(message.body);
+        },
+        { waitTimeSeconds: 0, idleDelayMs: 5, acknowledgeIntervalMs: 5 }
+      );
+      consumer.start();
+      while (consumer.getStats().succeeded === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      await consumer.stop();
+
+      expect(handled).toEqual([{ task: 'resize' }]);
+      expect(consumer.getStats().acknowledged).toBe(1);
+    });
+  });
+
+  describe('typed channels', () => {
+    test('should create channels on the runtime clients', async () => {
+      const jobs = runtime.createTypedQueue<{ task: string }>('jobs', {
+        schema: { type: 'object', required: ['task'] },
+      });
+      expect(jobs).toBeInstanceOf(TypedQueue);
+      expect(runtime.createTypedEventPublisher('bus', 'app', 'job.done')).toBeInstanceOf(
+        TypedEventPublisher
+      );
+
+      await jobs.send({ task: 'resize' });
+
+      const [message] = await runtime.getQueueClient().receive('jobs');
+      expect(message?.attributes.contentType).toBe('application/json');
+    });
+  });
+
   describe('getObjectClient', () => {
     test('should return an ObjectClient instance', () => {
       const client = runtime.getObjectClient();
@@ -168,6 +214,30 @@ describe('LCAppRuntime', () => {
     });
   });
 
+  describe('getLargePayloadStore', () => {
+    test('should be undefined without largePayloads options', () => {
+      expect(runtime.getLargePayloadStore()).toBeUndefined();
+      expect(runtime.getQueueClient()).toBeInstanceOf(MockQueueClient);
+    });
+
+    test('should offload large payloads through the runtime ObjectClient', async () => {
+      runtime = new LCAppRuntime({
+        provider: ProviderType.MOCK,
+        options: { largePayloads: { bucket: 'payloads', thresholdBytes: 10 } },
+      });
+      expect(runtime.getEventPublisher()).toBeInstanceOf(LargePayloadEventPublisher);
+      expect(runtime.getNotificationClient()).toBeInstanceOf(LargePayloadNotificationClient);
+      const queue = runtime.getQueueClient();
+      expect(queue).toBeInstanceOf(LargePayloadQueueClient);
+
+      await queue.send('jobs', { task: 'resize all images' });
+
+      expect(await runtime.getObjectClient().list('payloads')).toHaveLength(1);
+      const [message] = await queue.receive('jobs');
+      expect(message?.body).toEqual({ task: 'resize all images' });
+    });
+  });
+
   describe('getDocumentClient', () => {
     test('should return a DocumentClient instance', () => {
       const client = runtime.getDocumentClient();
@@ -314,19 +384,25 @@ describe('LCAppRuntime', () => {
       expect(() => awsRuntime.getDocumentClient()).not.toThrow();
       expect(() => awsRuntime.getDataClient()).not.toThrow();
       expect(() => awsRuntime.getAuthClient()).not.toThrow();
+      expect(() => awsRuntime.getCacheClient()).not.toThrow();
+      expect(() => awsRuntime.getContainerRepoClient()).not.toThrow();
     });
 
-    test('should throw for AWS Cache and ContainerRepo clients (not yet implemented)', () => {
-      const awsRuntime = new LCAppRuntime({ provider: ProviderType.AWS });
-      expect(() => awsRuntime.getCacheClient()).toThrow('AWS CacheClient not yet implemented');
-      expect(() => awsRuntime.getContainerRepoClient()).toThrow(
-        'AWS ContainerRepoClient not yet implemented'
-      );
+    test('should create Azure queue clients from a connection string', () => {
+      const azureRuntime = new LCAppRuntime({
+        provider: ProviderType.AZURE,
+        options: { connectionString: 'UseDevelopmentStorage=true' },
+      });
+      expect(() => azureRuntime.getQueueClient()).not.toThrow();
+    });
+
+    test('should require an Azure storage account for queue clients', () => {
+      const azureRuntime = new LCAppRuntime({ provider: ProviderType.AZURE });
+      expect(() => azureRuntime.getQueueClient()).toThrow(ValidationError);
     });
 
     test('should throw for Azure (not yet implemented)', () => {
       const azureRuntime = new LCAppRuntime({ provider: ProviderType.AZURE });
-      expect(() => azureRuntime.getQueueClient()).toThrow('Azure QueueClient not yet implemented');
       expect(() => azureRuntime.getCacheClient()).toThrow('Azure CacheClient not yet implemented');
       expect(() => azureRuntime.getContainerRepoClient()).toThrow(
         'Azure ContainerRepoClient not yet implemented'
@@ -6,6 +6,8 @@
 
 import { describe, test, expect } from 'bun:test';
 import { PlatformType, Environment, LCPlatformApp } from '../../../../src/core/types/application';
+import { DependencyStatus, DependencyType } from '../../../../src/core/types/dependency';
+import { InvalidStateTransitionError } from '../../../../src/utils/dependencyStatus';
 
 describe('PlatformType enum', () => {
   test('should have all expected platform types', () => {
@@ -99,3 +101,105 @@ describe('LCPlatformApp class', () => {
     });
   });
 });
+
+describe('LCPlatformApp dependency status', () => {
+  function createAppWithQueue(): LCPlatformApp {
+    const app = new LCPlatformApp({
+      name: 'My Application',
+      team: 'platform-team',
+      moniker: 'myapp',
+      ciAppId: 'APP-12345',
+      platformType: PlatformType.WEB,
+      environment: Environment.DEVELOPMENT,
+      supportEmail: 'support@example.com',
+      ownerEmail: 'owner@example.com',
+    });
+    app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      encryption: true,
+    });
+    return app;
+  }
+
+  test('should record allowed transitions with actor and reason', () => {
+    const app = createAppWithQueue();
+
+    app.updateDependency('tasks', {
+      status: DependencyStatus.VALIDATED,
+      actor: 'pipeline',
+      reason: 'Schema check passed',
+    });
+    app.updateDependency('tasks', { status: DependencyStatus.DEPLOYING });
+
+    const history = app.getDependencyStatusHistory('tasks');
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({
+      from: DependencyStatus.PENDING,
+      to: DependencyStatus.VALIDATED,
+      actor: 'pipeline',
+      reason: 'Schema check passed',
+    });
+    expect(history[0]?.changedAt).toBeInstanceOf(Date);
+    expect(history[1]).toMatchObject({
+      from: DependencyStatus.VALIDATED,
+      to: DependencyStatus.DEPLOYING,
+    });
+  });
+
+  test('should reject transitions outside the state machine', () => {
+    const app = createAppWithQueue();
+
+    expect(() => app.updateDependency('tasks', { status: DependencyStatus.DEPLOYED })).toThrow(
+      InvalidStateTransitionError
+    );
+    expect(app.getDependency('tasks')?.status).toBe(DependencyStatus.PENDING);
+    expect(app.getDependencyStatusHistory('tasks')).toHaveLength(0);
+  });
+
+  test('should not record a change when the status is unchanged', () => {
+    const app = createAppWithQueue();
+
+    app.updateDependency('tasks', { status: DependencyStatus.PENDING });
+
+    expect(app.getDependencyStatusHistory('tasks')).toHaveLength(0);
+  });
+
+  test('should not let callers rewrite the status history', () => {
+    const app = createAppWithQueue();
+    app.updateDependency('tasks', { status: DependencyStatus.VALIDATED });
+
+    const [listed] = app.listDependencies();
+    listed?.statusHistory?.push({
+      from: DependencyStatus.VALIDATED,
+      to: DependencyStatus.DEPLOYED,
+      changedAt: new Date(),
+    });
+    app.getDependency('tasks')!.statusHistory![0]!.reason = 'rewritten';
+
+    expect(app.getDependencyStatusHistory('tasks')).toEqual([
+      expect.objectContaining({ to: DependencyStatus.VALIDATED }),
+    ]);
+    expect(app.getDependencyStatusHistory('tasks')[0]?.reason).toBeUndefined();
+  });
+
+  test('should list creation and teardown order by reference', () => {
+    const app = createAppWithQueue();
+    app.addDependency('worker', DependencyType.FUNCTION_HOSTING, {
+      type: 'function-hosting',
+      runtime: 'nodejs20.x',
+      handler: 'index.handler',
+      dependsOn: [{ ref: 'store' }],
+      eventSources: [{ source: { ref: 'tasks', type: DependencyType.QUEUE } }],
+    });
+    app.addDependency('store', DependencyType.DOCUMENT_STORE, {
+      type: 'document-store',
+      encryption: true,
+    });
+
+    expect(app.getCreationOrder().map((dep) => dep.name)).toEqual(['tasks', 'store', 'worker']);
+    expect(app.getTeardownOrder().map((dep) => dep.name)).toEqual(['worker', 'store', 'tasks']);
+  });
+});
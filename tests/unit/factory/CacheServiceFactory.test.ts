@@ -0,0 +1,56 @@
+/**
+ * Unit tests for CacheServiceFactory option handling
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { CacheServiceFactory, getCacheAuthTokens } from '../../../src/factory/CacheServiceFactory';
+import { AwsCacheService } from '../../../src/providers/aws/AwsCacheService';
+import { ProviderType, ValidationError } from '../../../src/core/types/common';
+
+describe('CacheServiceFactory', () => {
+  test('should read auth tokens by cluster ID', () => {
+    expect(getCacheAuthTokens({ provider: ProviderType.AWS })).toBeUndefined();
+    expect(
+      getCacheAuthTokens({
+        provider: ProviderType.AWS,
+        options: { cacheAuthTokens: { 'session-cache': 'token' } },
+      })
+    ).toEqual({ 'session-cache': 'token' });
+  });
+
+  test('should reject auth tokens that are not an object of strings', () => {
+    for (const cacheAuthTokens of ['token', null, ['token'], { 'session-cache': 42 }]) {
+      expect(() =>
+        new CacheServiceFactory().create({
+          provider: ProviderType.AWS,
+          region: 'us-east-1',
+          options: { cacheAuthTokens, resilience: false },
+        })
+      ).toThrow(ValidationError);
+    }
+  });
+
+  test('should keep tokens out of validation errors', () => {
+    try {
+      getCacheAuthTokens({
+        provider: ProviderType.AWS,
+        options: { cacheAuthTokens: { 'session-cache': 'secret-token', other: '' } },
+      });
+      throw new Error('expected a ValidationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(JSON.stringify((error as ValidationError).details)).not.toContain('secret-token');
+      expect((error as ValidationError).details).toEqual({ clusterIds: ['other'] });
+    }
+  });
+
+  test('should create an AWS service with valid tokens', () => {
+    const service = new CacheServiceFactory().create({
+      provider: ProviderType.AWS,
+      region: 'us-east-1',
+      options: { cacheAuthTokens: { 'session-cache': 'token' }, resilience: false },
+    });
+
+    expect(service).toBeInstanceOf(AwsCacheService);
+  });
+});
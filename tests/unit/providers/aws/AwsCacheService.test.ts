@@ -0,0 +1,304 @@
+/**
+ * Unit tests for AwsCacheService
+ *
+ * Runs against a mocked ElastiCache SDK client; no AWS resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import {
+  ElastiCacheClient,
+  CreateReplicationGroupCommand,
+  DescribeReplicationGroupsCommand,
+  DescribeCacheClustersCommand,
+  ModifyReplicationGroupCommand,
+  IncreaseReplicaCountCommand,
+  DeleteReplicationGroupCommand,
+  type ReplicationGroup,
+} from '@aws-sdk/client-elasticache';
+import type Redis from 'ioredis';
+import type { RedisOptions } from 'ioredis';
+import { AwsCacheService } from '../../../../src/providers/aws/AwsCacheService';
+import { ClusterStatus } from '../../../../src/core/types/cache';
+import { ResourceNotFoundError, ValidationError } from '../../../../src/core/types/common';
+
+type SentCommand = { constructor: { name: string }; input: Record<string, unknown> };
+
+function replicationGroup(overrides: Partial<ReplicationGroup> = {}): ReplicationGroup {
+  return {
+    ReplicationGroupId: 'sessions',
+    Status: 'available',
+    CacheNodeType: 'cache.t3.micro',
+    Engine: 'redis',
+    MemberClusters: ['sessions-001'],
+    NodeGroups: [
+      {
+        NodeGroupId: '0001',
+        PrimaryEndpoint: { Address: 'sessions.abc.cache.amazonaws.com', Port: 6379 },
+      },
+    ],
+    ReplicationGroupCreateTime: new Date('2026-01-01T00:00:00Z'),
+    TransitEncryptionEnabled: true,
+    ...overrides,
+  };
+}
+
+function notFound(): Error {
+  const error = new Error('ReplicationGroup sessions not found');
+  error.name = 'ReplicationGroupNotFoundFault';
+  return error;
+}
+
+describe('AwsCacheService', () => {
+  let service: AwsCacheService;
+  let sent: SentCommand[];
+  let responses: Map<string, (input: Record<string, unknown>) => unknown>;
+  let sendSpy: { mockRestore: () => void };
+
+  beforeEach(() => {
+    sent = [];
+    responses = new Map();
+    sendSpy = spyOn(ElastiCacheClient.prototype, 'send').mockImplementation(((
+      command: SentCommand
+    ) => {
+      sent.push(command);
+      const respond = responses.get(command.constructor.name);
+      if (respond === undefined) {
+        return Promise.resolve({});
+      }
+      try {
+        return Promise.resolve(respond(command.input));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }) as never);
+    service = new AwsCacheService({ region: 'us-east-1' });
+  });
+
+  afterEach(() => {
+    sendSpy.mockRestore();
+  });
+
+  test('should map options onto replication group settings', async () => {
+    responses.set(CreateReplicationGroupCommand.name, () => ({
+      ReplicationGroup: replicationGroup({ Status: 'creating', MemberClusters: ['a', 'b'] }),
+    }));
+
+    const cluster = await service.createCluster('sessions', {
+      nodeType: 'cache.r6g.large',
+      numNodes: 2,
+      engineVersion: '7.1',
+      enableEncryption: true,
+      enableBackups: true,
+      snapshotRetentionDays: 5,
+      securityGroups: ['sg-1'],
+      tags: { Team: 'platform' },
+    });
+
+    expect(sent[0]?.input).toMatchObject({
+      ReplicationGroupId: 'sessions',
+      Engine: 'redis',
+      EngineVersion: '7.1',
+      CacheNodeType: 'cache.r6g.large',
+      NumCacheClusters: 2,
+      AutomaticFailoverEnabled: true,
+      SnapshotRetentionLimit: 5,
+      AtRestEncryptionEnabled: true,
+      TransitEncryptionEnabled: true,
+      SecurityGroupIds: ['sg-1'],
+      Tags: [{ Key: 'Team', Value: 'platform' }],
+    });
+    expect(cluster).toMatchObject({
+      name: 'sessions',
+      clusterId: 'sessions',
+      status: ClusterStatus.CREATING,
+      numNodes: 2,
+      engineVersion: '7.1',
+      securityEnabled: true,
+    });
+  });
+
+  test('should reject duplicate cluster names', async () => {
+    responses.set(CreateReplicationGroupCommand.name, () => {
+      const error = new Error('already exists');
+      error.name = 'ReplicationGroupAlreadyExistsFault';
+      throw error;
+    });
+
+    await expect(service.createCluster('sessions')).rejects.toThrow(ValidationError);
+  });
+
+  test('should get a cluster with endpoint, status and engine version', async () => {
+    responses.set(DescribeReplicationGroupsCommand.name, () => ({
+      ReplicationGroups: [replicationGroup()],
+    }));
+    responses.set(DescribeCacheClustersCommand.name, () => ({
+      CacheClusters: [{ CacheClusterId: 'sessions-001', EngineVersion: '7.0.7' }],
+    }));
+
+    const cluster = await service.getCluster('sessions');
+
+    expect(cluster).toEqual({
+      name: 'sessions',
+      clusterId: 'sessions',
+      endpoint: 'sessions.abc.cache.amazonaws.com',
+      port: 6379,
+      status: ClusterStatus.AVAILABLE,
+      nodeType: 'cache.t3.micro',
+      numNodes: 1,
+      engine: 'redis',
+      engineVersion: '7.0.7',
+      created: new Date('2026-01-01T00:00:00Z'),
+      securityEnabled: true,
+    });
+  });
+
+  test('should map ElastiCache states onto ClusterStatus', async () => {
+    const states: Array<[string, ClusterStatus]> = [
+      ['creating', ClusterStatus.CREATING],
+      ['available', ClusterStatus.AVAILABLE],
+      ['snapshotting', ClusterStatus.AVAILABLE],
+      ['modifying', ClusterStatus.MODIFYING],
+      ['deleting', ClusterStatus.DELETING],
+      ['create-failed', ClusterStatus.FAILED],
+    ];
+    responses.set(DescribeReplicationGroupsCommand.name, () => ({
+      ReplicationGroups: states.map(([status], index) =>
+        replicationGroup({ ReplicationGroupId: `group-${index}`, Status: status })
+      ),
+    }));
+
+    const clusters = await service.listClusters();
+
+    expect(clusters.map((cluster) => cluster.status)).toEqual(states.map(([, status]) => status));
+  });
+
+  test('should raise ResourceNotFoundError for unknown clusters', async () => {
+    responses.set(DescribeReplicationGroupsCommand.name, () => {
+      throw notFound();
+    });
+    responses.set(DeleteReplicationGroupCommand.name, () => {
+      throw notFound();
+    });
+
+    await expect(service.getCluster('sessions')).rejects.toThrow(ResourceNotFoundError);
+    await expect(service.deleteCluster('sessions')).rejects.toThrow(ResourceNotFoundError);
+  });
+
+  test('should add replicas and modify settings on update', async () => {
+    responses.set(DescribeReplicationGroupsCommand.name, () => ({
+      ReplicationGroups: [replicationGroup()],
+    }));
+    responses.set(ModifyReplicationGroupCommand.name, () => ({
+      ReplicationGroup: replicationGroup({ Status: 'modifying', CacheNodeType: 'cache.r6g.large' }),
+    }));
+
+    const cluster = await service.updateCluster('sessions', {
+      numNodes: 3,
+      nodeType: 'cache.r6g.large',
+    });
+
+    const increase = sent.find((command) => command instanceof IncreaseReplicaCountCommand);
+    expect(increase?.input).toMatchObject({ NewReplicaCount: 2, ApplyImmediately: true });
+    const modify = sent.find((command) => command instanceof ModifyReplicationGroupCommand);
+    expect(modify?.input).toMatchObject({ CacheNodeType: 'cache.r6g.large' });
+    expect(cluster.status).toBe(ClusterStatus.MODIFYING);
+  });
+
+  test('should report the current status when an update changes nothing', async () => {
+    responses.set(DescribeReplicationGroupsCommand.name, () => ({
+      ReplicationGroups: [replicationGroup()],
+    }));
+
+    const cluster = await service.updateCluster('sessions', { numNodes: 1 });
+
+    expect(sent.map((command) => command.constructor.name)).toEqual([
+      DescribeReplicationGroupsCommand.name,
+    ]);
+    expect(cluster.status).toBe(ClusterStatus.AVAILABLE);
+  });
+
+  test('should set auth tokens and reject enabling encryption at rest later', async () => {
+    responses.set(DescribeReplicationGroupsCommand.name, () => ({
+      ReplicationGroups: [replicationGroup({ AtRestEncryptionEnabled: false })],
+    }));
+
+    await service.configureSecurity('sessions', { authToken: 'token-1234567890abcdef' });
+    const modify = sent.find((command) => command instanceof ModifyReplicationGroupCommand);
+    expect(modify?.input).toMatchObject({
+      AuthToken: 'token-1234567890abcdef',
+      AuthTokenUpdateStrategy: 'SET',
+    });
+
+    await expect(service.configureSecurity('sessions', { encryptionAtRest: true })).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  test('should flush every primary endpoint with the configured auth token', async () => {
+    responses.set(DescribeReplicationGroupsCommand.name, () => ({
+      ReplicationGroups: [replicationGroup()],
+    }));
+    const flushall = mock(() => Promise.resolve('OK'));
+    const connections: RedisOptions[] = [];
+    const connectionSpy = spyOn(
+      AwsCacheService.prototype as unknown as {
+        createRedisConnection: (options: RedisOptions) => Redis;
+      },
+      'createRedisConnection'
+    ).mockImplementation((options: RedisOptions) => {
+      connections.push(options);
+      return {
+        connect: () => Promise.resolve(),
+        flushall,
+        disconnect: () => undefined,
+      } as unknown as Redis;
+    });
+
+    await service.configureSecurity('sessions', { authToken: 'token-1234567890abcdef' });
+    await service.flushCluster('sessions');
+    connectionSpy.mockRestore();
+
+    expect(flushall).toHaveBeenCalledTimes(1);
+    expect(connections[0]).toMatchObject({
+      host: 'sessions.abc.cache.amazonaws.com',
+      port: 6379,
+      password: 'token-1234567890abcdef',
+      tls: {},
+    });
+  });
+
+  test('should flush with an auth token from the config', async () => {
+    responses.set(DescribeReplicationGroupsCommand.name, () => ({
+      ReplicationGroups: [replicationGroup({ AuthTokenEnabled: true })],
+    }));
+    const connections: RedisOptions[] = [];
+    const connectionSpy = spyOn(
+      AwsCacheService.prototype as unknown as {
+        createRedisConnection: (options: RedisOptions) => Redis;
+      },
+      'createRedisConnection'
+    ).mockImplementation((options: RedisOptions) => {
+      connections.push(options);
+      return {
+        connect: () => Promise.resolve(),
+        flushall: () => Promise.resolve('OK'),
+        disconnect: () => undefined,
+      } as unknown as Redis;
+    });
+
+    try {
+      await expect(service.flushCluster('sessions')).rejects.toThrow(ValidationError);
+
+      const configured = new AwsCacheService({
+        region: 'us-east-1',
+        authTokens: { sessions: 'token-from-config-123456' },
+      });
+      await configured.flushCluster('sessions');
+    } finally {
+      connectionSpy.mockRestore();
+    }
+
+    expect(connections).toHaveLength(1);
+    expect(connections[0]?.password).toBe('token-from-config-123456');
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Unit tests for AwsContainerRepoService
+ *
+ * Runs against a mocked ECR SDK client; no AWS resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import {
+  ECRClient,
+  CreateRepositoryCommand,
+  DescribeRepositoriesCommand,
+  ListImagesCommand,
+  PutLifecyclePolicyCommand,
+  GetLifecyclePolicyCommand,
+  SetRepositoryPolicyCommand,
+  GetRepositoryPolicyCommand,
+  DeleteRepositoryPolicyCommand,
+  DeleteRepositoryCommand,
+  PutImageScanningConfigurationCommand,
+} from '@aws-sdk/client-ecr';
+import { AwsContainerRepoService } from '../../../../src/providers/aws/AwsContainerRepoService';
+import {
+  CountType,
+  EncryptionType,
+  RepositoryAction,
+  TagStatus,
+  type LifecyclePolicy,
+} from '../../../../src/core/types/container';
+import { ResourceNotFoundError, ValidationError } from '../../../../src/core/types/common';
+
+type SentCommand = { constructor: { name: string }; input: Record<string, unknown> };
+
+const repository = {
+  repositoryName: 'api',
+  repositoryArn: 'arn:aws:ecr:us-east-1:123456789012:repository/api',
+  repositoryUri: '123456789012.dkr.ecr.us-east-1.amazonaws.com/api',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  imageScanningConfiguration: { scanOnPush: true },
+  encryptionConfiguration: { encryptionType: 'KMS' },
+};
+
+function awsError(name: string): Error {
+  const error = new Error(name);
+  error.name = name;
+  return error;
+}
+
+describe('AwsContainerRepoService', () => {
+  let service: AwsContainerRepoService;
+  let sent: SentCommand[];
+  let responses: Map<string, (input: Record<string, unknown>) => unknown>;
+  let sendSpy: { mockRestore: () => void };
+
+  beforeEach(() => {
+    sent = [];
+    responses = new Map();
+    sendSpy = spyOn(ECRClient.prototype, 'send').mockImplementation(((command: SentCommand) => {
+      sent.push(command);
+      const respond = responses.get(command.constructor.name);
+      if (respond === undefined) {
+        return Promise.resolve({});
+      }
+      try {
+        return Promise.resolve(respond(command.input));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }) as never);
+    service = new AwsContainerRepoService({ region: 'us-east-1' });
+  });
+
+  afterEach(() => {
+    sendSpy.mockRestore();
+  });
+
+  describe('repositories', () => {
+    test('should create a repository with scanning, encryption and tags', async () => {
+      responses.set(CreateRepositoryCommand.name, () => ({ repository }));
+
+      const repo = await service.createRepository('api', {
+        imageScanOnPush: true,
+        encryptionType: EncryptionType.KMS,
+        kmsKeyId: 'alias/ecr',
+        tags: { Team: 'platform' },
+      });
+
+      expect(sent[0]?.input).toEqual({
+        repositoryName: 'api',
+        imageScanningConfiguration: { scanOnPush: true },
+        encryptionConfiguration: { encryptionType: 'KMS', kmsKey: 'alias/ecr' },
+        tags: [{ Key: 'Team', Value: 'platform' }],
+      });
+      expect(repo).toEqual({
+        name: 'api',
+        repositoryArn: repository.repositoryArn,
+        repositoryUri: repository.repositoryUri,
+        created: repository.createdAt,
+        imageCount: 0,
+        imageScanningEnabled: true,
+        encryptionEnabled: true,
+      });
+    });
+
+    test('should reject duplicates and KMS keys without KMS encryption', async () => {
+      responses.set(CreateRepositoryCommand.name, () => {
+        throw awsError('RepositoryAlreadyExistsException');
+      });
+
+      await expect(service.createRepository('api')).rejects.toThrow(ValidationError);
+      await expect(service.createRepository('api', { kmsKeyId: 'alias/ecr' })).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    test('should count distinct image digests', async () => {
+      responses.set(DescribeRepositoriesCommand.name, () => ({ repositories: [repository] }));
+      responses.set(ListImagesCommand.name, () => ({
+        imageIds: [
+          { imageDigest: 'sha256:a', imageTag: 'v1' },
+          { imageDigest: 'sha256:a', imageTag: 'latest' },
+          { imageDigest: 'sha256:b' },
+        ],
+      }));
+
+      const repo = await service.getRepository('api');
+
+      expect(repo.imageCount).toBe(2);
+    });
+
+    test('should map missing and non-empty repositories', async () => {
+      responses.set(DescribeRepositoriesCommand.name, () => {
+        throw awsError('RepositoryNotFoundException');
+      });
+      responses.set(DeleteRepositoryCommand.name, () => {
+        throw awsError('RepositoryNotEmptyException');
+      });
+
+      await expect(service.getRepository('api')).rejects.toThrow(ResourceNotFoundError);
+      await expect(service.deleteRepository('api')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('lifecycle policies', () => {
+    const policy: LifecyclePolicy = {
+      rules: [
+        {
+          rulePriority: 1,
+          description: 'Keep ten releases',
+          selection: {
+            tagStatus: TagStatus.TAGGED,
+            tagPrefixList: ['v'],
+            countType: CountType.IMAGE_COUNT_MORE_THAN,
+            countNumber: 10,
+          },
+          action: { type: 'expire' },
+        },
+        {
+          rulePriority: 2,
+          selection: {
+            tagStatus: TagStatus.UNTAGGED,
+            countType: CountType.SINCE_IMAGE_PUSHED,
+            countNumber: 7,
+          },
+          action: { type: 'expire' },
+        },
+      ],
+    };
+
+    test('should translate rules into ECR policy JSON', async () => {
+      await service.setLifecyclePolicy('api', policy);
+
+      const put = sent.find((command) => command instanceof PutLifecyclePolicyCommand);
+      expect(JSON.parse(put?.input.lifecyclePolicyText as string)).toEqual({
+        rules: [
+          {
+            rulePriority: 1,
+            description: 'Keep ten releases',
+            selection: {
+              tagStatus: 'tagged',
+              tagPrefixList: ['v'],
+              countType: 'imageCountMoreThan',
+              countNumber: 10,
+            },
+            action: { type: 'expire' },
+          },
+          {
+            rulePriority: 2,
+            selection: {
+              tagStatus: 'untagged',
+              countType: 'sinceImagePushed',
+              countUnit: 'days',
+              countNumber: 7,
+            },
+            action: { type: 'expire' },
+          },
+        ],
+      });
+    });
+
+    test('should read the ECR policy back into a LifecyclePolicy', async () => {
+      await service.setLifecyclePolicy('api', policy);
+      const put = sent.find((command) => command instanceof PutLifecyclePolicyCommand);
+      responses.set(GetLifecyclePolicyCommand.name, () => ({
+        lifecyclePolicyText: put?.input.lifecyclePolicyText,
+      }));
+
+      expect(await service.getLifecyclePolicy('api')).toEqual(policy);
+    });
+
+    test('should require tag prefixes for tagged selections', async () => {
+      await expect(
+        service.setLifecyclePolicy('api', {
+          rules: [
+            {
+              rulePriority: 1,
+              selection: {
+                tagStatus: TagStatus.TAGGED,
+                countType: CountType.IMAGE_COUNT_MORE_THAN,
+                countNumber: 5,
+              },
+              action: { type: 'expire' },
+            },
+          ],
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(sent).toHaveLength(0);
+    });
+
+    test('should raise ResourceNotFoundError when no policy is set', async () => {
+      responses.set(GetLifecyclePolicyCommand.name, () => {
+        throw awsError('LifecyclePolicyNotFoundException');
+      });
+
+      await expect(service.getLifecyclePolicy('api')).rejects.toThrow(ResourceNotFoundError);
+    });
+  });
+
+  describe('scanning and permissions', () => {
+    test('should configure scan on push', async () => {
+      await service.configureImageScanning('api', { scanOnPush: false });
+
+      const put = sent.find((command) => command instanceof PutImageScanningConfigurationCommand);
+      expect(put?.input).toEqual({
+        repositoryName: 'api',
+        imageScanningConfiguration: { scanOnPush: false },
+      });
+    });
+
+    test('should write one policy statement per permission', async () => {
+      await service.setPermissions('api', [
+        { principal: '123456789012', actions: [RepositoryAction.PULL] },
+        { principal: 'codebuild.amazonaws.com', actions: [RepositoryAction.PUSH] },
+      ]);
+
+      const set = sent.find((command) => command instanceof SetRepositoryPolicyCommand);
+      const document = JSON.parse(set?.input.policyText as string) as {
+        Statement: Array<Record<string, unknown>>;
+      };
+      expect(document.Statement).toEqual([
+        {
+          Sid: 'LCPlatformPermission0',
+          Effect: 'Allow',
+          Principal: { AWS: 'arn:aws:iam::123456789012:root' },
+          Action: [
+            'ecr:BatchCheckLayerAvailability',
+            'ecr:BatchGetImage',
+            'ecr:GetDownloadUrlForLayer',
+          ],
+        },
+        {
+          Sid: 'LCPlatformPermission1',
+          Effect: 'Allow',
+          Principal: { Service: 'codebuild.amazonaws.com' },
+          Action: [
+            'ecr:BatchCheckLayerAvailability',
+            'ecr:CompleteLayerUpload',
+            'ecr:InitiateLayerUpload',
+            'ecr:PutImage',
+            'ecr:UploadLayerPart',
+          ],
+        },
+      ]);
+    });
+
+    test('should read permissions back from the repository policy', async () => {
+      const permissions = [
+        {
+          principal: '123456789012',
+          actions: [RepositoryAction.PULL, RepositoryAction.LIST],
+        },
+        {
+          principal: 'arn:aws:iam::210987654321:role/deployer',
+          actions: [RepositoryAction.DELETE],
+        },
+      ];
+      await service.setPermissions('api', permissions);
+      const set = sent.find((command) => command instanceof SetRepositoryPolicyCommand);
+      responses.set(GetRepositoryPolicyCommand.name, () => ({ policyText: set?.input.policyText }));
+
+      expect(await service.getPermissions('api')).toEqual(permissions);
+    });
+
+    test('should remove the policy for an empty permission list', async () => {
+      responses.set(GetRepositoryPolicyCommand.name, () => {
+        throw awsError('RepositoryPolicyNotFoundException');
+      });
+
+      await service.setPermissions('api', []);
+
+      expect(sent[0]).toBeInstanceOf(DeleteRepositoryPolicyCommand);
+      expect(await service.getPermissions('api')).toEqual([]);
+    });
+  });
+});
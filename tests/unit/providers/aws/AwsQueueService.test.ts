@@ -0,0 +1,248 @@
+/**
+ * Unit tests for AwsQueueService queue creation and dead-letter queue handling
+ *
+ * Runs against a mocked SQS SDK client; no AWS resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { AwsQueueService } from '../../../../src/providers/aws/AwsQueueService';
+import { ProviderType, ValidationError } from '../../../../src/core/types/common';
+
+type SentCommand = { constructor: { name: string }; input: Record<string, unknown> };
+
+interface SqsMessage {
+  MessageId: string;
+  Body: string;
+  MessageAttributes?: Record<string, { DataType: string; StringValue: string }>;
+  visible: boolean;
+  receipts: number;
+}
+
+const QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/orders';
+const DLQ_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/orders-dlq';
+const DLQ_ARN = 'arn:aws:sqs:us-east-1:123456789012:orders-dlq';
+
+describe('AwsQueueService', () => {
+  let sent: SentCommand[];
+  let attributes: Record<string, Record<string, string>>;
+  let deadLetters: SqsMessage[];
+  let sendSpy: { mockRestore: () => void };
+  let service: AwsQueueService;
+
+  const commands = (name: string): SentCommand[] =>
+    sent.filter((command) => command.constructor.name === name);
+
+  beforeEach(() => {
+    sent = [];
+    attributes = {
+      [QUEUE_URL]: {
+        RedrivePolicy: JSON.stringify({ maxReceiveCount: 3, deadLetterTargetArn: DLQ_ARN }),
+      },
+      [DLQ_URL]: { QueueArn: DLQ_ARN },
+    };
+    deadLetters = [1, 2, 3].map((orderId) => ({
+      MessageId: `msg-${orderId}`,
+      Body: JSON.stringify({ orderId }),
+      MessageAttributes: { source: { DataType: 'String', StringValue: 'checkout' } },
+      visible: true,
+      receipts: 0,
+    }));
+
+    sendSpy = spyOn(SQSClient.prototype, 'send').mockImplementation(((command: SentCommand) => {
+      sent.push(command);
+      const input = command.input;
+      const handle = (message: SqsMessage): string => `${message.MessageId}#${message.receipts}`;
+      const byHandle = (receiptHandle: unknown): SqsMessage | undefined =>
+        deadLetters.find((message) => handle(message) === receiptHandle);
+
+      switch (command.constructor.name) {
+        case 'CreateQueueCommand':
+          return Promise.resolve({
+            QueueUrl: `https://sqs.us-east-1.amazonaws.com/123456789012/${String(input.QueueName)}`,
+          });
+        case 'GetQueueAttributesCommand':
+          return Promise.resolve({
+            Attributes: {
+              ...attributes[String(input.QueueUrl)],
+              ApproximateNumberOfMessages: String(deadLetters.length),
+            },
+          });
+        case 'GetQueueUrlCommand':
+          return Promise.resolve({ QueueUrl: DLQ_URL });
+        case 'ReceiveMessageCommand': {
+          const received = deadLetters
+            .filter((message) => message.visible)
+            .slice(0, Number(input.MaxNumberOfMessages));
+          for (const message of received) {
+            message.receipts++;
+            message.visible = input.VisibilityTimeout === 0;
+          }
+          return Promise.resolve({
+            Messages: received.map((message) => ({
+              MessageId: message.MessageId,
+              ReceiptHandle: handle(message),
+              Body: message.Body,
+              MessageAttributes: message.MessageAttributes,
+            })),
+          });
+        }
+        case 'DeleteMessageCommand':
+          deadLetters = deadLetters.filter((message) => message !== byHandle(input.ReceiptHandle));
+          return Promise.resolve({});
+        case 'ChangeMessageVisibilityCommand': {
+          const message = byHandle(input.ReceiptHandle);
+          if (message !== undefined) {
+            message.visible = input.VisibilityTimeout === 0;
+          }
+          return Promise.resolve({});
+        }
+        default:
+          return Promise.resolve({ MessageId: 'new-id' });
+      }
+    }) as never);
+
+    service = new AwsQueueService({ provider: ProviderType.AWS, region: 'us-east-1' });
+  });
+
+  afterEach(() => {
+    sendSpy.mockRestore();
+  });
+
+  test('should create a dead-letter queue and point the redrive policy at it', async () => {
+    await service.createQueue('orders', { enableDeadLetter: true, deadLetterAfterRetries: 3 });
+
+    const [deadLetterQueue, sourceQueue] = commands('CreateQueueCommand');
+    expect(deadLetterQueue?.input.QueueName).toBe('orders-dlq');
+    expect(sourceQueue?.input.QueueName).toBe('orders');
+    expect(
+      JSON.parse((sourceQueue?.input.Attributes as Record<string, string>).RedrivePolicy ?? '')
+    ).toEqual({ maxReceiveCount: 3, deadLetterTargetArn: DLQ_ARN });
+  });
+
+  test('should point the redrive policy at an existing dead-letter queue', async () => {
+    const sharedUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/shared-dlq';
+    const sharedArn = 'arn:aws:sqs:us-east-1:123456789012:shared-dlq';
+    attributes[sharedUrl] = { QueueArn: sharedArn };
+
+    await service.createQueue('orders', {
+      deadLetterQueueUrl: sharedUrl,
+      deadLetterAfterRetries: 4,
+    });
+
+    expect(commands('CreateQueueCommand').map((command) => command.input.QueueName)).toEqual([
+      'orders',
+    ]);
+    const [sourceQueue] = commands('CreateQueueCommand');
+    expect(
+      JSON.parse((sourceQueue?.input.Attributes as Record<string, string>).RedrivePolicy ?? '')
+    ).toEqual({ maxReceiveCount: 4, deadLetterTargetArn: sharedArn });
+  });
+
+  test('should update attributes and add a redrive policy in place', async () => {
+    attributes[QUEUE_URL] = { VisibilityTimeout: '30' };
+
+    await service.updateQueue(QUEUE_URL, { visibilityTimeout: 90, enableDeadLetter: true });
+
+    expect(commands('CreateQueueCommand').map((command) => command.input.QueueName)).toEqual([
+      'orders-dlq',
+    ]);
+    const [update] = commands('SetQueueAttributesCommand');
+    expect(update?.input.QueueUrl).toBe(QUEUE_URL);
+    expect(update?.input.Attributes).toEqual({
+      VisibilityTimeout: '90',
+      RedrivePolicy: JSON.stringify({ maxReceiveCount: 5, deadLetterTargetArn: DLQ_ARN }),
+    });
+  });
+
+  test('should delete the dead-letter queue it created with its queue', async () => {
+    await service.deleteQueue(QUEUE_URL);
+
+    expect(commands('DeleteQueueCommand').map((command) => command.input.QueueUrl)).toEqual([
+      QUEUE_URL,
+      DLQ_URL,
+    ]);
+  });
+
+  test('should keep dead-letter queues shared with other queues', async () => {
+    attributes[QUEUE_URL] = {
+      RedrivePolicy: JSON.stringify({
+        maxReceiveCount: 3,
+        deadLetterTargetArn: 'arn:aws:sqs:us-east-1:123456789012:shared-dlq',
+      }),
+    };
+
+    await service.deleteQueue(QUEUE_URL);
+
+    expect(commands('DeleteQueueCommand').map((command) => command.input.QueueUrl)).toEqual([
+      QUEUE_URL,
+    ]);
+  });
+
+  test('should enable content-based deduplication on FIFO queues', async () => {
+    await service.createQueue('orders.fifo', { fifo: true, contentBasedDeduplication: true });
+
+    expect(commands('CreateQueueCommand')[0]?.input.Attributes).toMatchObject({
+      FifoQueue: 'true',
+      ContentBasedDeduplication: 'true',
+    });
+  });
+
+  test('should report the dead-letter queue URL and depth', async () => {
+    expect((await service.getQueue(QUEUE_URL)).deadLetterQueueUrl).toBe(DLQ_URL);
+    expect(await service.getDeadLetterQueueDepth(QUEUE_URL)).toBe(3);
+    expect(commands('GetQueueUrlCommand')[0]?.input).toEqual({
+      QueueName: 'orders-dlq',
+      QueueOwnerAWSAccountId: '123456789012',
+    });
+  });
+
+  test('should peek with a zero visibility timeout', async () => {
+    const messages = await service.peekDeadLetterMessages(QUEUE_URL, 2);
+
+    expect(messages).toEqual([
+      { id: 'msg-1', body: { orderId: 1 }, attributes: { source: 'checkout' } },
+      { id: 'msg-2', body: { orderId: 2 }, attributes: { source: 'checkout' } },
+    ]);
+    expect(commands('ReceiveMessageCommand')[0]?.input).toMatchObject({
+      QueueUrl: DLQ_URL,
+      VisibilityTimeout: 0,
+    });
+  });
+
+  test('should redrive filtered messages and release skipped ones', async () => {
+    const result = await service.redriveDeadLetterMessages(QUEUE_URL, {
+      filter: (message) => message.id !== 'msg-2',
+    });
+
+    expect(result).toEqual({ moved: 2, skipped: 1 });
+    expect(commands('SendMessageCommand').map((command) => command.input)).toEqual([
+      {
+        QueueUrl: QUEUE_URL,
+        MessageBody: '{"orderId":1}',
+        MessageAttributes: { source: { DataType: 'String', StringValue: 'checkout' } },
+      },
+      {
+        QueueUrl: QUEUE_URL,
+        MessageBody: '{"orderId":3}',
+        MessageAttributes: { source: { DataType: 'String', StringValue: 'checkout' } },
+      },
+    ]);
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({ MessageId: 'msg-2', visible: true });
+  });
+
+  test('should stop after maxMessages', async () => {
+    const result = await service.redriveDeadLetterMessages(QUEUE_URL, { maxMessages: 2 });
+
+    expect(result).toEqual({ moved: 2, skipped: 0 });
+    expect(commands('ReceiveMessageCommand')[0]?.input.MaxNumberOfMessages).toBe(2);
+    expect(deadLetters.map((message) => message.MessageId)).toEqual(['msg-3']);
+  });
+
+  test('should reject queues without a redrive policy', async () => {
+    attributes[QUEUE_URL] = {};
+
+    await expect(service.getDeadLetterQueueDepth(QUEUE_URL)).rejects.toThrow(ValidationError);
+  });
+});
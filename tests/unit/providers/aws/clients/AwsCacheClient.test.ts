@@ -0,0 +1,448 @@
+/**
+ * Unit tests for AwsCacheClient
+ *
+ * Runs ioredis against a minimal in-process Redis protocol server standing in
+ * for redis-server; ElastiCache endpoint lookups use a mocked SDK client.
+ */
+
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  spyOn,
+} from 'bun:test';
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { ElastiCacheClient } from '@aws-sdk/client-elasticache';
+import {
+  AwsCacheClient,
+  type CacheEndpoint,
+} from '../../../../../src/providers/aws/clients/AwsCacheClient';
+import {
+  ProviderType,
+  ResourceNotFoundError,
+  ValidationError,
+} from '../../../../../src/core/types/common';
+
+interface StoredValue {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * Minimal RESP server implementing the commands used by AwsCacheClient
+ */
+class RedisStandIn {
+  readonly data = new Map<string, StoredValue>();
+  readonly commands: string[][] = [];
+  password?: string;
+  private server: Server = createServer((socket) => this.handle(socket));
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: Socket): void {
+    let buffer = '';
+    let authenticated = this.password === undefined;
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString();
+      let parsed = this.parse(buffer);
+      while (parsed !== undefined) {
+        buffer = buffer.slice(parsed.length);
+        const [name = '', ...args] = parsed.command;
+        const command = name.toUpperCase();
+        this.commands.push([command, ...args]);
+
+        if (command === 'AUTH') {
+          authenticated = args[args.length - 1] === this.password;
+          socket.write(authenticated ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        } else if (!authenticated) {
+          socket.write('-NOAUTH Authentication required.\r\n');
+        } else {
+          socket.write(this.execute(command, args));
+        }
+        parsed = this.parse(buffer);
+      }
+    });
+  }
+
+  private parse(buffer: string): { command: string[]; length: number } | undefined {
+    const lines = buffer.split('\r\n');
+    const count = Number(lines[0]?.slice(1));
+    if (!buffer.startsWith('*') || lines.length < count * 2 + 2) {
+      return undefined;
+    }
+
+    const command: string[] = [];
+    for (let i = 0; i < count; i++) {
+      command.push(lines[i * 2 + 2] ?? '');
+    }
+    const length = lines.slice(0, count * 2 + 1).join('\r\n').length + 2;
+    return { command, length };
+  }
+
+  private live(key: string): StoredValue | undefined {
+    const entry = this.data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private execute(command: string, args: string[]): string {
+    const [key = '', ...rest] = args;
+    const integer = (value: number): string => `:${value}\r\n`;
+
+    switch (command) {
+      case 'INFO':
+        return bulk('loading:0');
+      case 'GET': {
+        const entry = this.live(key);
+        return entry === undefined ? '$-1\r\n' : bulk(entry.value);
+      }
+      case 'SET': {
+        const flags = rest.slice(1).map((flag) => flag.toUpperCase());
+        const exists = this.live(key) !== undefined;
+        if ((flags.includes('NX') && exists) || (flags.includes('XX') && !exists)) {
+          return '$-1\r\n';
+        }
+        const ex = flags.indexOf('EX');
+        this.data.set(key, {
+          value: rest[0] ?? '',
+          ...(ex >= 0 && { expiresAt: Date.now() + Number(rest[ex + 2]) * 1000 }),
+        });
+        return '+OK\r\n';
+      }
+      case 'DEL':
+      case 'EXISTS':
+        return integer(
+          args.filter((arg) => {
+            const found = this.live(arg) !== undefined;
+            if (command === 'DEL') {
+              this.data.delete(arg);
+            }
+            return found;
+          }).length
+        );
+      case 'EXPIRE': {
+        const entry = this.live(key);
+        if (entry === undefined) {
+          return integer(0);
+        }
+        entry.expiresAt = Date.now() + Number(rest[0]) * 1000;
+        return integer(1);
+      }
+      case 'TTL': {
+        const entry = this.live(key);
+        if (entry === undefined) {
+          return integer(-2);
+        }
+        if (entry.expiresAt === undefined) {
+          return integer(-1);
+        }
+        return integer(Math.ceil((entry.expiresAt - Date.now()) / 1000));
+      }
+      case 'PERSIST': {
+        const entry = this.live(key);
+        if (entry?.expiresAt === undefined) {
+          return integer(0);
+        }
+        delete entry.expiresAt;
+        return integer(1);
+      }
+      case 'INCRBY':
+      case 'DECRBY': {
+        const current = Number(this.live(key)?.value ?? '0');
+        if (!Number.isInteger(current)) {
+          return '-ERR value is not an integer or out of range\r\n';
+        }
+        const delta = Number(rest[0]) * (command === 'DECRBY' ? -1 : 1);
+        this.data.set(key, { value: String(current + delta) });
+        return integer(current + delta);
+      }
+      default:
+        return `-ERR unknown command '${command}'\r\n`;
+    }
+  }
+}
+
+function bulk(value: string): string {
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+describe('AwsCacheClient', () => {
+  const server = new RedisStandIn();
+  let port: number;
+  let client: AwsCacheClient;
+
+  beforeAll(async () => {
+    port = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.data.clear();
+    server.commands.length = 0;
+    delete server.password;
+    client = new AwsCacheClient({
+      provider: ProviderType.AWS,
+      region: 'us-east-1',
+      options: { cacheEndpoint: `redis://127.0.0.1:${port}` },
+    });
+  });
+
+  afterEach(() => {
+    client.destroy();
+  });
+
+  describe('get/set', () => {
+    test('should round-trip strings and serialize objects', async () => {
+      await client.set('sessions', 'name', 'alice');
+      await client.set('sessions', 'profile', { id: 1 });
+
+      expect(await client.get('sessions', 'name')).toBe('alice');
+      expect(await client.get('sessions', 'profile')).toBe('{"id":1}');
+      expect(await client.get('sessions', 'missing')).toBeNull();
+    });
+
+    test('should set a TTL with EX', async () => {
+      await client.set('sessions', 'token', 'abc', { ttl: 60 });
+
+      expect(server.commands).toContainEqual(['SET', 'token', 'abc', 'EX', '60']);
+      const ttl = await client.ttl('sessions', 'token');
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(60);
+    });
+
+    test('should only set missing keys with onlyIfNotExists', async () => {
+      await client.set('sessions', 'lock', 'first');
+      await client.set('sessions', 'lock', 'second', { onlyIfNotExists: true });
+      await client.set('sessions', 'fresh', 'value', { onlyIfNotExists: true });
+
+      expect(await client.get('sessions', 'lock')).toBe('first');
+      expect(await client.get('sessions', 'fresh')).toBe('value');
+    });
+
+    test('should only overwrite existing keys with onlyIfExists', async () => {
+      await client.set('sessions', 'missing', 'value', { onlyIfExists: true });
+      await client.set('sessions', 'present', 'old');
+      await client.set('sessions', 'present', 'new', { onlyIfExists: true });
+
+      expect(await client.exists('sessions', 'missing')).toBe(false);
+      expect(await client.get('sessions', 'present')).toBe('new');
+    });
+
+    test('should reject conflicting conditions and empty keys', async () => {
+      await expect(
+        client.set('sessions', 'key', 'value', { onlyIfExists: true, onlyIfNotExists: true })
+      ).rejects.toThrow(ValidationError);
+      await expect(client.get('sessions', '')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('key operations', () => {
+    test('should delete and check existence', async () => {
+      await client.set('sessions', 'key', 'value');
+
+      expect(await client.exists('sessions', 'key')).toBe(true);
+      expect(await client.delete('sessions', 'key')).toBe(true);
+      expect(await client.delete('sessions', 'key')).toBe(false);
+      expect(await client.exists('sessions', 'key')).toBe(false);
+    });
+
+    test('should expire, report TTL and persist', async () => {
+      await client.set('sessions', 'key', 'value');
+
+      expect(await client.ttl('sessions', 'key')).toBe(-1);
+      expect(await client.expire('sessions', 'key', 30)).toBe(true);
+      expect(await client.ttl('sessions', 'key')).toBeGreaterThan(0);
+      expect(await client.persist('sessions', 'key')).toBe(true);
+      expect(await client.ttl('sessions', 'key')).toBe(-1);
+      expect(await client.ttl('sessions', 'missing')).toBe(-2);
+      expect(await client.expire('sessions', 'missing', 30)).toBe(false);
+    });
+
+    test('should increment and decrement counters', async () => {
+      expect(await client.increment('sessions', 'counter')).toBe(1);
+      expect(await client.increment('sessions', 'counter', 5)).toBe(6);
+      expect(await client.decrement('sessions', 'counter', 2)).toBe(4);
+      expect(await client.decrement('sessions', 'counter')).toBe(3);
+    });
+
+    test('should raise ValidationError when incrementing a non-integer', async () => {
+      await client.set('sessions', 'name', 'alice');
+
+      await expect(client.increment('sessions', 'name')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('batch operations', () => {
+    test('should mset with TTL and mget only existing keys', async () => {
+      await client.mset(
+        'sessions',
+        new Map<string, unknown>([
+          ['a', '1'],
+          ['b', { value: 2 }],
+        ]),
+        { ttl: 120 }
+      );
+
+      const values = await client.mget('sessions', ['a', 'b', 'c']);
+
+      expect(values).toEqual(
+        new Map([
+          ['a', '1'],
+          ['b', '{"value":2}'],
+        ])
+      );
+      expect(await client.ttl('sessions', 'b')).toBeGreaterThan(0);
+    });
+
+    test('should report missing keys as failed in mdel', async () => {
+      await client.set('sessions', 'a', '1');
+      await client.set('sessions', 'b', '2');
+
+      const result = await client.mdel('sessions', ['a', 'b', 'c']);
+
+      expect(result.successful).toEqual(['a', 'b']);
+      expect(result.failed).toEqual([{ key: 'c', error: 'Key not found' }]);
+    });
+  });
+
+  describe('connection', () => {
+    test('should authenticate with the configured auth token', async () => {
+      server.password = 'token-1234567890abcdef';
+      const authenticated = new AwsCacheClient({
+        provider: ProviderType.AWS,
+        options: {
+          cacheEndpoint: `redis://127.0.0.1:${port}`,
+          cacheAuthToken: 'token-1234567890abcdef',
+        },
+      });
+
+      await authenticated.set('sessions', 'key', 'value');
+      authenticated.destroy();
+
+      expect(server.commands[0]).toEqual(['AUTH', 'token-1234567890abcdef']);
+      expect(server.data.get('key')?.value).toBe('value');
+    });
+
+    test('should reject endpoints that are not redis URLs', async () => {
+      const invalid = new AwsCacheClient({
+        provider: ProviderType.AWS,
+        options: { cacheEndpoint: 'http://127.0.0.1:6379' },
+      });
+
+      await expect(invalid.get('sessions', 'key')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('endpoint resolution', () => {
+    let sendSpy: { mockRestore: () => void };
+    let resolved: CacheEndpoint[];
+    let resolving: AwsCacheClient;
+    let connectionSpy: { mockRestore: () => void };
+
+    beforeEach(() => {
+      resolved = [];
+      resolving = new AwsCacheClient({
+        provider: ProviderType.AWS,
+        region: 'us-east-1',
+        options: { cacheAuthToken: 'token-1234567890abcdef' },
+      });
+      connectionSpy = spyOn(
+        AwsCacheClient.prototype as unknown as {
+          createConnection: (endpoint: CacheEndpoint) => unknown;
+        },
+        'createConnection'
+      ).mockImplementation((endpoint: CacheEndpoint) => {
+        resolved.push(endpoint);
+        return {
+          connect: () => Promise.resolve(),
+          get: () => Promise.resolve('value'),
+          disconnect: () => undefined,
+        };
+      });
+    });
+
+    afterEach(() => {
+      sendSpy.mockRestore();
+      connectionSpy.mockRestore();
+      resolving.destroy();
+    });
+
+    test('should resolve the primary endpoint of the replication group once', async () => {
+      sendSpy = spyOn(ElastiCacheClient.prototype, 'send').mockImplementation((() =>
+        Promise.resolve({
+          ReplicationGroups: [
+            {
+              ReplicationGroupId: 'sessions',
+              TransitEncryptionEnabled: true,
+              NodeGroups: [
+                { PrimaryEndpoint: { Address: 'sessions.abc.cache.amazonaws.com', Port: 6380 } },
+              ],
+            },
+          ],
+        })) as never);
+
+      expect(await resolving.get('sessions', 'a')).toBe('value');
+      expect(await resolving.get('sessions', 'b')).toBe('value');
+
+      expect(resolved).toEqual([
+        {
+          host: 'sessions.abc.cache.amazonaws.com',
+          port: 6380,
+          tls: true,
+          clusterMode: false,
+          password: 'token-1234567890abcdef',
+        },
+      ]);
+    });
+
+    test('should use the configuration endpoint with cluster mode enabled', async () => {
+      sendSpy = spyOn(ElastiCacheClient.prototype, 'send').mockImplementation((() =>
+        Promise.resolve({
+          ReplicationGroups: [
+            {
+              ReplicationGroupId: 'sessions',
+              ConfigurationEndpoint: { Address: 'clustercfg.sessions.cache.amazonaws.com' },
+            },
+          ],
+        })) as never);
+
+      await resolving.get('sessions', 'a');
+
+      expect(resolved[0]).toMatchObject({
+        host: 'clustercfg.sessions.cache.amazonaws.com',
+        port: 6379,
+        tls: false,
+        clusterMode: true,
+      });
+    });
+
+    test('should raise ResourceNotFoundError for unknown clusters', async () => {
+      sendSpy = spyOn(ElastiCacheClient.prototype, 'send').mockImplementation((() => {
+        const error = new Error('ReplicationGroup sessions not found');
+        error.name = 'ReplicationGroupNotFoundFault';
+        return Promise.reject(error);
+      }) as never);
+
+      await expect(resolving.get('sessions', 'a')).rejects.toThrow(ResourceNotFoundError);
+    });
+  });
+});
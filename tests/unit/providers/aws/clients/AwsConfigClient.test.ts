@@ -0,0 +1,125 @@
+/**
+ * Unit tests for AwsConfigClient read caching
+ *
+ * Runs against a mocked SSM SDK client; no AWS resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { SSMClient } from '@aws-sdk/client-ssm';
+import { AwsConfigClient } from '../../../../../src/providers/aws/clients/AwsConfigClient';
+import { ProviderType } from '../../../../../src/core/types/common';
+import type { ConfigChangeEvent } from '../../../../../src/core/types/configuration';
+
+type SentCommand = { constructor: { name: string }; input: Record<string, unknown> };
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('AwsConfigClient', () => {
+  let sent: SentCommand[];
+  let timeout: string;
+  let sendSpy: { mockRestore: () => void };
+
+  beforeEach(() => {
+    sent = [];
+    timeout = '30';
+    sendSpy = spyOn(SSMClient.prototype, 'send').mockImplementation(((command: SentCommand) => {
+      sent.push(command);
+      const path = command.input.Path as string;
+      return Promise.resolve({
+        Parameters: [
+          { Name: `${path}/timeout`, Value: timeout },
+          { Name: `${path}/debug`, Value: 'true' },
+        ],
+      });
+    }) as never);
+  });
+
+  afterEach(() => {
+    sendSpy.mockRestore();
+  });
+
+  function createClient(configCache?: unknown): AwsConfigClient {
+    return new AwsConfigClient({
+      provider: ProviderType.AWS,
+      region: 'us-east-1',
+      ...(configCache !== undefined && { options: { configCache } }),
+    });
+  }
+
+  test('should read configuration values through the cache', async () => {
+    const client = createClient(true);
+
+    expect(await client.getNumber('api', 'timeout')).toBe(30);
+    expect(await client.getBoolean('api', 'debug')).toBe(true);
+    expect(await client.get('api', 'prod')).toEqual({ timeout: 30, debug: true });
+
+    expect(sent.map((command) => command.input.Path)).toEqual(['/api', '/prod/api']);
+    expect(client.getCacheStats()).toMatchObject({ hits: 1, misses: 2, size: 2 });
+  });
+
+  test('should return copies of cached data', async () => {
+    const client = createClient(true);
+
+    const data = await client.get('api');
+    data.timeout = 99;
+
+    expect(await client.getNumber('api', 'timeout')).toBe(30);
+  });
+
+  test('should refresh stale values in the background', async () => {
+    const client = createClient({ ttlMs: 5, staleWhileRevalidateMs: 60000 });
+    await client.get('api');
+    await sleep(10);
+    timeout = '45';
+
+    expect(await client.getNumber('api', 'timeout')).toBe(30);
+    await sleep(0);
+    expect(await client.getNumber('api', 'timeout')).toBe(45);
+    expect(client.getCacheStats()).toMatchObject({ staleHits: 1, refreshes: 1 });
+  });
+
+  test('should support forced refreshes and invalidation', async () => {
+    const client = createClient(true);
+    await client.get('api');
+    timeout = '60';
+
+    expect(await client.getNumber('api', 'timeout', undefined, { refresh: true })).toBe(60);
+
+    client.invalidateCache('api');
+    await client.get('api');
+    expect(sent).toHaveLength(3);
+  });
+
+  test('should poll watched configuration and update cached reads', async () => {
+    const client = createClient(true);
+    const events: ConfigChangeEvent[] = [];
+    const subscription = await client.watch(
+      'api',
+      (event) => {
+        events.push(event);
+      },
+      { environment: 'prod', pollIntervalMs: 5 }
+    );
+    timeout = '90';
+
+    await sleep(30);
+    subscription.unsubscribe();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      environment: 'prod',
+      previous: { timeout: 30, debug: true },
+      current: { timeout: 90, debug: true },
+      changedKeys: ['timeout'],
+    });
+    expect(await client.get('api', 'prod')).toEqual({ timeout: 90, debug: true });
+    expect(client.getCacheStats().hits).toBe(1);
+  });
+
+  test('should evaluate feature flags stored in parameters', async () => {
+    const client = createClient();
+
+    expect(await client.getFeatureFlag('api', 'debug')).toBe(true);
+    expect(await client.getFeatureFlag('api', 'newCheckout', undefined, true)).toBe(true);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Unit tests for AwsContainerRepoClient
+ *
+ * Runs against a mocked ECR SDK client; no AWS resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import {
+  ECRClient,
+  DescribeImagesCommand,
+  DescribeImageScanFindingsCommand,
+  BatchDeleteImageCommand,
+  DescribeRepositoriesCommand,
+} from '@aws-sdk/client-ecr';
+import { AwsContainerRepoClient } from '../../../../../src/providers/aws/clients/AwsContainerRepoClient';
+import { ScanStatus, TagStatus } from '../../../../../src/core/types/container';
+import {
+  ProviderType,
+  ResourceNotFoundError,
+  ValidationError,
+} from '../../../../../src/core/types/common';
+
+type SentCommand = { constructor: { name: string }; input: Record<string, unknown> };
+
+const pushedAt = new Date('2026-02-01T00:00:00Z');
+
+function awsError(name: string): Error {
+  const error = new Error(name);
+  error.name = name;
+  return error;
+}
+
+describe('AwsContainerRepoClient', () => {
+  let client: AwsContainerRepoClient;
+  let sent: SentCommand[];
+  let responses: Map<string, (input: Record<string, unknown>) => unknown>;
+  let sendSpy: { mockRestore: () => void };
+
+  beforeEach(() => {
+    sent = [];
+    responses = new Map();
+    sendSpy = spyOn(ECRClient.prototype, 'send').mockImplementation(((command: SentCommand) => {
+      sent.push(command);
+      const respond = responses.get(command.constructor.name);
+      if (respond === undefined) {
+        return Promise.resolve({});
+      }
+      try {
+        return Promise.resolve(respond(command.input));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }) as never);
+    client = new AwsContainerRepoClient({ provider: ProviderType.AWS, region: 'us-east-1' });
+  });
+
+  afterEach(() => {
+    sendSpy.mockRestore();
+  });
+
+  test('should return the repository URI', async () => {
+    responses.set(DescribeRepositoriesCommand.name, () => ({
+      repositories: [{ repositoryUri: '123456789012.dkr.ecr.us-east-1.amazonaws.com/api' }],
+    }));
+
+    expect(await client.getRepositoryUri('api')).toBe(
+      '123456789012.dkr.ecr.us-east-1.amazonaws.com/api'
+    );
+  });
+
+  describe('listImages', () => {
+    test('should follow pages and pass the tag filter', async () => {
+      responses.set(DescribeImagesCommand.name, (input) =>
+        input.nextToken === undefined
+          ? {
+              imageDetails: [
+                { imageDigest: 'sha256:a', imageTags: ['v1'], imagePushedAt: pushedAt },
+              ],
+              nextToken: 'page-2',
+            }
+          : { imageDetails: [{ imageDigest: 'sha256:b', imageSizeInBytes: 42 }] }
+      );
+
+      const images = await client.listImages('api', { filter: { tagStatus: TagStatus.TAGGED } });
+
+      expect(sent).toHaveLength(2);
+      expect(sent[0]?.input).toMatchObject({
+        repositoryName: 'api',
+        filter: { tagStatus: 'TAGGED' },
+      });
+      expect(images).toEqual([
+        {
+          repositoryName: 'api',
+          imageDigest: 'sha256:a',
+          imageTags: ['v1'],
+          imageSizeInBytes: 0,
+          imagePushedAt: pushedAt,
+        },
+        {
+          repositoryName: 'api',
+          imageDigest: 'sha256:b',
+          imageSizeInBytes: 42,
+          imagePushedAt: new Date(0),
+        },
+      ]);
+    });
+
+    test('should stop once maxResults images are collected', async () => {
+      responses.set(DescribeImagesCommand.name, () => ({
+        imageDetails: [{ imageDigest: 'sha256:a' }, { imageDigest: 'sha256:b' }],
+        nextToken: 'more',
+      }));
+
+      const images = await client.listImages('api', { maxResults: 2 });
+
+      expect(images).toHaveLength(2);
+      expect(sent).toHaveLength(1);
+      expect(sent[0]?.input.maxResults).toBe(2);
+    });
+  });
+
+  describe('getImageByTag', () => {
+    test('should map scan status and findings summary', async () => {
+      responses.set(DescribeImagesCommand.name, () => ({
+        imageDetails: [
+          {
+            registryId: '123456789012',
+            repositoryName: 'api',
+            imageDigest: 'sha256:a',
+            imageTags: ['v1'],
+            imageSizeInBytes: 1024,
+            imagePushedAt: pushedAt,
+            imageScanStatus: { status: 'COMPLETE', description: 'The scan was completed.' },
+            imageScanFindingsSummary: {
+              findingSeverityCounts: { HIGH: 2, LOW: 5 },
+              imageScanCompletedAt: pushedAt,
+            },
+            imageManifestMediaType: 'application/vnd.oci.image.manifest.v1+json',
+          },
+        ],
+      }));
+
+      const image = await client.getImageByTag('api', 'v1');
+
+      expect(sent[0]?.input).toEqual({ repositoryName: 'api', imageIds: [{ imageTag: 'v1' }] });
+      expect(image).toEqual({
+        repositoryName: 'api',
+        imageDigest: 'sha256:a',
+        imageTags: ['v1'],
+        imageSizeInBytes: 1024,
+        imagePushedAt: pushedAt,
+        registryId: '123456789012',
+        imageScanStatus: { status: ScanStatus.COMPLETE, description: 'The scan was completed.' },
+        imageScanFindings: {
+          findingSeverityCounts: { HIGH: 2, LOW: 5 },
+          imageScanCompletedAt: pushedAt,
+        },
+        imageManifestMediaType: 'application/vnd.oci.image.manifest.v1+json',
+      });
+    });
+
+    test('should fetch findings when the summary is missing', async () => {
+      responses.set(DescribeImagesCommand.name, () => ({
+        imageDetails: [{ imageDigest: 'sha256:a', imageScanStatus: { status: 'ACTIVE' } }],
+      }));
+      responses.set(DescribeImageScanFindingsCommand.name, () => ({
+        imageScanFindings: { findingSeverityCounts: { CRITICAL: 1 } },
+      }));
+
+      const image = await client.getImageByTag('api', 'v1');
+
+      expect(image.imageScanStatus?.status).toBe(ScanStatus.COMPLETE);
+      expect(image.imageScanFindings).toEqual({ findingSeverityCounts: { CRITICAL: 1 } });
+    });
+
+    test('should map scan states', async () => {
+      const states: Array<[string, ScanStatus]> = [
+        ['PENDING', ScanStatus.IN_PROGRESS],
+        ['UNSUPPORTED_IMAGE', ScanStatus.UNSUPPORTED],
+        ['SCAN_ELIGIBILITY_EXPIRED', ScanStatus.FAILED],
+      ];
+
+      for (const [status, expected] of states) {
+        responses.set(DescribeImagesCommand.name, () => ({
+          imageDetails: [{ imageDigest: 'sha256:a', imageScanStatus: { status } }],
+        }));
+        const image = await client.getImageByTag('api', 'v1');
+        expect(image.imageScanStatus?.status).toBe(expected);
+      }
+    });
+
+    test('should raise ResourceNotFoundError for unknown images', async () => {
+      responses.set(DescribeImagesCommand.name, () => {
+        throw awsError('ImageNotFoundException');
+      });
+
+      await expect(client.getImageByTag('api', 'missing')).rejects.toThrow(ResourceNotFoundError);
+      expect(await client.imageExists('api', 'missing')).toBe(false);
+    });
+  });
+
+  describe('deleteImages', () => {
+    test('should map deleted images and failures', async () => {
+      responses.set(BatchDeleteImageCommand.name, () => ({
+        imageIds: [{ imageDigest: 'sha256:a', imageTag: 'v1' }, { imageDigest: 'sha256:b' }],
+        failures: [
+          {
+            imageId: { imageTag: 'v9' },
+            failureCode: 'ImageNotFound',
+            failureReason: 'Requested image not found',
+          },
+        ],
+      }));
+
+      const result = await client.deleteImages('api', ['v1', 'sha256:b', 'v9']);
+
+      expect(sent[0]?.input).toEqual({
+        repositoryName: 'api',
+        imageIds: [{ imageTag: 'v1' }, { imageDigest: 'sha256:b' }, { imageTag: 'v9' }],
+      });
+      expect(result).toEqual({
+        successful: [{ imageDigest: 'sha256:a', imageTag: 'v1' }, { imageDigest: 'sha256:b' }],
+        failed: [{ imageTag: 'v9', code: 'ImageNotFound', message: 'Requested image not found' }],
+      });
+    });
+
+    test('should split large deletions into batches of 100', async () => {
+      const identifiers = Array.from({ length: 150 }, (_, index) => `v${index}`);
+
+      await client.deleteImages('api', identifiers);
+
+      expect(sent.map((command) => (command.input.imageIds as unknown[]).length)).toEqual([
+        100, 50,
+      ]);
+    });
+
+    test('should return false for missing single images and throw for other failures', async () => {
+      responses.set(BatchDeleteImageCommand.name, (input) => ({
+        failures: [
+          {
+            imageId: (input.imageIds as unknown[])[0],
+            failureCode:
+              (input.imageIds as Array<{ imageTag?: string }>)[0]?.imageTag === 'gone'
+                ? 'ImageNotFound'
+                : 'ImageReferencedByManifestList',
+            failureReason: 'failed',
+          },
+        ],
+      }));
+
+      expect(await client.deleteImageByTag('api', 'gone')).toBe(false);
+      await expect(client.deleteImageByTag('api', 'base')).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for AwsSecretsClient read caching
+ *
+ * Runs against a mocked Secrets Manager SDK client; no AWS resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { AwsSecretsClient } from '../../../../../src/providers/aws/clients/AwsSecretsClient';
+import {
+  ProviderType,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../../../../src/core/types/common';
+
+type SentCommand = { constructor: { name: string }; input: Record<string, unknown> };
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('AwsSecretsClient', () => {
+  let sent: SentCommand[];
+  let secretString: string;
+  let failing: boolean;
+  let sendSpy: { mockRestore: () => void };
+
+  beforeEach(() => {
+    sent = [];
+    secretString = '{"password":"one"}';
+    failing = false;
+    sendSpy = spyOn(SecretsManagerClient.prototype, 'send').mockImplementation(((
+      command: SentCommand
+    ) => {
+      sent.push(command);
+      return failing
+        ? Promise.reject(new Error('connect ECONNREFUSED'))
+        : Promise.resolve({ SecretString: secretString });
+    }) as never);
+  });
+
+  afterEach(() => {
+    sendSpy.mockRestore();
+  });
+
+  function createClient(secretsCache?: unknown): AwsSecretsClient {
+    return new AwsSecretsClient({
+      provider: ProviderType.AWS,
+      region: 'us-east-1',
+      ...(secretsCache !== undefined && { options: { secretsCache } }),
+    });
+  }
+
+  test('should call Secrets Manager on every read without a cache', async () => {
+    const client = createClient();
+
+    await client.getJson('db');
+    await client.getJson('db');
+
+    expect(sent).toHaveLength(2);
+    expect(client.getCacheStats()).toEqual({
+      hits: 0,
+      misses: 0,
+      staleHits: 0,
+      refreshes: 0,
+      refreshFailures: 0,
+      size: 0,
+    });
+  });
+
+  test('should serve repeated reads from the cache per version', async () => {
+    const client = createClient(true);
+
+    expect(await client.getJson('db')).toEqual({ password: 'one' });
+    expect(await client.getJson('db')).toEqual({ password: 'one' });
+    await client.get('db', 'v2');
+
+    expect(sent).toHaveLength(2);
+    expect(sent[1]?.input).toEqual({ SecretId: 'db', VersionId: 'v2' });
+    expect(client.getCacheStats()).toMatchObject({ hits: 1, misses: 2, size: 2 });
+  });
+
+  test('should honour per-call TTLs and forced refreshes', async () => {
+    const client = createClient({ ttlMs: 60000 });
+
+    await client.get('db', undefined, { ttlMs: 5 });
+    await sleep(10);
+    secretString = '{"password":"two"}';
+    expect(await client.getJson('db')).toEqual({ password: 'two' });
+
+    secretString = '{"password":"three"}';
+    expect(await client.getJson('db', undefined, { refresh: true })).toEqual({
+      password: 'three',
+    });
+    expect(sent).toHaveLength(3);
+  });
+
+  test('should invalidate all versions of a secret', async () => {
+    const client = createClient(true);
+    await client.get('db');
+    await client.get('db', 'v2');
+    await client.get('api-key');
+
+    client.invalidateCache('db');
+    expect(client.getCacheStats().size).toBe(1);
+
+    client.invalidateCache();
+    expect(client.getCacheStats().size).toBe(0);
+  });
+
+  test('should serve the stale value while the refresh fails', async () => {
+    const client = createClient({ ttlMs: 5, staleWhileRevalidateMs: 60000 });
+    await client.get('db');
+    await sleep(10);
+    failing = true;
+
+    expect(await client.getJson('db')).toEqual({ password: 'one' });
+    await sleep(0);
+    expect(client.getCacheStats()).toMatchObject({ staleHits: 1, refreshFailures: 1 });
+
+    client.invalidateCache();
+    await expect(client.get('db')).rejects.toThrow(ServiceUnavailableError);
+  });
+
+  test('should reject invalid cache settings', () => {
+    expect(() => createClient('yes')).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for AzureObjectStoreService
+ *
+ * Runs against an in-memory stand-in for the Azure Blob Storage SDK; no Azure resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { AzureObjectStoreService } from '../../../../src/providers/azure/AzureObjectStoreService';
+import {
+  ProviderType,
+  ResourceNotFoundError,
+  ValidationError,
+  type ProviderConfig,
+} from '../../../../src/core/types/common';
+import type { Logger } from '../../../../src/core/types/observability';
+import { installAzureBlobFake, type FakeAzureBlobs } from '../../../helpers/azure-blob-fake';
+
+describe('AzureObjectStoreService', () => {
+  let fake: FakeAzureBlobs;
+  let warnings: string[];
+  let service: AzureObjectStoreService;
+
+  beforeEach(() => {
+    fake = installAzureBlobFake();
+    warnings = [];
+    const logger: Logger = {
+      debug: () => undefined,
+      info: () => undefined,
+      warn: (message) => warnings.push(message),
+      error: () => undefined,
+    };
+    const config: ProviderConfig = {
+      provider: ProviderType.AZURE,
+      options: { connectionString: 'UseDevelopmentStorage=true', logger },
+    };
+    service = new AzureObjectStoreService(config);
+  });
+
+  afterEach(() => {
+    fake.restore();
+  });
+
+  describe('createBucket', () => {
+    test('should create a private container', async () => {
+      await service.createBucket('assets');
+
+      expect(fake.containers.get('assets')?.access).toBeUndefined();
+    });
+
+    test('should map publicRead to blob-level public access', async () => {
+      await service.createBucket('public-assets', { publicRead: true });
+
+      expect(fake.containers.get('public-assets')?.access).toBe('blob');
+    });
+
+    test('should warn about account-level options', async () => {
+      await service.createBucket('assets', {
+        versioning: true,
+        encryption: true,
+        lifecycle: [{ prefix: 'tmp/', expirationDays: 1 }],
+      });
+
+      expect(warnings).toHaveLength(2);
+    });
+
+    test('should reject invalid and duplicate container names', async () => {
+      await expect(service.createBucket('My.Bucket')).rejects.toThrow(ValidationError);
+
+      await service.createBucket('assets');
+      await expect(service.createBucket('assets')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  test('should put, get and list objects', async () => {
+    await service.createBucket('assets');
+    await service.putObject('assets', 'docs/a.txt', Buffer.from('a'), {
+      contentType: 'text/plain',
+    });
+    await service.putObject('assets', 'docs/b.txt', Buffer.from('bb'));
+    await service.putObject('assets', 'other.txt', Buffer.from('c'));
+
+    const object = await service.getObject('assets', 'docs/a.txt');
+    expect(object.data).toEqual(Buffer.from('a'));
+    expect(object.contentType).toBe('text/plain');
+
+    const listed = await service.listObjects('assets', 'docs/');
+    expect(listed.map((o) => [o.key, o.size])).toEqual([
+      ['docs/a.txt', 1],
+      ['docs/b.txt', 2],
+    ]);
+  });
+
+  test('should throw ResourceNotFoundError when deleting a missing object', async () => {
+    await service.createBucket('assets');
+
+    await expect(service.deleteObject('assets', 'missing.txt')).rejects.toThrow(
+      ResourceNotFoundError
+    );
+  });
+
+  test('should copy objects between containers', async () => {
+    await service.createBucket('source');
+    await service.createBucket('target');
+    await service.putObject('source', 'dir/a.txt', Buffer.from('copied'), {
+      metadata: { origin: 'source' },
+    });
+
+    await service.copyObject(
+      { bucket: 'source', key: 'dir/a.txt' },
+      { bucket: 'target', key: 'b.txt' }
+    );
+
+    const copy = await service.getObject('target', 'b.txt');
+    expect(copy.data).toEqual(Buffer.from('copied'));
+    expect(copy.metadata?.metadata).toEqual({ origin: 'source' });
+  });
+
+  test('should report the missing container when copying', async () => {
+    await service.createBucket('source');
+    await service.putObject('source', 'a.txt', Buffer.from('a'));
+
+    await expect(
+      service.copyObject({ bucket: 'source', key: 'a.txt' }, { bucket: 'missing', key: 'a.txt' })
+    ).rejects.toThrow('Resource not found: Bucket with identifier missing');
+  });
+
+  test('should generate presigned read URLs', async () => {
+    const url = new URL(await service.generatePresignedUrl('assets', 'a.txt'));
+
+    expect(url.searchParams.get('sp')).toBe('r');
+  });
+});
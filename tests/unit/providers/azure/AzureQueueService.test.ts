@@ -0,0 +1,246 @@
+/**
+ * Unit tests for AzureQueueService
+ *
+ * Runs against an in-memory stand-in for the Azure Storage Queue SDK; no Azure resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { AzureQueueService } from '../../../../src/providers/azure/AzureQueueService';
+import {
+  ProviderType,
+  ResourceNotFoundError,
+  ValidationError,
+  type ProviderConfig,
+} from '../../../../src/core/types/common';
+import { installAzureQueueFake, type FakeAzureQueues } from '../../../helpers/azure-queue-fake';
+
+const config: ProviderConfig = {
+  provider: ProviderType.AZURE,
+  options: { connectionString: 'UseDevelopmentStorage=true' },
+};
+
+describe('AzureQueueService', () => {
+  let fake: FakeAzureQueues;
+  let service: AzureQueueService;
+
+  beforeEach(() => {
+    fake = installAzureQueueFake();
+    service = new AzureQueueService(config);
+  });
+
+  afterEach(() => {
+    fake.restore();
+  });
+
+  describe('configuration', () => {
+    test('should require an account', () => {
+      expect(() => new AzureQueueService({ provider: ProviderType.AZURE })).toThrow(
+        ValidationError
+      );
+    });
+
+    test('should derive the account URL from the credentials', async () => {
+      const accountService = new AzureQueueService({
+        provider: ProviderType.AZURE,
+        credentials: { accessKeyId: 'myaccount', secretAccessKey: 'a2V5' },
+      });
+
+      const queue = await accountService.createQueue('orders');
+
+      expect(queue.url).toBe('https://myaccount.queue.core.windows.net/orders');
+    });
+
+    test('should use the endpoint override', async () => {
+      const azuriteService = new AzureQueueService({
+        provider: ProviderType.AZURE,
+        endpoint: 'http://127.0.0.1:10001/devstoreaccount1',
+      });
+
+      const queue = await azuriteService.createQueue('orders');
+
+      expect(queue.url).toBe('http://127.0.0.1:10001/devstoreaccount1/orders');
+    });
+  });
+
+  describe('createQueue', () => {
+    test('should store queue options as metadata', async () => {
+      const queue = await service.createQueue('orders', {
+        visibilityTimeout: 60,
+        messageRetention: 86400,
+      });
+
+      expect(queue.name).toBe('orders');
+      expect(queue.fifo).toBe(false);
+      expect(queue.visibilityTimeout).toBe(60);
+      expect(queue.messageRetention).toBe(86400);
+      expect(queue.created).toBeInstanceOf(Date);
+    });
+
+    test('should create a poison queue for dead-lettering', async () => {
+      await service.createQueue('jobs', { enableDeadLetter: true });
+
+      expect(fake.queues.has('jobs-poison')).toBe(true);
+      expect(fake.queues.get('jobs')?.metadata.lcp_max_receive_count).toBe('5');
+    });
+
+    test('should use an existing dead-letter queue and keep it on delete', async () => {
+      const shared = await service.createQueue('shared-dlq');
+
+      const queue = await service.createQueue('jobs', {
+        deadLetterQueueUrl: shared.url,
+        deadLetterAfterRetries: 3,
+      });
+      expect(queue.deadLetterQueueUrl).toBe(shared.url);
+      expect(queue.maxReceiveCount).toBe(3);
+      expect(fake.queues.has('jobs-poison')).toBe(false);
+
+      await service.deleteQueue('jobs');
+      expect(fake.queues.has('shared-dlq')).toBe(true);
+    });
+
+    test('should reject a dead-letter queue that does not exist', async () => {
+      await expect(
+        service.createQueue('jobs', { deadLetterQueueUrl: 'missing-dlq' })
+      ).rejects.toThrow(ResourceNotFoundError);
+      expect(fake.queues.has('jobs')).toBe(false);
+    });
+
+    test('should reject invalid queue names', async () => {
+      await expect(service.createQueue('Orders_Queue')).rejects.toThrow(ValidationError);
+      await expect(service.createQueue('a--b')).rejects.toThrow(ValidationError);
+    });
+
+    test('should reject FIFO queues and oversized messages', async () => {
+      await expect(service.createQueue('orders', { fifo: true })).rejects.toThrow(ValidationError);
+      await expect(service.createQueue('orders', { maxMessageSize: 262144 })).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    test('should reject recreating a queue with different options', async () => {
+      await service.createQueue('orders', { visibilityTimeout: 60 });
+
+      await expect(service.createQueue('orders', { visibilityTimeout: 90 })).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('updateQueue', () => {
+    test('should merge new options into the metadata', async () => {
+      const created = await service.createQueue('orders', {
+        visibilityTimeout: 60,
+        messageRetention: 86400,
+      });
+
+      const queue = await service.updateQueue('orders', {
+        visibilityTimeout: 90,
+        enableDeadLetter: true,
+      });
+
+      expect(queue.visibilityTimeout).toBe(90);
+      expect(queue.messageRetention).toBe(86400);
+      expect(queue.created).toEqual(created.created);
+      expect(fake.queues.has('orders-poison')).toBe(true);
+      expect(queue.deadLetterQueueUrl).toEndWith('/orders-poison');
+    });
+  });
+
+  test('should accept queue URLs and names', async () => {
+    const queue = await service.createQueue('orders');
+    await service.sendMessage(queue.url, { body: 'one' });
+    await service.sendMessage('orders', { body: 'two' });
+
+    expect((await service.getQueue(queue.url)).messageCount).toBe(2);
+  });
+
+  test('should delete received messages by receipt handle', async () => {
+    const queue = await service.createQueue('orders');
+    await service.sendMessage(queue.url, { body: { id: 1 }, attributes: { source: 'web' } });
+
+    const [message] = await service.receiveMessages(queue.url);
+    expect(message?.body).toEqual({ id: 1 });
+    expect(message?.attributes).toEqual({ source: 'web' });
+
+    await service.deleteMessage(queue.url, message?.receiptHandle ?? '');
+    expect((await service.getQueue(queue.url)).messageCount).toBe(0);
+  });
+
+  describe('dead-letter queues', () => {
+    beforeEach(async () => {
+      await service.createQueue('jobs', { enableDeadLetter: true, messageRetention: 3600 });
+      for (const jobId of [1, 2, 3]) {
+        await service.sendMessage('jobs-poison', {
+          body: { jobId },
+          attributes: { attempt: String(jobId) },
+        });
+      }
+    });
+
+    test('should report the dead-letter queue URL and depth', async () => {
+      const queue = await service.getQueue('jobs');
+
+      expect(queue.deadLetterQueueUrl).toBe('http://127.0.0.1:10001/devstoreaccount1/jobs-poison');
+      expect(await service.getDeadLetterQueueDepth(queue.url)).toBe(3);
+    });
+
+    test('should peek without receiving', async () => {
+      const messages = await service.peekDeadLetterMessages('jobs', 2);
+
+      expect(messages.map((m) => m.body)).toEqual([{ jobId: 1 }, { jobId: 2 }]);
+      expect(messages[0]?.attributes).toEqual({ attempt: '1' });
+      expect(fake.queues.get('jobs-poison')?.messages.every((m) => m.dequeueCount === 0)).toBe(
+        true
+      );
+    });
+
+    test('should redrive filtered messages with their text unchanged', async () => {
+      const deadLettered = fake.queues.get('jobs-poison')?.messages.map((m) => m.messageText) ?? [];
+
+      const result = await service.redriveDeadLetterMessages('jobs', {
+        filter: (message) => message.attributes?.attempt !== '2',
+      });
+
+      expect(result).toEqual({ moved: 2, skipped: 1 });
+      const moved = fake.queues.get('jobs')?.messages ?? [];
+      expect(moved.map((m) => m.messageText)).toEqual([deadLettered[0]!, deadLettered[2]!]);
+      expect(moved[0]?.messageTimeToLive).toBe(3600);
+      // The skipped message is visible again straight away
+      expect(await service.peekDeadLetterMessages('jobs')).toHaveLength(1);
+    });
+
+    test('should stop after maxMessages', async () => {
+      expect(await service.redriveDeadLetterMessages('jobs', { maxMessages: 2 })).toEqual({
+        moved: 2,
+        skipped: 0,
+      });
+      expect(await service.getDeadLetterQueueDepth('jobs')).toBe(1);
+    });
+
+    test('should reject queues without a dead-letter queue', async () => {
+      await service.createQueue('plain');
+
+      await expect(service.peekDeadLetterMessages('plain')).rejects.toThrow(ValidationError);
+    });
+
+    test('should delete the poison queue with its queue', async () => {
+      await service.deleteQueue('jobs');
+
+      expect(fake.queues.has('jobs')).toBe(false);
+      expect(fake.queues.has('jobs-poison')).toBe(false);
+    });
+  });
+
+  test('should list, purge and delete queues', async () => {
+    const queue = await service.createQueue('orders');
+    await service.sendMessage(queue.url, { body: 'one' });
+
+    expect(await service.listQueues()).toEqual([queue.url]);
+
+    await service.purgeQueue(queue.url);
+    expect((await service.getQueue(queue.url)).messageCount).toBe(0);
+
+    await service.deleteQueue(queue.url);
+    await expect(service.getQueue(queue.url)).rejects.toThrow(ResourceNotFoundError);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for AzureObjectClient
+ *
+ * Runs against an in-memory stand-in for the Azure Blob Storage SDK; no Azure resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { AzureObjectClient } from '../../../../../src/providers/azure/clients/AzureObjectClient';
+import {
+  ProviderType,
+  ResourceNotFoundError,
+  ValidationError,
+  type ProviderConfig,
+} from '../../../../../src/core/types/common';
+import { installAzureBlobFake, type FakeAzureBlobs } from '../../../../helpers/azure-blob-fake';
+
+const config: ProviderConfig = {
+  provider: ProviderType.AZURE,
+  options: { connectionString: 'UseDevelopmentStorage=true' },
+};
+
+describe('AzureObjectClient', () => {
+  let fake: FakeAzureBlobs;
+  let client: AzureObjectClient;
+
+  beforeEach(() => {
+    fake = installAzureBlobFake();
+    fake.containers.set('assets', { blobs: new Map() });
+    client = new AzureObjectClient(config);
+  });
+
+  afterEach(() => {
+    fake.restore();
+  });
+
+  test('should map object metadata to blob headers, metadata and tags', async () => {
+    await client.put('assets', 'logo.png', Buffer.from('png'), {
+      contentType: 'image/png',
+      cacheControl: 'max-age=60',
+      contentDisposition: 'inline',
+      contentEncoding: 'identity',
+      metadata: { owner: 'web' },
+      tags: { team: 'design' },
+    });
+
+    const blob = fake.containers.get('assets')?.blobs.get('logo.png');
+    expect(blob?.headers).toEqual({
+      blobContentType: 'image/png',
+      blobCacheControl: 'max-age=60',
+      blobContentDisposition: 'inline',
+      blobContentEncoding: 'identity',
+    });
+    expect(blob?.metadata).toEqual({ owner: 'web' });
+    expect(blob?.tags).toEqual({ team: 'design' });
+
+    expect(await client.getMetadata('assets', 'logo.png')).toEqual({
+      contentType: 'image/png',
+      cacheControl: 'max-age=60',
+      contentDisposition: 'inline',
+      contentEncoding: 'identity',
+      metadata: { owner: 'web' },
+      tags: { team: 'design' },
+    });
+  });
+
+  test('should download content with its metadata', async () => {
+    await client.put('assets', 'a.txt', Buffer.from('hello'), { contentType: 'text/plain' });
+
+    const object = await client.get('assets', 'a.txt');
+
+    expect(object.data).toEqual(Buffer.from('hello'));
+    expect(object.size).toBe(5);
+    expect(object.contentType).toBe('text/plain');
+    expect(object.metadata).toEqual({ contentType: 'text/plain' });
+    expect(object.etag).not.toBe('');
+  });
+
+  test('should upload web streams', async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('streamed '));
+        controller.enqueue(new TextEncoder().encode('content'));
+        controller.close();
+      },
+    });
+
+    await client.put('assets', 'stream.txt', stream);
+
+    const object = await client.get('assets', 'stream.txt');
+    expect(object.data).toEqual(Buffer.from('streamed content'));
+  });
+
+  test('should map missing blobs and containers to ResourceNotFoundError', async () => {
+    await expect(client.get('assets', 'missing.txt')).rejects.toThrow(ResourceNotFoundError);
+    await expect(client.getMetadata('missing', 'a.txt')).rejects.toThrow(
+      'Resource not found: Bucket with identifier missing'
+    );
+  });
+
+  test('should check existence and delete idempotently', async () => {
+    await client.put('assets', 'a.txt', Buffer.from('a'));
+    expect(await client.exists('assets', 'a.txt')).toBe(true);
+
+    await client.delete('assets', 'a.txt');
+    await client.delete('assets', 'a.txt');
+
+    expect(await client.exists('assets', 'a.txt')).toBe(false);
+  });
+
+  test('should delete batches', async () => {
+    await client.put('assets', 'a.txt', Buffer.from('a'));
+    await client.put('assets', 'b.txt', Buffer.from('b'));
+
+    await client.deleteBatch('assets', ['a.txt', 'b.txt', 'missing.txt']);
+
+    expect(fake.containers.get('assets')?.blobs.size).toBe(0);
+  });
+
+  describe('list', () => {
+    beforeEach(async () => {
+      for (const key of ['docs/a.txt', 'docs/b.txt', 'docs/old/c.txt', 'images/d.png']) {
+        await client.put('assets', key, Buffer.from(key));
+      }
+    });
+
+    test('should filter by prefix', async () => {
+      const objects = await client.list('assets', 'docs/');
+
+      expect(objects.map((o) => o.key)).toEqual(['docs/a.txt', 'docs/b.txt', 'docs/old/c.txt']);
+      expect(objects[0]?.size).toBe('docs/a.txt'.length);
+    });
+
+    test('should leave out nested blobs with a delimiter', async () => {
+      const objects = await client.list('assets', 'docs/', { delimiter: '/' });
+
+      expect(objects.map((o) => o.key)).toEqual(['docs/a.txt', 'docs/b.txt']);
+    });
+
+    test('should page with maxKeys and a continuation token', async () => {
+      const first = await client.list('assets', undefined, { maxKeys: 3 });
+      const second = await client.list('assets', undefined, {
+        maxKeys: 3,
+        continuationToken: '3',
+      });
+
+      expect(first.map((o) => o.key)).toEqual(['docs/a.txt', 'docs/b.txt', 'docs/old/c.txt']);
+      expect(second.map((o) => o.key)).toEqual(['images/d.png']);
+    });
+  });
+
+  describe('getSignedUrl', () => {
+    test('should generate read and write SAS URLs', async () => {
+      const readUrl = new URL(await client.getSignedUrl('assets', 'a.txt', 'get', 600));
+      const writeUrl = new URL(await client.getSignedUrl('assets', 'a.txt', 'put'));
+
+      expect(readUrl.pathname).toBe('/devstoreaccount1/assets/a.txt');
+      expect(readUrl.searchParams.get('sp')).toBe('r');
+      expect(readUrl.searchParams.get('sig')).not.toBeNull();
+      expect(writeUrl.searchParams.get('sp')).toBe('cw');
+
+      const expiresOn = new Date(readUrl.searchParams.get('se') ?? '').getTime();
+      expect(expiresOn - Date.now()).toBeLessThanOrEqual(600 * 1000);
+    });
+
+    test('should require an account key', async () => {
+      const anonymous = new AzureObjectClient({
+        provider: ProviderType.AZURE,
+        endpoint: 'https://myaccount.blob.core.windows.net',
+      });
+
+      await expect(anonymous.getSignedUrl('assets', 'a.txt', 'get')).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  test('should validate required arguments', async () => {
+    await expect(client.get('', 'a.txt')).rejects.toThrow(ValidationError);
+    await expect(client.list('')).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for AzureQueueClient
+ *
+ * Runs against an in-memory stand-in for the Azure Storage Queue SDK; no Azure resources are used.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { AzureQueueClient } from '../../../../../src/providers/azure/clients/AzureQueueClient';
+import { AzureQueueService } from '../../../../../src/providers/azure/AzureQueueService';
+import {
+  ProviderType,
+  ResourceNotFoundError,
+  ValidationError,
+  type ProviderConfig,
+} from '../../../../../src/core/types/common';
+import { installAzureQueueFake, type FakeAzureQueues } from '../../../../helpers/azure-queue-fake';
+
+const config: ProviderConfig = {
+  provider: ProviderType.AZURE,
+  options: { connectionString: 'UseDevelopmentStorage=true' },
+};
+
+describe('AzureQueueClient', () => {
+  let fake: FakeAzureQueues;
+  let client: AzureQueueClient;
+  let service: AzureQueueService;
+
+  beforeEach(async () => {
+    fake = installAzureQueueFake();
+    client = new AzureQueueClient(config);
+    service = new AzureQueueService(config);
+    await service.createQueue('orders');
+  });
+
+  afterEach(() => {
+    fake.restore();
+  });
+
+  test('should send and receive JSON and string messages', async () => {
+    await client.send('orders', { orderId: 1 });
+    await client.send('orders', 'plain text');
+
+    const messages = await client.receive('orders');
+
+    expect(messages.map((m) => m.body)).toEqual([{ orderId: 1 }, 'plain text']);
+    expect(messages[0]?.approximateReceiveCount).toBe(1);
+    expect(messages[0]?.receiptHandle).toContain(messages[0]?.id ?? 'missing');
+  });
+
+  test('should round-trip message attributes', async () => {
+    await client.send('orders', { orderId: 1 }, { attributes: { tenant: 'acme' } });
+
+    const [message] = await client.receive('orders');
+
+    expect(message?.body).toEqual({ orderId: 1 });
+    expect(message?.attributes).toEqual({ tenant: 'acme' });
+  });
+
+  test('should delay messages by making them initially invisible', async () => {
+    await client.send('orders', 'later', { delaySeconds: 60 });
+
+    expect(await client.receive('orders')).toHaveLength(0);
+  });
+
+  test('should reject FIFO options', async () => {
+    await expect(client.send('orders', 'x', { messageGroupId: 'group' })).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  test('should map a missing queue to ResourceNotFoundError', async () => {
+    await expect(client.send('missing', 'x')).rejects.toThrow(ResourceNotFoundError);
+  });
+
+  test('should acknowledge messages by receipt handle', async () => {
+    await client.send('orders', 'one');
+    const [message] = await client.receive('orders');
+
+    await client.acknowledge('orders', message?.receiptHandle ?? '');
+
+    expect(fake.queues.get('orders')?.messages).toHaveLength(0);
+  });
+
+  test('should treat acknowledging an already deleted message as success', async () => {
+    await client.send('orders', 'one');
+    const [message] = await client.receive('orders');
+    await client.acknowledge('orders', message?.receiptHandle ?? '');
+
+    await client.acknowledge('orders', message?.receiptHandle ?? '');
+  });
+
+  test('should reject malformed receipt handles', async () => {
+    await expect(client.acknowledge('orders', 'not-a-handle')).rejects.toThrow(ValidationError);
+  });
+
+  test('should keep receipt handles valid after changing visibility', async () => {
+    await client.send('orders', 'one');
+    const [message] = await client.receive('orders');
+    const handle = message?.receiptHandle ?? '';
+
+    await client.changeVisibility('orders', handle, 120);
+    await client.changeVisibility('orders', handle, 300);
+    await client.acknowledge('orders', handle);
+
+    expect(fake.queues.get('orders')?.messages).toHaveLength(0);
+  });
+
+  test('should make a message visible again with a zero visibility timeout', async () => {
+    await client.send('orders', 'one');
+    const [first] = await client.receive('orders');
+
+    await client.changeVisibility('orders', first?.receiptHandle ?? '', 0);
+    const [second] = await client.receive('orders');
+
+    expect(second?.id).toBe(first?.id ?? 'missing');
+    expect(second?.approximateReceiveCount).toBe(2);
+  });
+
+  test('should report batch send failures per message', async () => {
+    const result = await client.sendBatch('orders', ['a', { b: 1 }]);
+    expect(result.successful.map((s) => s.id)).toEqual(['0', '1']);
+    expect(result.failed).toHaveLength(0);
+
+    fake.failingSends.add('orders');
+    const failed = await client.sendBatch('orders', ['c']);
+    expect(failed.failed).toHaveLength(1);
+    expect(failed.failed[0]?.code).toBe('SERVICE_UNAVAILABLE');
+    expect(failed.failed[0]?.message).toContain('Server busy');
+  });
+
+  test('should apply per-message batch options and reject message groups', async () => {
+    const result = await client.sendBatch(
+      'orders',
+      ['a', 'b'],
+      [{ attributes: { source: 'web' } }, { messageGroupId: 'order-1' }]
+    );
+
+    expect(result.successful.map((s) => s.id)).toEqual(['0']);
+    expect(result.failed[0]).toMatchObject({ id: '1', code: 'VALIDATION_ERROR' });
+    const [message] = await client.receive('orders');
+    expect(message?.attributes).toEqual({ source: 'web' });
+  });
+
+  test('should acknowledge batches', async () => {
+    await client.sendBatch('orders', ['a', 'b']);
+    const messages = await client.receive('orders');
+
+    await client.acknowledgeBatch(
+      'orders',
+      messages.map((m) => m.receiptHandle)
+    );
+
+    expect(fake.queues.get('orders')?.messages).toHaveLength(0);
+  });
+
+  test('should poll until a message arrives when waitTimeSeconds is set', async () => {
+    setTimeout(() => {
+      void client.send('orders', 'late');
+    }, 50);
+
+    const messages = await client.receive('orders', { waitTimeSeconds: 2 });
+
+    expect(messages.map((m) => m.body)).toEqual(['late']);
+  });
+
+  describe('queue settings', () => {
+    test('should use the queue visibility timeout by default', async () => {
+      await service.createQueue('slow', { visibilityTimeout: 600 });
+      await client.send('slow', 'one');
+
+      const before = Date.now();
+      await client.receive('slow');
+
+      const visibleAt = fake.queues.get('slow')?.messages[0]?.visibleAt ?? 0;
+      expect(visibleAt - before).toBeGreaterThanOrEqual(600 * 1000);
+    });
+
+    test('should apply the message retention as the message time-to-live', async () => {
+      await service.createQueue('short', { messageRetention: 3600 });
+
+      await client.send('short', 'one');
+
+      expect(fake.queues.get('short')?.messages[0]?.messageTimeToLive).toBe(3600);
+    });
+
+    test('should enforce the maximum message size', async () => {
+      await service.createQueue('small', { maxMessageSize: 16 });
+
+      await expect(client.send('small', 'x'.repeat(17))).rejects.toThrow(ValidationError);
+    });
+
+    test('should move messages past the receive limit to the poison queue', async () => {
+      await service.createQueue('jobs', { enableDeadLetter: true, deadLetterAfterRetries: 2 });
+      await client.send('jobs', { job: 1 }, { attributes: { kind: 'email' } });
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const [message] = await client.receive('jobs');
+        await client.changeVisibility('jobs', message?.receiptHandle ?? '', 0);
+      }
+      expect(await client.receive('jobs')).toHaveLength(0);
+
+      expect(fake.queues.get('jobs')?.messages).toHaveLength(0);
+      const [dead] = await client.receive('jobs-poison');
+      expect(dead?.body).toEqual({ job: 1 });
+      expect(dead?.attributes).toEqual({ kind: 'email' });
+    });
+  });
+});
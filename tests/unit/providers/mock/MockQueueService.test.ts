@@ -4,6 +4,7 @@
 
 import { describe, test, expect, beforeEach } from 'bun:test';
 import { MockQueueService } from '../../../../src/providers/mock/MockQueueService';
+import { ValidationError } from '../../../../src/core/types/common';
 
 describe('MockQueueService', () => {
   let service: MockQueueService;
@@ -180,6 +181,26 @@ describe('MockQueueService', () => {
     });
   });
 
+  describe('updateQueue', () => {
+    test('should change settings and keep messages', async () => {
+      const queue = await service.createQueue('update-queue', { visibilityTimeout: 30 });
+      await service.sendMessage(queue.url, { body: 'msg1' });
+
+      const updated = await service.updateQueue(queue.url, {
+        visibilityTimeout: 90,
+        enableDeadLetter: true,
+      });
+
+      expect(updated.visibilityTimeout).toBe(90);
+      expect(updated.messageCount).toBe(1);
+      expect(updated.deadLetterQueueUrl).toBe('mock://queue/update-queue-dlq');
+    });
+
+    test('should throw error when updating non-existent queue', async () => {
+      await expect(service.updateQueue('mock://queue/non-existent', {})).rejects.toThrow('Queue');
+    });
+  });
+
   describe('deleteQueue', () => {
     test('should delete a queue', async () => {
       const queue = await service.createQueue('temp-queue');
@@ -188,6 +209,13 @@ describe('MockQueueService', () => {
       expect(service.getQueue(queue.url)).rejects.toThrow('Queue');
     });
 
+    test('should delete the dead-letter queue with its queue', async () => {
+      const queue = await service.createQueue('orders', { enableDeadLetter: true });
+      await service.deleteQueue(queue.url);
+
+      expect(await service.listQueues()).toEqual([]);
+    });
+
     test('should throw error when deleting non-existent queue', async () => {
       expect(service.deleteQueue('mock://queue/non-existent')).rejects.toThrow('Queue');
     });
@@ -214,6 +242,93 @@ describe('MockQueueService', () => {
     });
   });
 
+  describe('dead-letter queues', () => {
+    const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+    // Receive and abandon a message so its receive count goes up
+    async function receiveAndAbandon(queueUrl: string): Promise<number> {
+      const messages = await service.receiveMessages(queueUrl, { visibilityTimeout: 0 });
+      await sleep(5);
+      return messages.length;
+    }
+
+    test('should create a dead-letter queue', async () => {
+      const queue = await service.createQueue('orders', { enableDeadLetter: true });
+
+      expect(queue.deadLetterQueueUrl).toBe('mock://queue/orders-dlq');
+      expect(await service.listQueues()).toContain('mock://queue/orders-dlq');
+      expect((await service.getQueue(queue.url)).deadLetterQueueUrl).toBe(queue.deadLetterQueueUrl);
+    });
+
+    test('should move messages received more than deadLetterAfterRetries times', async () => {
+      const queue = await service.createQueue('orders', {
+        enableDeadLetter: true,
+        deadLetterAfterRetries: 2,
+      });
+      await service.sendMessage(queue.url, { body: { orderId: 1 }, attributes: { type: 'order' } });
+
+      expect(await receiveAndAbandon(queue.url)).toBe(1);
+      expect(await receiveAndAbandon(queue.url)).toBe(1);
+      expect(await receiveAndAbandon(queue.url)).toBe(0);
+
+      expect(await service.getDeadLetterQueueDepth(queue.url)).toBe(1);
+      const [peeked] = await service.peekDeadLetterMessages(queue.url);
+      expect(peeked?.body).toEqual({ orderId: 1 });
+      expect(peeked?.attributes).toEqual({ type: 'order' });
+      expect(await service.getDeadLetterQueueDepth(queue.url)).toBe(1);
+    });
+
+    test('should redrive messages back to the source queue', async () => {
+      const queue = await service.createQueue('orders', {
+        enableDeadLetter: true,
+        deadLetterAfterRetries: 1,
+      });
+      for (const orderId of [1, 2, 3]) {
+        await service.sendMessage(queue.url, { body: { orderId } });
+      }
+      await service.receiveMessages(queue.url, { maxMessages: 3, visibilityTimeout: 0 });
+      await sleep(5);
+      await service.receiveMessages(queue.url, { maxMessages: 3 });
+      expect(await service.getDeadLetterQueueDepth(queue.url)).toBe(3);
+
+      const result = await service.redriveDeadLetterMessages(queue.url, {
+        filter: (message) => (message.body as { orderId: number }).orderId !== 2,
+      });
+
+      expect(result).toEqual({ moved: 2, skipped: 1 });
+      expect(await service.getDeadLetterQueueDepth(queue.url)).toBe(1);
+      const redriven = await service.receiveMessages(queue.url, { maxMessages: 10 });
+      expect(redriven.map((m) => m.body)).toEqual([{ orderId: 1 }, { orderId: 3 }]);
+    });
+
+    test('should limit the number of redriven messages', async () => {
+      const queue = await service.createQueue('orders', {
+        enableDeadLetter: true,
+        deadLetterAfterRetries: 1,
+      });
+      await service.sendMessage(queue.url, { body: 'a' });
+      await service.sendMessage(queue.url, { body: 'b' });
+      await service.receiveMessages(queue.url, { maxMessages: 2, visibilityTimeout: 0 });
+      await sleep(5);
+      await service.receiveMessages(queue.url, { maxMessages: 2 });
+
+      expect(await service.redriveDeadLetterMessages(queue.url, { maxMessages: 1 })).toEqual({
+        moved: 1,
+        skipped: 0,
+      });
+      expect(await service.getDeadLetterQueueDepth(queue.url)).toBe(1);
+    });
+
+    test('should reject queues without a dead-letter queue', async () => {
+      const queue = await service.createQueue('plain');
+
+      expect(service.getDeadLetterQueueDepth(queue.url)).rejects.toThrow(
+        'has no dead-letter queue'
+      );
+      expect(service.redriveDeadLetterMessages(queue.url)).rejects.toThrow(ValidationError);
+    });
+  });
+
   describe('integration scenarios', () => {
     test('should support full message lifecycle', async () => {
       // Create queue
@@ -4,6 +4,7 @@
 
 import { describe, test, expect, beforeEach } from 'bun:test';
 import { MockConfigClient } from '../../../../../src/providers/mock/clients/MockConfigClient';
+import type { ConfigChangeEvent } from '../../../../../src/core/types/configuration';
 import { ResourceNotFoundError, ValidationError } from '../../../../../src/core/types/common';
 
 describe('MockConfigClient', () => {
@@ -120,6 +121,71 @@ describe('MockConfigClient', () => {
     });
   });
 
+  describe('getFeatureFlag', () => {
+    test('should evaluate boolean and nested flag definitions', async () => {
+      client.setConfig('flags', {
+        darkMode: true,
+        features: { checkout: { enabled: true, targets: ['tenant-1'], rolloutPercentage: 0 } },
+      });
+
+      expect(await client.getFeatureFlag('flags', 'darkMode')).toBe(true);
+      expect(
+        await client.getFeatureFlag('flags', 'features.checkout', { targetId: 'tenant-1' })
+      ).toBe(true);
+      expect(
+        await client.getFeatureFlag('flags', 'features.checkout', { targetId: 'tenant-2' })
+      ).toBe(false);
+      expect(await client.getFeatureFlag('flags', 'missing', undefined, true)).toBe(true);
+      expect(await client.getFeatureFlag('no-config', 'darkMode', undefined, false)).toBe(false);
+    });
+  });
+
+  describe('watch', () => {
+    test('should emit change events when configuration is pushed', async () => {
+      client.setConfig('app-settings', { timeout: 30, retries: 3 });
+      const events: ConfigChangeEvent[] = [];
+      const subscription = await client.watch('app-settings', (event) => {
+        events.push(event);
+      });
+
+      client.setConfig('app-settings', { timeout: 60, retries: 3, debug: true });
+      client.setConfig('app-settings', { timeout: 60, retries: 3, debug: true });
+      client.setConfig('app-settings', { timeout: 90 }, 'production');
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        configName: 'app-settings',
+        previous: { timeout: 30, retries: 3 },
+        current: { timeout: 60, retries: 3, debug: true },
+        changedKeys: ['debug', 'timeout'],
+      });
+
+      subscription.unsubscribe();
+      client.setConfig('app-settings', { timeout: 120 });
+      expect(events).toHaveLength(1);
+    });
+
+    test('should report listener failures to onError', async () => {
+      client.setConfig('app-settings', { timeout: 30 });
+      const errors: Error[] = [];
+      await client.watch(
+        'app-settings',
+        () => {
+          throw new Error('listener failed');
+        },
+        { onError: (error) => errors.push(error) }
+      );
+
+      client.setConfig('app-settings', { timeout: 60 });
+
+      expect(errors.map((error) => error.message)).toEqual(['listener failed']);
+    });
+
+    test('should require an existing configuration', async () => {
+      await expect(client.watch('missing', () => undefined)).rejects.toThrow(ResourceNotFoundError);
+    });
+  });
+
   describe('integration', () => {
     test('should support typical config access patterns', async () => {
       // Set up configuration
@@ -2,7 +2,7 @@
  * Unit Tests for MockQueueClient
  */
 
-import { describe, test, expect, beforeEach } from 'bun:test';
+import { describe, test, expect, beforeEach, setSystemTime } from 'bun:test';
 import { MockQueueClient } from '../../../../../src/providers/mock/clients/MockQueueClient';
 import { ValidationError } from '../../../../../src/core/types/common';
 
@@ -186,6 +186,146 @@ describe('MockQueueClient', () => {
     });
   });
 
+  describe('dead-letter queues', () => {
+    test('should move messages received more than deadLetterAfterRetries times', async () => {
+      client.createTestQueue('jobs', { enableDeadLetter: true, deadLetterAfterRetries: 2 });
+      await client.send('jobs', { jobId: 1 });
+
+      for (let i = 0; i < 2; i++) {
+        const [message] = await client.receive('jobs');
+        await client.changeVisibility('jobs', message!.receiptHandle, 0);
+      }
+
+      expect(await client.receive('jobs')).toEqual([]);
+      const [deadLettered] = await client.receive('jobs-dlq');
+      expect(deadLettered?.body).toEqual({ jobId: 1 });
+      expect(deadLettered?.approximateReceiveCount).toBe(1);
+    });
+
+    test('should keep messages without a dead-letter queue', async () => {
+      client.createTestQueue('jobs');
+      await client.send('jobs', 'retry forever');
+
+      for (let i = 0; i < 7; i++) {
+        const [message] = await client.receive('jobs');
+        await client.changeVisibility('jobs', message!.receiptHandle, 0);
+      }
+
+      expect(await client.receive('jobs')).toHaveLength(1);
+    });
+  });
+
+  describe('FIFO queues', () => {
+    const bodies = (messages: Array<{ body: unknown }>): unknown[] => messages.map((m) => m.body);
+
+    beforeEach(() => {
+      client.createTestQueue('orders.fifo', { fifo: true, contentBasedDeduplication: true });
+    });
+
+    test('should deliver messages in order within a group', async () => {
+      for (const step of ['created', 'paid', 'shipped']) {
+        await client.send('orders.fifo', step, { messageGroupId: 'order-1' });
+      }
+
+      const messages = await client.receive('orders.fifo', { maxMessages: 10 });
+      expect(bodies(messages)).toEqual(['created', 'paid', 'shipped']);
+    });
+
+    test('should block a group while one of its messages is in flight', async () => {
+      await client.send('orders.fifo', 'a1', { messageGroupId: 'a' });
+      await client.send('orders.fifo', 'a2', { messageGroupId: 'a' });
+      await client.send('orders.fifo', 'b1', { messageGroupId: 'b' });
+
+      const [first] = await client.receive('orders.fifo');
+      expect(first?.body).toBe('a1');
+      expect(bodies(await client.receive('orders.fifo', { maxMessages: 10 }))).toEqual(['b1']);
+
+      await client.acknowledge('orders.fifo', first!.receiptHandle);
+      expect(bodies(await client.receive('orders.fifo', { maxMessages: 10 }))).toEqual(['a2']);
+    });
+
+    test('should drop messages with a repeated deduplication ID', async () => {
+      const first = await client.send('orders.fifo', 'one', {
+        messageGroupId: 'a',
+        messageDeduplicationId: 'dedup-1',
+      });
+      const second = await client.send('orders.fifo', 'two', {
+        messageGroupId: 'a',
+        messageDeduplicationId: 'dedup-1',
+      });
+
+      expect(second).toBe(first);
+      expect(bodies(await client.receive('orders.fifo', { maxMessages: 10 }))).toEqual(['one']);
+    });
+
+    test('should deduplicate by content', async () => {
+      const first = await client.send('orders.fifo', { orderId: 1 }, { messageGroupId: 'a' });
+      const second = await client.send('orders.fifo', { orderId: 1 }, { messageGroupId: 'b' });
+      await client.send('orders.fifo', { orderId: 2 }, { messageGroupId: 'a' });
+
+      expect(second).toBe(first);
+      expect(await client.receive('orders.fifo', { maxMessages: 10 })).toHaveLength(2);
+    });
+
+    test('should accept a repeated deduplication ID after five minutes', async () => {
+      try {
+        setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        const first = await client.send('orders.fifo', 'same', { messageGroupId: 'a' });
+
+        setSystemTime(new Date('2026-01-01T00:04:59Z'));
+        expect(await client.send('orders.fifo', 'same', { messageGroupId: 'a' })).toBe(first);
+
+        setSystemTime(new Date('2026-01-01T00:05:00Z'));
+        expect(await client.send('orders.fifo', 'same', { messageGroupId: 'a' })).not.toBe(first);
+      } finally {
+        setSystemTime();
+      }
+    });
+
+    test('should send batches with per-message group and deduplication IDs', async () => {
+      const result = await client.sendBatch(
+        'orders.fifo',
+        ['created', 'paid', 'created again', 'no group'],
+        [
+          { messageGroupId: 'order-1', messageDeduplicationId: 'o1-created' },
+          { messageGroupId: 'order-1' },
+          { messageGroupId: 'order-1', messageDeduplicationId: 'o1-created' },
+        ]
+      );
+
+      expect(result.successful.map((entry) => entry.id)).toEqual(['0', '1', '2']);
+      expect(result.successful[2]?.messageId).toBe(result.successful[0]?.messageId);
+      expect(result.failed.map((entry) => entry.id)).toEqual(['3']);
+      expect(result.failed[0]?.message).toContain('messageGroupId');
+      expect(bodies(await client.receive('orders.fifo', { maxMessages: 10 }))).toEqual([
+        'created',
+        'paid',
+      ]);
+    });
+
+    test('should require a message group ID', async () => {
+      expect(client.send('orders.fifo', 'no group')).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test('should require a deduplication ID without content-based deduplication', async () => {
+      client.createTestQueue('payments', { fifo: true });
+
+      expect(client.send('payments', 'no id', { messageGroupId: 'a' })).rejects.toBeInstanceOf(
+        ValidationError
+      );
+    });
+
+    test('should reject per-message delays', async () => {
+      expect(
+        client.send('orders.fifo', 'later', { messageGroupId: 'a', delaySeconds: 5 })
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test('should treat queues named *.fifo as FIFO', async () => {
+      expect(client.send('events.fifo', 'no group')).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
   describe('integration', () => {
     test('should support full message lifecycle', async () => {
       // Send messages
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for Application Registry backends
+ *
+ * Runs the same registry contract against the in-memory, object store and document store backends
+ */
+
+import { describe, test, expect, beforeEach, spyOn } from 'bun:test';
+import { LCPlatform } from '../../../src/LCPlatform';
+import { ProviderType, ValidationError } from '../../../src/core/types/common';
+import { LCPlatformApp, PlatformType, Environment } from '../../../src/core/types/application';
+import type { LCPlatformAppData } from '../../../src/core/types/application';
+import { DependencyType, EncryptionType } from '../../../src/core/types/dependency';
+import type { ApplicationRegistry } from '../../../src/utils/applicationRegistry';
+import {
+  InMemoryApplicationRegistry,
+  ObjectStoreApplicationRegistry,
+  DocumentStoreApplicationRegistry,
+} from '../../../src/utils/applicationRegistry';
+import {
+  ConfigurationPersistence,
+  createPersistenceStore,
+} from '../../../src/utils/configPersistence';
+import { MockObjectStoreService } from '../../../src/providers/mock/MockObjectStoreService';
+import { MockDocumentStoreService } from '../../../src/providers/mock/MockDocumentStoreService';
+
+function appData(team: string, moniker: string): LCPlatformAppData {
+  return {
+    name: `App ${moniker}`,
+    team,
+    moniker,
+    ciAppId: `CI-${moniker}`,
+    platformType: PlatformType.API,
+    environment: Environment.DEVELOPMENT,
+    supportEmail: 'support@test.com',
+    ownerEmail: 'owner@test.com',
+  };
+}
+
+const backends: Array<[string, () => Promise<ApplicationRegistry>]> = [
+  ['InMemoryApplicationRegistry', async () => new InMemoryApplicationRegistry()],
+  [
+    'ObjectStoreApplicationRegistry',
+    async () => {
+      const objectStore = new MockObjectStoreService();
+      await objectStore.createBucket('lcp-config-bucket');
+      const persistence = new ConfigurationPersistence(createPersistenceStore(objectStore));
+      return new ObjectStoreApplicationRegistry(persistence, 'lcp-config-bucket');
+    },
+  ],
+  [
+    'DocumentStoreApplicationRegistry',
+    async () => new DocumentStoreApplicationRegistry(new MockDocumentStoreService()),
+  ],
+];
+
+for (const [name, createRegistry] of backends) {
+  describe(name, () => {
+    let registry: ApplicationRegistry;
+
+    beforeEach(async () => {
+      registry = await createRegistry();
+    });
+
+    test('should save and get an application with its dependencies', async () => {
+      const app = new LCPlatformApp(appData('platform', 'orders'));
+      app.setAccountId('123456');
+      app.addDependency('uploads', DependencyType.OBJECT_STORE, {
+        type: 'object-store',
+        versioning: true,
+        encryption: EncryptionType.KMS,
+        publicAccess: false,
+      });
+      await registry.save(app);
+
+      const retrieved = await registry.get(app.id);
+      expect(retrieved?.id).toBe(app.id);
+      expect(retrieved?.getAccountId()).toBe('123456');
+      expect(retrieved?.getDependency('uploads')?.generatedName).toBe(
+        app.getDependency('uploads')?.generatedName
+      );
+      expect(retrieved?.createdAt.toISOString()).toBe(app.createdAt.toISOString());
+    });
+
+    test('should return undefined for unknown IDs', async () => {
+      expect(await registry.get('app-missing')).toBeUndefined();
+    });
+
+    test('should update an existing application on save', async () => {
+      const app = new LCPlatformApp(appData('platform', 'orders'));
+      await registry.save(app);
+
+      app.currentVersion = 'v1.0.0';
+      await registry.save(app);
+
+      expect(await registry.list()).toHaveLength(1);
+      expect((await registry.get(app.id))?.currentVersion).toBe('v1.0.0');
+    });
+
+    test('should find applications by team and moniker', async () => {
+      const orders = new LCPlatformApp(appData('platform', 'orders'));
+      const billing = new LCPlatformApp(appData('platform', 'billing'));
+      const search = new LCPlatformApp(appData('discovery', 'search'));
+      await registry.save(orders);
+      await registry.save(billing);
+      await registry.save(search);
+
+      const platformApps = await registry.findByTeam('platform');
+      expect(platformApps.map((app) => app.moniker).sort()).toEqual(['billing', 'orders']);
+      expect((await registry.findByMoniker('discovery', 'search'))?.id).toBe(search.id);
+      expect(await registry.findByMoniker('platform', 'search')).toBeUndefined();
+    });
+
+    test('should not find renamed or deleted applications by their old moniker', async () => {
+      const orders = new LCPlatformApp(appData('platform', 'orders'));
+      const billing = new LCPlatformApp(appData('platform', 'billing'));
+      await registry.save(orders);
+      await registry.save(billing);
+
+      orders.moniker = 'checkout';
+      await registry.save(orders);
+      await registry.delete(billing.id);
+
+      expect(await registry.findByMoniker('platform', 'orders')).toBeUndefined();
+      expect(await registry.findByMoniker('platform', 'billing')).toBeUndefined();
+      expect((await registry.findByMoniker('platform', 'checkout'))?.id).toBe(orders.id);
+      expect((await registry.findByTeam('platform')).map((app) => app.id)).toEqual([orders.id]);
+    });
+
+    test('should reject another application with the same team and moniker', async () => {
+      const orders = new LCPlatformApp(appData('platform', 'orders'));
+      await registry.save(orders);
+
+      await expect(registry.save(new LCPlatformApp(appData('platform', 'orders')))).rejects.toThrow(
+        ValidationError
+      );
+      expect((await registry.list()).map((app) => app.id)).toEqual([orders.id]);
+    });
+
+    test('should delete applications', async () => {
+      const app = new LCPlatformApp(appData('platform', 'orders'));
+      await registry.save(app);
+
+      expect(await registry.delete(app.id)).toBe(true);
+      expect(await registry.delete(app.id)).toBe(false);
+      expect(await registry.get(app.id)).toBeUndefined();
+    });
+  });
+}
+
+describe('ObjectStoreApplicationRegistry lookups', () => {
+  test('should not load every stored application when saving', async () => {
+    const objectStore = new MockObjectStoreService();
+    await objectStore.createBucket('lcp-config-bucket');
+    const persistence = new ConfigurationPersistence(createPersistenceStore(objectStore));
+    const registry = new ObjectStoreApplicationRegistry(persistence, 'lcp-config-bucket');
+    for (const moniker of ['orders', 'billing', 'search']) {
+      await registry.save(new LCPlatformApp(appData('platform', moniker)));
+    }
+
+    const getObject = spyOn(objectStore, 'getObject');
+    const app = new LCPlatformApp(appData('discovery', 'catalog'));
+    await registry.save(app);
+    await registry.save(app);
+
+    const appConfigReads = getObject.mock.calls
+      .map(([, key]) => key)
+      .filter((key) => key.endsWith('/app.config'));
+    expect(appConfigReads.length).toBeGreaterThan(0);
+    expect(appConfigReads.every((key) => key.includes('-discovery-catalog/'))).toBe(true);
+    getObject.mockRestore();
+  });
+});
+
+describe('LCPlatform application registry', () => {
+  test('should share applications between platforms using the same registry', async () => {
+    const registry = new DocumentStoreApplicationRegistry(new MockDocumentStoreService());
+    const writer = new LCPlatform(
+      { provider: ProviderType.MOCK },
+      { applicationRegistry: registry }
+    );
+    const reader = new LCPlatform(
+      { provider: ProviderType.MOCK },
+      { applicationRegistry: registry }
+    );
+
+    const app = await writer.registerApplication(appData('platform', 'orders'));
+    app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      encryption: true,
+    });
+    await writer.saveApplication(app);
+
+    const retrieved = await reader.findApplicationByMoniker('platform', 'orders');
+    expect(retrieved?.id).toBe(app.id);
+    expect(retrieved?.listDependencies()).toHaveLength(1);
+    expect(await reader.findApplicationsByTeam('platform')).toHaveLength(1);
+
+    expect(await reader.unregisterApplication(app.id)).toBe(true);
+    expect(await writer.listApplications()).toHaveLength(0);
+  });
+
+  test('should default to an in-memory registry', async () => {
+    const platform = new LCPlatform({ provider: ProviderType.MOCK });
+    const app = await platform.registerApplication(appData('platform', 'orders'));
+
+    expect(await platform.getApplication(app.id)).toBe(app);
+  });
+});
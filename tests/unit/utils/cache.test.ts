@@ -0,0 +1,108 @@
+/**
+ * Unit tests for TtlCache read-through behaviour
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { TtlCache, getReadCacheOptions } from '../../../src/utils/cache';
+import { ValidationError } from '../../../src/core/types/common';
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('TtlCache.getOrCompute', () => {
+  test('should count hits and misses', async () => {
+    const cache = new TtlCache<string>({ ttlMs: 1000 });
+    let calls = 0;
+    const compute = async (): Promise<string> => `value ${++calls}`;
+
+    expect(await cache.getOrCompute('a', compute)).toBe('value 1');
+    expect(await cache.getOrCompute('a', compute)).toBe('value 1');
+
+    expect(cache.stats).toMatchObject({ hits: 1, misses: 1, size: 1 });
+  });
+
+  test('should share one computation between concurrent misses', async () => {
+    const cache = new TtlCache<string>();
+    let calls = 0;
+    const compute = async (): Promise<string> => {
+      calls++;
+      await sleep(5);
+      return 'value';
+    };
+
+    const results = await Promise.all([
+      cache.getOrCompute('a', compute),
+      cache.getOrCompute('a', compute),
+    ]);
+
+    expect(results).toEqual(['value', 'value']);
+    expect(calls).toBe(1);
+  });
+
+  test('should not cache failed computations', async () => {
+    const cache = new TtlCache<string>();
+
+    await expect(
+      cache.getOrCompute('a', async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(await cache.getOrCompute('a', async () => 'value')).toBe('value');
+  });
+
+  test('should serve stale values while refreshing in the background', async () => {
+    const cache = new TtlCache<string>({ ttlMs: 50, staleWhileRevalidateMs: 1000 });
+    await cache.getOrCompute('a', async () => 'old');
+    await sleep(60);
+
+    expect(await cache.getOrCompute('a', async () => 'new')).toBe('old');
+    await sleep(0);
+    expect(await cache.getOrCompute('a', async () => 'newer')).toBe('new');
+    expect(cache.stats).toMatchObject({ hits: 1, misses: 1, staleHits: 1, refreshes: 1 });
+  });
+
+  test('should keep the stale value when the refresh fails', async () => {
+    const cache = new TtlCache<string>({ ttlMs: 5, staleWhileRevalidateMs: 1000 });
+    await cache.getOrCompute('a', async () => 'old');
+    await sleep(10);
+
+    const failing = async (): Promise<string> => {
+      throw new Error('unavailable');
+    };
+    expect(await cache.getOrCompute('a', failing)).toBe('old');
+    await sleep(0);
+    expect(await cache.getOrCompute('a', failing)).toBe('old');
+    await sleep(0);
+
+    expect(cache.stats.refreshFailures).toBe(2);
+  });
+
+  test('should recompute once the stale window has passed', async () => {
+    const cache = new TtlCache<string>({ ttlMs: 5, staleWhileRevalidateMs: 5 });
+    await cache.getOrCompute('a', async () => 'old');
+    await sleep(15);
+
+    expect(await cache.getOrCompute('a', async () => 'new')).toBe('new');
+  });
+
+  test('should honour per-call TTLs and invalidation', async () => {
+    const cache = new TtlCache<string>({ ttlMs: 1000 });
+    await cache.getOrCompute('secret#', async () => 'a', 5);
+    await cache.getOrCompute('secret#v2', async () => 'b');
+    await cache.getOrCompute('other#', async () => 'c');
+    await sleep(10);
+
+    expect(cache.get('secret#')).toBeUndefined();
+    expect(cache.deleteWhere((key) => key.startsWith('secret#'))).toBe(1);
+    expect(cache.has('other#')).toBe(true);
+  });
+});
+
+describe('getReadCacheOptions', () => {
+  test('should read boolean and object settings', () => {
+    expect(getReadCacheOptions(undefined, 'secretsCache')).toBeUndefined();
+    expect(getReadCacheOptions(false, 'secretsCache')).toBeUndefined();
+    expect(getReadCacheOptions(true, 'secretsCache')).toEqual({});
+    expect(getReadCacheOptions({ ttlMs: 100 }, 'secretsCache')).toEqual({ ttlMs: 100 });
+    expect(() => getReadCacheOptions(60, 'secretsCache')).toThrow(ValidationError);
+  });
+});
@@ -6,7 +6,11 @@
 
 import { describe, test, expect, beforeEach } from 'bun:test';
 import { LCPlatformApp, PlatformType, Environment } from '../../../src/core/types/application';
-import { DependencyType, EncryptionType } from '../../../src/core/types/dependency';
+import {
+  DependencyStatus,
+  DependencyType,
+  EncryptionType,
+} from '../../../src/core/types/dependency';
 import type { ObjectStoreService } from '../../../src/utils/configPersistence';
 
 // Mock ObjectStoreService
@@ -40,7 +44,7 @@ class MockObjectStoreService {
   }
 }
 
-describe.skip('ConfigurationPersistence', () => {
+describe('ConfigurationPersistence', () => {
   let mockStore: MockObjectStoreService;
 
   beforeEach(() => {
@@ -49,7 +53,6 @@ describe.skip('ConfigurationPersistence', () => {
 
   describe('T052: save and load application configuration', () => {
     test('should persist and retrieve application config', async () => {
-      // This test will fail until ConfigurationPersistence is implemented
       const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
       const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
 
@@ -79,6 +82,136 @@ describe.skip('ConfigurationPersistence', () => {
       expect(retrieved.name).toBe(app.name);
       expect(retrieved.dependencies).toHaveLength(1);
     });
+
+    test('should restore metadata, dependencies, policies and current version', async () => {
+      const { ConfigurationPersistence, APP_INDEX_PREFIX } =
+        await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+
+      const app = new LCPlatformApp({
+        name: 'Test App',
+        team: 'platform',
+        moniker: 'testapp',
+        ciAppId: 'APP-001',
+        platformType: PlatformType.API,
+        environment: Environment.PRODUCTION,
+        supportEmail: 'support@test.com',
+        ownerEmail: 'owner@test.com',
+      });
+      app.setAccountId('123456');
+      app.currentVersion = 'v1.2.0';
+
+      const policyCreatedAt = new Date('2025-01-01T00:00:00.000Z');
+      app.addDependency(
+        'uploads',
+        DependencyType.OBJECT_STORE,
+        {
+          type: 'object-store',
+          versioning: true,
+          encryption: EncryptionType.KMS,
+          publicAccess: false,
+        },
+        {
+          version: '2012-10-17',
+          provider: 'aws',
+          content: JSON.stringify({ Statement: [{ Effect: 'Allow', Action: 's3:GetObject' }] }),
+          createdAt: policyCreatedAt,
+          updatedAt: policyCreatedAt,
+        }
+      );
+
+      await persistence.persistApplication(app, 'lcp-config-bucket');
+
+      const entry = JSON.parse(
+        await mockStore.getObject('lcp-config-bucket', `${APP_INDEX_PREFIX}${app.id}.json`)
+      ) as { appPath: string };
+      expect(entry.appPath).toBe('lcp-123456-platform-testapp');
+
+      const retrieved = await persistence.loadApplication('lcp-config-bucket', app.id);
+      expect(retrieved).toBeInstanceOf(LCPlatformApp);
+      expect(retrieved.platformType).toBe(PlatformType.API);
+      expect(retrieved.environment).toBe(Environment.PRODUCTION);
+      expect(retrieved.currentVersion).toBe('v1.2.0');
+      expect(retrieved.getAccountId()).toBe('123456');
+      expect(retrieved.createdAt.toISOString()).toBe(app.createdAt.toISOString());
+
+      const dep = retrieved.getDependency('uploads');
+      expect(dep?.id).toBe(app.getDependency('uploads')?.id);
+      expect(dep?.generatedName).toBe(app.getDependency('uploads')?.generatedName);
+      expect(dep?.policy?.provider).toBe('aws');
+      expect(dep?.policy?.createdAt.toISOString()).toBe(policyCreatedAt.toISOString());
+    });
+
+    test('should keep the index entries of applications saved concurrently', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+      const apps = ['alpha', 'beta', 'gamma'].map((moniker) => {
+        const app = new LCPlatformApp({
+          name: moniker,
+          team: 'platform',
+          moniker,
+          ciAppId: 'APP-001',
+          platformType: PlatformType.API,
+          environment: Environment.DEVELOPMENT,
+          supportEmail: 'support@test.com',
+          ownerEmail: 'owner@test.com',
+        });
+        app.setAccountId('123456');
+        return app;
+      });
+
+      await Promise.all(
+        apps.map((app) => persistence.persistApplication(app, 'lcp-config-bucket'))
+      );
+
+      expect((await persistence.listApplicationIds('lcp-config-bucket')).sort()).toEqual(
+        apps.map((app) => app.id).sort()
+      );
+      expect(await persistence.removeApplication('lcp-config-bucket', apps[0]!.id)).toBe(true);
+      expect(await persistence.listApplicationIds('lcp-config-bucket')).toHaveLength(2);
+      await expect(persistence.loadApplication('lcp-config-bucket', apps[0]!.id)).rejects.toThrow(
+        'Resource not found'
+      );
+    });
+
+    test('should load applications saved before the account-prefixed path', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+      await mockStore.putObject(
+        'lcp-config-bucket',
+        'lcp-platform-oldapp/app.config',
+        JSON.stringify({
+          id: 'app-legacy',
+          name: 'Old App',
+          team: 'platform',
+          moniker: 'oldapp',
+          ciAppId: 'APP-007',
+          platformType: PlatformType.WEB,
+          environment: Environment.PRODUCTION,
+          supportEmail: 'support@test.com',
+          ownerEmail: 'owner@test.com',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-02T00:00:00.000Z',
+          currentVersion: 'v1.0.0',
+        })
+      );
+
+      const app = await persistence.loadApplication('lcp-config-bucket', 'app-legacy');
+
+      expect(app.id).toBe('app-legacy');
+      expect(app.moniker).toBe('oldapp');
+      expect(app.currentVersion).toBe('v1.0.0');
+      expect(app.listDependencies()).toEqual([]);
+    });
+
+    test('should throw when application is not in the index', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+
+      await expect(persistence.loadApplication('lcp-config-bucket', 'app-missing')).rejects.toThrow(
+        'Resource not found'
+      );
+    });
   });
 
   describe('T053: S3 path generation', () => {
@@ -175,4 +308,348 @@ describe.skip('ConfigurationPersistence', () => {
       expect(version.changeLog).toBe('Initial version');
     });
   });
+
+  describe('version snapshot fidelity', () => {
+    test('should restore the application config and policy timestamps', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+
+      const app = new LCPlatformApp({
+        name: 'Audit App',
+        team: 'platform',
+        moniker: 'auditapp',
+        ciAppId: 'APP-042',
+        platformType: PlatformType.BATCH,
+        environment: Environment.STAGING,
+        supportEmail: 'support@test.com',
+        ownerEmail: 'owner@test.com',
+      });
+      app.setAccountId('123456');
+
+      const policyCreatedAt = new Date('2025-03-01T10:00:00.000Z');
+      const policyUpdatedAt = new Date('2025-03-02T10:00:00.000Z');
+      app.addDependency(
+        'reports',
+        DependencyType.OBJECT_STORE,
+        {
+          type: 'object-store',
+          versioning: false,
+          encryption: EncryptionType.AES256,
+          publicAccess: false,
+        },
+        {
+          version: '2012-10-17',
+          provider: 'aws',
+          content: JSON.stringify({ Statement: [] }),
+          createdAt: policyCreatedAt,
+          updatedAt: policyUpdatedAt,
+        }
+      );
+
+      await persistence.persistVersion(app, 'lcp-config-bucket', 'v1.0.0', 'admin', 'Initial');
+
+      // Later metadata edits must not leak into the historical snapshot
+      app.name = 'Renamed App';
+
+      const version = await persistence.retrieveVersion(
+        'lcp-config-bucket',
+        'lcp-123456-platform-auditapp',
+        'v1.0.0'
+      );
+
+      expect(version.appConfig).toEqual({
+        name: 'Audit App',
+        team: 'platform',
+        moniker: 'auditapp',
+        ciAppId: 'APP-042',
+        platformType: PlatformType.BATCH,
+        environment: Environment.STAGING,
+        supportEmail: 'support@test.com',
+        ownerEmail: 'owner@test.com',
+      });
+
+      const policy = version.dependencies[0]?.policy;
+      expect(policy?.createdAt.toISOString()).toBe(policyCreatedAt.toISOString());
+      expect(policy?.updatedAt.toISOString()).toBe(policyUpdatedAt.toISOString());
+    });
+
+    test('should leave the app config out of legacy snapshots', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+      await mockStore.putObject(
+        'lcp-config-bucket',
+        'lcp-123456-platform-oldapp/versions/v1.0.0/dependencies.json',
+        JSON.stringify({
+          version: 'v1.0.0',
+          appId: 'app-1',
+          dependencies: [],
+          createdAt: '2024-01-01T00:00:00.000Z',
+          createdBy: 'admin',
+          changeLog: 'Initial',
+        })
+      );
+
+      const version = await persistence.retrieveVersion(
+        'lcp-config-bucket',
+        'lcp-123456-platform-oldapp',
+        'v1.0.0'
+      );
+
+      expect(version.appId).toBe('app-1');
+      expect(version.appConfig).toBeUndefined();
+    });
+  });
+
+  describe('diff and rollback', () => {
+    test('should diff persisted versions and roll back dependencies', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+
+      const app = new LCPlatformApp({
+        name: 'Test App',
+        team: 'platform',
+        moniker: 'testapp',
+        ciAppId: 'APP-001',
+        platformType: PlatformType.WEB,
+        environment: Environment.DEVELOPMENT,
+        supportEmail: 'support@test.com',
+        ownerEmail: 'owner@test.com',
+      });
+      app.setAccountId('123456');
+      app.addDependency('queue', DependencyType.QUEUE, {
+        type: 'queue',
+        fifo: false,
+        visibilityTimeout: 30,
+        messageRetention: 3600,
+        encryption: true,
+      });
+      await persistence.persistVersion(app, 'lcp-config-bucket', 'v1.0.0', 'admin', 'Initial');
+
+      app.updateDependency('queue', {
+        configuration: {
+          type: 'queue',
+          fifo: false,
+          visibilityTimeout: 120,
+          messageRetention: 3600,
+          encryption: true,
+        },
+      });
+      app.addDependency('uploads', DependencyType.OBJECT_STORE, {
+        type: 'object-store',
+        versioning: true,
+        encryption: EncryptionType.KMS,
+        publicAccess: false,
+      });
+      await persistence.persistVersion(app, 'lcp-config-bucket', 'v1.1.0', 'admin', 'Uploads');
+
+      const diff = await persistence.diffVersions(
+        'lcp-config-bucket',
+        'lcp-123456-platform-testapp',
+        'v1.0.0',
+        'v1.1.0'
+      );
+      expect(diff.dependencies.added.map((d) => d.name)).toEqual(['uploads']);
+      expect(diff.dependencies.changed[0]?.configurationChanges).toEqual([
+        { path: 'visibilityTimeout', oldValue: 30, newValue: 120 },
+      ]);
+
+      const rolledBack = await persistence.rollbackToVersion(
+        app,
+        'lcp-config-bucket',
+        'v1.0.0',
+        'v1.2.0',
+        'admin'
+      );
+
+      expect(rolledBack.version).toBe('v1.2.0');
+      expect(rolledBack.changeLog).toBe('Rollback to version v1.0.0');
+      expect(app.currentVersion).toBe('v1.2.0');
+      expect(app.listDependencies().map((d) => d.name)).toEqual(['queue']);
+      expect(app.getDependency('queue')?.configuration).toMatchObject({ visibilityTimeout: 30 });
+
+      const afterRollback = await persistence.diffVersions(
+        'lcp-config-bucket',
+        'lcp-123456-platform-testapp',
+        'v1.0.0',
+        'v1.2.0'
+      );
+      expect(afterRollback.hasChanges).toBe(false);
+    });
+
+    test('should record restored statuses in the status history', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+
+      const app = new LCPlatformApp({
+        name: 'Test App',
+        team: 'platform',
+        moniker: 'testapp',
+        ciAppId: 'APP-001',
+        platformType: PlatformType.WEB,
+        environment: Environment.DEVELOPMENT,
+        supportEmail: 'support@test.com',
+        ownerEmail: 'owner@test.com',
+      });
+      app.setAccountId('123456');
+      app.addDependency('queue', DependencyType.QUEUE, {
+        type: 'queue',
+        fifo: false,
+        visibilityTimeout: 30,
+        messageRetention: 3600,
+        encryption: true,
+      });
+      await persistence.persistVersion(app, 'lcp-config-bucket', 'v1.0.0', 'admin', 'Initial');
+      for (const status of [
+        DependencyStatus.VALIDATED,
+        DependencyStatus.DEPLOYING,
+        DependencyStatus.DEPLOYED,
+      ]) {
+        app.updateDependency('queue', { status, actor: 'pipeline' });
+      }
+
+      const rolledBack = await persistence.rollbackToVersion(
+        app,
+        'lcp-config-bucket',
+        'v1.0.0',
+        'v1.1.0',
+        'admin'
+      );
+
+      const expected = {
+        from: DependencyStatus.DEPLOYED,
+        to: DependencyStatus.PENDING,
+        actor: 'admin',
+        reason: 'Rollback to version v1.0.0',
+      };
+      const history = app.getDependencyStatusHistory('queue');
+      expect(history.map((change) => change.to)).toEqual([
+        DependencyStatus.VALIDATED,
+        DependencyStatus.DEPLOYING,
+        DependencyStatus.DEPLOYED,
+        DependencyStatus.PENDING,
+      ]);
+      expect(history[3]).toMatchObject(expected);
+      expect(rolledBack.dependencies[0]?.statusHistory?.[3]).toMatchObject(expected);
+    });
+
+    test('should leave the application unchanged when the rollback is not written', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+
+      const app = new LCPlatformApp({
+        name: 'Test App',
+        team: 'platform',
+        moniker: 'testapp',
+        ciAppId: 'APP-001',
+        platformType: PlatformType.WEB,
+        environment: Environment.DEVELOPMENT,
+        supportEmail: 'support@test.com',
+        ownerEmail: 'owner@test.com',
+      });
+      app.setAccountId('123456');
+      await persistence.persistVersion(app, 'lcp-config-bucket', 'v1.0.0', 'admin', 'Initial');
+      app.addDependency('queue', DependencyType.QUEUE, {
+        type: 'queue',
+        fifo: false,
+        visibilityTimeout: 30,
+        messageRetention: 3600,
+        encryption: true,
+      });
+      await persistence.persistVersion(app, 'lcp-config-bucket', 'v1.1.0', 'admin', 'Queue');
+      app.currentVersion = 'v1.1.0';
+
+      await expect(
+        persistence.rollbackToVersion(app, 'lcp-config-bucket', 'v1.0.0', 'v1.1.0', 'admin')
+      ).rejects.toThrow('Version v1.1.0 already exists');
+
+      mockStore.putObject = () => Promise.reject(new Error('storage unavailable'));
+      await expect(
+        persistence.rollbackToVersion(app, 'lcp-config-bucket', 'v1.0.0', 'v1.2.0', 'admin')
+      ).rejects.toThrow('storage unavailable');
+
+      expect(app.currentVersion).toBe('v1.1.0');
+      expect(app.listDependencies().map((d) => d.name)).toEqual(['queue']);
+    });
+  });
+
+  describe('semantic version ordering', () => {
+    test('should list versions in semver order and report the latest', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+
+      for (const version of ['v1.10.0', 'v1.9.0', 'v1.2.0']) {
+        await mockStore.putObject(
+          'lcp-config-bucket',
+          `lcp-123456-platform-testapp/versions/${version}/dependencies.json`,
+          '{}'
+        );
+      }
+
+      const appPath = 'lcp-123456-platform-testapp';
+      expect(await persistence.listVersions('lcp-config-bucket', appPath)).toEqual([
+        'v1.2.0',
+        'v1.9.0',
+        'v1.10.0',
+      ]);
+      expect(await persistence.getLatestVersion('lcp-config-bucket', appPath)).toBe('v1.10.0');
+      expect(await persistence.getLatestVersion('lcp-config-bucket', 'lcp-none')).toBeUndefined();
+
+      await mockStore.putObject(
+        'lcp-config-bucket',
+        `${appPath}/versions/draft/dependencies.json`,
+        '{}'
+      );
+      expect(await persistence.getLatestVersion('lcp-config-bucket', appPath)).toBe('v1.10.0');
+    });
+
+    test('should persist auto-incremented versions', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+
+      const app = new LCPlatformApp({
+        name: 'Test App',
+        team: 'platform',
+        moniker: 'testapp',
+        ciAppId: 'APP-001',
+        platformType: PlatformType.WEB,
+        environment: Environment.DEVELOPMENT,
+        supportEmail: 'support@test.com',
+        ownerEmail: 'owner@test.com',
+      });
+      app.setAccountId('123456');
+
+      expect(
+        await persistence.persistNextVersion(app, 'lcp-config-bucket', 'major', 'admin', 'First')
+      ).toBe('v1.0.0');
+      expect(
+        await persistence.persistNextVersion(app, 'lcp-config-bucket', 'minor', 'admin', 'Second')
+      ).toBe('v1.1.0');
+      expect(
+        await persistence.persistNextVersion(app, 'lcp-config-bucket', 'patch', 'admin', 'Third')
+      ).toBe('v1.1.1');
+      expect(app.currentVersion).toBe('v1.1.1');
+    });
+
+    test('should release a pre-release on the next minor bump', async () => {
+      const { ConfigurationPersistence } = await import('../../../src/utils/configPersistence');
+      const persistence = new ConfigurationPersistence(mockStore as unknown as ObjectStoreService);
+
+      const app = new LCPlatformApp({
+        name: 'Test App',
+        team: 'platform',
+        moniker: 'testapp',
+        ciAppId: 'APP-001',
+        platformType: PlatformType.WEB,
+        environment: Environment.DEVELOPMENT,
+        supportEmail: 'support@test.com',
+        ownerEmail: 'owner@test.com',
+      });
+      app.setAccountId('123456');
+      await persistence.persistVersion(app, 'lcp-config-bucket', 'v2.0.0-rc.1', 'admin', 'RC');
+
+      expect(
+        await persistence.persistNextVersion(app, 'lcp-config-bucket', 'minor', 'admin', 'GA')
+      ).toBe('v2.0.0');
+    });
+  });
 });
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for configuration change detection and polling
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { ConfigPoller, diffConfiguration, getConfigValue } from '../../../src/utils/configWatch';
+import type { ConfigChangeEvent } from '../../../src/core/types/configuration';
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('diffConfiguration', () => {
+  test('should list added, removed and changed key paths', () => {
+    expect(
+      diffConfiguration(
+        { timeout: 30, db: { host: 'a', port: 5432 }, hosts: ['a'], legacy: true },
+        { timeout: 30, db: { host: 'b', port: 5432 }, hosts: ['a', 'b'], debug: false }
+      )
+    ).toEqual(['db.host', 'debug', 'hosts', 'legacy']);
+  });
+
+  test('should return no paths for equal data', () => {
+    expect(diffConfiguration({ a: { b: [1] } }, { a: { b: [1] } })).toEqual([]);
+  });
+});
+
+describe('getConfigValue', () => {
+  test('should prefer flat keys and fall back to nested paths', () => {
+    expect(getConfigValue({ 'db.host': 'flat', db: { host: 'nested' } }, 'db.host')).toBe('flat');
+    expect(getConfigValue({ db: { host: 'nested' } }, 'db.host')).toBe('nested');
+    expect(getConfigValue({ db: 'value' }, 'db.host')).toBeUndefined();
+  });
+});
+
+describe('ConfigPoller', () => {
+  test('should emit events for changes found while polling', async () => {
+    const values = [{ timeout: 30 }, { timeout: 60 }];
+    const events: ConfigChangeEvent[] = [];
+    const poller = new ConfigPoller(
+      'app',
+      { timeout: 30 },
+      async () => values.shift() ?? { timeout: 60 },
+      (event) => {
+        events.push(event);
+      },
+      { pollIntervalMs: 5, environment: 'prod' }
+    );
+
+    await sleep(40);
+    poller.unsubscribe();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      configName: 'app',
+      environment: 'prod',
+      previous: { timeout: 30 },
+      current: { timeout: 60 },
+      changedKeys: ['timeout'],
+    });
+  });
+
+  test('should report failed polls and keep polling', async () => {
+    let calls = 0;
+    const errors: Error[] = [];
+    const poller = new ConfigPoller(
+      'app',
+      {},
+      async () => {
+        calls++;
+        throw new Error('unavailable');
+      },
+      () => undefined,
+      { pollIntervalMs: 5, onError: (error) => errors.push(error) }
+    );
+
+    await sleep(30);
+    poller.unsubscribe();
+    const stoppedAt = calls;
+    await sleep(15);
+
+    expect(errors.length).toBeGreaterThan(1);
+    expect(calls).toBe(stoppedAt);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for Dependency Graph
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { LCPlatformApp, PlatformType, Environment } from '../../../src/core/types/application';
+import { DependencyType, EncryptionType } from '../../../src/core/types/dependency';
+import type { QueueConfiguration } from '../../../src/core/types/dependency';
+import { ValidationError } from '../../../src/core/types/common';
+import {
+  collectReferences,
+  findReferenceCycles,
+  sortByReferences,
+} from '../../../src/utils/dependencyGraph';
+
+function createApp(): LCPlatformApp {
+  return new LCPlatformApp({
+    name: 'Orders',
+    team: 'platform',
+    moniker: 'orders',
+    ciAppId: 'APP-001',
+    platformType: PlatformType.API,
+    environment: Environment.DEVELOPMENT,
+    supportEmail: 'support@test.com',
+    ownerEmail: 'owner@test.com',
+  });
+}
+
+function queueConfig(deadLetterQueue?: string): QueueConfiguration {
+  return {
+    type: 'queue',
+    fifo: false,
+    visibilityTimeout: 30,
+    messageRetention: 3600,
+    encryption: true,
+    ...(deadLetterQueue !== undefined && {
+      deadLetterQueue: { ref: deadLetterQueue, type: DependencyType.QUEUE },
+      maxReceiveCount: 5,
+    }),
+  };
+}
+
+describe('collectReferences', () => {
+  test('should collect dead-letter, event source and dependsOn references', () => {
+    expect(collectReferences(queueConfig('orders-dlq'))).toEqual([
+      { field: 'deadLetterQueue', reference: { ref: 'orders-dlq', type: DependencyType.QUEUE } },
+    ]);
+    expect(collectReferences({ ...queueConfig(), deadLetterQueue: 'external-dlq' })).toEqual([]);
+
+    expect(
+      collectReferences({
+        type: 'function-hosting',
+        runtime: 'nodejs20.x',
+        handler: 'index.handler',
+        eventSources: [{ source: { ref: 'orders' } }],
+        dependsOn: [{ ref: 'db' }],
+      }).map((located) => located.field)
+    ).toEqual(['eventSources[0].source', 'dependsOn[0]']);
+  });
+});
+
+describe('sortByReferences', () => {
+  test('should place referenced dependencies first and keep declaration order otherwise', () => {
+    const app = createApp();
+    app.addDependency('worker', DependencyType.FUNCTION_HOSTING, {
+      type: 'function-hosting',
+      runtime: 'nodejs20.x',
+      handler: 'index.handler',
+      eventSources: [{ source: { ref: 'orders' } }],
+    });
+    app.addDependency('orders', DependencyType.QUEUE, queueConfig('orders-dlq'));
+    app.addDependency('uploads', DependencyType.OBJECT_STORE, {
+      type: 'object-store',
+      versioning: false,
+      encryption: EncryptionType.NONE,
+      publicAccess: false,
+    });
+    app.addDependency('orders-dlq', DependencyType.QUEUE, queueConfig());
+
+    expect(sortByReferences(app.listDependencies()).map((dep) => dep.name)).toEqual([
+      'uploads',
+      'orders-dlq',
+      'orders',
+      'worker',
+    ]);
+  });
+
+  test('should ignore references to unknown dependencies', () => {
+    const app = createApp();
+    app.addDependency('orders', DependencyType.QUEUE, queueConfig('missing'));
+
+    expect(sortByReferences(app.listDependencies()).map((dep) => dep.name)).toEqual(['orders']);
+  });
+
+  test('should throw ValidationError on cycles', () => {
+    const app = createApp();
+    app.addDependency('a', DependencyType.QUEUE, queueConfig('b'));
+    app.addDependency('b', DependencyType.QUEUE, queueConfig('a'));
+
+    expect(findReferenceCycles(app.listDependencies())).toEqual([['a', 'b', 'a']]);
+    expect(() => sortByReferences(app.listDependencies())).toThrow(ValidationError);
+  });
+});
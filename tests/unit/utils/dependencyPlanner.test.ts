@@ -0,0 +1,203 @@
+/**
+ * Unit tests for Dependency Planner
+ *
+ * Tests drift detection and plan application against the mock service layer
+ */
+
+import { describe, test, expect, beforeEach, spyOn } from 'bun:test';
+import { LCPlatformApp, PlatformType, Environment } from '../../../src/core/types/application';
+import {
+  DependencyStatus,
+  DependencyType,
+  EncryptionType,
+} from '../../../src/core/types/dependency';
+import { ValidationError } from '../../../src/core/types/common';
+import { DependencyPlanner, PlanActionType } from '../../../src/utils/dependencyPlanner';
+import { generateResourceName } from '../../../src/utils/nameGenerator';
+import { MockObjectStoreService } from '../../../src/providers/mock/MockObjectStoreService';
+import { MockQueueService } from '../../../src/providers/mock/MockQueueService';
+import { MockSecretsService } from '../../../src/providers/mock/MockSecretsService';
+
+function createApp(): LCPlatformApp {
+  const app = new LCPlatformApp({
+    name: 'Orders',
+    team: 'platform',
+    moniker: 'orders',
+    ciAppId: 'APP-001',
+    platformType: PlatformType.API,
+    environment: Environment.DEVELOPMENT,
+    supportEmail: 'support@test.com',
+    ownerEmail: 'owner@test.com',
+  });
+  app.setAccountId('123456');
+  return app;
+}
+
+function addQueue(app: LCPlatformApp, visibilityTimeout = 30): void {
+  app.addDependency('tasks', DependencyType.QUEUE, {
+    type: 'queue',
+    fifo: false,
+    visibilityTimeout,
+    messageRetention: 3600,
+    encryption: true,
+  });
+}
+
+describe('DependencyPlanner', () => {
+  let objectStore: MockObjectStoreService;
+  let queue: MockQueueService;
+  let secrets: MockSecretsService;
+  let planner: DependencyPlanner;
+
+  beforeEach(() => {
+    objectStore = new MockObjectStoreService();
+    queue = new MockQueueService();
+    secrets = new MockSecretsService();
+    planner = new DependencyPlanner({ objectStore, queue, secrets });
+  });
+
+  test('should plan creation of missing resources and no-op once applied', async () => {
+    const app = createApp();
+    app.addDependency('uploads', DependencyType.OBJECT_STORE, {
+      type: 'object-store',
+      versioning: true,
+      encryption: EncryptionType.KMS,
+      publicAccess: false,
+    });
+    addQueue(app);
+    app.addDependency('api-keys', DependencyType.SECRETS, {
+      type: 'secrets',
+      secretName: 'api-keys',
+    });
+
+    const plan = await planner.plan(app);
+    expect(plan.summary[PlanActionType.CREATE]).toBe(3);
+    expect(plan.hasChanges).toBe(true);
+
+    const result = await planner.apply(app, plan, 'pipeline', {
+      secretValues: { 'api-keys': 'sk_test' },
+    });
+    expect(result.appliedCount).toBe(3);
+    expect(result.failedCount).toBe(0);
+    expect(app.getDependency('tasks')?.status).toBe(DependencyStatus.DEPLOYED);
+
+    const replan = await planner.plan(app);
+    expect(replan.summary[PlanActionType.NO_OP]).toBe(3);
+    expect(replan.hasChanges).toBe(false);
+  });
+
+  test('should detect queue drift and update the queue in place on apply', async () => {
+    const app = createApp();
+    addQueue(app);
+    const name = app.getDependency('tasks')?.generatedName ?? '';
+    const url = `mock://queue/${name}`;
+    await queue.createQueue(name, { visibilityTimeout: 60, messageRetention: 3600 });
+    await queue.sendMessage(url, { body: 'pending' });
+
+    const plan = await planner.plan(app);
+    const action = plan.actions[0];
+    expect(action?.action).toBe(PlanActionType.UPDATE);
+    expect(action?.requiresReplacement).toBeUndefined();
+    expect(action?.changes).toEqual([{ path: 'visibilityTimeout', oldValue: 60, newValue: 30 }]);
+
+    const result = await planner.apply(app, plan, 'pipeline');
+    expect(result.failedCount).toBe(0);
+    expect(await queue.getQueue(url)).toMatchObject({ visibilityTimeout: 30, messageCount: 1 });
+    expect((await planner.plan(app)).hasChanges).toBe(false);
+  });
+
+  test('should replace queues whose FIFO type changed', async () => {
+    const app = createApp();
+    addQueue(app);
+    const name = app.getDependency('tasks')?.generatedName ?? '';
+    await queue.createQueue(name, { fifo: true, visibilityTimeout: 30, messageRetention: 3600 });
+
+    const plan = await planner.plan(app);
+    expect(plan.actions[0]?.requiresReplacement).toBe(true);
+
+    const result = await planner.apply(app, plan, 'pipeline');
+    expect(result.failedCount).toBe(0);
+    expect((await queue.getQueue(`mock://queue/${name}`)).fifo).toBe(false);
+  });
+
+  test('should plan deletion of undeclared prefixed resources', async () => {
+    const app = createApp();
+    const prefix = generateResourceName('123456', 'platform', 'orders', 'queue');
+    const secretPrefix = generateResourceName('123456', 'platform', 'orders', 'secret');
+    await queue.createQueue(`${prefix}-legacy`);
+    await queue.createQueue('unrelated-queue');
+    await secrets.createSecret({ name: `${secretPrefix}-legacy`, value: 'old' });
+    const deleteSecret = spyOn(secrets, 'deleteSecret');
+
+    const plan = await planner.plan(app);
+    expect(plan.actions.map((action) => [action.action, action.resourceName])).toEqual([
+      [PlanActionType.DELETE, `${prefix}-legacy`],
+      [PlanActionType.DELETE, `${secretPrefix}-legacy`],
+    ]);
+
+    await planner.apply(app, plan, 'pipeline');
+    expect(await queue.listQueues()).toEqual(['mock://queue/unrelated-queue']);
+    // Orphaned secrets keep their recovery window
+    expect(deleteSecret).toHaveBeenCalledWith(`${secretPrefix}-legacy`);
+  });
+
+  test('should keep the dead-letter queues of declared queues', async () => {
+    const app = createApp();
+    app.addDependency('jobs', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      maxReceiveCount: 3,
+      encryption: true,
+    });
+    const name = app.getDependency('jobs')?.generatedName ?? '';
+
+    await planner.apply(app, await planner.plan(app), 'pipeline');
+    expect(await queue.listQueues()).toEqual([`mock://queue/${name}-dlq`, `mock://queue/${name}`]);
+
+    const plan = await planner.plan(app);
+    expect(plan.hasChanges).toBe(false);
+    await planner.apply(app, plan, 'pipeline');
+    expect(await queue.listQueues()).toContain(`mock://queue/${name}-dlq`);
+  });
+
+  test('should not delete queues of apps whose moniker extends this one', async () => {
+    const other = generateResourceName('123456', 'platform', 'orders-queue', 'queue');
+    await queue.createQueue(`${other}-jobs`);
+
+    expect((await planner.plan(createApp())).actions).toEqual([]);
+  });
+
+  test('should report and update a changed dead-letter receive count', async () => {
+    const app = createApp();
+    addQueue(app);
+    const name = app.getDependency('tasks')?.generatedName ?? '';
+    await queue.createQueue(name, { visibilityTimeout: 30, messageRetention: 3600 });
+    app.updateDependency('tasks', {
+      configuration: {
+        type: 'queue',
+        fifo: false,
+        visibilityTimeout: 30,
+        messageRetention: 3600,
+        maxReceiveCount: 4,
+        encryption: true,
+      },
+    });
+
+    const plan = await planner.plan(app);
+    expect(plan.actions[0]?.changes).toEqual([
+      { path: 'maxReceiveCount', oldValue: undefined, newValue: 4 },
+    ]);
+
+    await planner.apply(app, plan, 'pipeline');
+    expect((await queue.getQueue(`mock://queue/${name}`)).maxReceiveCount).toBe(4);
+    expect((await planner.plan(app)).hasChanges).toBe(false);
+  });
+
+  test('should reject plans created for another application', async () => {
+    const plan = await planner.plan(createApp());
+
+    await expect(planner.apply(createApp(), plan, 'pipeline')).rejects.toThrow(ValidationError);
+  });
+});
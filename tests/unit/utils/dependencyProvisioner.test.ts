@@ -0,0 +1,350 @@
+/**
+ * Unit tests for Dependency Provisioner
+ *
+ * Tests provisioning of application dependencies through the mock service layer
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { LCPlatformApp, PlatformType, Environment } from '../../../src/core/types/application';
+import {
+  DependencyStatus,
+  DependencyType,
+  EncryptionType,
+} from '../../../src/core/types/dependency';
+import { DependencyProvisioner } from '../../../src/utils/dependencyProvisioner';
+import { MockObjectStoreService } from '../../../src/providers/mock/MockObjectStoreService';
+import { MockQueueService } from '../../../src/providers/mock/MockQueueService';
+import { MockSecretsService } from '../../../src/providers/mock/MockSecretsService';
+import { MockDataStoreService } from '../../../src/providers/mock/MockDataStoreService';
+
+function createApp(accountId?: string): LCPlatformApp {
+  const app = new LCPlatformApp({
+    name: 'Orders',
+    team: 'platform',
+    moniker: 'orders',
+    ciAppId: 'APP-001',
+    platformType: PlatformType.API,
+    environment: Environment.DEVELOPMENT,
+    supportEmail: 'support@test.com',
+    ownerEmail: 'owner@test.com',
+  });
+  if (accountId !== undefined) {
+    app.setAccountId(accountId);
+  }
+  return app;
+}
+
+describe('DependencyProvisioner', () => {
+  let objectStore: MockObjectStoreService;
+  let queue: MockQueueService;
+  let secrets: MockSecretsService;
+  let dataStore: MockDataStoreService;
+  let provisioner: DependencyProvisioner;
+
+  beforeEach(() => {
+    objectStore = new MockObjectStoreService();
+    queue = new MockQueueService();
+    secrets = new MockSecretsService();
+    dataStore = new MockDataStoreService();
+    provisioner = new DependencyProvisioner({ objectStore, queue, secrets, dataStore });
+  });
+
+  test('should create resources using generated names and mark them deployed', async () => {
+    const app = createApp('123456');
+    const bucket = app.addDependency('uploads', DependencyType.OBJECT_STORE, {
+      type: 'object-store',
+      versioning: true,
+      encryption: EncryptionType.KMS,
+      publicAccess: false,
+    });
+    const tasks = app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      encryption: true,
+    });
+    const apiKeys = app.addDependency('api-keys', DependencyType.SECRETS, {
+      type: 'secrets',
+      secretName: 'api-keys',
+    });
+    app.addDependency('db', DependencyType.DATA_STORE, {
+      type: 'data-store',
+      engine: 'postgres',
+      instanceClass: 'db.t3.micro',
+      allocatedStorage: 20,
+    });
+
+    const result = await provisioner.provision(app, 'pipeline@test.com', {
+      secretValues: { 'api-keys': { stripe: 'sk_test' } },
+    });
+
+    expect(result.deployedCount).toBe(4);
+    expect(result.failedCount).toBe(0);
+
+    await expect(objectStore.listObjects(bucket.generatedName ?? '')).resolves.toEqual([]);
+    expect(await queue.listQueues()).toContain(`mock://queue/${tasks.generatedName}`);
+    expect(await secrets.getSecretValue(apiKeys.generatedName ?? '')).toEqual({
+      stripe: 'sk_test',
+    });
+
+    for (const dep of app.listDependencies()) {
+      expect(dep.status).toBe(DependencyStatus.DEPLOYED);
+      expect(dep.deployedBy).toBe('pipeline@test.com');
+      expect(dep.deployedAt).toBeInstanceOf(Date);
+      expect(dep.deploymentError).toBeUndefined();
+    }
+  });
+
+  test('should record failures and continue with remaining dependencies', async () => {
+    const app = createApp('123456');
+    const existing = app.addDependency('uploads', DependencyType.OBJECT_STORE, {
+      type: 'object-store',
+      versioning: false,
+      encryption: EncryptionType.NONE,
+      publicAccess: false,
+    });
+    app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      encryption: true,
+    });
+    await objectStore.createBucket(existing.generatedName ?? '');
+
+    const result = await provisioner.provision(app, 'pipeline');
+
+    expect(result.failedCount).toBe(1);
+    expect(result.deployedCount).toBe(1);
+    expect(app.getDependency('uploads')?.status).toBe(DependencyStatus.FAILED);
+    expect(app.getDependency('uploads')?.deploymentError).toContain('already exists');
+    expect(app.getDependency('tasks')?.status).toBe(DependencyStatus.DEPLOYED);
+  });
+
+  test('should fail dependencies without a generated name', async () => {
+    const app = createApp();
+    app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      encryption: true,
+    });
+
+    const result = await provisioner.provision(app, 'pipeline');
+
+    expect(result.results[0]?.status).toBe(DependencyStatus.FAILED);
+    expect(result.results[0]?.error).toContain('account ID');
+  });
+
+  test('should fail secret dependencies without a value', async () => {
+    const app = createApp('123456');
+    app.addDependency('api-keys', DependencyType.SECRETS, {
+      type: 'secrets',
+      secretName: 'api-keys',
+    });
+
+    const result = await provisioner.provision(app, 'pipeline');
+
+    expect(result.results[0]?.status).toBe(DependencyStatus.FAILED);
+    expect(result.results[0]?.error).toContain('secretValues');
+    expect(await secrets.listSecrets()).toEqual([]);
+  });
+
+  test('should use the declared dead-letter queue instead of creating one', async () => {
+    const app = createApp('123456');
+    const failed = app.addDependency('failed-tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 1209600,
+      encryption: true,
+    });
+    const tasks = app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      maxReceiveCount: 3,
+      deadLetterQueue: { ref: 'failed-tasks', type: DependencyType.QUEUE },
+      encryption: true,
+    });
+    await queue.createQueue('shared-dlq');
+    const audit = app.addDependency('audit', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      maxReceiveCount: 5,
+      deadLetterQueue: 'shared-dlq',
+      encryption: true,
+    });
+
+    const result = await provisioner.provision(app, 'pipeline');
+
+    expect(result.failedCount).toBe(0);
+    const tasksUrl = `mock://queue/${tasks.generatedName}`;
+    expect(await queue.getQueue(tasksUrl)).toMatchObject({
+      deadLetterQueueUrl: `mock://queue/${failed.generatedName}`,
+      maxReceiveCount: 3,
+    });
+    expect((await queue.getQueue(`mock://queue/${audit.generatedName}`)).deadLetterQueueUrl).toBe(
+      'mock://queue/shared-dlq'
+    );
+    expect((await queue.listQueues()).filter((url) => url.endsWith('-dlq'))).toEqual([
+      'mock://queue/shared-dlq',
+    ]);
+
+    // The declared dead-letter queue is its own dependency and outlives the queue
+    await queue.deleteQueue(tasksUrl);
+    expect(await queue.listQueues()).toContain(`mock://queue/${failed.generatedName}`);
+  });
+
+  test('should fail queues whose declared dead-letter queue does not exist', async () => {
+    const app = createApp('123456');
+    app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      maxReceiveCount: 3,
+      deadLetterQueue: 'missing-dlq',
+      encryption: true,
+    });
+
+    const result = await provisioner.provision(app, 'pipeline');
+
+    expect(result.results[0]?.status).toBe(DependencyStatus.FAILED);
+    expect(result.results[0]?.error).toContain('missing-dlq');
+  });
+
+  test('should skip deployed dependencies and types without a service', async () => {
+    const app = createApp('123456');
+    app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      encryption: true,
+    });
+
+    await provisioner.provision(app, 'pipeline');
+    const second = await provisioner.provision(app, 'pipeline');
+    expect(second.skippedCount).toBe(1);
+    expect(second.deployedCount).toBe(0);
+
+    const queueOnly = new DependencyProvisioner({ queue: new MockQueueService() });
+    const other = createApp('123456');
+    other.addDependency('uploads', DependencyType.OBJECT_STORE, {
+      type: 'object-store',
+      versioning: false,
+      encryption: EncryptionType.NONE,
+      publicAccess: false,
+    });
+    const result = await queueOnly.provision(other, 'pipeline');
+    expect(result.skippedCount).toBe(1);
+    expect(other.getDependency('uploads')?.status).toBe(DependencyStatus.PENDING);
+  });
+
+  test('should redeploy through UPDATING and record the status history', async () => {
+    const app = createApp('123456');
+    app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      encryption: true,
+    });
+    await provisioner.provision(app, 'pipeline');
+    await queue.deleteQueue(`mock://queue/${app.getDependency('tasks')?.generatedName}`);
+
+    const result = await provisioner.provision(app, 'operator', { redeploy: true });
+
+    expect(result.deployedCount).toBe(1);
+    expect(
+      app.getDependencyStatusHistory('tasks').map((change) => [change.to, change.actor])
+    ).toEqual([
+      [DependencyStatus.VALIDATED, 'pipeline'],
+      [DependencyStatus.DEPLOYING, 'pipeline'],
+      [DependencyStatus.DEPLOYED, 'pipeline'],
+      [DependencyStatus.UPDATING, 'operator'],
+      [DependencyStatus.DEPLOYED, 'operator'],
+    ]);
+  });
+
+  test('should update existing resources in place when redeploying', async () => {
+    const app = createApp('123456');
+    app.addDependency('uploads', DependencyType.OBJECT_STORE, {
+      type: 'object-store',
+      versioning: false,
+      encryption: EncryptionType.NONE,
+      publicAccess: false,
+    });
+    const tasks = app.addDependency('tasks', DependencyType.QUEUE, {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      encryption: true,
+    });
+    const apiKey = app.addDependency('api-key', DependencyType.SECRETS, {
+      type: 'secrets',
+      secretName: 'api-key',
+    });
+    await provisioner.provision(app, 'pipeline', { secretValues: { 'api-key': 'original' } });
+    (tasks.configuration as { visibilityTimeout: number }).visibilityTimeout = 90;
+
+    const result = await provisioner.provision(app, 'operator', { redeploy: true });
+
+    expect(result.failedCount).toBe(0);
+    expect(result.deployedCount).toBe(3);
+    expect((await queue.getQueue(`mock://queue/${tasks.generatedName}`)).visibilityTimeout).toBe(
+      90
+    );
+    expect(await secrets.getSecretValue(apiKey.generatedName ?? '')).toBe('original');
+  });
+
+  test('should skip dependencies that are being deployed, updated or deleted', async () => {
+    const app = createApp('123456');
+    for (const name of ['deploying', 'updating', 'deleting', 'validated']) {
+      app.addDependency(name, DependencyType.QUEUE, {
+        type: 'queue',
+        fifo: false,
+        visibilityTimeout: 30,
+        messageRetention: 3600,
+        encryption: true,
+      });
+    }
+    const move = (name: string, ...statuses: DependencyStatus[]): void => {
+      for (const status of statuses) {
+        app.updateDependency(name, { status, actor: 'other-run' });
+      }
+    };
+    move('deploying', DependencyStatus.VALIDATED, DependencyStatus.DEPLOYING);
+    move(
+      'updating',
+      DependencyStatus.VALIDATED,
+      DependencyStatus.DEPLOYING,
+      DependencyStatus.DEPLOYED,
+      DependencyStatus.UPDATING
+    );
+    move(
+      'deleting',
+      DependencyStatus.VALIDATED,
+      DependencyStatus.DEPLOYING,
+      DependencyStatus.DEPLOYED,
+      DependencyStatus.DELETING
+    );
+    move('validated', DependencyStatus.VALIDATED);
+
+    const result = await provisioner.provision(app, 'pipeline', { redeploy: true });
+
+    expect(result.results.map((r) => [r.name, r.status, r.skipped === true])).toEqual([
+      ['deploying', DependencyStatus.DEPLOYING, true],
+      ['updating', DependencyStatus.UPDATING, true],
+      ['deleting', DependencyStatus.DELETING, true],
+      ['validated', DependencyStatus.DEPLOYED, false],
+    ]);
+  });
+});
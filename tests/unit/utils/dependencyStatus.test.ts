@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the dependency status state machine
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { DependencyErrorCode, DependencyStatus } from '../../../src/core/types/dependency';
+import {
+  DEPENDENCY_STATUS_TRANSITIONS,
+  InvalidStateTransitionError,
+  assertTransition,
+  canTransition,
+} from '../../../src/utils/dependencyStatus';
+
+describe('dependency status transitions', () => {
+  test('should define transitions for every status', () => {
+    for (const status of Object.values(DependencyStatus)) {
+      expect(DEPENDENCY_STATUS_TRANSITIONS[status]).toBeDefined();
+    }
+  });
+
+  test('should allow the deployment lifecycle', () => {
+    expect(canTransition(DependencyStatus.PENDING, DependencyStatus.VALIDATED)).toBe(true);
+    expect(canTransition(DependencyStatus.VALIDATED, DependencyStatus.DEPLOYING)).toBe(true);
+    expect(canTransition(DependencyStatus.DEPLOYING, DependencyStatus.DEPLOYED)).toBe(true);
+    expect(canTransition(DependencyStatus.DEPLOYING, DependencyStatus.FAILED)).toBe(true);
+    expect(canTransition(DependencyStatus.DEPLOYED, DependencyStatus.UPDATING)).toBe(true);
+    expect(canTransition(DependencyStatus.DEPLOYED, DependencyStatus.DELETING)).toBe(true);
+    expect(canTransition(DependencyStatus.FAILED, DependencyStatus.VALIDATED)).toBe(true);
+  });
+
+  test('should reject skipping lifecycle steps', () => {
+    expect(canTransition(DependencyStatus.PENDING, DependencyStatus.DEPLOYED)).toBe(false);
+    expect(canTransition(DependencyStatus.DEPLOYED, DependencyStatus.PENDING)).toBe(false);
+    expect(canTransition(DependencyStatus.DELETING, DependencyStatus.DEPLOYED)).toBe(false);
+  });
+
+  test('should raise INVALID_STATE_TRANSITION for disallowed transitions', () => {
+    expect(() =>
+      assertTransition(DependencyStatus.PENDING, DependencyStatus.DEPLOYED, {
+        dependencyName: 'db',
+      })
+    ).toThrow(InvalidStateTransitionError);
+
+    try {
+      assertTransition(DependencyStatus.PENDING, DependencyStatus.DEPLOYED);
+    } catch (error) {
+      expect((error as InvalidStateTransitionError).code).toBe(
+        DependencyErrorCode.INVALID_STATE_TRANSITION
+      );
+      expect((error as InvalidStateTransitionError).details).toEqual({
+        from: DependencyStatus.PENDING,
+        to: DependencyStatus.DEPLOYED,
+      });
+    }
+  });
+});
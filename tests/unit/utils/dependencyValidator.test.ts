@@ -9,6 +9,7 @@ import {
   DependencyType,
   EncryptionType,
   DependencyStatus,
+  DependencyErrorCode,
 } from '../../../src/core/types/dependency';
 import type {
   ApplicationDependency,
@@ -376,3 +377,143 @@ describe.skip('DependencyValidator', () => {
     });
   });
 });
+
+describe('DependencyValidator extended dependency types', () => {
+  let validator: DependencyValidator;
+
+  beforeEach(async () => {
+    const { DependencyValidator: ValidatorClass } = await import(
+      '../../../src/utils/dependencyValidator'
+    );
+    validator = new ValidatorClass();
+  });
+
+  const validConfigs: Array<[DependencyType, DependencyConfiguration]> = [
+    [DependencyType.CONFIGURATION, { type: 'configuration', contentType: 'application/json' }],
+    [
+      DependencyType.DOCUMENT_STORE,
+      { type: 'document-store', encryption: true, indexes: [{ field: 'email', unique: true }] },
+    ],
+    [
+      DependencyType.EVENT_BUS,
+      { type: 'event-bus', rules: [{ name: 'orders', source: ['orders-api'] }] },
+    ],
+    [
+      DependencyType.NOTIFICATION,
+      {
+        type: 'notification',
+        fifo: false,
+        encryption: true,
+        subscriptions: [{ protocol: 'email', endpoint: 'ops@test.com' }],
+      },
+    ],
+    [DependencyType.CACHE, { type: 'cache', engine: 'redis', nodeType: 'cache.t3.micro' }],
+    [
+      DependencyType.WEB_HOSTING,
+      { type: 'web-hosting', image: 'orders:1.0.0', cpu: 1, memory: 2048, maxInstances: 3 },
+    ],
+    [
+      DependencyType.FUNCTION_HOSTING,
+      { type: 'function-hosting', runtime: 'nodejs20.x', handler: 'index.handler' },
+    ],
+    [
+      DependencyType.BATCH,
+      { type: 'batch', image: 'report:1.0.0', cpu: 2, memory: 4096, schedule: '0 2 * * *' },
+    ],
+    [
+      DependencyType.AUTHENTICATION,
+      { type: 'authentication', provider: 'okta', domain: 'test.okta.com', clientId: 'abc' },
+    ],
+    [
+      DependencyType.CONTAINER_REPO,
+      { type: 'container-repo', imageScanOnPush: true, encryption: EncryptionType.KMS },
+    ],
+  ];
+
+  for (const [type, config] of validConfigs) {
+    test(`should validate a valid ${type} configuration`, () => {
+      const result = validator.validateConfiguration(type, config);
+      expect(result.errors).toBeUndefined();
+      expect(result.valid).toBe(true);
+    });
+  }
+
+  test('should reject missing required fields', () => {
+    const result = validator.validateConfiguration(DependencyType.AUTHENTICATION, {
+      type: 'authentication',
+      provider: 'okta',
+      domain: 'test.okta.com',
+    } as unknown as DependencyConfiguration);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors?.[0]?.message).toContain('clientId');
+  });
+
+  test('should reject unsupported enum values', () => {
+    const result = validator.validateConfiguration(DependencyType.CONTAINER_REPO, {
+      type: 'container-repo',
+      imageScanOnPush: true,
+      encryption: EncryptionType.NONE,
+    } as unknown as DependencyConfiguration);
+
+    expect(result.valid).toBe(false);
+  });
+
+  test('should reject web hosting with minInstances above maxInstances', () => {
+    const result = validator.validateConfiguration(DependencyType.WEB_HOSTING, {
+      type: 'web-hosting',
+      image: 'orders:1.0.0',
+      cpu: 1,
+      memory: 2048,
+      minInstances: 4,
+      maxInstances: 2,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors?.[0]?.details?.field).toBe('minInstances');
+  });
+
+  test('should report dangling, mistyped and circular references', () => {
+    const dependency = (
+      name: string,
+      type: DependencyType,
+      configuration: DependencyConfiguration
+    ): ApplicationDependency => ({
+      id: `dep-${name}`,
+      name,
+      type,
+      status: DependencyStatus.PENDING,
+      configuration,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    const queue = (deadLetterQueue: string): DependencyConfiguration => ({
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout: 30,
+      messageRetention: 3600,
+      encryption: true,
+      deadLetterQueue: { ref: deadLetterQueue },
+      maxReceiveCount: 3,
+    });
+
+    const result = validator.validateApplication([
+      dependency('a', DependencyType.QUEUE, queue('b')),
+      dependency('b', DependencyType.QUEUE, queue('a')),
+      dependency('worker', DependencyType.FUNCTION_HOSTING, {
+        type: 'function-hosting',
+        runtime: 'nodejs20.x',
+        handler: 'index.handler',
+        eventSources: [{ source: { ref: 'a', type: DependencyType.NOTIFICATION } }],
+        dependsOn: [{ ref: 'missing' }],
+      }),
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors?.map((error) => error.code).sort()).toEqual([
+      DependencyErrorCode.CIRCULAR_REFERENCE,
+      DependencyErrorCode.INVALID_REFERENCE,
+      DependencyErrorCode.INVALID_REFERENCE,
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for feature flag evaluation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { evaluateFeatureFlag } from '../../../src/utils/featureFlags';
+import { ValidationError } from '../../../src/core/types/common';
+
+describe('evaluateFeatureFlag', () => {
+  test('should read boolean and string values', () => {
+    expect(evaluateFeatureFlag('flag', true)).toBe(true);
+    expect(evaluateFeatureFlag('flag', 'yes')).toBe(true);
+    expect(evaluateFeatureFlag('flag', 'false', {}, true)).toBe(false);
+    expect(evaluateFeatureFlag('flag', undefined, {}, true)).toBe(true);
+  });
+
+  test('should apply targets before the rollout percentage', () => {
+    const flag = { enabled: true, rolloutPercentage: 0, targets: ['tenant-1'] };
+
+    expect(evaluateFeatureFlag('flag', flag, { targetId: 'tenant-1' })).toBe(true);
+    expect(evaluateFeatureFlag('flag', flag, { targetId: 'tenant-2' })).toBe(false);
+    expect(evaluateFeatureFlag('flag', { ...flag, enabled: false }, { targetId: 'tenant-1' })).toBe(
+      false
+    );
+  });
+
+  test('should bucket targets consistently for percentage rollouts', () => {
+    const targets = Array.from({ length: 1000 }, (_, index) => `user-${index}`);
+    const enabled = (percentage: number): string[] =>
+      targets.filter((targetId) =>
+        evaluateFeatureFlag(
+          'checkout',
+          { enabled: true, rolloutPercentage: percentage },
+          { targetId }
+        )
+      );
+
+    const quarter = enabled(25);
+    expect(quarter.length).toBeGreaterThan(150);
+    expect(quarter.length).toBeLessThan(350);
+    const half = new Set(enabled(50));
+    expect(quarter.every((targetId) => half.has(targetId))).toBe(true);
+    expect(evaluateFeatureFlag('checkout', { enabled: true, rolloutPercentage: 50 })).toBe(false);
+  });
+
+  test('should reject values that are not flags', () => {
+    expect(() => evaluateFeatureFlag('flag', 42)).toThrow(ValidationError);
+    expect(() => evaluateFeatureFlag('flag', { rolloutPercentage: 10 })).toThrow(ValidationError);
+  });
+});
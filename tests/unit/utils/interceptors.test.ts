@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the interceptor pipeline
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { LCAppRuntime } from '../../../src/LCAppRuntime';
+import { getInterceptors, withInterceptors } from '../../../src/utils/interceptors';
+import {
+  ProviderType,
+  ResourceNotFoundError,
+  ValidationError,
+} from '../../../src/core/types/common';
+import type { Interceptor } from '../../../src/core/types/interceptor';
+
+function createRuntime(interceptors: Interceptor[]): LCAppRuntime {
+  return new LCAppRuntime({ provider: ProviderType.MOCK, options: { interceptors } });
+}
+
+describe('interceptors', () => {
+  test('should modify arguments and results of matching operations', async () => {
+    const runtime = createRuntime([
+      {
+        services: ['ObjectClient'],
+        operations: ['put', 'get'],
+        async intercept(context, next) {
+          const [bucket, key, ...rest] = context.args;
+          context.args = [bucket, `tenant-1/${String(key)}`, ...rest];
+          return next();
+        },
+      },
+    ]);
+    const objects = runtime.getObjectClient();
+
+    await objects.put('bucket', 'report.txt', Buffer.from('data'));
+    const object = await objects.get('bucket', 'report.txt');
+
+    expect(object.key).toBe('tenant-1/report.txt');
+    expect(await objects.exists('bucket', 'tenant-1/report.txt')).toBe(true);
+  });
+
+  test('should run interceptors by order around the call', async () => {
+    const calls: string[] = [];
+    const tracing = (label: string, order?: number): Interceptor => ({
+      ...(order !== undefined && { order }),
+      async intercept(context, next) {
+        calls.push(`${label}:before:${context.operation}`);
+        const result = await next();
+        calls.push(`${label}:after`);
+        return result;
+      },
+    });
+    const runtime = createRuntime([tracing('audit', 10), tracing('request-id'), tracing('tenant')]);
+
+    await runtime.getObjectClient().exists('bucket', 'key');
+
+    expect(calls).toEqual([
+      'request-id:before:exists',
+      'tenant:before:exists',
+      'audit:before:exists',
+      'audit:after',
+      'tenant:after',
+      'request-id:after',
+    ]);
+  });
+
+  test('should let interceptors map errors and share attributes', async () => {
+    const runtime = createRuntime([
+      {
+        async intercept(context, next) {
+          context.attributes.requestId = 'req-42';
+          try {
+            return await next();
+          } catch (error) {
+            if (error instanceof ResourceNotFoundError) {
+              return `missing (${String(context.attributes.requestId)})`;
+            }
+            throw error;
+          }
+        },
+      },
+    ]);
+
+    expect(await runtime.getSecretsClient().get('unknown')).toBe('missing (req-42)');
+  });
+
+  test('should scope interceptors by service type', async () => {
+    const seen: string[] = [];
+    const runtime = createRuntime([
+      {
+        services: ['SecretsClient'],
+        async intercept(context, next) {
+          seen.push(`${context.serviceType}.${context.operation}`);
+          return next();
+        },
+      },
+    ]);
+
+    await runtime.getObjectClient().exists('bucket', 'key');
+    await expect(runtime.getSecretsClient().get('db')).rejects.toThrow(ResourceNotFoundError);
+
+    expect(seen).toEqual(['SecretsClient.get']);
+  });
+
+  test('should leave instances unwrapped when no interceptor applies', () => {
+    const target = { async run(): Promise<void> {} };
+
+    expect(withInterceptors(target, 'QueueClient', { provider: ProviderType.MOCK })).toBe(target);
+  });
+
+  test('should validate the configured interceptors', () => {
+    expect(() =>
+      getInterceptors({ provider: ProviderType.MOCK, options: { interceptors: {} } })
+    ).toThrow(ValidationError);
+    expect(() =>
+      getInterceptors({
+        provider: ProviderType.MOCK,
+        options: { interceptors: [{ services: 'QueueClient', intercept: () => undefined }] },
+      })
+    ).toThrow(ValidationError);
+  });
+});
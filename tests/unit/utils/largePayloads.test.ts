@@ -0,0 +1,240 @@
+/**
+ * Unit tests for large payload offloading
+ *
+ * Runs the offloading clients against the mock queue, event, notification and object clients.
+ */
+
+import { describe, test, expect, beforeEach, spyOn } from 'bun:test';
+import {
+  LargePayloadEventPublisher,
+  LargePayloadNotificationClient,
+  LargePayloadQueueClient,
+  LargePayloadStore,
+  getLargePayloadOptions,
+  getPayloadPointer,
+} from '../../../src/utils/largePayloads';
+import { MockQueueClient } from '../../../src/providers/mock/clients/MockQueueClient';
+import { MockObjectClient } from '../../../src/providers/mock/clients/MockObjectClient';
+import { MockEventPublisher } from '../../../src/providers/mock/clients/MockEventPublisher';
+import { MockNotificationClient } from '../../../src/providers/mock/clients/MockNotificationClient';
+import { ProviderType, ValidationError } from '../../../src/core/types/common';
+
+const BUCKET = 'payloads';
+const THRESHOLD = 100;
+const large = { report: 'x'.repeat(200) };
+
+describe('large payloads', () => {
+  let objects: MockObjectClient;
+  let store: LargePayloadStore;
+
+  const storedKeys = async (): Promise<string[]> =>
+    (await objects.list(BUCKET)).map((object) => object.key);
+
+  beforeEach(() => {
+    objects = new MockObjectClient();
+    objects.createTestBucket(BUCKET);
+    store = new LargePayloadStore(objects, { bucket: BUCKET, thresholdBytes: THRESHOLD });
+  });
+
+  describe('LargePayloadQueueClient', () => {
+    let queue: MockQueueClient;
+    let client: LargePayloadQueueClient;
+
+    beforeEach(() => {
+      queue = new MockQueueClient();
+      client = new LargePayloadQueueClient(queue, store);
+    });
+
+    test('should send small messages unchanged', async () => {
+      await client.send('reports', { small: true });
+
+      expect(await storedKeys()).toEqual([]);
+      const [message] = await queue.receive('reports');
+      expect(message?.body).toEqual({ small: true });
+    });
+
+    test('should offload large messages and restore them on receive', async () => {
+      await client.send('reports', large);
+
+      const [key] = await storedKeys();
+      expect(key).toStartWith('large-payloads/');
+      const [message] = await client.receive('reports');
+      expect(message?.body).toEqual(large);
+
+      await queue.changeVisibility('reports', message!.receiptHandle, 0);
+      const [raw] = await queue.receive('reports');
+      expect(getPayloadPointer(raw?.body)).toMatchObject({
+        bucket: BUCKET,
+        key,
+        contentType: 'application/json',
+      });
+    });
+
+    test('should keep string payloads as strings', async () => {
+      await client.send('reports', 'y'.repeat(200));
+
+      const [message] = await client.receive('reports');
+      expect(message?.body).toBe('y'.repeat(200));
+    });
+
+    test('should count attributes towards the threshold', async () => {
+      await client.send('reports', 'short', { attributes: { note: 'z'.repeat(100) } });
+
+      expect(await storedKeys()).toHaveLength(1);
+    });
+
+    test('should delete the payload when the message is acknowledged', async () => {
+      await client.send('reports', large);
+      await client.send('reports', { ...large, second: true });
+
+      const [first, second] = await client.receive('reports', { maxMessages: 2 });
+      await client.acknowledge('reports', first!.receiptHandle);
+      expect(await storedKeys()).toHaveLength(1);
+
+      await client.acknowledgeBatch('reports', [second!.receiptHandle]);
+      expect(await storedKeys()).toEqual([]);
+    });
+
+    test('should keep the payload when a message is released for retry', async () => {
+      await client.send('reports', large);
+
+      const [first] = await client.receive('reports');
+      await client.changeVisibility('reports', first!.receiptHandle, 0);
+      const [retry] = await client.receive('reports');
+      await client.acknowledge('reports', retry!.receiptHandle);
+
+      expect(retry?.body).toEqual(large);
+      expect(await storedKeys()).toEqual([]);
+    });
+
+    test('should leave messages whose payload is gone on the queue', async () => {
+      queue.createTestQueue('reports', { enableDeadLetter: true, deadLetterAfterRetries: 1 });
+      await client.send('reports', large);
+      await client.send('reports', { small: true });
+      const [key] = await storedKeys();
+      await objects.delete(BUCKET, key!);
+
+      const messages = await client.receive('reports', { maxMessages: 10, visibilityTimeout: 0 });
+      await client.acknowledge('reports', messages[0]!.receiptHandle);
+
+      expect(messages.map((message) => message.body)).toEqual([{ small: true }]);
+      expect(await client.receive('reports')).toEqual([]);
+      const [deadLetter] = await queue.receive('reports-dlq');
+      expect(getPayloadPointer(deadLetter?.body)?.key).toBe(key);
+    });
+
+    test('should only follow pointers to its own bucket and key prefix', async () => {
+      objects.createTestBucket('secrets');
+      await objects.put('secrets', 'large-payloads/token', Buffer.from('"secret"'));
+      await objects.put(BUCKET, 'other/report', Buffer.from('"internal"'));
+      const foreign = [
+        { lcpPayloadPointer: { bucket: 'secrets', key: 'large-payloads/token' } },
+        { lcpPayloadPointer: { bucket: BUCKET, key: 'other/report' } },
+      ];
+      await queue.sendBatch('reports', foreign);
+
+      const messages = await client.receive('reports', { maxMessages: 10 });
+      await client.acknowledgeBatch(
+        'reports',
+        messages.map((message) => message.receiptHandle)
+      );
+
+      expect(messages.map((message) => message.body)).toEqual(foreign);
+      expect(await objects.list('secrets')).toHaveLength(1);
+      expect(await storedKeys()).toEqual(['other/report']);
+      expect(await store.resolve(foreign[0])).toEqual(foreign[0]);
+    });
+
+    test('should forget payloads of messages that are never acknowledged', async () => {
+      await client.send('reports', large);
+      const [stale] = await client.receive('reports');
+      const now = Date.now();
+      const clock = spyOn(Date, 'now').mockReturnValue(now + 13 * 60 * 60 * 1000);
+
+      await client.receive('reports');
+      await client.acknowledge('reports', stale!.receiptHandle);
+      clock.mockRestore();
+
+      expect(await storedKeys()).toHaveLength(1);
+    });
+
+    test('should delete the payload when the send fails', async () => {
+      queue.send = () => Promise.reject(new Error('queue unavailable'));
+
+      await expect(client.send('reports', large)).rejects.toThrow('queue unavailable');
+      expect(await storedKeys()).toEqual([]);
+    });
+
+    test('should delete the payloads of failed batch entries', async () => {
+      queue.sendBatch = (_queueName, messages) =>
+        Promise.resolve({
+          successful: [{ id: '0', messageId: 'sent' }],
+          failed: messages.slice(1).map((_, index) => ({
+            id: String(index + 1),
+            code: 'SendError',
+            message: 'rejected',
+          })),
+        });
+
+      const result = await client.sendBatch('reports', [large, { ...large, second: true }]);
+
+      expect(result.failed).toHaveLength(1);
+      expect(await storedKeys()).toHaveLength(1);
+    });
+  });
+
+  describe('LargePayloadEventPublisher', () => {
+    test('should offload the data of large events', async () => {
+      const events = new MockEventPublisher();
+      const publisher = new LargePayloadEventPublisher(events, store);
+
+      await publisher.publish('orders', { source: 'shop', type: 'report', data: large });
+      await publisher.publish('orders', { source: 'shop', type: 'ping', data: { ok: true } });
+
+      const [offloaded, small] = events.getPublishedEvents('orders');
+      expect(getPayloadPointer(offloaded?.data)).toBeDefined();
+      expect(await store.resolve(offloaded?.data)).toEqual(large);
+      expect(small?.data).toEqual({ ok: true });
+      expect(await store.resolve(small?.data)).toEqual({ ok: true });
+    });
+  });
+
+  describe('LargePayloadNotificationClient', () => {
+    test('should offload the body of large notifications', async () => {
+      const notifications = new MockNotificationClient();
+      const client = new LargePayloadNotificationClient(notifications, store);
+
+      const result = await client.publishBatch('alerts', [
+        { subject: 'Report', body: 'r'.repeat(200) },
+        { subject: 'Ping', body: 'ok' },
+      ]);
+
+      expect(result.successful).toHaveLength(2);
+      const [offloaded, small] = notifications.getPublishedMessages('alerts');
+      expect(offloaded?.subject).toBe('Report');
+      expect(await store.resolve(offloaded?.body)).toBe('r'.repeat(200));
+      expect(small?.body).toBe('ok');
+    });
+  });
+
+  describe('getLargePayloadOptions', () => {
+    test('should read options from the provider configuration', () => {
+      expect(getLargePayloadOptions({ provider: ProviderType.MOCK })).toBeUndefined();
+      expect(
+        getLargePayloadOptions({
+          provider: ProviderType.MOCK,
+          options: { largePayloads: { bucket: BUCKET, thresholdBytes: 1024 } },
+        })
+      ).toEqual({ bucket: BUCKET, thresholdBytes: 1024 });
+    });
+
+    test('should reject options without a bucket or with an invalid threshold', () => {
+      const read = (largePayloads: unknown) => () =>
+        getLargePayloadOptions({ provider: ProviderType.MOCK, options: { largePayloads } });
+
+      expect(read('payloads')).toThrow(ValidationError);
+      expect(read({})).toThrow(ValidationError);
+      expect(read({ bucket: BUCKET, thresholdBytes: 0 })).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Unit tests for logging and operation instrumentation
+ */
+
+import { describe, test, expect, beforeEach, spyOn, type Mock } from 'bun:test';
+import {
+  LoggingInstrumentation,
+  consoleLogger,
+  createConsoleLogger,
+  getInstrumentation,
+  getLogger,
+  withInstrumentation,
+} from '../../../src/utils/observability';
+import { resetCircuitBreakers } from '../../../src/utils/resilience';
+import { withRetry } from '../../../src/utils/retry';
+import { BaseProviderFactory, validateProviderConfig } from '../../../src/factory/ProviderFactory';
+import { MockQueueService } from '../../../src/providers/mock/MockQueueService';
+import {
+  ProviderType,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../../src/core/types/common';
+import {
+  OperationOutcome,
+  type Instrumentation,
+  type Logger,
+  type OperationContext,
+  type OperationResult,
+} from '../../../src/core/types/observability';
+
+interface LogEntry {
+  level: string;
+  message: string;
+  fields?: Record<string, unknown>;
+}
+
+function createLogger(entries: LogEntry[]): Logger {
+  const log =
+    (level: string) =>
+    (message: string, fields?: Record<string, unknown>): void => {
+      entries.push({ level, message, ...(fields !== undefined && { fields }) });
+    };
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+}
+
+function createRecorder(
+  operations: Array<{ context: OperationContext; result: OperationResult }>
+): Instrumentation {
+  return {
+    startOperation: (context) => ({
+      end: (result): void => {
+        operations.push({ context, result });
+      },
+    }),
+  };
+}
+
+class QueueStub {
+  attempts = 0;
+
+  async send(queueUrl: string, failures: number): Promise<string> {
+    this.attempts++;
+    if (this.attempts <= failures) {
+      throw new ServiceUnavailableError('queue');
+    }
+    return `sent to ${queueUrl}`;
+  }
+
+  async sendWithInnerRetry(queueUrl: string): Promise<string> {
+    return withRetry(() => this.send(queueUrl, 1), { baseDelayMs: 1 });
+  }
+
+  count(): number {
+    return this.attempts;
+  }
+}
+
+class QueueStubFactory extends BaseProviderFactory<QueueStub> {
+  protected readonly serviceType = 'QueueClient';
+
+  protected createAwsService(): QueueStub {
+    return new QueueStub();
+  }
+  protected createAzureService(): QueueStub {
+    return new QueueStub();
+  }
+  protected createMockService(): QueueStub {
+    return new QueueStub();
+  }
+}
+
+describe('withInstrumentation', () => {
+  let operations: Array<{ context: OperationContext; result: OperationResult }>;
+
+  beforeEach(() => {
+    operations = [];
+    resetCircuitBreakers();
+  });
+
+  test('should report one operation per call with retries from the resilience policy', async () => {
+    const queue = new QueueStubFactory().create({
+      provider: ProviderType.AWS,
+      region: 'us-east-1',
+      options: {
+        instrumentation: createRecorder(operations),
+        resilience: {
+          retry: { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 1 },
+          retryOperations: ['send'],
+        },
+      },
+    });
+
+    expect(await queue.send('orders', 2)).toBe('sent to orders');
+    expect(queue.count()).toBe(3);
+
+    expect(operations).toHaveLength(1);
+    expect(operations[0]?.context).toEqual({
+      service: 'AwsQueueClient',
+      operation: 'send',
+      provider: ProviderType.AWS,
+      resource: 'orders',
+    });
+    expect(operations[0]?.result).toMatchObject({
+      outcome: OperationOutcome.SUCCESS,
+      retryCount: 2,
+    });
+  });
+
+  test('should count retries made inside the implementation', async () => {
+    const queue = new QueueStubFactory().create({
+      provider: ProviderType.MOCK,
+      options: { instrumentation: createRecorder(operations) },
+    });
+
+    await queue.sendWithInnerRetry('orders');
+
+    expect(operations[0]?.result.retryCount).toBe(1);
+  });
+
+  test('should report failures with the error', async () => {
+    const queue = withInstrumentation(
+      new QueueStub(),
+      {
+        provider: ProviderType.MOCK,
+        options: { instrumentation: [createRecorder(operations), createRecorder(operations)] },
+      },
+      'QueueClient'
+    );
+
+    await expect(queue.send('orders', 1)).rejects.toThrow(ServiceUnavailableError);
+
+    expect(operations).toHaveLength(2);
+    expect(operations[0]?.result.outcome).toBe(OperationOutcome.ERROR);
+    expect(operations[0]?.result.error).toBeInstanceOf(ServiceUnavailableError);
+  });
+
+  test('should not fail calls when instrumentation throws', async () => {
+    const entries: LogEntry[] = [];
+    const queue = withInstrumentation(
+      new QueueStub(),
+      {
+        provider: ProviderType.MOCK,
+        options: {
+          logger: createLogger(entries),
+          instrumentation: {
+            startOperation: () => ({
+              end: (): void => {
+                throw new Error('exporter down');
+              },
+            }),
+          },
+        },
+      },
+      'QueueClient'
+    );
+
+    expect(await queue.send('orders', 0)).toBe('sent to orders');
+    expect(entries[0]?.level).toBe('warn');
+  });
+
+  test('should never record arguments of auth operations', async () => {
+    const auth = withInstrumentation(
+      { validateToken: async (token: string) => token.length > 0 },
+      { provider: ProviderType.MOCK, options: { instrumentation: createRecorder(operations) } },
+      'AuthClient'
+    );
+
+    await auth.validateToken('eyJhbGciOi.SECRET.TOKEN');
+
+    expect(operations[0]?.context).toEqual({
+      service: 'MockAuthClient',
+      operation: 'validateToken',
+      provider: ProviderType.MOCK,
+    });
+  });
+
+  test('should only record known resource parameters', async () => {
+    const queue = withInstrumentation(
+      new QueueStub(),
+      { provider: ProviderType.MOCK, options: { instrumentation: createRecorder(operations) } },
+      'QueueClient'
+    );
+
+    await queue.sendWithInnerRetry('orders');
+
+    expect(operations[0]?.context.resource).toBeUndefined();
+  });
+
+  test('should record the queue of queue updates', async () => {
+    const queues = withInstrumentation(
+      new MockQueueService(),
+      { provider: ProviderType.MOCK, options: { instrumentation: createRecorder(operations) } },
+      'QueueService'
+    );
+    const queue = await queues.createQueue('orders');
+
+    await queues.updateQueue(queue.url, { visibilityTimeout: 60 });
+
+    expect(operations[1]?.context).toMatchObject({
+      operation: 'updateQueue',
+      resource: queue.url,
+    });
+  });
+
+  test('should reject invalid options', () => {
+    expect(() =>
+      getInstrumentation({ provider: ProviderType.AWS, options: { instrumentation: {} } })
+    ).toThrow(ValidationError);
+    expect(() =>
+      getLogger({ provider: ProviderType.AWS, options: { logger: console.log } })
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('consoleLogger', () => {
+  function spyOnConsole(): Record<
+    'debug' | 'info' | 'warn' | 'error',
+    Mock<(...data: unknown[]) => void>
+  > {
+    return {
+      debug: spyOn(console, 'debug').mockImplementation(() => undefined),
+      info: spyOn(console, 'info').mockImplementation(() => undefined),
+      warn: spyOn(console, 'warn').mockImplementation(() => undefined),
+      error: spyOn(console, 'error').mockImplementation(() => undefined),
+    };
+  }
+
+  test('should write warnings and errors and drop debug and info messages', () => {
+    const spies = spyOnConsole();
+
+    try {
+      consoleLogger.debug('debug');
+      consoleLogger.info('info', { version: 1 });
+      consoleLogger.warn('warn', { region: 'us-east-1' });
+      consoleLogger.error('error');
+
+      expect(spies.debug).not.toHaveBeenCalled();
+      expect(spies.info).not.toHaveBeenCalled();
+      expect(spies.warn).toHaveBeenCalledWith('warn', { region: 'us-east-1' });
+      expect(spies.error).toHaveBeenCalledWith('error');
+    } finally {
+      Object.values(spies).forEach((spy) => spy.mockRestore());
+    }
+  });
+
+  test('should write messages at the configured level and above', () => {
+    const spies = spyOnConsole();
+
+    try {
+      const logger = getLogger({ provider: ProviderType.MOCK, options: { logLevel: 'info' } });
+      logger.debug('debug');
+      logger.info('applied migration', { version: 1 });
+      createConsoleLogger('debug').debug('debug');
+      createConsoleLogger('error').warn('warn');
+
+      expect(spies.info).toHaveBeenCalledWith('applied migration', { version: 1 });
+      expect(spies.debug).toHaveBeenCalledTimes(1);
+      expect(spies.warn).not.toHaveBeenCalled();
+    } finally {
+      Object.values(spies).forEach((spy) => spy.mockRestore());
+    }
+  });
+
+  test('should reject unknown log levels', () => {
+    expect(() =>
+      getLogger({ provider: ProviderType.MOCK, options: { logLevel: 'verbose' } })
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('LoggingInstrumentation', () => {
+  test('should log successes at debug and failures at warn', () => {
+    const entries: LogEntry[] = [];
+    const instrumentation = new LoggingInstrumentation(createLogger(entries));
+    const context = { service: 'AwsQueueClient', operation: 'send', provider: ProviderType.AWS };
+
+    instrumentation
+      .startOperation(context)
+      .end({ outcome: OperationOutcome.SUCCESS, durationMs: 3, retryCount: 0 });
+    instrumentation.startOperation(context).end({
+      outcome: OperationOutcome.ERROR,
+      durationMs: 5,
+      retryCount: 2,
+      error: new Error('throttled'),
+    });
+
+    expect(entries.map((entry) => entry.level)).toEqual(['debug', 'warn']);
+    expect(entries[1]).toEqual({
+      level: 'warn',
+      message: 'AwsQueueClient.send error',
+      fields: { ...context, outcome: 'error', durationMs: 5, retryCount: 2, error: 'throttled' },
+    });
+  });
+});
+
+describe('validateProviderConfig', () => {
+  test('should send the missing region warning to the configured logger', () => {
+    const entries: LogEntry[] = [];
+
+    validateProviderConfig({
+      provider: ProviderType.AWS,
+      options: { logger: createLogger(entries) },
+    });
+
+    expect(entries).toEqual([
+      {
+        level: 'warn',
+        message: 'No region specified for provider aws. Using provider defaults.',
+        fields: { provider: ProviderType.AWS },
+      },
+    ]);
+  });
+});
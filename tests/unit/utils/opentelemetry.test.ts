@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the OpenTelemetry adapter
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  OpenTelemetryInstrumentation,
+  type OtelMeter,
+  type OtelSpan,
+  type OtelTracer,
+} from '../../../src/utils/opentelemetry';
+import { ProviderType } from '../../../src/core/types/common';
+import { OperationOutcome } from '../../../src/core/types/observability';
+
+interface RecordedSpan {
+  name: string;
+  options?: { kind?: number; attributes?: Record<string, unknown> };
+  attributes: Record<string, unknown>;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+function createTracer(spans: RecordedSpan[]): OtelTracer {
+  return {
+    startSpan: (name, options): OtelSpan => {
+      const recorded: RecordedSpan = {
+        name,
+        ...(options !== undefined && { options }),
+        attributes: {},
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      return {
+        setAttribute: (key, value) => (recorded.attributes[key] = value),
+        setStatus: (status) => (recorded.status = status),
+        recordException: (exception) => {
+          recorded.exceptions.push(exception);
+        },
+        end: () => {
+          recorded.ended = true;
+        },
+      };
+    },
+  };
+}
+
+function createMeter(
+  records: Array<[string, number, Record<string, unknown> | undefined]>
+): OtelMeter {
+  return {
+    createHistogram: (name) => ({
+      record: (value, attributes) => {
+        records.push([name, value, attributes]);
+      },
+    }),
+    createCounter: (name) => ({
+      add: (value, attributes) => {
+        records.push([name, value, attributes]);
+      },
+    }),
+  };
+}
+
+describe('OpenTelemetryInstrumentation', () => {
+  const context = {
+    service: 'AwsSecretsClient',
+    operation: 'get',
+    provider: ProviderType.AWS,
+    resource: 'db-password',
+  };
+
+  test('should record a client span with operation attributes', () => {
+    const spans: RecordedSpan[] = [];
+    const instrumentation = new OpenTelemetryInstrumentation(createTracer(spans));
+
+    instrumentation
+      .startOperation(context)
+      .end({ outcome: OperationOutcome.SUCCESS, durationMs: 4, retryCount: 1 });
+
+    expect(spans).toEqual([
+      {
+        name: 'AwsSecretsClient.get',
+        options: {
+          kind: 2,
+          attributes: {
+            'lcplatform.provider': 'aws',
+            'lcplatform.service': 'AwsSecretsClient',
+            'lcplatform.operation': 'get',
+            'lcplatform.resource': 'db-password',
+          },
+        },
+        attributes: { 'lcplatform.outcome': 'success', 'lcplatform.retry_count': 1 },
+        status: { code: 1 },
+        exceptions: [],
+        ended: true,
+      },
+    ]);
+  });
+
+  test('should record errors on the span and in metrics', () => {
+    const spans: RecordedSpan[] = [];
+    const records: Array<[string, number, Record<string, unknown> | undefined]> = [];
+    const instrumentation = new OpenTelemetryInstrumentation(
+      createTracer(spans),
+      createMeter(records)
+    );
+    const error = new Error('access denied');
+
+    instrumentation
+      .startOperation(context)
+      .end({ outcome: OperationOutcome.ERROR, durationMs: 12, retryCount: 2, error });
+
+    expect(spans[0]?.status).toEqual({ code: 2, message: 'access denied' });
+    expect(spans[0]?.exceptions).toEqual([error]);
+    const attributes = {
+      'lcplatform.provider': 'aws',
+      'lcplatform.service': 'AwsSecretsClient',
+      'lcplatform.operation': 'get',
+      'lcplatform.outcome': 'error',
+    };
+    expect(records).toEqual([
+      ['lcplatform.operation.duration', 12, attributes],
+      ['lcplatform.operation.errors', 1, attributes],
+      ['lcplatform.operation.retries', 2, attributes],
+    ]);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Unit tests for QueueConsumer
+ *
+ * Runs against MockQueueClient and against AwsQueueClient with a mocked SQS SDK client.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { QueueConsumer } from '../../../src/utils/queueConsumer';
+import { MockQueueClient } from '../../../src/providers/mock/clients/MockQueueClient';
+import { AwsQueueClient } from '../../../src/providers/aws/clients/AwsQueueClient';
+import { ProviderType, ValidationError } from '../../../src/core/types/common';
+import type { QueueClient } from '../../../src/core/clients/QueueClient';
+import type { ReceivedMessage } from '../../../src/core/types/queue';
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const fastOptions = {
+  waitTimeSeconds: 0,
+  idleDelayMs: 5,
+  acknowledgeIntervalMs: 5,
+  retryDelaySeconds: 0,
+};
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await sleep(5);
+  }
+}
+
+/**
+ * Records calls made by the consumer while delegating to a real client
+ */
+function recordCalls(client: QueueClient): { calls: string[]; batches: string[][] } {
+  const calls: string[] = [];
+  const batches: string[][] = [];
+  const acknowledgeBatch = client.acknowledgeBatch.bind(client);
+  const changeVisibility = client.changeVisibility.bind(client);
+  client.acknowledgeBatch = async (queueName, handles) => {
+    batches.push(handles);
+    return acknowledgeBatch(queueName, handles);
+  };
+  client.changeVisibility = async (queueName, handle, timeout) => {
+    calls.push(`changeVisibility:${timeout}`);
+    return changeVisibility(queueName, handle, timeout);
+  };
+  return { calls, batches };
+}
+
+describe('QueueConsumer with MockQueueClient', () => {
+  let client: MockQueueClient;
+  let consumer: QueueConsumer | undefined;
+
+  beforeEach(() => {
+    client = new MockQueueClient();
+    client.createTestQueue('orders');
+  });
+
+  afterEach(async () => {
+    await consumer?.stop({ timeoutMs: 100 });
+    consumer = undefined;
+  });
+
+  test('should handle every message and acknowledge in batches', async () => {
+    const { batches } = recordCalls(client);
+    for (let i = 0; i < 12; i++) {
+      await client.send('orders', { orderId: i });
+    }
+    const handled: unknown[] = [];
+
+    consumer = new QueueConsumer(
+      client,
+      'orders',
+      (message) => {
+        handled.push((message.body as { orderId: number }).orderId);
+      },
+      { ...fastOptions, concurrency: 12, acknowledgeBatchSize: 5 }
+    );
+    consumer.start();
+    await waitFor(() => consumer?.getStats().acknowledged === 12);
+
+    expect(handled.sort((a, b) => Number(a) - Number(b))).toEqual([
+      0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11,
+    ]);
+    expect(batches.map((batch) => batch.length)).toEqual([5, 5, 2]);
+    expect(await client.receive('orders', { maxMessages: 10 })).toEqual([]);
+  });
+
+  test('should not run more handlers than the concurrency limit', async () => {
+    for (let i = 0; i < 6; i++) {
+      await client.send('orders', i);
+    }
+    let running = 0;
+    let peak = 0;
+
+    consumer = new QueueConsumer(
+      client,
+      'orders',
+      async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await sleep(20);
+        running--;
+      },
+      { ...fastOptions, concurrency: 2 }
+    );
+    consumer.start();
+    await waitFor(() => consumer?.getStats().succeeded === 6);
+
+    expect(peak).toBe(2);
+  });
+
+  test('should retry failed messages with backoff', async () => {
+    const { calls } = recordCalls(client);
+    await client.send('orders', 'flaky');
+    const errors: Array<[string, ReceivedMessage | undefined]> = [];
+    let attempts = 0;
+
+    consumer = new QueueConsumer(
+      client,
+      'orders',
+      () => {
+        attempts++;
+        if (attempts < 3) {
+          throw new Error(`attempt ${attempts} failed`);
+        }
+      },
+      {
+        ...fastOptions,
+        retryDelaySeconds: 0.001,
+        onError: (error, message) => errors.push([error.message, message]),
+      }
+    );
+    consumer.start();
+
+    // Delays are rounded up to whole seconds, so each failure hides the message for a second
+    await waitFor(() => consumer?.getStats().acknowledged === 1, 4000);
+
+    expect(attempts).toBe(3);
+    expect(calls).toEqual(['changeVisibility:1', 'changeVisibility:1']);
+    expect(errors.map(([message]) => message)).toEqual(['attempt 1 failed', 'attempt 2 failed']);
+    expect(errors[0]?.[1]?.body).toBe('flaky');
+    expect(consumer.getStats()).toMatchObject({ received: 3, failed: 2, succeeded: 1 });
+  });
+
+  test('should extend visibility while a handler is running', async () => {
+    const { calls } = recordCalls(client);
+    await client.send('orders', 'slow');
+
+    consumer = new QueueConsumer(client, 'orders', () => sleep(1200), {
+      ...fastOptions,
+      visibilityTimeout: 1,
+    });
+    consumer.start();
+    await waitFor(() => consumer?.getStats().acknowledged === 1);
+
+    expect(calls.length).toBeGreaterThanOrEqual(2);
+    expect(calls.every((call) => call === 'changeVisibility:1')).toBe(true);
+  });
+
+  test('should wait for running handlers when stopping', async () => {
+    await client.send('orders', 'in-flight');
+    let finished = false;
+
+    consumer = new QueueConsumer(
+      client,
+      'orders',
+      async () => {
+        await sleep(50);
+        finished = true;
+      },
+      fastOptions
+    );
+    consumer.start();
+    await waitFor(() => consumer?.getStats().inFlight === 1);
+    await consumer.stop();
+
+    expect(finished).toBe(true);
+    expect(consumer.isRunning()).toBe(false);
+    expect(consumer.getStats()).toMatchObject({ acknowledged: 1, inFlight: 0 });
+  });
+
+  test('should leave unfinished messages unacknowledged after the stop timeout', async () => {
+    await client.send('orders', 'stuck');
+
+    consumer = new QueueConsumer(client, 'orders', () => sleep(200), fastOptions);
+    consumer.start();
+    await waitFor(() => consumer?.getStats().inFlight === 1);
+    await consumer.stop({ timeoutMs: 10 });
+    await sleep(250);
+
+    expect(consumer.getStats()).toMatchObject({ succeeded: 1, acknowledged: 0 });
+  });
+
+  test('should back off after receive errors', async () => {
+    const errors: string[] = [];
+    let receives = 0;
+    client.receive = async () => {
+      receives++;
+      throw new Error('receive failed');
+    };
+
+    consumer = new QueueConsumer(client, 'orders', () => undefined, {
+      ...fastOptions,
+      retryDelaySeconds: 1,
+      onError: (error) => errors.push(error.message),
+    });
+    consumer.start();
+    await sleep(100);
+
+    expect(receives).toBe(1);
+    expect(errors).toEqual(['receive failed']);
+  });
+
+  test('should validate options', () => {
+    expect(() => new QueueConsumer(client, '', () => undefined)).toThrow(ValidationError);
+    expect(() => new QueueConsumer(client, 'orders', () => undefined, { concurrency: 0 })).toThrow(
+      ValidationError
+    );
+    expect(
+      () => new QueueConsumer(client, 'orders', () => undefined, { acknowledgeBatchSize: 11 })
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('QueueConsumer with AwsQueueClient', () => {
+  type SentCommand = { constructor: { name: string }; input: Record<string, unknown> };
+  let sent: SentCommand[];
+  let pending: string[];
+  let sendSpy: { mockRestore: () => void };
+
+  beforeEach(() => {
+    sent = [];
+    pending = ['first', 'second'];
+    sendSpy = spyOn(SQSClient.prototype, 'send').mockImplementation(((command: SentCommand) => {
+      sent.push(command);
+      switch (command.constructor.name) {
+        case 'GetQueueUrlCommand':
+          return Promise.resolve({ QueueUrl: 'https://sqs.us-east-1.amazonaws.com/1/orders' });
+        case 'ReceiveMessageCommand': {
+          const bodies = pending.splice(0, Number(command.input.MaxNumberOfMessages));
+          return Promise.resolve({
+            Messages: bodies.map((body) => ({
+              MessageId: body,
+              ReceiptHandle: `handle-${body}`,
+              Body: JSON.stringify({ body }),
+              Attributes: { SentTimestamp: '0', ApproximateReceiveCount: '1' },
+            })),
+          });
+        }
+        default:
+          return Promise.resolve({});
+      }
+    }) as never);
+  });
+
+  afterEach(() => {
+    sendSpy.mockRestore();
+  });
+
+  test('should receive with long polling and acknowledge with DeleteMessageBatch', async () => {
+    const client = new AwsQueueClient({ provider: ProviderType.AWS, region: 'us-east-1' });
+    const handled: unknown[] = [];
+    const consumer = new QueueConsumer(
+      client,
+      'orders',
+      (message) => {
+        handled.push(message.body);
+      },
+      { ...fastOptions, waitTimeSeconds: 20, concurrency: 2, visibilityTimeout: 45 }
+    );
+
+    consumer.start();
+    await waitFor(() => consumer.getStats().acknowledged === 2);
+    await consumer.stop();
+
+    const receive = sent.find((command) => command.constructor.name === 'ReceiveMessageCommand');
+    expect(receive?.input).toMatchObject({
+      MaxNumberOfMessages: 2,
+      WaitTimeSeconds: 20,
+      VisibilityTimeout: 45,
+    });
+    const deletes = sent.filter(
+      (command) => command.constructor.name === 'DeleteMessageBatchCommand'
+    );
+    expect(deletes.flatMap((command) => command.input.Entries)).toEqual([
+      { Id: '0', ReceiptHandle: 'handle-first' },
+      { Id: '1', ReceiptHandle: 'handle-second' },
+    ]);
+    expect(handled).toHaveLength(2);
+  });
+});
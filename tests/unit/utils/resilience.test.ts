@@ -0,0 +1,301 @@
+/**
+ * Unit tests for the resilience layer
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import {
+  CircuitBreaker,
+  CircuitState,
+  ResiliencePolicy,
+  getResilienceOptions,
+  resetCircuitBreakers,
+  withResilience,
+} from '../../../src/utils/resilience';
+import { withRetry } from '../../../src/utils/retry';
+import {
+  CircuitOpenError,
+  OperationTimeoutError,
+  ProviderType,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../../src/core/types/common';
+import { BaseProviderFactory } from '../../../src/factory/ProviderFactory';
+
+const fastRetry = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+function failingTimes(count: number, error: () => Error): () => Promise<string> {
+  let calls = 0;
+  return async () => {
+    calls++;
+    if (calls <= count) {
+      throw error();
+    }
+    return `ok after ${calls}`;
+  };
+}
+
+describe('ResiliencePolicy', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  test('should retry retryable errors', async () => {
+    const policy = new ResiliencePolicy('svc', { retry: fastRetry });
+
+    const result = await policy.execute(
+      'getItem',
+      failingTimes(2, () => new ServiceUnavailableError('svc'))
+    );
+
+    expect(result).toBe('ok after 3');
+  });
+
+  test('should make one attempt for writes that are not idempotent', async () => {
+    const policy = new ResiliencePolicy('svc', { retry: fastRetry });
+
+    await expect(
+      policy.execute(
+        'send',
+        failingTimes(1, () => new ServiceUnavailableError('svc'))
+      )
+    ).rejects.toThrow(ServiceUnavailableError);
+    expect(
+      await policy.execute(
+        'deleteItem',
+        failingTimes(1, () => new ServiceUnavailableError('svc'))
+      )
+    ).toBe('ok after 2');
+  });
+
+  test('should retry operations listed in retryOperations', async () => {
+    const policy = new ResiliencePolicy('svc', { retry: fastRetry, retryOperations: ['send'] });
+
+    expect(
+      await policy.execute(
+        'send',
+        failingTimes(1, () => new ServiceUnavailableError('svc'))
+      )
+    ).toBe('ok after 2');
+  });
+
+  test('should retry reads but not writes after a timeout', async () => {
+    const policy = new ResiliencePolicy('svc', {
+      retry: fastRetry,
+      timeoutMs: 5,
+      retryOperations: ['send'],
+    });
+    const slowOnce = (): (() => Promise<string>) => {
+      let calls = 0;
+      return () => {
+        const call = ++calls;
+        return new Promise((resolve) =>
+          setTimeout(() => resolve(`call ${call}`), call === 1 ? 50 : 0)
+        );
+      };
+    };
+
+    expect(await policy.execute('getItem', slowOnce())).toBe('call 2');
+
+    let sends = 0;
+    const send = slowOnce();
+    const error = await policy
+      .execute('send', () => {
+        sends++;
+        return send();
+      })
+      .catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(OperationTimeoutError);
+    expect((error as OperationTimeoutError).retryable).toBe(false);
+    expect(sends).toBe(1);
+  });
+
+  test('should not retry errors marked as not retryable', async () => {
+    const policy = new ResiliencePolicy('svc', { retry: fastRetry });
+    let calls = 0;
+
+    await expect(
+      policy.execute('getItem', async () => {
+        calls++;
+        throw new ValidationError('bad input');
+      })
+    ).rejects.toThrow(ValidationError);
+    expect(calls).toBe(1);
+  });
+
+  test('should make a single attempt for nested withRetry calls', async () => {
+    const policy = new ResiliencePolicy('svc', { retry: fastRetry });
+    let calls = 0;
+
+    await expect(
+      policy.execute('getItem', () =>
+        withRetry(
+          async () => {
+            calls++;
+            throw new ServiceUnavailableError('svc');
+          },
+          { baseDelayMs: 1 }
+        )
+      )
+    ).rejects.toThrow(ServiceUnavailableError);
+    expect(calls).toBe(3);
+  });
+
+  test('should apply per-operation timeouts', async () => {
+    const policy = new ResiliencePolicy('svc', {
+      retry: false,
+      timeoutMs: 1000,
+      operationTimeouts: { slow: 5 },
+    });
+
+    await expect(
+      policy.execute('slow', () => new Promise((resolve) => setTimeout(resolve, 50)))
+    ).rejects.toThrow(OperationTimeoutError);
+    expect(await policy.execute('fast', async () => 'done')).toBe('done');
+  });
+
+  test('should open the shared circuit after repeated transient failures', async () => {
+    const options = { retry: false as const, circuitBreaker: { failureThreshold: 2 } };
+    const first = new ResiliencePolicy('svc:us-east-1', options);
+    const second = new ResiliencePolicy('svc:us-east-1', options);
+    const fail = async (): Promise<never> => {
+      throw new ServiceUnavailableError('svc');
+    };
+
+    await expect(first.execute('op', fail)).rejects.toThrow(ServiceUnavailableError);
+    await expect(second.execute('op', fail)).rejects.toThrow(ServiceUnavailableError);
+    await expect(first.execute('op', async () => 'ok')).rejects.toThrow(CircuitOpenError);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const transient = (): boolean => true;
+  const fail = async (): Promise<never> => {
+    throw new Error('ECONNRESET');
+  };
+
+  test('should allow one trial call after the reset timeout', async () => {
+    const breaker = new CircuitBreaker('svc', { failureThreshold: 1, resetTimeoutMs: 10 });
+
+    await expect(breaker.execute(fail, transient)).rejects.toThrow('ECONNRESET');
+    expect(breaker.state).toBe(CircuitState.OPEN);
+
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    expect(breaker.state).toBe(CircuitState.HALF_OPEN);
+
+    expect(await breaker.execute(async () => 'ok', transient)).toBe('ok');
+    expect(breaker.state).toBe(CircuitState.CLOSED);
+  });
+
+  test('should reopen when the trial call fails', async () => {
+    const breaker = new CircuitBreaker('svc', { failureThreshold: 3, resetTimeoutMs: 10 });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail, transient)).rejects.toThrow('ECONNRESET');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    await expect(breaker.execute(fail, transient)).rejects.toThrow('ECONNRESET');
+
+    expect(breaker.state).toBe(CircuitState.OPEN);
+  });
+
+  test('should not count non-transient errors as failures', async () => {
+    const breaker = new CircuitBreaker('svc', { failureThreshold: 1 });
+
+    await expect(breaker.execute(fail, () => false)).rejects.toThrow('ECONNRESET');
+
+    expect(breaker.state).toBe(CircuitState.CLOSED);
+  });
+});
+
+describe('withResilience', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  test('should read options and skip the mock provider unless configured', () => {
+    expect(getResilienceOptions({ provider: ProviderType.AWS })).toEqual({});
+    expect(getResilienceOptions({ provider: ProviderType.MOCK })).toBeUndefined();
+    expect(
+      getResilienceOptions({ provider: ProviderType.AWS, options: { resilience: false } })
+    ).toBeUndefined();
+    expect(() =>
+      getResilienceOptions({ provider: ProviderType.AWS, options: { resilience: 'on' } })
+    ).toThrow(ValidationError);
+  });
+
+  test('should wrap async methods of factory-created services', async () => {
+    class FlakyService {
+      calls = 0;
+      async getStatus(): Promise<string> {
+        this.calls++;
+        if (this.calls < 3) {
+          throw new ServiceUnavailableError('flaky');
+        }
+        return 'ok';
+      }
+    }
+    class FlakyServiceFactory extends BaseProviderFactory<FlakyService> {
+      protected readonly serviceType = 'FlakyService';
+
+      protected createAwsService(): FlakyService {
+        return new FlakyService();
+      }
+      protected createAzureService(): FlakyService {
+        return new FlakyService();
+      }
+      protected createMockService(): FlakyService {
+        return new FlakyService();
+      }
+    }
+    const factory = new FlakyServiceFactory();
+
+    const service = factory.create({
+      provider: ProviderType.AWS,
+      options: { resilience: { retry: fastRetry } },
+    });
+    expect(service).toBeInstanceOf(FlakyService);
+    expect(await service.getStatus()).toBe('ok');
+    expect(service.calls).toBe(3);
+
+    const unwrapped = factory.create({ provider: ProviderType.MOCK });
+    await expect(unwrapped.getStatus()).rejects.toThrow(ServiceUnavailableError);
+  });
+
+  test('should share circuit breakers by service type rather than class name', async () => {
+    // Minified bundles can give unrelated classes the same name
+    const createService = (): { call: () => Promise<void> } => ({
+      call: async (): Promise<void> => {
+        throw new ServiceUnavailableError('down');
+      },
+    });
+    const config = {
+      provider: ProviderType.AWS,
+      region: 'us-east-1',
+      options: { resilience: { retry: false, circuitBreaker: { failureThreshold: 1 } } },
+    };
+    const queue = withResilience(createService(), config, 'QueueClient');
+    const secrets = withResilience(createService(), config, 'SecretsClient');
+    const otherQueue = withResilience(createService(), config, 'QueueClient');
+
+    await expect(queue.call()).rejects.toThrow(ServiceUnavailableError);
+
+    await expect(otherQueue.call()).rejects.toThrow(CircuitOpenError);
+    await expect(secrets.call()).rejects.toThrow(ServiceUnavailableError);
+  });
+
+  test('should leave synchronous and underscore-prefixed methods untouched', () => {
+    class Service {
+      count = 0;
+      sync(): number {
+        return ++this.count;
+      }
+      async _internal(): Promise<number> {
+        return ++this.count;
+      }
+    }
+    const service = withResilience(new Service(), { provider: ProviderType.AWS }, 'Service');
+
+    expect(service.sync()).toBe(1);
+    expect(Reflect.get(service, '_internal')).toBe(Reflect.get(Service.prototype, '_internal'));
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for Semantic Version utility
+ *
+ * Tests for parsing, ordering and incrementing configuration version strings
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  compareVersions,
+  incrementVersion,
+  isSameVersion,
+  parseVersion,
+} from '../../../src/utils/semver';
+
+describe('semver', () => {
+  describe('parseVersion', () => {
+    test('should parse versions with and without prefix', () => {
+      expect(parseVersion('v1.2.3')).toEqual({ prefix: 'v', major: 1, minor: 2, patch: 3 });
+      expect(parseVersion('10.0.1-rc.1')).toEqual({
+        prefix: '',
+        major: 10,
+        minor: 0,
+        patch: 1,
+        prerelease: 'rc.1',
+      });
+    });
+
+    test('should reject non-semver strings', () => {
+      expect(parseVersion('latest')).toBeUndefined();
+      expect(parseVersion('v1.2')).toBeUndefined();
+      expect(parseVersion('v01.2.3')).toBeUndefined();
+    });
+  });
+
+  describe('compareVersions', () => {
+    test('should order numerically rather than lexicographically', () => {
+      const versions = ['v1.10.0', 'v1.9.0', 'v2.0.0', 'v1.9.10', 'v1.9.2'];
+
+      expect(versions.sort(compareVersions)).toEqual([
+        'v1.9.0',
+        'v1.9.2',
+        'v1.9.10',
+        'v1.10.0',
+        'v2.0.0',
+      ]);
+    });
+
+    test('should order pre-releases before their release', () => {
+      const versions = ['v1.0.0', 'v1.0.0-rc.10', 'v1.0.0-rc.2', 'v1.0.0-beta'];
+
+      expect(versions.sort(compareVersions)).toEqual([
+        'v1.0.0-beta',
+        'v1.0.0-rc.2',
+        'v1.0.0-rc.10',
+        'v1.0.0',
+      ]);
+    });
+
+    test('should sort non-semver strings after semver strings', () => {
+      expect(['draft', 'v1.0.0', 'archive'].sort(compareVersions)).toEqual([
+        'v1.0.0',
+        'archive',
+        'draft',
+      ]);
+    });
+  });
+
+  describe('isSameVersion', () => {
+    test('should ignore the v prefix', () => {
+      expect(isSameVersion('v1.2.0', '1.2.0')).toBe(true);
+      expect(isSameVersion('v1.2.0-rc.1', '1.2.0-rc.1')).toBe(true);
+      expect(isSameVersion('v1.2.0', '1.2.0-rc.1')).toBe(false);
+      expect(isSameVersion('draft', 'draft')).toBe(true);
+      expect(isSameVersion('draft', 'v1.2.0')).toBe(false);
+    });
+  });
+
+  describe('incrementVersion', () => {
+    test('should bump each component and keep the prefix', () => {
+      expect(incrementVersion('v1.9.3', 'major')).toBe('v2.0.0');
+      expect(incrementVersion('v1.9.3', 'minor')).toBe('v1.10.0');
+      expect(incrementVersion('1.9.3', 'patch')).toBe('1.9.4');
+    });
+
+    test('should release pre-releases whose lower components are zero', () => {
+      expect(incrementVersion('v2.0.0-rc.1', 'major')).toBe('v2.0.0');
+      expect(incrementVersion('v2.0.0-rc.1', 'minor')).toBe('v2.0.0');
+      expect(incrementVersion('v2.0.0-rc.1', 'patch')).toBe('v2.0.0');
+      expect(incrementVersion('1.2.0-beta', 'minor')).toBe('1.2.0');
+      expect(incrementVersion('1.2.3-beta', 'minor')).toBe('1.3.0');
+      expect(incrementVersion('1.2.3-beta', 'major')).toBe('2.0.0');
+    });
+
+    test('should start from v0.0.0 when there is no current version', () => {
+      expect(incrementVersion(undefined, 'major')).toBe('v1.0.0');
+      expect(incrementVersion(undefined, 'patch')).toBe('v0.0.1');
+    });
+
+    test('should throw for an invalid current version', () => {
+      expect(() => incrementVersion('latest', 'patch')).toThrow('Invalid semantic version');
+    });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Unit tests for typed queue and event channels and the built-in codecs
+ */
+
+import { describe, test, expect, beforeEach, spyOn } from 'bun:test';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { TypedEventPublisher, TypedQueue } from '../../../src/utils/typedChannels';
+import { base64Codec, gzipJsonCodec, jsonCodec } from '../../../src/utils/messageCodecs';
+import { MockQueueClient } from '../../../src/providers/mock/clients/MockQueueClient';
+import { MockEventPublisher } from '../../../src/providers/mock/clients/MockEventPublisher';
+import { AwsQueueClient } from '../../../src/providers/aws/clients/AwsQueueClient';
+import { ProviderType, ValidationError } from '../../../src/core/types/common';
+import type { MessageCodec } from '../../../src/core/types/codec';
+import type { ReceivedMessage } from '../../../src/core/types/queue';
+import type { Event } from '../../../src/core/types/event';
+
+interface Order {
+  orderId: string;
+  total: number;
+}
+
+const orderSchema = {
+  type: 'object',
+  properties: { orderId: { type: 'string' }, total: { type: 'number' } },
+  required: ['orderId', 'total'],
+};
+
+describe('codecs', () => {
+  test('should round-trip values', () => {
+    const order = { orderId: 'o-1', total: 42 };
+
+    expect(jsonCodec.decode(jsonCodec.encode(order))).toEqual(order);
+    expect(gzipJsonCodec.decode(gzipJsonCodec.encode(order))).toEqual(order);
+    expect(base64Codec.decode(base64Codec.encode(Buffer.from([0, 1, 255])))).toEqual(
+      Buffer.from([0, 1, 255])
+    );
+  });
+
+  test('should compress repetitive JSON', () => {
+    const report = { lines: Array.from({ length: 200 }, () => 'same line') };
+
+    expect(gzipJsonCodec.encode(report).length).toBeLessThan(jsonCodec.encode(report).length / 5);
+  });
+
+  test('should only encode binary data with base64Codec', () => {
+    expect(() => base64Codec.encode('text')).toThrow(ValidationError);
+  });
+});
+
+describe('TypedQueue', () => {
+  let client: MockQueueClient;
+  let orders: TypedQueue<Order>;
+  let invalid: Array<[ReceivedMessage, Error]>;
+
+  beforeEach(() => {
+    client = new MockQueueClient();
+    invalid = [];
+    orders = new TypedQueue<Order>(client, 'orders', {
+      schema: orderSchema,
+      onInvalid: (message, error) => invalid.push([message, error]),
+    });
+  });
+
+  test('should send with a content type and receive typed bodies', async () => {
+    await orders.send({ orderId: 'o-1', total: 42 }, { attributes: { source: 'web' } });
+
+    const [message] = await orders.receive();
+    expect(message?.body).toEqual({ orderId: 'o-1', total: 42 });
+    expect(message?.attributes).toEqual({ source: 'web', contentType: 'application/json' });
+  });
+
+  test('should reject messages that do not match the schema', async () => {
+    const send = orders.send({ orderId: 'o-1' } as Order);
+
+    await expect(send).rejects.toThrow(ValidationError);
+    await expect(send).rejects.toThrow('Message does not match the schema for orders');
+    expect(await client.receive('orders')).toEqual([]);
+  });
+
+  test('should not send any message of a batch with an invalid entry', async () => {
+    const batch = orders.sendBatch([{ orderId: 'o-1', total: 1 }, { orderId: 2 } as never]);
+
+    await expect(batch).rejects.toThrow(ValidationError);
+    expect(await client.receive('orders')).toEqual([]);
+  });
+
+  test('should decode batch sends with the channel codec', async () => {
+    const compressed = new TypedQueue<Order>(client, 'orders', { codec: gzipJsonCodec });
+    await compressed.sendBatch([{ orderId: 'o-1', total: 1 }]);
+
+    const [message] = await compressed.receive();
+    expect(message?.body).toEqual({ orderId: 'o-1', total: 1 });
+  });
+
+  test('should pick the codec from the content type attribute', async () => {
+    await new TypedQueue<Order>(client, 'orders', { codec: gzipJsonCodec }).send({
+      orderId: 'o-2',
+      total: 7,
+    });
+
+    const [message] = await orders.receive();
+    expect(message?.body).toEqual({ orderId: 'o-2', total: 7 });
+  });
+
+  test('should accept custom codecs', async () => {
+    const csv: MessageCodec = {
+      contentType: 'text/csv',
+      encode: (value) => `${(value as Order).orderId},${(value as Order).total}`,
+      decode: (text) => {
+        const [orderId, total] = text.split(',');
+        return { orderId, total: Number(total) };
+      },
+    };
+    await new TypedQueue<Order>(client, 'orders', { codec: csv }).send({
+      orderId: 'o-3',
+      total: 3,
+    });
+
+    await expect(orders.receive()).resolves.toEqual([]);
+    expect(invalid[0]?.[1].message).toBe('Unknown content type for orders: text/csv');
+
+    await client.changeVisibility('orders', invalid[0]![0].receiptHandle, 0);
+    const withCsv = new TypedQueue<Order>(client, 'orders', { codecs: [csv] });
+    expect((await withCsv.receive())[0]?.body).toEqual({ orderId: 'o-3', total: 3 });
+  });
+
+  test('should leave invalid messages on the queue and report them', async () => {
+    await client.send('orders', { orderId: 'o-1', total: 'free' });
+    await client.send('orders', 'not json');
+    await orders.send({ orderId: 'o-2', total: 2 });
+
+    const messages = await orders.receive({ maxMessages: 10 });
+
+    expect(messages.map((message) => message.body.orderId)).toEqual(['o-2']);
+    expect(invalid.map(([, error]) => error.message)).toEqual([
+      'Message does not match the schema for orders',
+      'Message for orders is not valid application/json',
+    ]);
+    expect(invalid.every(([, error]) => error instanceof ValidationError)).toBe(true);
+  });
+
+  test('should decode messages received through the untyped client', async () => {
+    await orders.send({ orderId: 'o-1', total: 42 });
+    const [message] = await client.receive('orders');
+
+    expect(orders.decode(message!).body).toEqual({ orderId: 'o-1', total: 42 });
+    expect(() => orders.decode({ ...message!, body: { orderId: 1 } })).toThrow(ValidationError);
+  });
+
+  test('should decode bodies received through the AWS client', async () => {
+    const sent: Array<{ MessageBody: string; MessageAttributes: unknown }> = [];
+    const sqs = spyOn(SQSClient.prototype, 'send').mockImplementation(((command: {
+      constructor: { name: string };
+      input: { MessageBody: string; MessageAttributes: unknown };
+    }) => {
+      switch (command.constructor.name) {
+        case 'GetQueueUrlCommand':
+          return Promise.resolve({ QueueUrl: 'https://sqs.test/orders' });
+        case 'SendMessageCommand':
+          sent.push(command.input);
+          return Promise.resolve({ MessageId: `m-${sent.length}` });
+        default:
+          return Promise.resolve({
+            Messages: sent.map((message, index) => ({
+              MessageId: `m-${index + 1}`,
+              ReceiptHandle: `r-${index + 1}`,
+              Body: message.MessageBody,
+              MessageAttributes: message.MessageAttributes,
+            })),
+          });
+      }
+    }) as never);
+    const values = new TypedQueue<unknown>(
+      new AwsQueueClient({ provider: ProviderType.AWS, region: 'us-east-1' }),
+      'orders'
+    );
+
+    try {
+      for (const value of ['hello', '42', 42, { orderId: 'o-1', total: 42 }]) {
+        await values.send(value);
+      }
+
+      const messages = await values.receive({ maxMessages: 10 });
+      expect(messages.map((message) => message.body)).toEqual([
+        'hello',
+        '42',
+        42,
+        { orderId: 'o-1', total: 42 },
+      ]);
+    } finally {
+      sqs.mockRestore();
+    }
+  });
+
+  test('should acknowledge through the queue client', async () => {
+    await orders.send({ orderId: 'o-1', total: 42 });
+    const [message] = await orders.receive();
+
+    await orders.acknowledge(message!.receiptHandle);
+    await orders.changeVisibility(message!.receiptHandle, 0);
+
+    expect(await orders.receive()).toEqual([]);
+  });
+});
+
+describe('TypedEventPublisher', () => {
+  let events: MockEventPublisher;
+
+  beforeEach(() => {
+    events = new MockEventPublisher();
+  });
+
+  test('should publish JSON objects as event data', async () => {
+    const placed = new TypedEventPublisher<Order>(events, 'shop', 'orders', 'order.placed', {
+      schema: orderSchema,
+    });
+
+    await placed.publish({ orderId: 'o-1', total: 42 }, { tenant: 'acme' });
+
+    const [event] = events.getPublishedEvents('shop');
+    expect(event).toMatchObject({
+      source: 'orders',
+      type: 'order.placed',
+      data: { orderId: 'o-1', total: 42 },
+      metadata: { tenant: 'acme', contentType: 'application/json' },
+    });
+    expect(placed.decode(event!)).toEqual({ orderId: 'o-1', total: 42 });
+  });
+
+  test('should wrap values encoded with other codecs', async () => {
+    const placed = new TypedEventPublisher<Order>(events, 'shop', 'orders', 'order.placed', {
+      schema: orderSchema,
+      codec: gzipJsonCodec,
+    });
+
+    await placed.publishBatch([{ orderId: 'o-1', total: 1 }]);
+
+    const [event] = events.getPublishedEvents('shop');
+    expect(Object.keys(event!.data)).toEqual(['lcpEncoded']);
+    expect(placed.decode(event!)).toEqual({ orderId: 'o-1', total: 1 });
+  });
+
+  test('should reject data that does not match the schema', async () => {
+    const placed = new TypedEventPublisher<Order>(events, 'shop', 'orders', 'order.placed', {
+      schema: orderSchema,
+    });
+
+    await expect(placed.publish({ total: 1 } as Order)).rejects.toThrow(
+      'Message does not match the schema for orders/order.placed'
+    );
+    expect(events.getPublishedEvents('shop')).toEqual([]);
+  });
+
+  test('should reject event data that is not an object', () => {
+    const placed = new TypedEventPublisher<Order>(events, 'shop', 'orders', 'order.placed', {
+      schema: orderSchema,
+    });
+
+    for (const data of [null, 'order', 42, [{ orderId: 'o-1', total: 1 }]]) {
+      const event = { source: 'orders', type: 'order.placed', data } as unknown as Event;
+      expect(() => placed.decode(event)).toThrow(ValidationError);
+    }
+  });
+});
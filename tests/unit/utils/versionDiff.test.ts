@@ -0,0 +1,151 @@
+/**
+ * Unit tests for Version Diff
+ *
+ * Tests for structured comparison of persisted application versions
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { diffFields, diffVersions } from '../../../src/utils/versionDiff';
+import type { ApplicationVersion } from '../../../src/core/types/application';
+import { PlatformType, Environment } from '../../../src/core/types/application';
+import type { ApplicationDependency } from '../../../src/core/types/dependency';
+import { DependencyStatus, DependencyType } from '../../../src/core/types/dependency';
+
+function makeQueueDep(
+  name: string,
+  visibilityTimeout: number,
+  overrides: Partial<ApplicationDependency> = {}
+): ApplicationDependency {
+  return {
+    id: `dep-${name}`,
+    name,
+    type: DependencyType.QUEUE,
+    status: DependencyStatus.PENDING,
+    configuration: {
+      type: 'queue',
+      fifo: false,
+      visibilityTimeout,
+      messageRetention: 3600,
+      encryption: true,
+    },
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function makeVersion(version: string, dependencies: ApplicationDependency[]): ApplicationVersion {
+  return {
+    version,
+    appId: 'app-12345678',
+    appConfig: {
+      name: 'Test App',
+      team: 'platform',
+      moniker: 'testapp',
+      ciAppId: 'APP-001',
+      platformType: PlatformType.WEB,
+      environment: Environment.DEVELOPMENT,
+      supportEmail: 'support@test.com',
+      ownerEmail: 'owner@test.com',
+    },
+    dependencies,
+    storagePath: `lcp-123456-platform-testapp/versions/${version}`,
+    createdAt: new Date(),
+    createdBy: 'admin',
+    changeLog: '',
+  };
+}
+
+describe('versionDiff', () => {
+  describe('diffFields', () => {
+    test('should report nested leaf changes by path', () => {
+      const changes = diffFields({ a: 1, b: { c: 'x', d: true } }, { a: 1, b: { c: 'y' } });
+
+      expect(changes).toEqual([
+        { path: 'b.c', oldValue: 'x', newValue: 'y' },
+        { path: 'b.d', oldValue: true, newValue: undefined },
+      ]);
+    });
+
+    test('should compare arrays as whole values', () => {
+      expect(diffFields({ rules: [1, 2] }, { rules: [1, 2] })).toEqual([]);
+      expect(diffFields({ rules: [1, 2] }, { rules: [2, 1] })).toHaveLength(1);
+    });
+  });
+
+  describe('diffVersions', () => {
+    test('should report no changes for identical versions', () => {
+      const deps = [makeQueueDep('orders', 30)];
+      const diff = diffVersions(makeVersion('v1.0.0', deps), makeVersion('v1.0.1', deps));
+
+      expect(diff.hasChanges).toBe(false);
+      expect(diff.dependencies.changed).toHaveLength(0);
+    });
+
+    test('should detect added, removed and changed dependencies', () => {
+      const from = makeVersion('v1.0.0', [makeQueueDep('orders', 30), makeQueueDep('legacy', 30)]);
+      const to = makeVersion('v1.1.0', [makeQueueDep('orders', 60), makeQueueDep('billing', 30)]);
+
+      const diff = diffVersions(from, to);
+
+      expect(diff.hasChanges).toBe(true);
+      expect(diff.dependencies.added.map((d) => d.name)).toEqual(['billing']);
+      expect(diff.dependencies.removed.map((d) => d.name)).toEqual(['legacy']);
+      expect(diff.dependencies.changed).toEqual([
+        {
+          name: 'orders',
+          configurationChanges: [{ path: 'visibilityTimeout', oldValue: 30, newValue: 60 }],
+        },
+      ]);
+    });
+
+    test('should detect policy content and status changes', () => {
+      const policy = {
+        version: '1.0',
+        provider: 'aws' as const,
+        content: '{"Statement":[]}',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const from = makeVersion('v1.0.0', [makeQueueDep('orders', 30)]);
+      const to = makeVersion('v1.1.0', [
+        makeQueueDep('orders', 30, { policy, status: DependencyStatus.DEPLOYED }),
+      ]);
+
+      const change = diffVersions(from, to).dependencies.changed[0];
+
+      expect(change?.policyChange).toEqual({ newContent: '{"Statement":[]}' });
+      expect(change?.statusChange).toEqual({
+        oldStatus: DependencyStatus.PENDING,
+        newStatus: DependencyStatus.DEPLOYED,
+      });
+    });
+
+    test('should detect per-field app config changes', () => {
+      const from = makeVersion('v1.0.0', []);
+      const to = makeVersion('v1.1.0', []);
+      to.appConfig = { ...from.appConfig!, environment: Environment.PRODUCTION };
+
+      const diff = diffVersions(from, to);
+
+      expect(diff.appConfigChanges).toEqual([
+        {
+          path: 'environment',
+          oldValue: Environment.DEVELOPMENT,
+          newValue: Environment.PRODUCTION,
+        },
+      ]);
+    });
+
+    test('should not diff the app config of versions that did not store it', () => {
+      const from = makeVersion('v1.0.0', []);
+      const to = makeVersion('v1.1.0', []);
+      delete from.appConfig;
+
+      const diff = diffVersions(from, to);
+
+      expect(diff.appConfigChanges).toEqual([]);
+      expect(diff.hasChanges).toBe(false);
+    });
+  });
+});